@@ -0,0 +1,22 @@
+CREATE TABLE "websurfing_webhook_delivery" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"sheet_id" uuid NOT NULL,
+	"event_type" varchar(50) NOT NULL,
+	"url" varchar(500) NOT NULL,
+	"payload" jsonb NOT NULL,
+	"status" varchar(20) DEFAULT 'pending' NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"response_status" integer,
+	"response_body" text,
+	"last_error" text,
+	"next_attempt_at" timestamp with time zone DEFAULT now(),
+	"last_attempt_at" timestamp with time zone,
+	"delivered_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "websurfing_sheet" ADD COLUMN "webhook_secret" varchar(64);--> statement-breakpoint
+ALTER TABLE "websurfing_webhook_delivery" ADD CONSTRAINT "websurfing_webhook_delivery_sheet_id_websurfing_sheet_id_fk" FOREIGN KEY ("sheet_id") REFERENCES "public"."websurfing_sheet"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "webhook_delivery_sheet_idx" ON "websurfing_webhook_delivery" USING btree ("sheet_id");--> statement-breakpoint
+CREATE INDEX "webhook_delivery_status_idx" ON "websurfing_webhook_delivery" USING btree ("status","next_attempt_at");--> statement-breakpoint
+CREATE INDEX "webhook_delivery_created_idx" ON "websurfing_webhook_delivery" USING btree ("created_at");
\ No newline at end of file
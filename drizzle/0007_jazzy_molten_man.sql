@@ -0,0 +1,4 @@
+ALTER TABLE "websurfing_gemini_usage_log" ADD COLUMN "sheet_id" uuid;--> statement-breakpoint
+ALTER TABLE "websurfing_gemini_usage_log" ADD COLUMN "col_index" integer;--> statement-breakpoint
+ALTER TABLE "websurfing_gemini_usage_log" ADD CONSTRAINT "websurfing_gemini_usage_log_sheet_id_websurfing_sheet_id_fk" FOREIGN KEY ("sheet_id") REFERENCES "public"."websurfing_sheet"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "gemini_usage_sheet_idx" ON "websurfing_gemini_usage_log" USING btree ("sheet_id","created_at");
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE "websurfing_sheet" ADD COLUMN "monthly_budget_usd" numeric(10, 2);--> statement-breakpoint
+ALTER TABLE "websurfing_sheet" ADD COLUMN "monthly_token_budget" integer;--> statement-breakpoint
+ALTER TABLE "websurfing_user" ADD COLUMN "monthly_budget_usd" numeric(10, 2);--> statement-breakpoint
+ALTER TABLE "websurfing_user" ADD COLUMN "monthly_token_budget" integer;
\ No newline at end of file
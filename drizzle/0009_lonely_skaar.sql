@@ -0,0 +1 @@
+ALTER TABLE "websurfing_event_queue" ALTER COLUMN "status" SET DATA TYPE varchar(30);
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "websurfing_event_queue" ADD COLUMN "next_attempt_at" timestamp with time zone;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "websurfing_event_queue" ADD COLUMN "operator_name" varchar(50);--> statement-breakpoint
+ALTER TABLE "websurfing_event_queue" ADD COLUMN "last_prompt" text;
\ No newline at end of file
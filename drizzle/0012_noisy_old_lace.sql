@@ -0,0 +1,2 @@
+ALTER TABLE "websurfing_event_queue" ADD COLUMN "locked_by" varchar(100);--> statement-breakpoint
+ALTER TABLE "websurfing_event_queue" ADD COLUMN "locked_until" timestamp with time zone;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "websurfing_sheet" ADD COLUMN "max_concurrency" integer;
\ No newline at end of file
@@ -0,0 +1,11 @@
+CREATE TABLE "websurfing_sheet_change" (
+	"id" bigserial PRIMARY KEY NOT NULL,
+	"sheet_id" uuid NOT NULL,
+	"type" varchar(30) NOT NULL,
+	"data" jsonb NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "websurfing_sheet_change" ADD CONSTRAINT "websurfing_sheet_change_sheet_id_websurfing_sheet_id_fk" FOREIGN KEY ("sheet_id") REFERENCES "public"."websurfing_sheet"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "sheet_change_sheet_idx" ON "websurfing_sheet_change" USING btree ("sheet_id","id");--> statement-breakpoint
+CREATE INDEX "sheet_change_created_idx" ON "websurfing_sheet_change" USING btree ("created_at");
\ No newline at end of file
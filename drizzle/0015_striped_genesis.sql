@@ -0,0 +1,41 @@
+CREATE TABLE "websurfing_sheet_invite" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"sheet_id" uuid NOT NULL,
+	"email" varchar(255) NOT NULL,
+	"role" varchar(20) DEFAULT 'viewer' NOT NULL,
+	"invited_by" varchar(255),
+	"created_at" timestamp with time zone DEFAULT now(),
+	CONSTRAINT "sheet_invite_unique" UNIQUE("sheet_id","email")
+);
+--> statement-breakpoint
+CREATE TABLE "websurfing_sheet_member" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"sheet_id" uuid NOT NULL,
+	"user_id" varchar(255) NOT NULL,
+	"role" varchar(20) DEFAULT 'viewer' NOT NULL,
+	"invited_by" varchar(255),
+	"created_at" timestamp with time zone DEFAULT now(),
+	"updated_at" timestamp with time zone DEFAULT now(),
+	CONSTRAINT "sheet_member_unique" UNIQUE("sheet_id","user_id")
+);
+--> statement-breakpoint
+ALTER TABLE "websurfing_cell" DROP CONSTRAINT "cell_unique_position";--> statement-breakpoint
+ALTER TABLE "websurfing_sheet_invite" ADD CONSTRAINT "websurfing_sheet_invite_sheet_id_websurfing_sheet_id_fk" FOREIGN KEY ("sheet_id") REFERENCES "public"."websurfing_sheet"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "websurfing_sheet_invite" ADD CONSTRAINT "websurfing_sheet_invite_invited_by_websurfing_user_id_fk" FOREIGN KEY ("invited_by") REFERENCES "public"."websurfing_user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "websurfing_sheet_member" ADD CONSTRAINT "websurfing_sheet_member_sheet_id_websurfing_sheet_id_fk" FOREIGN KEY ("sheet_id") REFERENCES "public"."websurfing_sheet"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "websurfing_sheet_member" ADD CONSTRAINT "websurfing_sheet_member_user_id_websurfing_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."websurfing_user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "websurfing_sheet_member" ADD CONSTRAINT "websurfing_sheet_member_invited_by_websurfing_user_id_fk" FOREIGN KEY ("invited_by") REFERENCES "public"."websurfing_user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "sheet_invite_email_idx" ON "websurfing_sheet_invite" USING btree ("email");--> statement-breakpoint
+CREATE INDEX "sheet_member_user_idx" ON "websurfing_sheet_member" USING btree ("user_id");--> statement-breakpoint
+-- Cells become one per position per sheet: keep the most recently written copy
+DELETE FROM "websurfing_cell" c
+USING "websurfing_cell" newer
+WHERE c."sheet_id" = newer."sheet_id"
+	AND c."row_index" = newer."row_index"
+	AND c."col_index" = newer."col_index"
+	AND (coalesce(c."updated_at", c."created_at"), c."id") < (coalesce(newer."updated_at", newer."created_at"), newer."id");--> statement-breakpoint
+ALTER TABLE "websurfing_cell" ADD CONSTRAINT "cell_unique_position" UNIQUE("sheet_id","row_index","col_index");--> statement-breakpoint
+-- Existing sheets are owned by their creator
+INSERT INTO "websurfing_sheet_member" ("sheet_id", "user_id", "role")
+SELECT "id", "user_id", 'owner' FROM "websurfing_sheet"
+ON CONFLICT DO NOTHING;
\ No newline at end of file
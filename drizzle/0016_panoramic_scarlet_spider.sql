@@ -0,0 +1,47 @@
+CREATE TABLE "websurfing_workspace_invite" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"workspace_id" uuid NOT NULL,
+	"email" varchar(255) NOT NULL,
+	"role" varchar(20) DEFAULT 'member' NOT NULL,
+	"invited_by" varchar(255),
+	"created_at" timestamp with time zone DEFAULT now(),
+	CONSTRAINT "workspace_invite_unique" UNIQUE("workspace_id","email")
+);
+--> statement-breakpoint
+CREATE TABLE "websurfing_workspace_member" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"workspace_id" uuid NOT NULL,
+	"user_id" varchar(255) NOT NULL,
+	"role" varchar(20) DEFAULT 'member' NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now(),
+	CONSTRAINT "workspace_member_unique" UNIQUE("workspace_id","user_id")
+);
+--> statement-breakpoint
+CREATE TABLE "websurfing_workspace" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" varchar(255) NOT NULL,
+	"created_by" varchar(255),
+	"monthly_budget_usd" numeric(10, 2),
+	"monthly_token_budget" integer,
+	"created_at" timestamp with time zone DEFAULT now(),
+	"updated_at" timestamp with time zone DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "websurfing_gemini_usage_log" ADD COLUMN "workspace_id" uuid;--> statement-breakpoint
+ALTER TABLE "websurfing_sheet" ADD COLUMN "workspace_id" uuid;--> statement-breakpoint
+ALTER TABLE "websurfing_template" ADD COLUMN "workspace_id" uuid;--> statement-breakpoint
+ALTER TABLE "websurfing_user" ADD COLUMN "active_workspace_id" uuid;--> statement-breakpoint
+ALTER TABLE "websurfing_workspace_invite" ADD CONSTRAINT "websurfing_workspace_invite_workspace_id_websurfing_workspace_id_fk" FOREIGN KEY ("workspace_id") REFERENCES "public"."websurfing_workspace"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "websurfing_workspace_invite" ADD CONSTRAINT "websurfing_workspace_invite_invited_by_websurfing_user_id_fk" FOREIGN KEY ("invited_by") REFERENCES "public"."websurfing_user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "websurfing_workspace_member" ADD CONSTRAINT "websurfing_workspace_member_workspace_id_websurfing_workspace_id_fk" FOREIGN KEY ("workspace_id") REFERENCES "public"."websurfing_workspace"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "websurfing_workspace_member" ADD CONSTRAINT "websurfing_workspace_member_user_id_websurfing_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."websurfing_user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "websurfing_workspace" ADD CONSTRAINT "websurfing_workspace_created_by_websurfing_user_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."websurfing_user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "workspace_invite_email_idx" ON "websurfing_workspace_invite" USING btree ("email");--> statement-breakpoint
+CREATE INDEX "workspace_member_user_idx" ON "websurfing_workspace_member" USING btree ("user_id");--> statement-breakpoint
+ALTER TABLE "websurfing_gemini_usage_log" ADD CONSTRAINT "websurfing_gemini_usage_log_workspace_id_websurfing_workspace_id_fk" FOREIGN KEY ("workspace_id") REFERENCES "public"."websurfing_workspace"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "websurfing_sheet" ADD CONSTRAINT "websurfing_sheet_workspace_id_websurfing_workspace_id_fk" FOREIGN KEY ("workspace_id") REFERENCES "public"."websurfing_workspace"("id") ON DELETE restrict ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "websurfing_template" ADD CONSTRAINT "websurfing_template_workspace_id_websurfing_workspace_id_fk" FOREIGN KEY ("workspace_id") REFERENCES "public"."websurfing_workspace"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "websurfing_user" ADD CONSTRAINT "websurfing_user_active_workspace_id_websurfing_workspace_id_fk" FOREIGN KEY ("active_workspace_id") REFERENCES "public"."websurfing_workspace"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "gemini_usage_workspace_idx" ON "websurfing_gemini_usage_log" USING btree ("workspace_id","created_at");--> statement-breakpoint
+CREATE INDEX "sheet_workspace_idx" ON "websurfing_sheet" USING btree ("workspace_id");--> statement-breakpoint
+CREATE INDEX "template_workspace_idx" ON "websurfing_template" USING btree ("workspace_id");
\ No newline at end of file
@@ -0,0 +1,33 @@
+CREATE TABLE "websurfing_api_key" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar(255),
+	"workspace_id" uuid,
+	"created_by" varchar(255),
+	"name" varchar(255) NOT NULL,
+	"prefix" varchar(16) NOT NULL,
+	"key_hash" varchar(64) NOT NULL,
+	"scopes" jsonb NOT NULL,
+	"sheet_id" uuid,
+	"expires_at" timestamp with time zone,
+	"last_used_at" timestamp with time zone,
+	"last_used_ip" varchar(64),
+	"revoked_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now(),
+	CONSTRAINT "websurfing_api_key_keyHash_unique" UNIQUE("key_hash")
+);
+--> statement-breakpoint
+ALTER TABLE "websurfing_user" DROP CONSTRAINT "websurfing_user_apiKey_unique";--> statement-breakpoint
+ALTER TABLE "websurfing_api_key" ADD CONSTRAINT "websurfing_api_key_user_id_websurfing_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."websurfing_user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "websurfing_api_key" ADD CONSTRAINT "websurfing_api_key_workspace_id_websurfing_workspace_id_fk" FOREIGN KEY ("workspace_id") REFERENCES "public"."websurfing_workspace"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "websurfing_api_key" ADD CONSTRAINT "websurfing_api_key_created_by_websurfing_user_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."websurfing_user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "websurfing_api_key" ADD CONSTRAINT "websurfing_api_key_sheet_id_websurfing_sheet_id_fk" FOREIGN KEY ("sheet_id") REFERENCES "public"."websurfing_sheet"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "api_key_user_idx" ON "websurfing_api_key" USING btree ("user_id");--> statement-breakpoint
+CREATE INDEX "api_key_workspace_idx" ON "websurfing_api_key" USING btree ("workspace_id");--> statement-breakpoint
+-- Existing keys keep working: store their hashes with full access
+INSERT INTO "websurfing_api_key" ("user_id", "created_by", "name", "prefix", "key_hash", "scopes", "created_at")
+SELECT "id", "id", 'Default key', left("api_key", 8), encode(sha256(convert_to("api_key", 'UTF8')), 'hex'),
+  '["read", "write_rows", "manage_sheets"]'::jsonb, coalesce("api_key_created_at", now())
+FROM "websurfing_user"
+WHERE "api_key" IS NOT NULL;--> statement-breakpoint
+ALTER TABLE "websurfing_user" DROP COLUMN "api_key";--> statement-breakpoint
+ALTER TABLE "websurfing_user" DROP COLUMN "api_key_created_at";
\ No newline at end of file
@@ -0,0 +1,13 @@
+CREATE TABLE "websurfing_api_key_usage" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"api_key_id" uuid NOT NULL,
+	"bucket" varchar(20) NOT NULL,
+	"window_start" timestamp with time zone NOT NULL,
+	"count" integer DEFAULT 0 NOT NULL,
+	CONSTRAINT "api_key_usage_window_unique" UNIQUE("api_key_id","bucket","window_start")
+);
+--> statement-breakpoint
+ALTER TABLE "websurfing_api_key" ADD COLUMN "rate_limit_per_minute" integer;--> statement-breakpoint
+ALTER TABLE "websurfing_api_key" ADD COLUMN "daily_row_quota" integer;--> statement-breakpoint
+ALTER TABLE "websurfing_api_key_usage" ADD CONSTRAINT "websurfing_api_key_usage_api_key_id_websurfing_api_key_id_fk" FOREIGN KEY ("api_key_id") REFERENCES "public"."websurfing_api_key"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "api_key_usage_window_idx" ON "websurfing_api_key_usage" USING btree ("window_start");
\ No newline at end of file
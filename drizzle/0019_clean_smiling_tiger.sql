@@ -0,0 +1,14 @@
+CREATE TABLE "websurfing_enrich_job" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"sheet_id" uuid NOT NULL,
+	"api_key_id" uuid,
+	"start_row" integer NOT NULL,
+	"row_count" integer NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now(),
+	"completed_at" timestamp with time zone
+);
+--> statement-breakpoint
+ALTER TABLE "websurfing_enrich_job" ADD CONSTRAINT "websurfing_enrich_job_sheet_id_websurfing_sheet_id_fk" FOREIGN KEY ("sheet_id") REFERENCES "public"."websurfing_sheet"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "websurfing_enrich_job" ADD CONSTRAINT "websurfing_enrich_job_api_key_id_websurfing_api_key_id_fk" FOREIGN KEY ("api_key_id") REFERENCES "public"."websurfing_api_key"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "enrich_job_sheet_idx" ON "websurfing_enrich_job" USING btree ("sheet_id");--> statement-breakpoint
+CREATE INDEX "enrich_job_created_idx" ON "websurfing_enrich_job" USING btree ("created_at");
\ No newline at end of file
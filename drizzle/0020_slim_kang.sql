@@ -0,0 +1,15 @@
+CREATE TABLE "websurfing_api_idempotency_key" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"api_key_id" uuid NOT NULL,
+	"key" varchar(255) NOT NULL,
+	"request_hash" varchar(64) NOT NULL,
+	"response_status" integer,
+	"response_body" jsonb,
+	"created_at" timestamp with time zone DEFAULT now(),
+	CONSTRAINT "api_idempotency_key_unique" UNIQUE("api_key_id","key")
+);
+--> statement-breakpoint
+ALTER TABLE "websurfing_column" ADD COLUMN "is_key" boolean DEFAULT false;--> statement-breakpoint
+ALTER TABLE "websurfing_enrich_job" ADD COLUMN "row_indexes" jsonb;--> statement-breakpoint
+ALTER TABLE "websurfing_api_idempotency_key" ADD CONSTRAINT "websurfing_api_idempotency_key_api_key_id_websurfing_api_key_id_fk" FOREIGN KEY ("api_key_id") REFERENCES "public"."websurfing_api_key"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "api_idempotency_key_created_idx" ON "websurfing_api_idempotency_key" USING btree ("created_at");
\ No newline at end of file
@@ -0,0 +1,14 @@
+CREATE TABLE "websurfing_operator_cache" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"operator_name" varchar(100) NOT NULL,
+	"model" varchar(100) NOT NULL,
+	"input_hash" varchar(64) NOT NULL,
+	"output" jsonb NOT NULL,
+	"hit_count" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now(),
+	"expires_at" timestamp with time zone NOT NULL,
+	CONSTRAINT "operator_cache_key_unique" UNIQUE("operator_name","model","input_hash")
+);
+--> statement-breakpoint
+ALTER TABLE "websurfing_column" ADD COLUMN "cache_results" boolean DEFAULT true;--> statement-breakpoint
+CREATE INDEX "operator_cache_expires_idx" ON "websurfing_operator_cache" USING btree ("expires_at");
\ No newline at end of file
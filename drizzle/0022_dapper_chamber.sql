@@ -0,0 +1 @@
+ALTER TABLE "websurfing_cell" ADD COLUMN "provenance" jsonb;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "websurfing_cell" ADD COLUMN "confidence" real;--> statement-breakpoint
+ALTER TABLE "websurfing_cell" ADD COLUMN "validation" jsonb;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "websurfing_sheet_updates" ADD COLUMN "previous_content" text;--> statement-breakpoint
+ALTER TABLE "websurfing_sheet_updates" ADD COLUMN "operator_name" varchar(100);
\ No newline at end of file
@@ -0,0 +1,15 @@
+CREATE TABLE "websurfing_sheet_snapshot" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"sheet_id" uuid NOT NULL,
+	"name" varchar(255) NOT NULL,
+	"trigger" varchar(50) DEFAULT 'manual' NOT NULL,
+	"created_by" varchar(255),
+	"columns" jsonb NOT NULL,
+	"cells" jsonb NOT NULL,
+	"cell_count" integer NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "websurfing_sheet_snapshot" ADD CONSTRAINT "websurfing_sheet_snapshot_sheet_id_websurfing_sheet_id_fk" FOREIGN KEY ("sheet_id") REFERENCES "public"."websurfing_sheet"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "websurfing_sheet_snapshot" ADD CONSTRAINT "websurfing_sheet_snapshot_created_by_websurfing_user_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."websurfing_user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "sheet_snapshot_sheet_idx" ON "websurfing_sheet_snapshot" USING btree ("sheet_id","created_at");
\ No newline at end of file
@@ -0,0 +1,16 @@
+CREATE TABLE "websurfing_agent_action" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"sheet_id" uuid NOT NULL,
+	"turn_id" varchar(255),
+	"tool" varchar(100) NOT NULL,
+	"description" text NOT NULL,
+	"status" varchar(20) DEFAULT 'applied' NOT NULL,
+	"undo_state" jsonb NOT NULL,
+	"redo_state" jsonb,
+	"created_at" timestamp with time zone DEFAULT now(),
+	"undone_at" timestamp with time zone
+);
+--> statement-breakpoint
+ALTER TABLE "websurfing_agent_action" ADD CONSTRAINT "websurfing_agent_action_sheet_id_websurfing_sheet_id_fk" FOREIGN KEY ("sheet_id") REFERENCES "public"."websurfing_sheet"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "agent_action_sheet_idx" ON "websurfing_agent_action" USING btree ("sheet_id","created_at");--> statement-breakpoint
+CREATE INDEX "agent_action_turn_idx" ON "websurfing_agent_action" USING btree ("turn_id");
\ No newline at end of file
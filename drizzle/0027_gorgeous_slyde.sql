@@ -0,0 +1 @@
+ALTER TABLE "websurfing_webhook_delivery" DROP COLUMN "response_body";
\ No newline at end of file
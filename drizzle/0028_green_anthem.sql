@@ -0,0 +1,2 @@
+ALTER TABLE "websurfing_webhook_delivery" ADD COLUMN "dedupe_key" varchar(100);--> statement-breakpoint
+ALTER TABLE "websurfing_webhook_delivery" ADD CONSTRAINT "webhook_delivery_dedupe_unique" UNIQUE("sheet_id","dedupe_key");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "websurfing_sheet_updates" ADD COLUMN "deleted_column_title" varchar(255);
\ No newline at end of file
@@ -0,0 +1,714 @@
+// Generated by scripts/generate-api-client.ts from src/lib/api-spec.ts.
+// Do not edit by hand: run `pnpm api:client` after changing the API.
+
+/**
+ * List sheets (GET /sheets)
+ */
+export type ListSheetsResponse = {
+  sheets: {
+    id: string;
+    name: string;
+    /** ISO 8601 timestamp */
+    createdAt: string;
+    role: "owner" | "editor" | "viewer" | null;
+    columnCount: number;
+    rowCount: number;
+  }[];
+};
+
+/**
+ * Create a sheet (POST /sheets)
+ */
+export type CreateSheetResponse = {
+  sheet: {
+    id: string;
+    name: string;
+    workspaceId: string | null;
+    templateId: string | null;
+    /** ISO 8601 timestamp */
+    createdAt: string | null;
+  };
+  columns: {
+    id: string;
+    title: string;
+    /** The colIndex of the column's cells */
+    position: number;
+    dataType: string;
+    operatorType: string | null;
+    operatorConfig?: unknown;
+    prompt: string | null;
+    /** Positions of the columns this one reads */
+    dependencies: number[] | null;
+    isRequired: boolean | null;
+    /** Rows added through the API upsert by this column */
+    isKey: boolean | null;
+    /** Reuse cached operator results for identical inputs */
+    cacheResults: boolean | null;
+    defaultValue: string | null;
+  }[];
+};
+
+export type CreateSheetRequest = {
+  name: string;
+  /** A public template, one of yours, or one shared with your workspace */
+  templateId?: string;
+  columns?: {
+    title: string;
+    position: number;
+    dataType?: "text" | "array" | "url" | "number";
+    operatorType?: "google_search" | "url_context" | "structured_output" | "function_calling" | null;
+    operatorConfig?: Record<string, unknown> | null;
+    prompt?: string | null;
+    /** Positions of the columns this one reads */
+    dependencies?: number[] | null;
+    isRequired?: boolean;
+    /** Rows added through the API upsert by this column; setting it unsets the previous key column */
+    isKey?: boolean;
+    /** Reuse cached operator results for identical inputs (default true); false always calls the model */
+    cacheResults?: boolean;
+    defaultValue?: string | null;
+  }[];
+};
+
+/**
+ * List columns (GET /sheets/{sheetId}/columns)
+ */
+export type ListColumnsResponse = {
+  columns: {
+    id: string;
+    title: string;
+    /** The colIndex of the column's cells */
+    position: number;
+    dataType: string;
+    operatorType: string | null;
+    operatorConfig?: unknown;
+    prompt: string | null;
+    /** Positions of the columns this one reads */
+    dependencies: number[] | null;
+    isRequired: boolean | null;
+    /** Rows added through the API upsert by this column */
+    isKey: boolean | null;
+    /** Reuse cached operator results for identical inputs */
+    cacheResults: boolean | null;
+    defaultValue: string | null;
+  }[];
+};
+
+/**
+ * Add a column (POST /sheets/{sheetId}/columns)
+ */
+export type CreateColumnResponse = {
+  column: {
+    id: string;
+    title: string;
+    /** The colIndex of the column's cells */
+    position: number;
+    dataType: string;
+    operatorType: string | null;
+    operatorConfig?: unknown;
+    prompt: string | null;
+    /** Positions of the columns this one reads */
+    dependencies: number[] | null;
+    isRequired: boolean | null;
+    /** Rows added through the API upsert by this column */
+    isKey: boolean | null;
+    /** Reuse cached operator results for identical inputs */
+    cacheResults: boolean | null;
+    defaultValue: string | null;
+  };
+};
+
+export type CreateColumnRequest = {
+  title: string;
+  /** Defaults to after the last column */
+  position?: number;
+  dataType?: "text" | "array" | "url" | "number";
+  operatorType?: "google_search" | "url_context" | "structured_output" | "function_calling" | null;
+  operatorConfig?: Record<string, unknown> | null;
+  prompt?: string | null;
+  /** Positions of the columns this one reads */
+  dependencies?: number[] | null;
+  isRequired?: boolean;
+  /** Rows added through the API upsert by this column; setting it unsets the previous key column */
+  isKey?: boolean;
+  /** Reuse cached operator results for identical inputs (default true); false always calls the model */
+  cacheResults?: boolean;
+  defaultValue?: string | null;
+};
+
+/**
+ * Update a column (PATCH /sheets/{sheetId}/columns/{columnId})
+ */
+export type UpdateColumnResponse = {
+  column: {
+    id: string;
+    title: string;
+    /** The colIndex of the column's cells */
+    position: number;
+    dataType: string;
+    operatorType: string | null;
+    operatorConfig?: unknown;
+    prompt: string | null;
+    /** Positions of the columns this one reads */
+    dependencies: number[] | null;
+    isRequired: boolean | null;
+    /** Rows added through the API upsert by this column */
+    isKey: boolean | null;
+    /** Reuse cached operator results for identical inputs */
+    cacheResults: boolean | null;
+    defaultValue: string | null;
+  };
+};
+
+export type UpdateColumnRequest = {
+  title?: string;
+  dataType?: "text" | "array" | "url" | "number";
+  operatorType?: "google_search" | "url_context" | "structured_output" | "function_calling" | null;
+  operatorConfig?: Record<string, unknown> | null;
+  prompt?: string | null;
+  /** Positions of the columns this one reads */
+  dependencies?: number[] | null;
+  isRequired?: boolean;
+  /** Rows added through the API upsert by this column; setting it unsets the previous key column */
+  isKey?: boolean;
+  /** Reuse cached operator results for identical inputs (default true); false always calls the model */
+  cacheResults?: boolean;
+  defaultValue?: string | null;
+};
+
+/**
+ * Delete a column (DELETE /sheets/{sheetId}/columns/{columnId})
+ */
+export type DeleteColumnResponse = {
+  success: true;
+  title: string;
+  position: number;
+  cellsDeleted: number;
+};
+
+/**
+ * Add rows (POST /sheets/{sheetId}/rows)
+ */
+export type AddRowsResponse = {
+  success: true;
+  rowsAdded: number;
+  /** Existing rows matched by the key column */
+  rowsUpdated: number;
+  /** Matched rows left untouched because they were already complete */
+  rowsSkipped: number;
+  cellsCreated: number;
+  startingRow: number;
+  /** The row each request row was written to, in request order */
+  rowIndexes: number[];
+  message: string;
+};
+
+export type AddRowsRequest = {
+  rows: ((string | number | boolean | null)[] | Record<string, string | number | boolean | null>)[];
+  /** With a key column: leave matching rows that already have every column filled untouched */
+  skipCompleteRows?: boolean;
+};
+
+/**
+ * Write cells (PATCH /sheets/{sheetId}/cells)
+ */
+export type UpdateCellsResponse = {
+  success: true;
+  cellsUpdated: number;
+  eventsQueued: number;
+};
+
+export type UpdateCellsRequest = {
+  cells: {
+    rowIndex: number;
+    colIndex: number;
+    content: string;
+  }[];
+  /** Queue non-empty cells for the sheet's operators */
+  process?: boolean;
+};
+
+/**
+ * Delete a row (DELETE /sheets/{sheetId}/rows/{rowIndex})
+ */
+export type DeleteRowResponse = {
+  success: true;
+  rowIndex: number;
+  cellsDeleted: number;
+};
+
+/**
+ * Reprocess a row or column (POST /sheets/{sheetId}/reprocess)
+ */
+export type ReprocessResponse = {
+  success: true;
+  rowsQueued: number;
+  message: string;
+};
+
+export type ReprocessRequest = {
+  /** Refill one row from its first column */
+  rowIndex?: number;
+  /** Refill one column for every row */
+  colIndex?: number;
+};
+
+/**
+ * Export sheet data (GET /sheets/{sheetId}/data)
+ */
+export type ExportDataResponse = {
+  sheetId: string;
+  sheetName: string;
+  columns: {
+    title: string;
+    position: number;
+  }[];
+  /** One array per row, one string per column */
+  rows: string[][];
+  rowCount: number;
+  columnCount: number;
+  /** With include=confidence: one array per row, one entry per sheet column; null where no operator wrote the value */
+  confidence?: ({
+    /** 0.0 - 1.0 */
+    confidence: number;
+    issues: string[];
+    suggestions: string[];
+  } | null)[][];
+};
+
+export type ExportDataQuery = {
+  /** Extra columns to export; "sources" adds a _sources column with the links behind each row's values, "confidence" a _confidence column with their scores */
+  include?: string;
+};
+
+/**
+ * Enrich rows (POST /sheets/{sheetId}/enrich)
+ */
+export type CreateEnrichJobResponse = {
+  jobId: string;
+  sheetId: string;
+  status: "processing";
+  startingRow: number;
+  rowCount: number;
+  /** GET it (with ?wait=60 to long-poll) for progress */
+  statusUrl: string;
+};
+
+export type CreateEnrichJobRequest = {
+  rows: ((string | number | boolean | null)[] | Record<string, string | number | boolean | null>)[];
+  /** With a key column: leave matching rows that already have every column filled untouched */
+  skipCompleteRows?: boolean;
+};
+
+/**
+ * Get an enrich job (GET /jobs/{jobId})
+ */
+export type GetEnrichJobResponse = {
+  jobId: string;
+  sheetId: string;
+  /** partial: every row finished, but some failed, await input or are paused by the budget */
+  status: "processing" | "completed" | "partial";
+  /** ISO 8601 timestamp */
+  createdAt: string | null;
+  /** ISO 8601 timestamp */
+  completedAt: string | null;
+  rowCount: number;
+  rowsFinished: number;
+  rowsCompleted: number;
+  columns: {
+    title: string;
+    position: number;
+  }[];
+  rows: {
+    rowIndex: number;
+    status: "pending" | "processing" | "completed" | "failed" | "awaiting_input" | "paused";
+    filledColumns: number;
+    /** One per column */
+    values: string[];
+    error: string | null;
+  }[];
+};
+
+export type GetEnrichJobQuery = {
+  /** Seconds to wait for every row to finish */
+  wait?: number;
+};
+
+/**
+ * Get the webhook (GET /sheets/{sheetId}/webhook)
+ */
+export type GetWebhookResponse = {
+  webhookUrl: string | null;
+  webhookEvents: string[];
+  /** Signs deliveries: X-Websurfing-Signature: t=<unix-seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>"> */
+  webhookSecret: string | null;
+};
+
+/**
+ * Configure the webhook (PUT /sheets/{sheetId}/webhook)
+ */
+export type SetWebhookResponse = {
+  webhookUrl: string | null;
+  webhookEvents: string[];
+  /** Signs deliveries: X-Websurfing-Signature: t=<unix-seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>"> */
+  webhookSecret: string | null;
+};
+
+export type SetWebhookRequest = {
+  /** Must resolve to a public address: loopback, private and link-local hosts are refused */
+  url: string;
+  /** Defaults to every event */
+  events?: ("row_complete" | "sheet_complete" | "error")[];
+};
+
+/**
+ * Disable the webhook (DELETE /sheets/{sheetId}/webhook)
+ */
+export type DeleteWebhookResponse = {
+  success: true;
+};
+
+/**
+ * List webhook deliveries (GET /sheets/{sheetId}/webhook/deliveries)
+ */
+export type ListWebhookDeliveriesResponse = {
+  deliveries: {
+    id: string;
+    eventType: string;
+    /** pending, delivered or failed */
+    status: string;
+    attempts: number;
+    responseStatus: number | null;
+    lastError: string | null;
+    /** ISO 8601 timestamp */
+    createdAt: string | null;
+    /** ISO 8601 timestamp */
+    lastAttemptAt: string | null;
+    /** ISO 8601 timestamp */
+    deliveredAt: string | null;
+    payload?: unknown;
+  }[];
+};
+
+export type ListWebhookDeliveriesQuery = {
+  limit?: number;
+};
+
+/**
+ * Send a test delivery (POST /sheets/{sheetId}/webhook/test)
+ */
+export type TestWebhookResponse = {
+  deliveryId: string;
+  /** pending, delivered or failed */
+  status: string;
+  responseStatus: number | null;
+  lastError: string | null;
+};
+
+export type ApiErrorResponse = {
+  error: string;
+};
+
+/**
+ * A non-2xx response from the API
+ */
+export class WebsurfingApiError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly retryAfter: number | null,
+  ) {
+    super(message);
+    this.name = 'WebsurfingApiError';
+  }
+}
+
+export interface WebsurfingClientOptions {
+  /** Where the app is served, e.g. https://app.example.com */
+  baseUrl: string;
+  apiKey: string;
+  /** Defaults to the global fetch */
+  fetch?: typeof fetch;
+}
+
+interface RequestOptions {
+  body?: unknown;
+  query?: Record<string, string | number | boolean | undefined>;
+  format?: 'csv';
+  /** Sent as the Idempotency-Key header, so a retried request isn't applied twice */
+  idempotencyKey?: string;
+}
+
+/**
+ * Typed client for the Websurfing API (v1.0.0)
+ */
+export class WebsurfingClient {
+  private readonly baseUrl: string;
+  private readonly apiKey: string;
+  private readonly fetchImpl: typeof fetch;
+
+  constructor(options: WebsurfingClientOptions) {
+    this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+    this.apiKey = options.apiKey;
+    // Calling the global fetch as a method throws in browsers, so wrap it
+    this.fetchImpl = options.fetch ?? ((input, init) => fetch(input, init));
+  }
+
+  private async request(method: string, path: string, options: RequestOptions = {}): Promise<Response> {
+    const url = new URL(`${this.baseUrl}/api/v1${path}`);
+    for (const [key, value] of Object.entries(options.query ?? {})) {
+      if (value !== undefined) {
+        url.searchParams.set(key, String(value));
+      }
+    }
+    if (options.format) {
+      url.searchParams.set('format', options.format);
+    }
+
+    const headers: Record<string, string> = { Authorization: `Bearer ${this.apiKey}` };
+    if (options.body !== undefined) {
+      headers['Content-Type'] = 'application/json';
+    }
+    if (options.idempotencyKey) {
+      headers['Idempotency-Key'] = options.idempotencyKey;
+    }
+
+    const response = await this.fetchImpl(url, {
+      method,
+      headers,
+      body: options.body === undefined ? undefined : JSON.stringify(options.body),
+    });
+
+    if (!response.ok) {
+      const payload = (await response.json().catch(() => null)) as Partial<ApiErrorResponse> | null;
+      const retryAfter = response.headers.get('Retry-After');
+      throw new WebsurfingApiError(
+        payload?.error ?? `Request failed with status ${response.status}`,
+        response.status,
+        retryAfter ? Number(retryAfter) : null,
+      );
+    }
+
+    return response;
+  }
+
+  /**
+   * List sheets
+   *
+   * Sheets the key can reach: a workspace key's workspace sheets, or the sheet a key is restricted to.
+   *
+   * Requires the `read` scope.
+   */
+  async listSheets(): Promise<ListSheetsResponse> {
+    const response = await this.request('GET', `/sheets`);
+    return (await response.json()) as ListSheetsResponse;
+  }
+
+  /**
+   * Create a sheet
+   *
+   * From a saved template or a list of columns. Personal keys create it in the key owner's personal space, workspace keys in the workspace. Keys restricted to one sheet can't create sheets.
+   *
+   * Requires the `manage_sheets` scope.
+   */
+  async createSheet(body: CreateSheetRequest): Promise<CreateSheetResponse> {
+    const response = await this.request('POST', `/sheets`, { body });
+    return (await response.json()) as CreateSheetResponse;
+  }
+
+  /**
+   * List columns
+   *
+   * A sheet's columns and their operator configuration, in order.
+   *
+   * Requires the `read` scope and viewer access to the sheet.
+   */
+  async listColumns(sheetId: string): Promise<ListColumnsResponse> {
+    const response = await this.request('GET', `/sheets/${encodeURIComponent(String(sheetId))}/columns`);
+    return (await response.json()) as ListColumnsResponse;
+  }
+
+  /**
+   * Add a column
+   *
+   * Goes after the last column. Existing rows are filled once the column is reprocessed.
+   *
+   * Requires the `manage_sheets` scope and editor access to the sheet.
+   */
+  async createColumn(sheetId: string, body: CreateColumnRequest): Promise<CreateColumnResponse> {
+    const response = await this.request('POST', `/sheets/${encodeURIComponent(String(sheetId))}/columns`, { body });
+    return (await response.json()) as CreateColumnResponse;
+  }
+
+  /**
+   * Update a column
+   *
+   * Only the fields sent change; null clears one. Filled cells keep their values until the column is reprocessed.
+   *
+   * Requires the `manage_sheets` scope and editor access to the sheet.
+   */
+  async updateColumn(sheetId: string, columnId: string, body: UpdateColumnRequest): Promise<UpdateColumnResponse> {
+    const response = await this.request('PATCH', `/sheets/${encodeURIComponent(String(sheetId))}/columns/${encodeURIComponent(String(columnId))}`, { body });
+    return (await response.json()) as UpdateColumnResponse;
+  }
+
+  /**
+   * Delete a column
+   *
+   * Deletes its cells and moves the columns to its right one position left. 409 while another column depends on it.
+   *
+   * Requires the `manage_sheets` scope and editor access to the sheet.
+   */
+  async deleteColumn(sheetId: string, columnId: string): Promise<DeleteColumnResponse> {
+    const response = await this.request('DELETE', `/sheets/${encodeURIComponent(String(sheetId))}/columns/${encodeURIComponent(String(columnId))}`);
+    return (await response.json()) as DeleteColumnResponse;
+  }
+
+  /**
+   * Add rows
+   *
+   * Appends rows after the last one; every non-empty cell is processed by the sheet's columns. If the sheet has a key column, a row whose key matches an existing row updates that row instead. At most 1000 rows per request (413), within the key's daily row quota (429).
+   *
+   * Requires the `write_rows` scope and editor access to the sheet.
+   */
+  async addRows(sheetId: string, body: AddRowsRequest, options: { idempotencyKey?: string } = {}): Promise<AddRowsResponse> {
+    const response = await this.request('POST', `/sheets/${encodeURIComponent(String(sheetId))}/rows`, { body, idempotencyKey: options.idempotencyKey });
+    return (await response.json()) as AddRowsResponse;
+  }
+
+  /**
+   * Write cells
+   *
+   * With process (the default), non-empty cells are queued like an edit in the app and each row touched counts against the daily row quota. Empty content clears a cell.
+   *
+   * Requires the `write_rows` scope and editor access to the sheet.
+   */
+  async updateCells(sheetId: string, body: UpdateCellsRequest): Promise<UpdateCellsResponse> {
+    const response = await this.request('PATCH', `/sheets/${encodeURIComponent(String(sheetId))}/cells`, { body });
+    return (await response.json()) as UpdateCellsResponse;
+  }
+
+  /**
+   * Delete a row
+   *
+   * Deletes its cells and pending processing. Other rows keep their rowIndex.
+   *
+   * Requires the `write_rows` scope and editor access to the sheet.
+   */
+  async deleteRow(sheetId: string, rowIndex: number): Promise<DeleteRowResponse> {
+    const response = await this.request('DELETE', `/sheets/${encodeURIComponent(String(sheetId))}/rows/${encodeURIComponent(String(rowIndex))}`);
+    return (await response.json()) as DeleteRowResponse;
+  }
+
+  /**
+   * Reprocess a row or column
+   *
+   * Clears and refills one row (except its first column) or one column for every row with data. Rows queued count against the daily row quota.
+   *
+   * Requires the `write_rows` scope and editor access to the sheet.
+   */
+  async reprocess(sheetId: string, body: ReprocessRequest): Promise<ReprocessResponse> {
+    const response = await this.request('POST', `/sheets/${encodeURIComponent(String(sheetId))}/reprocess`, { body });
+    return (await response.json()) as ReprocessResponse;
+  }
+
+  /**
+   * Export sheet data
+   *
+   * Every row as an array of strings, one per column; ?format=csv returns a CSV file instead. ?include=sources adds a _sources column with the links behind each row's values; ?include=confidence adds a _confidence column and, in JSON, each value's score with its validation issues.
+   *
+   * Requires the `read` scope and viewer access to the sheet.
+   */
+  async exportData(sheetId: string, query: ExportDataQuery = {}): Promise<ExportDataResponse> {
+    const response = await this.request('GET', `/sheets/${encodeURIComponent(String(sheetId))}/data`, { query });
+    return (await response.json()) as ExportDataResponse;
+  }
+
+  /**
+   * Export sheet data, as CSV
+   */
+  async exportDataCsv(sheetId: string, query: ExportDataQuery = {}): Promise<string> {
+    const response = await this.request('GET', `/sheets/${encodeURIComponent(String(sheetId))}/data`, { query, format: 'csv' });
+    return response.text();
+  }
+
+  /**
+   * Enrich rows
+   *
+   * Adds rows like POST /rows, but returns a job to follow them until every column is filled. Same limits as adding rows.
+   *
+   * Requires the `write_rows` scope and editor access to the sheet.
+   */
+  async createEnrichJob(sheetId: string, body: CreateEnrichJobRequest, options: { idempotencyKey?: string } = {}): Promise<CreateEnrichJobResponse> {
+    const response = await this.request('POST', `/sheets/${encodeURIComponent(String(sheetId))}/enrich`, { body, idempotencyKey: options.idempotencyKey });
+    return (await response.json()) as CreateEnrichJobResponse;
+  }
+
+  /**
+   * Get an enrich job
+   *
+   * Per-row progress and values. With ?wait, holds the request (up to 60 seconds) until every row has finished.
+   *
+   * Requires the `read` scope and viewer access to the sheet.
+   */
+  async getEnrichJob(jobId: string, query: GetEnrichJobQuery = {}): Promise<GetEnrichJobResponse> {
+    const response = await this.request('GET', `/jobs/${encodeURIComponent(String(jobId))}`, { query });
+    return (await response.json()) as GetEnrichJobResponse;
+  }
+
+  /**
+   * Get the webhook
+   *
+   * Requires the `manage_sheets` scope and owner access to the sheet.
+   */
+  async getWebhook(sheetId: string): Promise<GetWebhookResponse> {
+    const response = await this.request('GET', `/sheets/${encodeURIComponent(String(sheetId))}/webhook`);
+    return (await response.json()) as GetWebhookResponse;
+  }
+
+  /**
+   * Configure the webhook
+   *
+   * Deliveries are POSTed as JSON and signed with the returned secret.
+   *
+   * Requires the `manage_sheets` scope and owner access to the sheet.
+   */
+  async setWebhook(sheetId: string, body: SetWebhookRequest): Promise<SetWebhookResponse> {
+    const response = await this.request('PUT', `/sheets/${encodeURIComponent(String(sheetId))}/webhook`, { body });
+    return (await response.json()) as SetWebhookResponse;
+  }
+
+  /**
+   * Disable the webhook
+   *
+   * The signing secret is kept for re-enabling.
+   *
+   * Requires the `manage_sheets` scope and owner access to the sheet.
+   */
+  async deleteWebhook(sheetId: string): Promise<DeleteWebhookResponse> {
+    const response = await this.request('DELETE', `/sheets/${encodeURIComponent(String(sheetId))}/webhook`);
+    return (await response.json()) as DeleteWebhookResponse;
+  }
+
+  /**
+   * List webhook deliveries
+   *
+   * Newest first.
+   *
+   * Requires the `manage_sheets` scope and owner access to the sheet.
+   */
+  async listWebhookDeliveries(sheetId: string, query: ListWebhookDeliveriesQuery = {}): Promise<ListWebhookDeliveriesResponse> {
+    const response = await this.request('GET', `/sheets/${encodeURIComponent(String(sheetId))}/webhook/deliveries`, { query });
+    return (await response.json()) as ListWebhookDeliveriesResponse;
+  }
+
+  /**
+   * Send a test delivery
+   *
+   * Requires the `manage_sheets` scope and owner access to the sheet.
+   */
+  async testWebhook(sheetId: string): Promise<TestWebhookResponse> {
+    const response = await this.request('POST', `/sheets/${encodeURIComponent(String(sheetId))}/webhook/test`);
+    return (await response.json()) as TestWebhookResponse;
+  }
+}
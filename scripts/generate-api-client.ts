@@ -0,0 +1,296 @@
+import { readFileSync, writeFileSync } from "fs";
+import { resolve } from "path";
+import { buildOpenApiDocument } from "@/lib/api-spec";
+
+/**
+ * Generates packages/api-client/src/index.ts from the OpenAPI document:
+ * request/response types plus a WebsurfingClient with one method per operation.
+ *
+ *   pnpm api:client           regenerate
+ *   pnpm api:client --check   exit 1 if the committed client is out of date
+ */
+
+type JsonSchema = Record<string, unknown>;
+
+interface Parameter {
+  name: string;
+  in: 'path' | 'query' | 'header';
+  schema: JsonSchema;
+}
+
+interface Operation {
+  operationId: string;
+  summary: string;
+  description: string;
+  parameters?: Parameter[];
+  requestBody?: { content: { 'application/json': { schema: JsonSchema } } };
+  responses: Record<string, { content: Record<string, { schema: JsonSchema }> }>;
+}
+
+const OUTPUT_PATH = resolve(process.cwd(), 'packages/api-client/src/index.ts');
+
+function pascalCase(name: string) {
+  return name.charAt(0).toUpperCase() + name.slice(1);
+}
+
+function indent(text: string, depth: number) {
+  return text.replace(/\n/g, `\n${'  '.repeat(depth)}`);
+}
+
+function propertyKey(name: string) {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? name : JSON.stringify(name);
+}
+
+/**
+ * The TypeScript type for a JSON Schema (the subset zod-to-json-schema emits)
+ */
+function toTsType(schema: JsonSchema): string {
+  if ('const' in schema) return JSON.stringify(schema.const);
+  if (Array.isArray(schema.enum)) return schema.enum.map(value => JSON.stringify(value)).join(' | ');
+
+  const variants = (schema.anyOf ?? schema.oneOf) as JsonSchema[] | undefined;
+  if (variants) return union(variants.map(toTsType));
+  if (Array.isArray(schema.allOf)) return (schema.allOf as JsonSchema[]).map(part => wrapUnion(toTsType(part))).join(' & ');
+
+  if (Array.isArray(schema.type)) {
+    return union((schema.type as string[]).map(type => toTsType({ ...schema, type })));
+  }
+
+  switch (schema.type) {
+    case 'string':
+      return 'string';
+    case 'integer':
+    case 'number':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    case 'null':
+      return 'null';
+    case 'array': {
+      if (Array.isArray(schema.items)) {
+        return `[${(schema.items as JsonSchema[]).map(toTsType).join(', ')}]`;
+      }
+      return schema.items ? `${wrapUnion(toTsType(schema.items as JsonSchema))}[]` : 'unknown[]';
+    }
+    case 'object':
+      return objectType(schema);
+    default:
+      return 'unknown';
+  }
+}
+
+function union(types: string[]) {
+  // unknown already covers every other member
+  return types.includes('unknown') ? 'unknown' : [...new Set(types)].join(' | ');
+}
+
+function wrapUnion(type: string) {
+  // Only a top-level | or &; object members may contain their own
+  let depth = 0;
+  for (const char of type) {
+    if ('{[('.includes(char)) depth++;
+    else if ('}])'.includes(char)) depth--;
+    else if (depth === 0 && (char === '|' || char === '&')) return `(${type})`;
+  }
+  return type;
+}
+
+function objectType(schema: JsonSchema): string {
+  const properties = (schema.properties ?? {}) as Record<string, JsonSchema>;
+  const required = new Set((schema.required ?? []) as string[]);
+  const additional = schema.additionalProperties;
+
+  if (Object.keys(properties).length === 0) {
+    if (additional && typeof additional === 'object') {
+      return `Record<string, ${toTsType(additional as JsonSchema)}>`;
+    }
+    return 'Record<string, unknown>';
+  }
+
+  const lines = Object.entries(properties).map(([name, property]) => {
+    const doc = typeof property.description === 'string' ? `/** ${property.description} */\n` : '';
+    const optional = required.has(name) ? '' : '?';
+    return `${doc}${propertyKey(name)}${optional}: ${toTsType(property)};`;
+  });
+
+  return `{\n  ${indent(lines.join('\n'), 1)}\n}`;
+}
+
+function docComment(lines: string[], depth = 0) {
+  const pad = '  '.repeat(depth);
+  const body = lines
+    .flatMap(line => line.split('\n'))
+    .map(line => (line ? `${pad} * ${line}` : `${pad} *`));
+  return `${pad}/**\n${body.join('\n')}\n${pad} */`;
+}
+
+function generate() {
+  const document = buildOpenApiDocument('');
+  const types: string[] = [];
+  const methods: string[] = [];
+
+  for (const [path, pathItem] of Object.entries(document.paths)) {
+    for (const [method, value] of Object.entries(pathItem)) {
+      const op = value as Operation;
+      const name = pascalCase(op.operationId);
+      const pathParams = (op.parameters ?? []).filter(param => param.in === 'path');
+      const success = Object.entries(op.responses).find(([status]) => status.startsWith('2'))!;
+      const csv = 'text/csv' in success[1].content;
+      // CSV operations pick JSON or CSV by method, not by ?format
+      const queryParams = (op.parameters ?? []).filter(param => param.in === 'query' && !(csv && param.name === 'format'));
+      const idempotent = (op.parameters ?? []).some(param => param.in === 'header' && param.name === 'Idempotency-Key');
+
+      types.push(`${docComment([`${op.summary} (${method.toUpperCase()} ${path})`])}\nexport type ${name}Response = ${toTsType(success[1].content['application/json']!.schema)};`);
+
+      const args = pathParams.map(param => `${param.name}: ${toTsType(param.schema)}`);
+      if (op.requestBody) {
+        types.push(`export type ${name}Request = ${toTsType(op.requestBody.content['application/json'].schema)};`);
+        args.push(`body: ${name}Request`);
+      }
+      if (queryParams.length > 0) {
+        const query = objectType({
+          type: 'object',
+          properties: Object.fromEntries(queryParams.map(param => [param.name, param.schema])),
+        });
+        types.push(`export type ${name}Query = ${query};`);
+        args.push(`query: ${name}Query = {}`);
+      }
+      if (idempotent) {
+        args.push('options: { idempotencyKey?: string } = {}');
+      }
+
+      const urlPath = path.replace(/\{(\w+)\}/g, (_, param: string) => `\${encodeURIComponent(String(${param}))}`);
+      const options = [
+        op.requestBody ? 'body' : null,
+        queryParams.length > 0 ? 'query' : null,
+        idempotent ? 'idempotencyKey: options.idempotencyKey' : null,
+      ].filter(Boolean).join(', ');
+
+      methods.push([
+        docComment([op.summary, '', op.description], 1),
+        `  async ${op.operationId}(${args.join(', ')}): Promise<${name}Response> {`,
+        `    const response = await this.request('${method.toUpperCase()}', \`${urlPath}\`${options ? `, { ${options} }` : ''});`,
+        `    return (await response.json()) as ${name}Response;`,
+        `  }`,
+      ].join('\n'));
+
+      if (csv) {
+        methods.push([
+          docComment([`${op.summary}, as CSV`], 1),
+          `  async ${op.operationId}Csv(${args.join(', ')}): Promise<string> {`,
+          `    const response = await this.request('${method.toUpperCase()}', \`${urlPath}\`, { ${options ? `${options}, ` : ''}format: 'csv' });`,
+          `    return response.text();`,
+          `  }`,
+        ].join('\n'));
+      }
+    }
+  }
+
+  return `// Generated by scripts/generate-api-client.ts from src/lib/api-spec.ts.
+// Do not edit by hand: run \`pnpm api:client\` after changing the API.
+
+${types.join('\n\n')}
+
+export type ApiErrorResponse = ${toTsType(document.components.schemas.Error)};
+
+/**
+ * A non-2xx response from the API
+ */
+export class WebsurfingApiError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly retryAfter: number | null,
+  ) {
+    super(message);
+    this.name = 'WebsurfingApiError';
+  }
+}
+
+export interface WebsurfingClientOptions {
+  /** Where the app is served, e.g. https://app.example.com */
+  baseUrl: string;
+  apiKey: string;
+  /** Defaults to the global fetch */
+  fetch?: typeof fetch;
+}
+
+interface RequestOptions {
+  body?: unknown;
+  query?: Record<string, string | number | boolean | undefined>;
+  format?: 'csv';
+  /** Sent as the Idempotency-Key header, so a retried request isn't applied twice */
+  idempotencyKey?: string;
+}
+
+/**
+ * Typed client for the ${document.info.title} (v${document.info.version})
+ */
+export class WebsurfingClient {
+  private readonly baseUrl: string;
+  private readonly apiKey: string;
+  private readonly fetchImpl: typeof fetch;
+
+  constructor(options: WebsurfingClientOptions) {
+    this.baseUrl = options.baseUrl.replace(/\\/+$/, '');
+    this.apiKey = options.apiKey;
+    // Calling the global fetch as a method throws in browsers, so wrap it
+    this.fetchImpl = options.fetch ?? ((input, init) => fetch(input, init));
+  }
+
+  private async request(method: string, path: string, options: RequestOptions = {}): Promise<Response> {
+    const url = new URL(\`\${this.baseUrl}/api/v1\${path}\`);
+    for (const [key, value] of Object.entries(options.query ?? {})) {
+      if (value !== undefined) {
+        url.searchParams.set(key, String(value));
+      }
+    }
+    if (options.format) {
+      url.searchParams.set('format', options.format);
+    }
+
+    const headers: Record<string, string> = { Authorization: \`Bearer \${this.apiKey}\` };
+    if (options.body !== undefined) {
+      headers['Content-Type'] = 'application/json';
+    }
+    if (options.idempotencyKey) {
+      headers['Idempotency-Key'] = options.idempotencyKey;
+    }
+
+    const response = await this.fetchImpl(url, {
+      method,
+      headers,
+      body: options.body === undefined ? undefined : JSON.stringify(options.body),
+    });
+
+    if (!response.ok) {
+      const payload = (await response.json().catch(() => null)) as Partial<ApiErrorResponse> | null;
+      const retryAfter = response.headers.get('Retry-After');
+      throw new WebsurfingApiError(
+        payload?.error ?? \`Request failed with status \${response.status}\`,
+        response.status,
+        retryAfter ? Number(retryAfter) : null,
+      );
+    }
+
+    return response;
+  }
+
+${methods.join('\n\n')}
+}
+`;
+}
+
+const output = generate();
+
+if (process.argv.includes('--check')) {
+  const current = readFileSync(OUTPUT_PATH, 'utf8');
+  if (current !== output) {
+    console.error('packages/api-client is out of date; run `pnpm api:client`');
+    process.exit(1);
+  }
+  console.log('packages/api-client is up to date');
+} else {
+  writeFileSync(OUTPUT_PATH, output);
+  console.log(`Wrote ${OUTPUT_PATH}`);
+}
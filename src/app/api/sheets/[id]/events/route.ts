@@ -1,21 +1,29 @@
-import { NextRequest } from "next/server";
-import { db } from "@/server/db";
-import { eventQueue, sheetUpdates } from "@/server/db/schema";
-import { eq, and, desc } from "drizzle-orm";
+import type { NextRequest } from "next/server";
 import { auth } from "@/server/auth";
+import { getSheetRole } from "@/server/sheet-access";
+import { getSheetChangeFeed, type SheetChangeMessage } from "@/server/realtime/sheet-change-feed";
+
+const KEEPALIVE_INTERVAL = 25000;
+// Delivered change IDs remembered per connection (covers a full replay and its overlap)
+const DELIVERED_ID_LIMIT = 2000;
 
 /**
  * SSE endpoint for real-time sheet updates
  * Client subscribes to this endpoint to receive live updates about:
- * - Cell processing status
- * - Event queue changes
- * - Errors and completions
+ * - Cell content and processing status (cell_update)
+ * - Event queue changes (status_update)
+ *
+ * Changes are pushed via Postgres LISTEN/NOTIFY (see sheet-change-feed.ts).
+ * Each message carries the highest change ID sent so far as its SSE id, so a
+ * reconnecting EventSource resumes from Last-Event-ID without missing changes.
+ * Change IDs don't arrive in order (see sheet-change-feed.ts), so duplicates
+ * are recognised by ID rather than by comparing against the cursor.
  */
 export async function GET(
   request: NextRequest,
-  { params }: { params: { id: string } }
+  { params }: { params: Promise<{ id: string }> }
 ) {
-  const sheetId = params.id;
+  const { id: sheetId } = await params;
 
   // Verify authentication
   const session = await auth();
@@ -23,84 +31,92 @@ export async function GET(
     return new Response("Unauthorized", { status: 401 });
   }
 
-  // Create a ReadableStream for SSE
+  // Any member (viewers included) may watch the sheet
+  const role = await getSheetRole(sheetId, session.user.id);
+  if (!role) {
+    return new Response("Sheet not found", { status: 404 });
+  }
+
+  const feed = getSheetChangeFeed();
+  const lastEventIdHeader =
+    request.headers.get("last-event-id") ?? request.nextUrl.searchParams.get("lastEventId");
+  const lastEventId = lastEventIdHeader ? parseInt(lastEventIdHeader, 10) : NaN;
+
   const encoder = new TextEncoder();
-  let intervalId: NodeJS.Timeout;
+  let unsubscribe: (() => void) | undefined;
+  let keepaliveId: NodeJS.Timeout | undefined;
 
   const stream = new ReadableStream({
     async start(controller) {
-      // Send initial connection message
+      let cursor = 0;
+      const delivered = new Set<number>();
+      // Live changes that arrive while the backlog is replaying wait here
+      let buffered: SheetChangeMessage[] | null = [];
+
+      const send = (message: SheetChangeMessage) => {
+        // Replay and live delivery can overlap; never send a change twice
+        if (delivered.has(message.id)) {
+          return;
+        }
+        delivered.add(message.id);
+        if (delivered.size > DELIVERED_ID_LIMIT) {
+          // Sets iterate in insertion order, so this forgets the oldest
+          delivered.delete(delivered.values().next().value!);
+        }
+        cursor = Math.max(cursor, message.id);
+        controller.enqueue(encoder.encode(`id: ${cursor}\ndata: ${JSON.stringify(message)}\n\n`));
+      };
+
+      // Subscribe before reading the backlog so nothing slips between the two
+      unsubscribe = feed.subscribe(sheetId, (message) => {
+        if (buffered) {
+          buffered.push(message);
+        } else {
+          send(message);
+        }
+      });
+
+      try {
+        if (Number.isFinite(lastEventId)) {
+          cursor = lastEventId;
+          for (const message of await feed.replay(sheetId, lastEventId)) {
+            send(message);
+          }
+        } else {
+          cursor = await feed.latestId(sheetId);
+        }
+      } catch (error) {
+        console.error("[SheetEvents] Failed to replay changes:", error);
+        const errorData = JSON.stringify({
+          type: "error",
+          timestamp: new Date().toISOString(),
+          message: error instanceof Error ? error.message : "Unknown error",
+        });
+        controller.enqueue(encoder.encode(`data: ${errorData}\n\n`));
+      }
+
+      for (const message of buffered) {
+        send(message);
+      }
+      buffered = null;
+
+      // Send connection message (no id, so it doesn't move the client's cursor)
       const data = JSON.stringify({
         type: "connected",
         timestamp: new Date().toISOString(),
       });
       controller.enqueue(encoder.encode(`data: ${data}\n\n`));
 
-      // Poll database for changes every 2 seconds
-      intervalId = setInterval(async () => {
-        try {
-          // Get pending events
-          const pendingEvents = await db.query.eventQueue.findMany({
-            where: and(
-              eq(eventQueue.sheetId, sheetId),
-              eq(eventQueue.userId, session.user.id)
-            ),
-            orderBy: [desc(eventQueue.createdAt)],
-            limit: 20,
-          });
-
-          // Get recent updates
-          const recentUpdates = await db.query.sheetUpdates.findMany({
-            where: and(
-              eq(sheetUpdates.sheetId, sheetId),
-              eq(sheetUpdates.userId, session.user.id)
-            ),
-            orderBy: [desc(sheetUpdates.createdAt)],
-            limit: 10,
-          });
-
-          // Send update
-          const updateData = JSON.stringify({
-            type: "status_update",
-            timestamp: new Date().toISOString(),
-            data: {
-              pendingEvents: pendingEvents.map((e) => ({
-                id: e.id,
-                eventType: e.eventType,
-                status: e.status,
-                retryCount: e.retryCount,
-                lastError: e.lastError,
-                createdAt: e.createdAt,
-              })),
-              recentUpdates: recentUpdates.map((u) => ({
-                id: u.id,
-                rowIndex: u.rowIndex,
-                colIndex: u.colIndex,
-                content: u.content,
-                updateType: u.updateType,
-                createdAt: u.createdAt,
-                appliedAt: u.appliedAt,
-              })),
-            },
-          });
-
-          controller.enqueue(encoder.encode(`data: ${updateData}\n\n`));
-        } catch (error) {
-          console.error("Error in SSE polling:", error);
-          // Send error event
-          const errorData = JSON.stringify({
-            type: "error",
-            timestamp: new Date().toISOString(),
-            message: error instanceof Error ? error.message : "Unknown error",
-          });
-          controller.enqueue(encoder.encode(`data: ${errorData}\n\n`));
-        }
-      }, 2000);
+      // Comment lines keep proxies from closing an idle stream
+      keepaliveId = setInterval(() => {
+        controller.enqueue(encoder.encode(`: keepalive\n\n`));
+      }, KEEPALIVE_INTERVAL);
     },
     cancel() {
-      // Clean up interval when connection closes
-      if (intervalId) {
-        clearInterval(intervalId);
+      // Clean up subscription when connection closes
+      unsubscribe?.();
+      if (keepaliveId) {
+        clearInterval(keepaliveId);
       }
     },
   });
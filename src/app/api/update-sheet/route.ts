@@ -1,5 +1,10 @@
 import { SheetUpdater } from "@/server/sheet-updater";
+import { enforceSheetBudget } from "@/server/budgets/budget-guard";
 import { auth } from "@/server/auth";
+import { db } from "@/server/db";
+import { sheets } from "@/server/db/schema";
+import { getSheetRole } from "@/server/sheet-access";
+import { eq } from "drizzle-orm";
 import { NextResponse } from "next/server";
 import { NextRequest } from "next/server";
 
@@ -39,6 +44,29 @@ export async function POST(request: NextRequest) {
       }, { status: 400 });
     }
 
+    // Any member can kick processing of already-queued events
+    const role = await getSheetRole(sheetId, userId);
+    const sheet = role
+      ? await db.query.sheets.findFirst({ where: eq(sheets.id, sheetId), columns: { userId: true } })
+      : undefined;
+    if (!sheet) {
+      return NextResponse.json({
+        success: false,
+        error: 'Sheet not found or access denied'
+      }, { status: 404 });
+    }
+
+    // Don't let manual/UI-triggered updates bypass the spend budget (the owner's, for shared sheets)
+    const withinBudget = await enforceSheetBudget(sheet.userId, sheetId);
+    if (!withinBudget) {
+      return NextResponse.json({
+        success: false,
+        error: 'Budget exceeded',
+        appliedUpdates: [],
+        totalApplied: 0,
+      });
+    }
+
     const updater = new SheetUpdater();
     const result = await updater.updateSheet(userId, sheetId);
 
@@ -0,0 +1,97 @@
+import { authenticateApiKey, enforceRateLimit, authorizeSheetAccess, requireScope, parseQuery, apiErrorResponse, apiSuccessResponse } from "@/lib/api-auth";
+import { enrichJobQuerySchema, type EnrichJobResponse } from "@/lib/api-schemas";
+import type { NextRequest } from "next/server";
+import { findEnrichJob, waitForEnrichJob } from "@/server/enrich-jobs";
+
+/**
+ * GET /api/v1/jobs/{jobId}
+ * Progress of an enrich job, with its rows' current values
+ *
+ * Query Parameters:
+ *   - wait: seconds (up to 60) to hold the request until every row has
+ *     finished; without it the current progress is returned right away
+ *
+ * A row is finished once nothing is left queued for it: completed, failed,
+ * awaiting_input (a column asked a clarifying question) or paused (over budget).
+ *
+ * Headers:
+ *   Authorization: Bearer <api-key>
+ *
+ * Response:
+ * {
+ *   jobId: string,
+ *   sheetId: string,
+ *   status: "processing" | "completed" | "partial",
+ *   createdAt: string,
+ *   completedAt: string | null,
+ *   rowCount: number,
+ *   rowsFinished: number,
+ *   rowsCompleted: number,
+ *   columns: [{ title: string, position: number }],
+ *   rows: [
+ *     {
+ *       rowIndex: number,
+ *       status: "pending" | "processing" | "completed" | "failed" | "awaiting_input" | "paused",
+ *       filledColumns: number,
+ *       values: string[],   // One per column
+ *       error: string | null
+ *     }
+ *   ]
+ * }
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  // Authenticate
+  const auth = await authenticateApiKey(request);
+  if (auth.error !== undefined) {
+    return apiErrorResponse(auth.error, 401);
+  }
+
+  const rateLimit = await enforceRateLimit(auth);
+  if (rateLimit.limited) {
+    return rateLimit.limited;
+  }
+
+  const { jobId } = await params;
+
+  // Validate jobId format
+  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+  if (!uuidRegex.test(jobId)) {
+    return apiErrorResponse('Invalid job ID format', 400);
+  }
+
+  const query = parseQuery(request, enrichJobQuerySchema);
+  if (query.error) {
+    return query.error;
+  }
+
+  try {
+    const scopeDenied = requireScope(auth, 'read');
+    if (scopeDenied) {
+      return scopeDenied;
+    }
+
+    const job = await findEnrichJob(jobId);
+    if (!job) {
+      return apiErrorResponse('Job not found', 404, rateLimit.headers);
+    }
+
+    // Jobs are visible to whoever can read their sheet
+    const denied = await authorizeSheetAccess(auth, job.sheetId);
+    if (denied) {
+      return apiErrorResponse('Job not found', 404, rateLimit.headers);
+    }
+
+    const progress = await waitForEnrichJob(job, query.data.wait, request.signal);
+
+    return apiSuccessResponse<EnrichJobResponse>(progress, 200, rateLimit.headers);
+  } catch (error) {
+    console.error('Error fetching enrich job:', error);
+    return apiErrorResponse('Internal server error', 500);
+  }
+}
+
+// Long-polling listens on the sheet change feed (Postgres LISTEN)
+export const runtime = "nodejs";
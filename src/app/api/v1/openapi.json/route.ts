@@ -0,0 +1,16 @@
+import { buildOpenApiDocument } from "@/lib/api-spec";
+import type { NextRequest } from "next/server";
+
+/**
+ * GET /api/v1/openapi.json
+ * The OpenAPI 3.1 description of the v1 API
+ *
+ * Public, so code generators and API tools can fetch it without a key.
+ */
+export function GET(request: NextRequest) {
+  const document = buildOpenApiDocument(new URL(request.url).origin);
+
+  return Response.json(document, {
+    headers: { 'Cache-Control': 'public, max-age=300' },
+  });
+}
@@ -0,0 +1,92 @@
+import { authenticateApiKey, enforceRateLimit, enforceRowQuota, authorizeSheetAccess, requireScope, parseJsonBody, apiErrorResponse, apiSuccessResponse } from "@/lib/api-auth";
+import { updateCellsSchema, type UpdateCellsResponse } from "@/lib/api-schemas";
+import type { NextRequest } from "next/server";
+import { writeCell } from "@/server/sheet-operations";
+
+/**
+ * PATCH /api/v1/sheets/{sheetId}/cells
+ * Write individual cells
+ *
+ * With process (the default), non-empty cells are queued for the sheet's
+ * operators just like an edit in the app, and each row touched that way counts
+ * against the key's daily row quota. Empty content clears a cell.
+ *
+ * Headers:
+ *   Authorization: Bearer <api-key>
+ *   Content-Type: application/json
+ *
+ * Body:
+ * {
+ *   cells: [
+ *     { rowIndex: 3, colIndex: 0, content: "Acme Inc" }   // at most 1000 cells
+ *   ],
+ *   process: true   // optional; false only stores the values
+ * }
+ *
+ * Response:
+ * { success: true, cellsUpdated: number, eventsQueued: number }
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ sheetId: string }> }
+) {
+  // Authenticate
+  const auth = await authenticateApiKey(request);
+  if (auth.error !== undefined) {
+    return apiErrorResponse(auth.error, 401);
+  }
+
+  const rateLimit = await enforceRateLimit(auth);
+  if (rateLimit.limited) {
+    return rateLimit.limited;
+  }
+
+  const { sheetId } = await params;
+
+  // Validate sheetId format
+  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+  if (!uuidRegex.test(sheetId)) {
+    return apiErrorResponse('Invalid sheet ID format', 400);
+  }
+
+  try {
+    const denied = requireScope(auth, 'write_rows') ?? await authorizeSheetAccess(auth, sheetId, 'editor');
+    if (denied) {
+      return denied;
+    }
+
+    const body = await parseJsonBody(request, updateCellsSchema);
+    if (body.error) {
+      return body.error;
+    }
+
+    const { cells, process } = body.data;
+
+    // Rows that will be sent to the operators count against the daily quota
+    if (process) {
+      const processedRows = new Set(cells.filter(cell => cell.content.trim()).map(cell => cell.rowIndex));
+      if (processedRows.size > 0) {
+        const overQuota = await enforceRowQuota(auth, processedRows.size);
+        if (overQuota) {
+          return overQuota;
+        }
+      }
+    }
+
+    let eventsQueued = 0;
+    for (const cell of cells) {
+      if (await writeCell(sheetId, auth.userId, cell, { process })) {
+        eventsQueued++;
+      }
+    }
+
+    return apiSuccessResponse<UpdateCellsResponse>({
+      success: true,
+      cellsUpdated: cells.length,
+      eventsQueued,
+    }, 200, rateLimit.headers);
+  } catch (error) {
+    console.error('Error updating cells:', error);
+    return apiErrorResponse('Internal server error', 500);
+  }
+}
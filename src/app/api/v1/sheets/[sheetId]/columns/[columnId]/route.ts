@@ -0,0 +1,137 @@
+import { authenticateApiKey, enforceRateLimit, authorizeSheetAccess, requireScope, parseJsonBody, apiErrorResponse, apiSuccessResponse } from "@/lib/api-auth";
+import { toApiColumn, updateColumnSchema, type ColumnResponse, type DeleteColumnResponse } from "@/lib/api-schemas";
+import type { NextRequest } from "next/server";
+import { deleteColumn, SheetOperationError, updateColumn } from "@/server/sheet-operations";
+
+/**
+ * PATCH /api/v1/sheets/{sheetId}/columns/{columnId}
+ * Rename a column or change its operator configuration
+ *
+ * Only the fields in the body change; send null to clear one. Cells already
+ * filled keep their values until the column is reprocessed.
+ *
+ * Headers:
+ *   Authorization: Bearer <api-key>
+ *   Content-Type: application/json
+ *
+ * Body (all optional):
+ * {
+ *   title: "Funding",
+ *   dataType: "text",
+ *   operatorType: "google_search",
+ *   operatorConfig: { ... },
+ *   prompt: "Latest funding round",
+ *   dependencies: [0, 1],
+ *   isRequired: false,
+ *   defaultValue: null
+ * }
+ *
+ * Response:
+ * { column: { id, title, position, ... } }
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ sheetId: string; columnId: string }> }
+) {
+  // Authenticate
+  const auth = await authenticateApiKey(request);
+  if (auth.error !== undefined) {
+    return apiErrorResponse(auth.error, 401);
+  }
+
+  const rateLimit = await enforceRateLimit(auth);
+  if (rateLimit.limited) {
+    return rateLimit.limited;
+  }
+
+  const { sheetId, columnId } = await params;
+
+  // Validate ID formats
+  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+  if (!uuidRegex.test(sheetId) || !uuidRegex.test(columnId)) {
+    return apiErrorResponse('Invalid sheet or column ID format', 400);
+  }
+
+  try {
+    const denied = requireScope(auth, 'manage_sheets') ?? await authorizeSheetAccess(auth, sheetId, 'editor');
+    if (denied) {
+      return denied;
+    }
+
+    const body = await parseJsonBody(request, updateColumnSchema);
+    if (body.error) {
+      return body.error;
+    }
+
+    const column = await updateColumn(sheetId, columnId, body.data);
+
+    return apiSuccessResponse<ColumnResponse>({
+      column: toApiColumn(column),
+    }, 200, rateLimit.headers);
+  } catch (error) {
+    if (error instanceof SheetOperationError) {
+      return apiErrorResponse(error.message, error.status, rateLimit.headers);
+    }
+    console.error('Error updating column:', error);
+    return apiErrorResponse('Internal server error', 500);
+  }
+}
+
+/**
+ * DELETE /api/v1/sheets/{sheetId}/columns/{columnId}
+ * Delete a column and its cells
+ *
+ * Columns to its right move one position left (their cells' colIndex too).
+ * Fails with 409 while another column lists it in its dependencies.
+ *
+ * Headers:
+ *   Authorization: Bearer <api-key>
+ *
+ * Response:
+ * { success: true, title: string, position: number, cellsDeleted: number }
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ sheetId: string; columnId: string }> }
+) {
+  // Authenticate
+  const auth = await authenticateApiKey(request);
+  if (auth.error !== undefined) {
+    return apiErrorResponse(auth.error, 401);
+  }
+
+  const rateLimit = await enforceRateLimit(auth);
+  if (rateLimit.limited) {
+    return rateLimit.limited;
+  }
+
+  const { sheetId, columnId } = await params;
+
+  // Validate ID formats
+  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+  if (!uuidRegex.test(sheetId) || !uuidRegex.test(columnId)) {
+    return apiErrorResponse('Invalid sheet or column ID format', 400);
+  }
+
+  try {
+    const denied = requireScope(auth, 'manage_sheets') ?? await authorizeSheetAccess(auth, sheetId, 'editor');
+    if (denied) {
+      return denied;
+    }
+
+    const deleted = await deleteColumn(sheetId, columnId);
+
+    console.log(`[API] Key ${auth.keyId} deleted column "${deleted.title}" from sheet ${sheetId}`);
+
+    return apiSuccessResponse<DeleteColumnResponse>({
+      success: true,
+      ...deleted,
+    }, 200, rateLimit.headers);
+  } catch (error) {
+    if (error instanceof SheetOperationError) {
+      return apiErrorResponse(error.message, error.status, rateLimit.headers);
+    }
+    console.error('Error deleting column:', error);
+    return apiErrorResponse('Internal server error', 500);
+  }
+}
@@ -0,0 +1,152 @@
+import { authenticateApiKey, enforceRateLimit, authorizeSheetAccess, requireScope, parseJsonBody, apiErrorResponse, apiSuccessResponse } from "@/lib/api-auth";
+import { createColumnSchema, toApiColumn, type ColumnResponse, type ListColumnsResponse } from "@/lib/api-schemas";
+import { db } from "@/server/db";
+import { columns } from "@/server/db/schema";
+import { eq } from "drizzle-orm";
+import type { NextRequest } from "next/server";
+import { addColumn, SheetOperationError } from "@/server/sheet-operations";
+
+/**
+ * GET /api/v1/sheets/{sheetId}/columns
+ * List a sheet's columns and their operator configuration, in order
+ *
+ * Headers:
+ *   Authorization: Bearer <api-key>
+ *
+ * Response:
+ * {
+ *   columns: [
+ *     {
+ *       id: string,
+ *       title: string,
+ *       position: number,          // The colIndex of the column's cells
+ *       dataType: 'text' | 'array' | 'url' | 'number',
+ *       operatorType: string | null,
+ *       operatorConfig: object | null,
+ *       prompt: string | null,
+ *       dependencies: number[] | null,
+ *       isRequired: boolean,
+ *       defaultValue: string | null
+ *     }
+ *   ]
+ * }
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ sheetId: string }> }
+) {
+  // Authenticate
+  const auth = await authenticateApiKey(request);
+  if (auth.error !== undefined) {
+    return apiErrorResponse(auth.error, 401);
+  }
+
+  const rateLimit = await enforceRateLimit(auth);
+  if (rateLimit.limited) {
+    return rateLimit.limited;
+  }
+
+  const { sheetId } = await params;
+
+  // Validate sheetId format
+  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+  if (!uuidRegex.test(sheetId)) {
+    return apiErrorResponse('Invalid sheet ID format', 400);
+  }
+
+  try {
+    const denied = requireScope(auth, 'read') ?? await authorizeSheetAccess(auth, sheetId);
+    if (denied) {
+      return denied;
+    }
+
+    const sheetColumns = await db
+      .select()
+      .from(columns)
+      .where(eq(columns.sheetId, sheetId))
+      .orderBy(columns.position);
+
+    return apiSuccessResponse<ListColumnsResponse>({
+      columns: sheetColumns.map(toApiColumn),
+    }, 200, rateLimit.headers);
+  } catch (error) {
+    console.error('Error fetching columns:', error);
+    return apiErrorResponse('Internal server error', 500);
+  }
+}
+
+/**
+ * POST /api/v1/sheets/{sheetId}/columns
+ * Add a column after the sheet's last one
+ *
+ * Existing rows aren't filled automatically; call /reprocess with the new
+ * column's colIndex to fill it.
+ *
+ * Headers:
+ *   Authorization: Bearer <api-key>
+ *   Content-Type: application/json
+ *
+ * Body:
+ * {
+ *   title: "Funding",
+ *   dataType: "text",                   // optional: text | array | url | number
+ *   operatorType: "google_search",      // optional: google_search | url_context | structured_output | function_calling
+ *   operatorConfig: { ... },            // optional
+ *   prompt: "Latest funding round",     // optional
+ *   dependencies: [0, 1],               // optional: positions of the columns it reads
+ *   isRequired: false,                  // optional
+ *   defaultValue: null                  // optional
+ * }
+ *
+ * Response (201):
+ * { column: { id, title, position, ... } }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ sheetId: string }> }
+) {
+  // Authenticate
+  const auth = await authenticateApiKey(request);
+  if (auth.error !== undefined) {
+    return apiErrorResponse(auth.error, 401);
+  }
+
+  const rateLimit = await enforceRateLimit(auth);
+  if (rateLimit.limited) {
+    return rateLimit.limited;
+  }
+
+  const { sheetId } = await params;
+
+  // Validate sheetId format
+  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+  if (!uuidRegex.test(sheetId)) {
+    return apiErrorResponse('Invalid sheet ID format', 400);
+  }
+
+  try {
+    const denied = requireScope(auth, 'manage_sheets') ?? await authorizeSheetAccess(auth, sheetId, 'editor');
+    if (denied) {
+      return denied;
+    }
+
+    const body = await parseJsonBody(request, createColumnSchema);
+    if (body.error) {
+      return body.error;
+    }
+
+    const column = await addColumn(sheetId, body.data);
+
+    console.log(`[API] Key ${auth.keyId} added column "${column.title}" to sheet ${sheetId}`);
+
+    return apiSuccessResponse<ColumnResponse>({
+      column: toApiColumn(column),
+    }, 201, rateLimit.headers);
+  } catch (error) {
+    if (error instanceof SheetOperationError) {
+      return apiErrorResponse(error.message, error.status, rateLimit.headers);
+    }
+    console.error('Error adding column:', error);
+    return apiErrorResponse('Internal server error', 500);
+  }
+}
@@ -1,9 +1,13 @@
-import { authenticateApiKey, apiErrorResponse, apiSuccessResponse } from "@/lib/api-auth";
+import { authenticateApiKey, enforceRateLimit, authorizeSheetAccess, requireScope, parseQuery, apiErrorResponse, apiSuccessResponse } from "@/lib/api-auth";
+import { exportDataQuerySchema, type ExportDataResponse } from "@/lib/api-schemas";
 import { db } from "@/server/db";
 import { sheets, cells, columns } from "@/server/db/schema";
-import { eq, and } from "drizzle-orm";
+import { eq } from "drizzle-orm";
 import { NextRequest } from "next/server";
 import Papa from "papaparse";
+import { SOURCES_COLUMN_TITLE, formatRowSources } from "@/lib/cell-sources";
+import { CONFIDENCE_COLUMN_TITLE, formatRowConfidence } from "@/lib/cell-confidence";
+import type { CellProvenance, CellValidation } from "@/types/spreadsheet";
 
 /**
  * GET /api/v1/sheets/{sheetId}/data
@@ -14,6 +18,10 @@ import Papa from "papaparse";
  *
  * Query Parameters:
  *   format: "json" | "csv" (default: "json")
+ *   include: comma-separated extra columns, appended in this order
+ *     "sources": a "_sources" column: "Column: url url; Column: url"
+ *     "confidence": a "_confidence" column: "Column: 0.42; Column: 0.95", and
+ *       in JSON a "confidence" array with each value's score, issues and suggestions
  *
  * Response (JSON format):
  * {
@@ -35,10 +43,15 @@ export async function GET(
 ) {
   // Authenticate
   const auth = await authenticateApiKey(request);
-  if (auth.error) {
+  if (auth.error !== undefined) {
     return apiErrorResponse(auth.error, 401);
   }
 
+  const rateLimit = await enforceRateLimit(auth);
+  if (rateLimit.limited) {
+    return rateLimit.limited;
+  }
+
   const { sheetId } = await params;
 
   // Validate sheetId format
@@ -47,21 +60,22 @@ export async function GET(
     return apiErrorResponse('Invalid sheet ID format', 400);
   }
 
-  // Get format from query params
-  const { searchParams } = new URL(request.url);
-  const format = searchParams.get('format') || 'json';
-
-  if (format !== 'json' && format !== 'csv') {
-    return apiErrorResponse('Invalid format. Must be "json" or "csv"', 400);
+  const query = parseQuery(request, exportDataQuerySchema);
+  if (query.error) {
+    return query.error;
   }
+  const { format, include } = query.data;
+  const includeSources = include.includes('sources');
+  const includeConfidence = include.includes('confidence');
 
   try {
-    // Check if sheet exists and belongs to this user
+    const denied = requireScope(auth, 'read') ?? await authorizeSheetAccess(auth, sheetId, 'viewer');
+    if (denied) {
+      return denied;
+    }
+
     const sheet = await db.query.sheets.findFirst({
-      where: and(
-        eq(sheets.id, sheetId),
-        eq(sheets.userId, auth.userId)
-      ),
+      where: eq(sheets.id, sheetId),
     });
 
     if (!sheet) {
@@ -86,17 +100,28 @@ export async function GET(
         rowIndex: true,
         colIndex: true,
         content: true,
+        provenance: true,
+        confidence: true,
+        validation: true,
       },
     });
 
     // Build row data structure
     const rowsMap = new Map<number, Map<number, string>>();
+    const provenanceMap = new Map<string, CellProvenance>();
+    const confidenceMap = new Map<string, { confidence: number; validation: CellValidation | null }>();
 
     sheetCells.forEach((cell) => {
       if (!rowsMap.has(cell.rowIndex)) {
         rowsMap.set(cell.rowIndex, new Map());
       }
       rowsMap.get(cell.rowIndex)!.set(cell.colIndex, cell.content || '');
+      if (cell.provenance) {
+        provenanceMap.set(`${cell.rowIndex}-${cell.colIndex}`, cell.provenance);
+      }
+      if (cell.confidence !== null) {
+        confidenceMap.set(`${cell.rowIndex}-${cell.colIndex}`, { confidence: cell.confidence, validation: cell.validation });
+      }
     });
 
     // Convert to array of arrays
@@ -109,14 +134,35 @@ export async function GET(
       for (let colIdx = 0; colIdx <= maxColIndex; colIdx++) {
         rowArray.push(rowData.get(colIdx) || '');
       }
+      if (includeSources) {
+        rowArray.push(formatRowSources(sheetColumns.map((col) => ({
+          title: col.title,
+          provenance: provenanceMap.get(`${rowIndex}-${col.position}`),
+        }))));
+      }
+      if (includeConfidence) {
+        rowArray.push(formatRowConfidence(sheetColumns.map((col) => ({
+          title: col.title,
+          confidence: confidenceMap.get(`${rowIndex}-${col.position}`)?.confidence,
+        }))));
+      }
       return rowArray;
     });
 
+    const extraTitles = [
+      ...(includeSources ? [SOURCES_COLUMN_TITLE] : []),
+      ...(includeConfidence ? [CONFIDENCE_COLUMN_TITLE] : []),
+    ];
+    const exportColumns = [
+      ...sheetColumns,
+      ...extraTitles.map((title, i) => ({ title, position: sheetColumns.length + i })),
+    ];
+
     // Return based on format
     if (format === 'csv') {
       // Generate CSV
       const csvData = Papa.unparse({
-        fields: sheetColumns.map((col) => col.title),
+        fields: exportColumns.map((col) => col.title),
         data: rows,
       });
 
@@ -126,19 +172,32 @@ export async function GET(
         headers: {
           'Content-Type': 'text/csv',
           'Content-Disposition': `attachment; filename="${sheet.name.replace(/[^a-zA-Z0-9]/g, '_')}.csv"`,
+          ...rateLimit.headers,
         },
       });
     }
 
     // Return JSON format
-    return apiSuccessResponse({
+    return apiSuccessResponse<ExportDataResponse>({
       sheetId: sheet.id,
       sheetName: sheet.name,
-      columns: sheetColumns,
+      columns: exportColumns,
       rows,
       rowCount: rows.length,
-      columnCount: sheetColumns.length,
-    });
+      columnCount: exportColumns.length,
+      ...(includeConfidence && {
+        confidence: rowIndices.map((rowIndex) => sheetColumns.map((col) => {
+          const scored = confidenceMap.get(`${rowIndex}-${col.position}`);
+          return scored
+            ? {
+                confidence: scored.confidence,
+                issues: scored.validation?.issues.map((issue) => issue.message) ?? [],
+                suggestions: scored.validation?.suggestions ?? [],
+              }
+            : null;
+        })),
+      }),
+    }, 200, rateLimit.headers);
 
   } catch (error: any) {
     console.error('Error exporting sheet data:', error);
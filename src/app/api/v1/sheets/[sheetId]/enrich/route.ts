@@ -0,0 +1,107 @@
+import { authenticateApiKey, enforceRateLimit, enforceRowQuota, authorizeSheetAccess, requireScope, parseJsonBody, withIdempotencyKey, apiErrorResponse, apiSuccessResponse } from "@/lib/api-auth";
+import { addRowsSchema, type CreateEnrichJobResponse } from "@/lib/api-schemas";
+import { API_LIMITS } from "@/server/api-rate-limit";
+import type { NextRequest } from "next/server";
+import { createEnrichJob } from "@/server/enrich-jobs";
+import { SheetOperationError } from "@/server/sheet-operations";
+
+/**
+ * POST /api/v1/sheets/{sheetId}/enrich
+ * Add rows and get a job to follow until they're filled
+ *
+ * Takes the same body, limits and Idempotency-Key header as POST /rows, and
+ * upserts by the sheet's key column the same way. Poll the job with
+ * GET /api/v1/jobs/{jobId}?wait=60 to get the filled rows back as soon as
+ * every row has finished.
+ *
+ * Headers:
+ *   Authorization: Bearer <api-key>
+ *   Content-Type: application/json
+ *
+ * Body:
+ * {
+ *   rows: [
+ *     ["Acme Inc", "acme.com"],
+ *     { "0": "Globex" }
+ *   ]
+ * }
+ *
+ * Response (202):
+ * {
+ *   jobId: string,
+ *   sheetId: string,
+ *   status: "processing",
+ *   startingRow: number,
+ *   rowCount: number,
+ *   statusUrl: "/api/v1/jobs/{jobId}"
+ * }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ sheetId: string }> }
+) {
+  // Authenticate
+  const auth = await authenticateApiKey(request);
+  if (auth.error !== undefined) {
+    return apiErrorResponse(auth.error, 401);
+  }
+
+  const rateLimit = await enforceRateLimit(auth);
+  if (rateLimit.limited) {
+    return rateLimit.limited;
+  }
+
+  const { sheetId } = await params;
+
+  // Validate sheetId format
+  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+  if (!uuidRegex.test(sheetId)) {
+    return apiErrorResponse('Invalid sheet ID format', 400);
+  }
+
+  try {
+    const denied = requireScope(auth, 'write_rows') ?? await authorizeSheetAccess(auth, sheetId, 'editor');
+    if (denied) {
+      return denied;
+    }
+
+    const body = await parseJsonBody(request, addRowsSchema);
+    if (body.error) {
+      return body.error;
+    }
+
+    const { rows, skipCompleteRows } = body.data;
+
+    return await withIdempotencyKey(request, auth, body.data, async () => {
+      if (rows.length > API_LIMITS.maxRowsPerRequest) {
+        return apiErrorResponse(
+          `Too many rows: ${rows.length}. Send at most ${API_LIMITS.maxRowsPerRequest} rows per request.`,
+          413,
+          rateLimit.headers
+        );
+      }
+
+      const overQuota = await enforceRowQuota(auth, rows.length);
+      if (overQuota) {
+        return overQuota;
+      }
+
+      const job = await createEnrichJob(sheetId, auth.userId, auth.keyId, rows, { skipCompleteRows });
+
+      return apiSuccessResponse<CreateEnrichJobResponse>({
+        jobId: job.id,
+        sheetId,
+        status: 'processing',
+        startingRow: job.startRow,
+        rowCount: job.rowCount,
+        statusUrl: `/api/v1/jobs/${job.id}`,
+      }, 202, rateLimit.headers);
+    });
+  } catch (error) {
+    if (error instanceof SheetOperationError) {
+      return apiErrorResponse(error.message, error.status, rateLimit.headers);
+    }
+    console.error('Error creating enrich job:', error);
+    return apiErrorResponse('Internal server error', 500);
+  }
+}
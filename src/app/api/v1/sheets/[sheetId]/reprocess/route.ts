@@ -0,0 +1,99 @@
+import { authenticateApiKey, enforceRateLimit, enforceRowQuota, authorizeSheetAccess, requireScope, parseJsonBody, apiErrorResponse, apiSuccessResponse } from "@/lib/api-auth";
+import { reprocessSchema, type ReprocessResponse } from "@/lib/api-schemas";
+import type { NextRequest } from "next/server";
+import { findReprocessableRows, reprocessColumn, reprocessRow, SheetOperationError } from "@/server/sheet-operations";
+
+/**
+ * POST /api/v1/sheets/{sheetId}/reprocess
+ * Clear and refill a row or a column
+ *
+ * - rowIndex: clears the row (except its first column) and runs it again
+ * - colIndex: clears the column and refills it for every row with data
+ *
+ * Every row queued counts against the key's daily row quota.
+ *
+ * Headers:
+ *   Authorization: Bearer <api-key>
+ *   Content-Type: application/json
+ *
+ * Body (one of):
+ * { rowIndex: 3 }
+ * { colIndex: 2 }   // not 0: columns are filled from the one before
+ *
+ * Response (202):
+ * { success: true, rowsQueued: number, message: string }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ sheetId: string }> }
+) {
+  // Authenticate
+  const auth = await authenticateApiKey(request);
+  if (auth.error !== undefined) {
+    return apiErrorResponse(auth.error, 401);
+  }
+
+  const rateLimit = await enforceRateLimit(auth);
+  if (rateLimit.limited) {
+    return rateLimit.limited;
+  }
+
+  const { sheetId } = await params;
+
+  // Validate sheetId format
+  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+  if (!uuidRegex.test(sheetId)) {
+    return apiErrorResponse('Invalid sheet ID format', 400);
+  }
+
+  try {
+    const denied = requireScope(auth, 'write_rows') ?? await authorizeSheetAccess(auth, sheetId, 'editor');
+    if (denied) {
+      return denied;
+    }
+
+    const body = await parseJsonBody(request, reprocessSchema);
+    if (body.error) {
+      return body.error;
+    }
+
+    const { rowIndex, colIndex } = body.data;
+
+    if (rowIndex !== undefined) {
+      const overQuota = await enforceRowQuota(auth, 1);
+      if (overQuota) {
+        return overQuota;
+      }
+
+      await reprocessRow(sheetId, auth.userId, rowIndex);
+
+      return apiSuccessResponse<ReprocessResponse>({
+        success: true,
+        rowsQueued: 1,
+        message: `Row ${rowIndex} queued for reprocessing`,
+      }, 202, rateLimit.headers);
+    }
+
+    const rows = await findReprocessableRows(sheetId);
+    if (rows.length > 0) {
+      const overQuota = await enforceRowQuota(auth, rows.length);
+      if (overQuota) {
+        return overQuota;
+      }
+    }
+
+    const rowsQueued = await reprocessColumn(sheetId, auth.userId, colIndex!);
+
+    return apiSuccessResponse<ReprocessResponse>({
+      success: true,
+      rowsQueued,
+      message: `Queued ${rowsQueued} rows to refill column ${colIndex}`,
+    }, 202, rateLimit.headers);
+  } catch (error) {
+    if (error instanceof SheetOperationError) {
+      return apiErrorResponse(error.message, error.status, rateLimit.headers);
+    }
+    console.error('Error reprocessing:', error);
+    return apiErrorResponse('Internal server error', 500);
+  }
+}
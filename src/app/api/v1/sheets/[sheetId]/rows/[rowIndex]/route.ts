@@ -0,0 +1,67 @@
+import { authenticateApiKey, enforceRateLimit, authorizeSheetAccess, requireScope, apiErrorResponse, apiSuccessResponse } from "@/lib/api-auth";
+import type { DeleteRowResponse } from "@/lib/api-schemas";
+import type { NextRequest } from "next/server";
+import { deleteRow } from "@/server/sheet-operations";
+
+/**
+ * DELETE /api/v1/sheets/{sheetId}/rows/{rowIndex}
+ * Delete every cell in a row, along with its pending processing
+ *
+ * Other rows keep their rowIndex.
+ *
+ * Headers:
+ *   Authorization: Bearer <api-key>
+ *
+ * Response:
+ * { success: true, rowIndex: number, cellsDeleted: number }
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ sheetId: string; rowIndex: string }> }
+) {
+  // Authenticate
+  const auth = await authenticateApiKey(request);
+  if (auth.error !== undefined) {
+    return apiErrorResponse(auth.error, 401);
+  }
+
+  const rateLimit = await enforceRateLimit(auth);
+  if (rateLimit.limited) {
+    return rateLimit.limited;
+  }
+
+  const { sheetId, rowIndex: rowIndexParam } = await params;
+
+  // Validate sheetId format
+  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+  if (!uuidRegex.test(sheetId)) {
+    return apiErrorResponse('Invalid sheet ID format', 400);
+  }
+
+  if (!/^\d+$/.test(rowIndexParam)) {
+    return apiErrorResponse('Invalid row index', 400);
+  }
+  const rowIndex = parseInt(rowIndexParam, 10);
+
+  try {
+    const denied = requireScope(auth, 'write_rows') ?? await authorizeSheetAccess(auth, sheetId, 'editor');
+    if (denied) {
+      return denied;
+    }
+
+    const cellsDeleted = await deleteRow(sheetId, auth.userId, rowIndex);
+
+    if (cellsDeleted === 0) {
+      return apiErrorResponse(`Row ${rowIndex} not found`, 404, rateLimit.headers);
+    }
+
+    return apiSuccessResponse<DeleteRowResponse>({
+      success: true,
+      rowIndex,
+      cellsDeleted,
+    }, 200, rateLimit.headers);
+  } catch (error) {
+    console.error('Error deleting row:', error);
+    return apiErrorResponse('Internal server error', 500);
+  }
+}
@@ -1,8 +1,11 @@
-import { authenticateApiKey, apiErrorResponse, apiSuccessResponse } from "@/lib/api-auth";
+import { authenticateApiKey, enforceRateLimit, enforceRowQuota, authorizeSheetAccess, requireScope, parseJsonBody, withIdempotencyKey, apiErrorResponse, apiSuccessResponse } from "@/lib/api-auth";
+import { addRowsSchema, type AddRowsResponse } from "@/lib/api-schemas";
+import { API_LIMITS } from "@/server/api-rate-limit";
 import { db } from "@/server/db";
-import { sheets, cells, eventQueue, columns } from "@/server/db/schema";
-import { eq, and, sql } from "drizzle-orm";
+import { sheets } from "@/server/db/schema";
+import { eq } from "drizzle-orm";
 import { NextRequest } from "next/server";
+import { addRows, SheetOperationError } from "@/server/sheet-operations";
 
 /**
  * POST /api/v1/sheets/{sheetId}/rows
@@ -28,11 +31,25 @@ import { NextRequest } from "next/server";
  *   ]
  * }
  *
+ * Key column: if one of the sheet's columns is its key, a row whose value in
+ * that column matches an existing row (ignoring case) is written into that row
+ * instead of appended. Matches that already have every column filled are left
+ * alone unless the body sets "skipCompleteRows": false.
+ *
+ * Idempotency-Key header (optional): retrying with the same key replays the
+ * first response instead of adding the rows again.
+ *
+ * Limits: at most 1000 rows per request (413), and each key has a daily row
+ * quota (429 with Retry-After once used up).
+ *
  * Response:
  * {
  *   success: true,
  *   rowsAdded: 2,
+ *   rowsUpdated: 0,
+ *   rowsSkipped: 0,
  *   startingRow: 10,
+ *   rowIndexes: [10, 11],
  *   message: "Added 2 rows starting at row 10. AI operators will process the cells automatically."
  * }
  */
@@ -42,10 +59,15 @@ export async function POST(
 ) {
   // Authenticate
   const auth = await authenticateApiKey(request);
-  if (auth.error) {
+  if (auth.error !== undefined) {
     return apiErrorResponse(auth.error, 401);
   }
 
+  const rateLimit = await enforceRateLimit(auth);
+  if (rateLimit.limited) {
+    return rateLimit.limited;
+  }
+
   const { sheetId } = await params;
 
   // Validate sheetId format
@@ -55,147 +77,60 @@ export async function POST(
   }
 
   try {
-    // Check if sheet exists and belongs to this user
+    const denied = requireScope(auth, 'write_rows') ?? await authorizeSheetAccess(auth, sheetId, 'editor');
+    if (denied) {
+      return denied;
+    }
+
     const sheet = await db.query.sheets.findFirst({
-      where: and(
-        eq(sheets.id, sheetId),
-        eq(sheets.userId, auth.userId)
-      ),
+      where: eq(sheets.id, sheetId),
     });
 
     if (!sheet) {
       return apiErrorResponse('Sheet not found or unauthorized', 404);
     }
 
-    // Parse request body
-    let body;
-    try {
-      body = await request.json();
-    } catch {
-      return apiErrorResponse('Invalid JSON body', 400);
+    const body = await parseJsonBody(request, addRowsSchema);
+    if (body.error) {
+      return body.error;
     }
 
-    if (!body.rows || !Array.isArray(body.rows)) {
-      return apiErrorResponse('Missing or invalid "rows" field. Expected array of rows.', 400);
-    }
-
-    if (body.rows.length === 0) {
-      return apiErrorResponse('Rows array is empty', 400);
-    }
-
-    // Find the next available row index
-    const maxRowResult = await db
-      .select({ maxRow: sql<number>`COALESCE(MAX(${cells.rowIndex}), -1)` })
-      .from(cells)
-      .where(eq(cells.sheetId, sheetId));
-
-    const startingRowIndex = (maxRowResult[0]?.maxRow ?? -1) + 1;
-
-    // Prepare cell inserts
-    const cellInserts: Array<{
-      sheetId: string;
-      userId: string;
-      rowIndex: number;
-      colIndex: number;
-      content: string;
-    }> = [];
-
-    const eventInserts: Array<{
-      sheetId: string;
-      userId: string;
-      eventType: string;
-      payload: any;
-      status: string;
-    }> = [];
+    const { rows, skipCompleteRows } = body.data;
 
-    body.rows.forEach((row: any, rowIdx: number) => {
-      const currentRowIndex = startingRowIndex + rowIdx;
-
-      // Handle both object format { "0": "val", "1": "val" } and array format ["val", "val"]
-      let rowData: Record<number, string>;
-
-      if (Array.isArray(row)) {
-        // Convert array to object with indices
-        rowData = Object.fromEntries(
-          row.map((value, idx) => [idx, String(value)])
+    return await withIdempotencyKey(request, auth, body.data, async () => {
+      if (rows.length > API_LIMITS.maxRowsPerRequest) {
+        return apiErrorResponse(
+          `Too many rows: ${rows.length}. Send at most ${API_LIMITS.maxRowsPerRequest} rows per request.`,
+          413,
+          rateLimit.headers
         );
-      } else if (typeof row === 'object' && row !== null) {
-        // Already an object, convert keys to numbers
-        rowData = Object.fromEntries(
-          Object.entries(row).map(([key, value]) => [parseInt(key, 10), String(value)])
-        );
-      } else {
-        throw new Error(`Invalid row format at index ${rowIdx}. Expected object or array.`);
       }
 
-      // Create cell for each column in this row
-      Object.entries(rowData).forEach(([colIndexStr, content]) => {
-        const colIndex = parseInt(colIndexStr, 10);
-
-        if (isNaN(colIndex) || colIndex < 0) {
-          throw new Error(`Invalid column index "${colIndexStr}" in row ${rowIdx}`);
-        }
-
-        const trimmedContent = String(content).trim();
-        if (!trimmedContent) {
-          return; // Skip empty cells
-        }
-
-        cellInserts.push({
-          sheetId,
-          userId: auth.userId,
-          rowIndex: currentRowIndex,
-          colIndex,
-          content: trimmedContent,
-        });
-
-        // Create event for AI processing (matches cellRouter.updateCell pattern)
-        eventInserts.push({
-          sheetId,
-          userId: auth.userId,
-          eventType: 'user_cell_edit',
-          payload: {
-            spreadsheetId: sheetId,
-            rowIndex: currentRowIndex,
-            columnId: '',
-            colIndex,
-            content: trimmedContent,
-          },
-          status: 'pending',
-        });
-      });
-    });
-
-    if (cellInserts.length === 0) {
-      return apiErrorResponse('No valid cells to insert (all cells were empty)', 400);
-    }
+      // Every row counts against the key's daily quota, checked once the rows are known to be valid
+      const overQuota = await enforceRowQuota(auth, rows.length);
+      if (overQuota) {
+        return overQuota;
+      }
 
-    // Bulk insert cells (with conflict handling like cellRouter)
-    await db
-      .insert(cells)
-      .values(cellInserts)
-      .onConflictDoUpdate({
-        target: [cells.sheetId, cells.userId, cells.rowIndex, cells.colIndex],
-        set: {
-          content: sql`excluded.content`,
-          updatedAt: new Date(),
-        },
-      });
+      const result = await addRows(sheetId, auth.userId, rows, { skipCompleteRows });
 
-    // Bulk insert events for processing
-    if (eventInserts.length > 0) {
-      await db.insert(eventQueue).values(eventInserts);
-    }
+      const summary = [
+        `Added ${result.rowsAdded} rows starting at row ${result.startingRow}`,
+        result.rowsUpdated > 0 ? `updated ${result.rowsUpdated}` : null,
+        result.rowsSkipped > 0 ? `skipped ${result.rowsSkipped} already complete` : null,
+      ].filter(Boolean).join(', ');
 
-    return apiSuccessResponse({
-      success: true,
-      rowsAdded: body.rows.length,
-      cellsCreated: cellInserts.length,
-      startingRow: startingRowIndex,
-      message: `Added ${body.rows.length} rows starting at row ${startingRowIndex}. AI operators will process the cells automatically.`,
+      return apiSuccessResponse<AddRowsResponse>({
+        success: true,
+        ...result,
+        message: `${summary}. AI operators will process the cells automatically.`,
+      }, 200, rateLimit.headers);
     });
 
   } catch (error: any) {
+    if (error instanceof SheetOperationError) {
+      return apiErrorResponse(error.message, error.status, rateLimit.headers);
+    }
     console.error('Error adding rows:', error);
     return apiErrorResponse(
       error.message || 'Internal server error',
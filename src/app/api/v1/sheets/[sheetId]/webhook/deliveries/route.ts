@@ -0,0 +1,104 @@
+import { authenticateApiKey, enforceRateLimit, authorizeSheetAccess, requireScope, parseQuery, apiErrorResponse, apiSuccessResponse } from "@/lib/api-auth";
+import { listDeliveriesQuerySchema, type ListDeliveriesResponse } from "@/lib/api-schemas";
+import { db } from "@/server/db";
+import { sheets, webhookDeliveries } from "@/server/db/schema";
+import { eq, desc } from "drizzle-orm";
+import type { NextRequest } from "next/server";
+
+/**
+ * GET /api/v1/sheets/{sheetId}/webhook/deliveries
+ * List recent webhook deliveries for a sheet, newest first
+ *
+ * Headers:
+ *   Authorization: Bearer <api-key>
+ *
+ * Query Parameters:
+ *   limit: number (default: 25, max: 100)
+ *
+ * Response:
+ * {
+ *   deliveries: [{
+ *     id, eventType, status, attempts, responseStatus,
+ *     lastError, createdAt, lastAttemptAt, deliveredAt, payload
+ *   }]
+ * }
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ sheetId: string }> }
+) {
+  // Authenticate
+  const auth = await authenticateApiKey(request);
+  if (auth.error !== undefined) {
+    return apiErrorResponse(auth.error, 401);
+  }
+
+  const rateLimit = await enforceRateLimit(auth);
+  if (rateLimit.limited) {
+    return rateLimit.limited;
+  }
+
+  const { sheetId } = await params;
+
+  // Validate sheetId format
+  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+  if (!uuidRegex.test(sheetId)) {
+    return apiErrorResponse('Invalid sheet ID format', 400);
+  }
+
+  const query = parseQuery(request, listDeliveriesQuerySchema);
+  if (query.error) {
+    return query.error;
+  }
+  const { limit } = query.data;
+
+  try {
+    // Webhook settings include the signing secret, so they're owner-only
+    const denied = requireScope(auth, 'manage_sheets') ?? await authorizeSheetAccess(auth, sheetId, 'owner');
+    if (denied) {
+      return denied;
+    }
+
+    const sheet = await db.query.sheets.findFirst({
+      where: eq(sheets.id, sheetId),
+    });
+
+    if (!sheet) {
+      return apiErrorResponse('Sheet not found or unauthorized', 404);
+    }
+
+    const deliveries = await db
+      .select({
+        id: webhookDeliveries.id,
+        eventType: webhookDeliveries.eventType,
+        status: webhookDeliveries.status,
+        attempts: webhookDeliveries.attempts,
+        responseStatus: webhookDeliveries.responseStatus,
+        lastError: webhookDeliveries.lastError,
+        createdAt: webhookDeliveries.createdAt,
+        lastAttemptAt: webhookDeliveries.lastAttemptAt,
+        deliveredAt: webhookDeliveries.deliveredAt,
+        payload: webhookDeliveries.payload,
+      })
+      .from(webhookDeliveries)
+      .where(eq(webhookDeliveries.sheetId, sheetId))
+      .orderBy(desc(webhookDeliveries.createdAt))
+      .limit(limit);
+
+    return apiSuccessResponse<ListDeliveriesResponse>({
+      deliveries: deliveries.map((delivery) => ({
+        ...delivery,
+        createdAt: delivery.createdAt?.toISOString() ?? null,
+        lastAttemptAt: delivery.lastAttemptAt?.toISOString() ?? null,
+        deliveredAt: delivery.deliveredAt?.toISOString() ?? null,
+      })),
+    }, 200, rateLimit.headers);
+
+  } catch (error: any) {
+    console.error('Error fetching webhook deliveries:', error);
+    return apiErrorResponse(
+      error.message || 'Internal server error',
+      500
+    );
+  }
+}
@@ -0,0 +1,246 @@
+import { authenticateApiKey, enforceRateLimit, authorizeSheetAccess, requireScope, parseJsonBody, apiErrorResponse, apiSuccessResponse } from "@/lib/api-auth";
+import { setWebhookSchema, type SuccessResponse, type WebhookResponse } from "@/lib/api-schemas";
+import { db } from "@/server/db";
+import { sheets } from "@/server/db/schema";
+import { eq } from "drizzle-orm";
+import type { NextRequest } from "next/server";
+import { generateWebhookSecret } from "@/server/webhooks/webhook-dispatcher";
+import { assertPublicWebhookUrl, WebhookUrlError } from "@/server/webhooks/webhook-url";
+import { WEBHOOK_EVENT_TYPES } from "@/types/spreadsheet";
+
+/**
+ * GET /api/v1/sheets/{sheetId}/webhook
+ * Get the webhook configuration for a sheet
+ *
+ * Headers:
+ *   Authorization: Bearer <api-key>
+ *
+ * Response:
+ * {
+ *   webhookUrl: string | null,
+ *   webhookEvents: ["row_complete", "sheet_complete", "error"],
+ *   webhookSecret: string | null
+ * }
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ sheetId: string }> }
+) {
+  // Authenticate
+  const auth = await authenticateApiKey(request);
+  if (auth.error !== undefined) {
+    return apiErrorResponse(auth.error, 401);
+  }
+
+  const rateLimit = await enforceRateLimit(auth);
+  if (rateLimit.limited) {
+    return rateLimit.limited;
+  }
+
+  const { sheetId } = await params;
+
+  // Validate sheetId format
+  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+  if (!uuidRegex.test(sheetId)) {
+    return apiErrorResponse('Invalid sheet ID format', 400);
+  }
+
+  try {
+    // Webhook settings include the signing secret, so they're owner-only
+    const denied = requireScope(auth, 'manage_sheets') ?? await authorizeSheetAccess(auth, sheetId, 'owner');
+    if (denied) {
+      return denied;
+    }
+
+    const sheet = await db.query.sheets.findFirst({
+      where: eq(sheets.id, sheetId),
+    });
+
+    if (!sheet) {
+      return apiErrorResponse('Sheet not found or unauthorized', 404);
+    }
+
+    return apiSuccessResponse<WebhookResponse>({
+      webhookUrl: sheet.webhookUrl,
+      webhookEvents: (sheet.webhookEvents as string[] | null) ?? [],
+      webhookSecret: sheet.webhookSecret,
+    }, 200, rateLimit.headers);
+
+  } catch (error: any) {
+    console.error('Error fetching webhook:', error);
+    return apiErrorResponse(
+      error.message || 'Internal server error',
+      500
+    );
+  }
+}
+
+/**
+ * PUT /api/v1/sheets/{sheetId}/webhook
+ * Configure the webhook URL and subscribed events
+ *
+ * Headers:
+ *   Authorization: Bearer <api-key>
+ *   Content-Type: application/json
+ *
+ * Body:
+ * {
+ *   url: "https://example.com/hooks/websurfing",
+ *   events: ["row_complete", "sheet_complete", "error"]  // optional, defaults to all
+ * }
+ *
+ * Deliveries are POSTed as JSON and signed with the returned secret:
+ *   X-Websurfing-Signature: t=<unix-seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">
+ *
+ * Response:
+ * {
+ *   webhookUrl: string,
+ *   webhookEvents: string[],
+ *   webhookSecret: string
+ * }
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ sheetId: string }> }
+) {
+  // Authenticate
+  const auth = await authenticateApiKey(request);
+  if (auth.error !== undefined) {
+    return apiErrorResponse(auth.error, 401);
+  }
+
+  const rateLimit = await enforceRateLimit(auth);
+  if (rateLimit.limited) {
+    return rateLimit.limited;
+  }
+
+  const { sheetId } = await params;
+
+  // Validate sheetId format
+  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+  if (!uuidRegex.test(sheetId)) {
+    return apiErrorResponse('Invalid sheet ID format', 400);
+  }
+
+  try {
+    // Webhook settings include the signing secret, so they're owner-only
+    const denied = requireScope(auth, 'manage_sheets') ?? await authorizeSheetAccess(auth, sheetId, 'owner');
+    if (denied) {
+      return denied;
+    }
+
+    const sheet = await db.query.sheets.findFirst({
+      where: eq(sheets.id, sheetId),
+    });
+
+    if (!sheet) {
+      return apiErrorResponse('Sheet not found or unauthorized', 404);
+    }
+
+    const body = await parseJsonBody(request, setWebhookSchema);
+    if (body.error) {
+      return body.error;
+    }
+
+    try {
+      await assertPublicWebhookUrl(body.data.url);
+    } catch (error) {
+      if (error instanceof WebhookUrlError) {
+        return apiErrorResponse(error.message, 400);
+      }
+      throw error;
+    }
+
+    const events = body.data.events ?? [...WEBHOOK_EVENT_TYPES];
+
+    const [updated] = await db
+      .update(sheets)
+      .set({
+        webhookUrl: body.data.url,
+        webhookEvents: events,
+        webhookSecret: sheet.webhookSecret ?? generateWebhookSecret(),
+        updatedAt: new Date(),
+      })
+      .where(eq(sheets.id, sheetId))
+      .returning();
+
+    return apiSuccessResponse<WebhookResponse>({
+      webhookUrl: updated!.webhookUrl,
+      webhookEvents: updated!.webhookEvents as string[],
+      webhookSecret: updated!.webhookSecret,
+    }, 200, rateLimit.headers);
+
+  } catch (error: any) {
+    console.error('Error updating webhook:', error);
+    return apiErrorResponse(
+      error.message || 'Internal server error',
+      500
+    );
+  }
+}
+
+/**
+ * DELETE /api/v1/sheets/{sheetId}/webhook
+ * Disable the webhook (the signing secret is kept for re-enabling)
+ *
+ * Headers:
+ *   Authorization: Bearer <api-key>
+ *
+ * Response:
+ * {
+ *   success: true
+ * }
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ sheetId: string }> }
+) {
+  // Authenticate
+  const auth = await authenticateApiKey(request);
+  if (auth.error !== undefined) {
+    return apiErrorResponse(auth.error, 401);
+  }
+
+  const rateLimit = await enforceRateLimit(auth);
+  if (rateLimit.limited) {
+    return rateLimit.limited;
+  }
+
+  const { sheetId } = await params;
+
+  // Validate sheetId format
+  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+  if (!uuidRegex.test(sheetId)) {
+    return apiErrorResponse('Invalid sheet ID format', 400);
+  }
+
+  try {
+    const denied = requireScope(auth, 'manage_sheets') ?? await authorizeSheetAccess(auth, sheetId, 'owner');
+    if (denied) {
+      return denied;
+    }
+
+    const [updated] = await db
+      .update(sheets)
+      .set({
+        webhookUrl: null,
+        webhookEvents: null,
+        updatedAt: new Date(),
+      })
+      .where(eq(sheets.id, sheetId))
+      .returning({ id: sheets.id });
+
+    if (!updated) {
+      return apiErrorResponse('Sheet not found or unauthorized', 404);
+    }
+
+    return apiSuccessResponse<SuccessResponse>({ success: true }, 200, rateLimit.headers);
+
+  } catch (error: any) {
+    console.error('Error deleting webhook:', error);
+    return apiErrorResponse(
+      error.message || 'Internal server error',
+      500
+    );
+  }
+}
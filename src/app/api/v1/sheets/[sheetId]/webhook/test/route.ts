@@ -0,0 +1,82 @@
+import { authenticateApiKey, enforceRateLimit, authorizeSheetAccess, requireScope, apiErrorResponse, apiSuccessResponse } from "@/lib/api-auth";
+import type { TestWebhookResponse } from "@/lib/api-schemas";
+import { db } from "@/server/db";
+import { sheets } from "@/server/db/schema";
+import { eq } from "drizzle-orm";
+import type { NextRequest } from "next/server";
+import { getWebhookDispatcher } from "@/server/webhooks/webhook-dispatcher";
+
+/**
+ * POST /api/v1/sheets/{sheetId}/webhook/test
+ * Send a signed "test" event to the configured webhook URL
+ *
+ * Headers:
+ *   Authorization: Bearer <api-key>
+ *
+ * Response:
+ * {
+ *   deliveryId: string,
+ *   status: "delivered" | "pending" | "failed",
+ *   responseStatus: number | null,
+ *   lastError: string | null
+ * }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ sheetId: string }> }
+) {
+  // Authenticate
+  const auth = await authenticateApiKey(request);
+  if (auth.error !== undefined) {
+    return apiErrorResponse(auth.error, 401);
+  }
+
+  const rateLimit = await enforceRateLimit(auth);
+  if (rateLimit.limited) {
+    return rateLimit.limited;
+  }
+
+  const { sheetId } = await params;
+
+  // Validate sheetId format
+  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+  if (!uuidRegex.test(sheetId)) {
+    return apiErrorResponse('Invalid sheet ID format', 400);
+  }
+
+  try {
+    // Webhook settings include the signing secret, so they're owner-only
+    const denied = requireScope(auth, 'manage_sheets') ?? await authorizeSheetAccess(auth, sheetId, 'owner');
+    if (denied) {
+      return denied;
+    }
+
+    const sheet = await db.query.sheets.findFirst({
+      where: eq(sheets.id, sheetId),
+    });
+
+    if (!sheet) {
+      return apiErrorResponse('Sheet not found or unauthorized', 404);
+    }
+
+    if (!sheet.webhookUrl) {
+      return apiErrorResponse('No webhook URL configured for this sheet', 400);
+    }
+
+    const delivery = await getWebhookDispatcher().sendTest(sheetId);
+
+    return apiSuccessResponse<TestWebhookResponse>({
+      deliveryId: delivery.id,
+      status: delivery.status,
+      responseStatus: delivery.responseStatus,
+      lastError: delivery.lastError,
+    }, 200, rateLimit.headers);
+
+  } catch (error: any) {
+    console.error('Error sending test webhook:', error);
+    return apiErrorResponse(
+      error.message || 'Internal server error',
+      500
+    );
+  }
+}
@@ -1,12 +1,15 @@
-import { authenticateApiKey, apiErrorResponse, apiSuccessResponse } from "@/lib/api-auth";
+import { authenticateApiKey, enforceRateLimit, requireScope, parseJsonBody, apiErrorResponse, apiSuccessResponse } from "@/lib/api-auth";
+import { createSheetSchema, toApiColumn, type CreateSheetResponse, type ListSheetsResponse } from "@/lib/api-schemas";
 import { db } from "@/server/db";
-import { sheets, cells, columns } from "@/server/db/schema";
-import { eq, sql } from "drizzle-orm";
+import { sheets, sheetMembers, workspaceMembers, cells, columns } from "@/server/db/schema";
+import { and, eq, or, desc, isNotNull, sql } from "drizzle-orm";
+import { strongerSheetRole, workspaceSheetRole, type SheetRole } from "@/server/sheet-access";
+import { createSheet, SheetOperationError } from "@/server/sheet-operations";
 import { NextRequest } from "next/server";
 
 /**
  * GET /api/v1/sheets
- * List all sheets for the authenticated user
+ * List all sheets the API key can access (workspace keys: the workspace's sheets; sheet-restricted keys: that sheet)
  *
  * Headers:
  *   Authorization: Bearer <api-key>
@@ -18,6 +21,7 @@ import { NextRequest } from "next/server";
  *       id: string,
  *       name: string,
  *       createdAt: string,
+ *       role: 'owner' | 'editor' | 'viewer',
  *       columnCount: number,
  *       rowCount: number
  *     }
@@ -27,21 +31,43 @@ import { NextRequest } from "next/server";
 export async function GET(request: NextRequest) {
   // Authenticate
   const auth = await authenticateApiKey(request);
-  if (auth.error) {
+  if (auth.error !== undefined) {
     return apiErrorResponse(auth.error, 401);
   }
 
+  const rateLimit = await enforceRateLimit(auth);
+  if (rateLimit.limited) {
+    return rateLimit.limited;
+  }
+
+  const denied = requireScope(auth, 'read');
+  if (denied) {
+    return denied;
+  }
+
   try {
-    // Get all sheets for this user
-    const userSheets = await db.query.sheets.findMany({
-      where: eq(sheets.userId, auth.userId),
-      orderBy: (sheets, { desc }) => [desc(sheets.createdAt)],
-      columns: {
-        id: true,
-        name: true,
-        createdAt: true,
-      },
-    });
+    // Get all sheets shared with this user directly or through a workspace
+    const userSheets = await db
+      .select({
+        id: sheets.id,
+        name: sheets.name,
+        createdAt: sheets.createdAt,
+        memberRole: sheetMembers.role,
+        workspaceRole: workspaceMembers.role,
+      })
+      .from(sheets)
+      .leftJoin(sheetMembers, and(eq(sheetMembers.sheetId, sheets.id), eq(sheetMembers.userId, auth.userId)))
+      .leftJoin(workspaceMembers, and(
+        eq(workspaceMembers.workspaceId, sheets.workspaceId),
+        eq(workspaceMembers.userId, auth.userId)
+      ))
+      .where(and(
+        auth.workspaceId
+          ? eq(sheets.workspaceId, auth.workspaceId)
+          : or(isNotNull(sheetMembers.id), isNotNull(workspaceMembers.id)),
+        auth.sheetId ? eq(sheets.id, auth.sheetId) : undefined
+      ))
+      .orderBy(desc(sheets.createdAt));
 
     // Get column counts and row counts for each sheet
     const sheetsWithCounts = await Promise.all(
@@ -64,17 +90,106 @@ export async function GET(request: NextRequest) {
           id: sheet.id,
           name: sheet.name,
           createdAt: sheet.createdAt.toISOString(),
+          role: strongerSheetRole(sheet.memberRole as SheetRole | null, workspaceSheetRole(sheet.workspaceRole)),
           columnCount: Number(columnCount),
           rowCount: Number(rowCount),
         };
       })
     );
 
-    return apiSuccessResponse({
+    return apiSuccessResponse<ListSheetsResponse>({
       sheets: sheetsWithCounts,
-    });
+    }, 200, rateLimit.headers);
   } catch (error) {
     console.error('Error fetching sheets:', error);
     return apiErrorResponse('Internal server error', 500);
   }
 }
+
+/**
+ * POST /api/v1/sheets
+ * Create a sheet, from a saved template or an explicit list of columns
+ *
+ * Personal keys create the sheet in the key owner's personal space; workspace
+ * keys create it in the workspace. Keys restricted to one sheet can't create sheets.
+ *
+ * Headers:
+ *   Authorization: Bearer <api-key>
+ *   Content-Type: application/json
+ *
+ * Body:
+ * {
+ *   name: "Leads",
+ *   templateId: "<template-uuid>",   // optional: public, yours, or shared with your workspace
+ *   columns: [                       // optional, instead of templateId
+ *     { title: "Company", position: 0 },
+ *     { title: "Website", position: 1, dataType: "url", operatorType: "google_search", prompt: "..." }
+ *   ]
+ * }
+ *
+ * Response (201):
+ * {
+ *   sheet: { id, name, workspaceId, templateId, createdAt },
+ *   columns: [{ id, title, position, dataType, operatorType, operatorConfig, prompt, dependencies, isRequired, defaultValue }]
+ * }
+ */
+export async function POST(request: NextRequest) {
+  // Authenticate
+  const auth = await authenticateApiKey(request);
+  if (auth.error !== undefined) {
+    return apiErrorResponse(auth.error, 401);
+  }
+
+  const rateLimit = await enforceRateLimit(auth);
+  if (rateLimit.limited) {
+    return rateLimit.limited;
+  }
+
+  const denied = requireScope(auth, 'manage_sheets');
+  if (denied) {
+    return denied;
+  }
+
+  if (auth.sheetId) {
+    return apiErrorResponse('This API key is restricted to one sheet and cannot create sheets', 403);
+  }
+
+  const body = await parseJsonBody(request, createSheetSchema);
+  if (body.error) {
+    return body.error;
+  }
+
+  try {
+    const sheet = await createSheet(auth.userId, {
+      name: body.data.name,
+      workspaceId: auth.workspaceId,
+      templateId: body.data.templateId,
+      columns: body.data.columns,
+    });
+
+    const sheetColumns = await db
+      .select()
+      .from(columns)
+      .where(eq(columns.sheetId, sheet.id))
+      .orderBy(columns.position);
+
+    console.log(`[API] Key ${auth.keyId} created sheet ${sheet.id} with ${sheetColumns.length} columns`);
+
+    return apiSuccessResponse<CreateSheetResponse>({
+      sheet: {
+        id: sheet.id,
+        name: sheet.name,
+        workspaceId: sheet.workspaceId,
+        templateId: sheet.templateId,
+        createdAt: sheet.createdAt?.toISOString() ?? null,
+      },
+      columns: sheetColumns.map(toApiColumn),
+    }, 201, rateLimit.headers);
+  } catch (error) {
+    if (error instanceof SheetOperationError) {
+      return apiErrorResponse(error.message, error.status, rateLimit.headers);
+    }
+    console.error('Error creating sheet:', error);
+    return apiErrorResponse('Internal server error', 500);
+  }
+}
@@ -0,0 +1,28 @@
+import { HydrateClient } from "@/trpc/server";
+import { auth, signOut } from "@/server/auth";
+import { AppLayout } from "@/components/layout/app-layout";
+import { ApiReference } from "@/components/api-reference";
+import { env } from "@/env";
+import { redirect } from "next/navigation";
+
+export default async function ApiReferencePage() {
+  const session = await auth();
+
+  if (!session?.user) {
+    redirect('/');
+  }
+
+  return (
+    <HydrateClient>
+      <AppLayout
+        user={session.user}
+        onSignOut={async () => {
+          "use server";
+          await signOut();
+        }}
+      >
+        <ApiReference appUrl={env.AUTH_URL || 'http://localhost:3000'} />
+      </AppLayout>
+    </HydrateClient>
+  );
+}
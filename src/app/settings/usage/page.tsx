@@ -0,0 +1,27 @@
+import { HydrateClient } from "@/trpc/server";
+import { auth, signOut } from "@/server/auth";
+import { AppLayout } from "@/components/layout/app-layout";
+import { UsageDashboard } from "@/components/usage-dashboard";
+import { redirect } from "next/navigation";
+
+export default async function UsagePage() {
+  const session = await auth();
+
+  if (!session?.user) {
+    redirect('/');
+  }
+
+  return (
+    <HydrateClient>
+      <AppLayout
+        user={session.user}
+        onSignOut={async () => {
+          "use server";
+          await signOut();
+        }}
+      >
+        <UsageDashboard />
+      </AppLayout>
+    </HydrateClient>
+  );
+}
@@ -0,0 +1,27 @@
+import { HydrateClient } from "@/trpc/server";
+import { auth, signOut } from "@/server/auth";
+import { AppLayout } from "@/components/layout/app-layout";
+import { WorkspaceSettings } from "@/components/workspace-settings";
+import { redirect } from "next/navigation";
+
+export default async function WorkspaceSettingsPage() {
+  const session = await auth();
+
+  if (!session?.user) {
+    redirect('/');
+  }
+
+  return (
+    <HydrateClient>
+      <AppLayout
+        user={session.user}
+        onSignOut={async () => {
+          "use server";
+          await signOut();
+        }}
+      >
+        <WorkspaceSettings />
+      </AppLayout>
+    </HydrateClient>
+  );
+}
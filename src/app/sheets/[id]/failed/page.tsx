@@ -0,0 +1,34 @@
+import { HydrateClient } from "@/trpc/server";
+import { auth, signOut } from "@/server/auth";
+import { AppLayout } from "@/components/layout/app-layout";
+import { FailedEventsInspector } from "@/components/failed-events-inspector";
+import { redirect } from "next/navigation";
+
+interface FailedEventsPageProps {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+export default async function FailedEventsPage({ params }: FailedEventsPageProps) {
+  const session = await auth();
+  const { id } = await params;
+
+  if (!session?.user) {
+    redirect('/');
+  }
+
+  return (
+    <HydrateClient>
+      <AppLayout
+        user={session.user}
+        onSignOut={async () => {
+          "use server";
+          await signOut();
+        }}
+      >
+        <FailedEventsInspector sheetId={id} />
+      </AppLayout>
+    </HydrateClient>
+  );
+}
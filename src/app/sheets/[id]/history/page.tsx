@@ -0,0 +1,40 @@
+import { HydrateClient } from "@/trpc/server";
+import { auth, signOut } from "@/server/auth";
+import { AppLayout } from "@/components/layout/app-layout";
+import { SheetHistory } from "@/components/sheet-history";
+import { redirect } from "next/navigation";
+
+interface SheetHistoryPageProps {
+  params: Promise<{
+    id: string;
+  }>;
+  searchParams: Promise<{
+    row?: string;
+  }>;
+}
+
+export default async function SheetHistoryPage({ params, searchParams }: SheetHistoryPageProps) {
+  const session = await auth();
+  const { id } = await params;
+  const { row } = await searchParams;
+
+  if (!session?.user) {
+    redirect('/');
+  }
+
+  const initialRow = row !== undefined && /^\d+$/.test(row) ? parseInt(row, 10) : null;
+
+  return (
+    <HydrateClient>
+      <AppLayout
+        user={session.user}
+        onSignOut={async () => {
+          "use server";
+          await signOut();
+        }}
+      >
+        <SheetHistory sheetId={id} initialRow={initialRow} />
+      </AppLayout>
+    </HydrateClient>
+  );
+}
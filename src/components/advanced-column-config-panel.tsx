@@ -14,6 +14,8 @@ interface ColumnConfigData {
   prompt: string | null;
   dependencies: number[] | null;
   isRequired: boolean | null;
+  isKey: boolean | null;
+  cacheResults: boolean | null;
   defaultValue: string | null;
 }
 
@@ -91,6 +93,11 @@ export function AdvancedColumnConfigPanel({ sheetId }: AdvancedColumnConfigPanel
                 {col.isRequired && (
                   <span className="text-xs text-red-600 font-medium">*</span>
                 )}
+                {col.isKey && (
+                  <span className="text-xs text-blue-700 bg-blue-50 px-1.5 py-0.5 rounded border border-blue-200" title="Rows added through the API upsert by this column">
+                    key
+                  </span>
+                )}
               </div>
 
               <div className="flex items-center gap-1">
@@ -230,6 +237,32 @@ export function AdvancedColumnConfigPanel({ sheetId }: AdvancedColumnConfigPanel
                   </label>
                 </div>
 
+                {/* Key Toggle */}
+                <div className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={col.isKey || false}
+                    onChange={(e) => handleUpdate(col.id, { isKey: e.target.checked })}
+                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  <label className="text-xs font-medium text-gray-700">
+                    Key column (rows added through the API update the row with the same value)
+                  </label>
+                </div>
+
+                {/* Cache Toggle */}
+                <div className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={col.cacheResults !== false}
+                    onChange={(e) => handleUpdate(col.id, { cacheResults: e.target.checked })}
+                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  <label className="text-xs font-medium text-gray-700">
+                    Reuse cached results (uncheck to always call the model, e.g. for fast-changing data)
+                  </label>
+                </div>
+
                 {/* Default Value */}
                 <div>
                   <label className="block text-xs font-semibold text-gray-700 mb-1">
@@ -1,7 +1,7 @@
 "use client";
 
 import { useState, useRef, useEffect } from "react";
-import { Send, Loader2, Upload } from "lucide-react";
+import { Send, Loader2, Upload, Undo2, Redo2, RotateCcw } from "lucide-react";
 import { api } from "@/trpc/react";
 import { PreviewCard } from "./preview-card";
 import { useQueryClient } from "@tanstack/react-query";
@@ -15,6 +15,7 @@ interface Message {
   role: "user" | "agent" | "system";
   content: string;
   timestamp: Date;
+  turnId?: string; // Agent replies: groups the sheet changes made while answering
   preview?: {
     type: string;
     data: any;
@@ -31,9 +32,11 @@ interface Message {
  * - Preview cards for bulk operations
  * - Markdown support
  * - Error handling
+ * - Undo/redo of the agent's sheet changes, and reverting everything one reply changed
  */
 export function AgentChat({ sheetId }: AgentChatProps) {
   const queryClient = useQueryClient();
+  const utils = api.useUtils();
 
   // Load conversation history from localStorage
   const [messages, setMessages] = useState<Message[]>(() => {
@@ -87,6 +90,55 @@ export function AgentChat({ sheetId }: AgentChatProps) {
     }
   }, [threadId, sheetId]);
 
+  const { data: agentActions } = api.agent.listActions.useQuery({ sheetId });
+  const lastApplied = agentActions?.find((action) => action.status === "applied");
+  const lastUndone = agentActions
+    ?.filter((action) => action.status === "undone")
+    .sort((a, b) => new Date(b.undoneAt ?? 0).getTime() - new Date(a.undoneAt ?? 0).getTime())[0];
+
+  const refreshSheet = () => {
+    void utils.agent.listActions.invalidate({ sheetId });
+    void utils.sheet.getColumns.invalidate({ sheetId });
+    void queryClient.invalidateQueries({
+      queryKey: [["cell", "getCells"], { input: { sheetId }, type: "query" }],
+    });
+  };
+
+  const addSystemMessage = (content: string) => {
+    setMessages((prev) => [...prev, { role: "system", content, timestamp: new Date() }]);
+  };
+
+  const undoMutation = api.agent.undo.useMutation({
+    onSuccess: (action) => {
+      addSystemMessage(`Undid: ${action.description}`);
+      refreshSheet();
+    },
+    onError: (error) => addSystemMessage(`Undo failed: ${error.message}`),
+  });
+
+  const redoMutation = api.agent.redo.useMutation({
+    onSuccess: (action) => {
+      addSystemMessage(`Redid: ${action.description}`);
+      refreshSheet();
+    },
+    onError: (error) => addSystemMessage(`Redo failed: ${error.message}`),
+  });
+
+  const revertTurnMutation = api.agent.revertTurn.useMutation({
+    onSuccess: ({ actionsUndone }) => {
+      addSystemMessage(`Reverted ${actionsUndone} change${actionsUndone === 1 ? "" : "s"} made by that reply`);
+      refreshSheet();
+    },
+    onError: (error) => addSystemMessage(`Revert failed: ${error.message}`),
+  });
+
+  const isUndoing = undoMutation.isPending || redoMutation.isPending || revertTurnMutation.isPending;
+
+  const handleRevertTurn = (turnId: string, changes: number) => {
+    if (!confirm(`Revert the ${changes} sheet change${changes === 1 ? "" : "s"} this reply made?`)) return;
+    revertTurnMutation.mutate({ sheetId, turnId });
+  };
+
   // tRPC mutation for sending messages
   const chatMutation = api.agent.sendMessage.useMutation({
     onSuccess: (data) => {
@@ -97,6 +149,7 @@ export function AgentChat({ sheetId }: AgentChatProps) {
           role: "agent",
           content: data.response,
           timestamp: new Date(),
+          turnId: data.turnId,
         },
       ]);
 
@@ -105,11 +158,9 @@ export function AgentChat({ sheetId }: AgentChatProps) {
         setThreadId(data.threadId);
       }
 
-      // Invalidate cell queries to refresh the UI
+      // Refresh cells, columns and the undo stack
       // This ensures deleted/added rows show immediately
-      void queryClient.invalidateQueries({
-        queryKey: [["cell", "getCells"], { input: { sheetId }, type: "query" }],
-      });
+      refreshSheet();
     },
     onError: (error) => {
       // Add error message
@@ -134,6 +185,7 @@ export function AgentChat({ sheetId }: AgentChatProps) {
           role: "agent",
           content: data.response,
           timestamp: new Date(),
+          turnId: data.turnId,
         },
       ]);
 
@@ -144,9 +196,7 @@ export function AgentChat({ sheetId }: AgentChatProps) {
       setIsUploadingCSV(false);
 
       // Invalidate queries
-      void queryClient.invalidateQueries({
-        queryKey: [["cell", "getCells"], { input: { sheetId }, type: "query" }],
-      });
+      refreshSheet();
     },
     onError: (error) => {
       setMessages((prev) => [
@@ -266,7 +316,13 @@ export function AgentChat({ sheetId }: AgentChatProps) {
     <div className="flex flex-col h-full">
       {/* Messages */}
       <div className="flex-1 overflow-y-auto p-4 space-y-4">
-        {messages.map((message, idx) => (
+        {messages.map((message, idx) => {
+          const turnActions = message.turnId
+            ? agentActions?.filter((action) => action.turnId === message.turnId) ?? []
+            : [];
+          const appliedChanges = turnActions.filter((action) => action.status === "applied").length;
+
+          return (
           <div
             key={idx}
             className={`flex ${message.role === "user" ? "justify-end" : "justify-start"}`}
@@ -295,13 +351,30 @@ export function AgentChat({ sheetId }: AgentChatProps) {
                 </div>
               )}
 
-              {/* Timestamp */}
-              <p className="text-xs mt-1 opacity-50">
-                {message.timestamp.toLocaleTimeString()}
-              </p>
+              {/* Timestamp, and revert for replies that changed the sheet */}
+              <div className="flex items-center justify-between gap-2 mt-1">
+                <p className="text-xs opacity-50">
+                  {message.timestamp.toLocaleTimeString()}
+                </p>
+                {message.turnId && appliedChanges > 0 && (
+                  <button
+                    onClick={() => handleRevertTurn(message.turnId!, appliedChanges)}
+                    disabled={isUndoing || chatMutation.isPending}
+                    className="text-xs text-gray-600 hover:text-red-700 disabled:opacity-50 flex items-center gap-1"
+                    title={turnActions.map((action) => action.description).join("\n")}
+                  >
+                    <RotateCcw className="w-3 h-3" />
+                    Revert
+                  </button>
+                )}
+                {turnActions.length > 0 && appliedChanges === 0 && (
+                  <span className="text-xs opacity-50">Reverted</span>
+                )}
+              </div>
             </div>
           </div>
-        ))}
+          );
+        })}
 
         {/* Typing indicator */}
         {chatMutation.isPending && (
@@ -318,6 +391,33 @@ export function AgentChat({ sheetId }: AgentChatProps) {
         <div ref={messagesEndRef} />
       </div>
 
+      {/* Undo/redo of the agent's sheet changes */}
+      {(lastApplied ?? lastUndone) && (
+        <div className="border-t border-gray-200 px-4 py-2 bg-white flex items-center gap-2">
+          <button
+            onClick={() => undoMutation.mutate({ sheetId })}
+            disabled={!lastApplied || isUndoing || chatMutation.isPending}
+            className="text-xs px-3 py-1 bg-white border border-gray-300 rounded-full hover:bg-gray-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-1"
+            title={lastApplied ? `Undo: ${lastApplied.description}` : undefined}
+          >
+            <Undo2 className="w-3 h-3" />
+            Undo last agent action
+          </button>
+          <button
+            onClick={() => redoMutation.mutate({ sheetId })}
+            disabled={!lastUndone || isUndoing || chatMutation.isPending}
+            className="text-xs px-3 py-1 bg-white border border-gray-300 rounded-full hover:bg-gray-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-1"
+            title={lastUndone ? `Redo: ${lastUndone.description}` : undefined}
+          >
+            <Redo2 className="w-3 h-3" />
+            Redo
+          </button>
+          {lastApplied && (
+            <span className="text-xs text-gray-500 truncate">{lastApplied.description}</span>
+          )}
+        </div>
+      )}
+
       {/* Input Area */}
       <div className="border-t border-gray-200 p-4 bg-white">
         <div className="flex gap-2">
@@ -0,0 +1,324 @@
+"use client";
+
+import { useState } from "react";
+import { api } from "@/trpc/react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { AlertTriangle, Check, Copy, Key, Plus, RefreshCw, X } from "lucide-react";
+
+interface ApiKeysManagerProps {
+  /** Manage this workspace's keys; omit for the user's personal keys */
+  workspaceId?: string;
+}
+
+const SCOPES = ['read', 'write_rows', 'manage_sheets'] as const;
+type Scope = (typeof SCOPES)[number];
+
+const SCOPE_LABELS: Record<Scope, string> = {
+  read: 'Read - list sheets and export data',
+  write_rows: 'Write rows - add, edit, delete and reprocess rows',
+  manage_sheets: 'Manage sheets - create sheets, configure columns and webhooks',
+};
+
+const EXPIRY_OPTIONS = [
+  { label: 'Never', days: null },
+  { label: '30 days', days: 30 },
+  { label: '90 days', days: 90 },
+  { label: '1 year', days: 365 },
+] as const;
+
+const selectClassName = "h-9 w-full rounded-md border border-input bg-background px-2 text-sm";
+
+function formatDate(date: Date | null) {
+  return date ? new Date(date).toLocaleDateString() : null;
+}
+
+/**
+ * Named API keys with their scopes, sheet restriction, expiry and last use;
+ * create and revoke them one at a time so integrations don't share a credential
+ */
+export function ApiKeysManager({ workspaceId }: ApiKeysManagerProps) {
+  const [createOpen, setCreateOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<Scope[]>(['read']);
+  const [sheetId, setSheetId] = useState("");
+  const [expiresInDays, setExpiresInDays] = useState<number | null>(null);
+  const [dailyRowQuota, setDailyRowQuota] = useState("");
+  const [createdSecret, setCreatedSecret] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const utils = api.useUtils();
+
+  const { data: keys, isLoading } = api.apiKey.list.useQuery({ workspaceId });
+  const { data: sheets } = api.sheet.list.useQuery(undefined, { enabled: createOpen });
+
+  const createMutation = api.apiKey.create.useMutation({
+    onSuccess: (key) => {
+      setCreatedSecret(key.secret);
+      void utils.apiKey.list.invalidate({ workspaceId });
+    },
+    onError: (error) => {
+      alert(`Failed to create API key: ${error.message}`);
+    },
+  });
+
+  const revokeMutation = api.apiKey.revoke.useMutation({
+    onSuccess: () => {
+      void utils.apiKey.list.invalidate({ workspaceId });
+    },
+    onError: (error) => {
+      alert(`Failed to revoke API key: ${error.message}`);
+    },
+  });
+
+  const openCreateDialog = () => {
+    setName("");
+    setScopes(['read']);
+    setSheetId("");
+    setExpiresInDays(null);
+    setDailyRowQuota("");
+    setCreatedSecret(null);
+    setCopied(false);
+    setCreateOpen(true);
+  };
+
+  const toggleScope = (scope: Scope) => {
+    setScopes((current) =>
+      current.includes(scope) ? current.filter((s) => s !== scope) : [...current, scope]
+    );
+  };
+
+  const handleCreate = () => {
+    createMutation.mutate({
+      workspaceId,
+      name: name.trim(),
+      scopes,
+      sheetId: sheetId || null,
+      expiresInDays,
+      dailyRowQuota: dailyRowQuota.trim() ? Math.max(1, Math.floor(Number(dailyRowQuota))) : null,
+    });
+  };
+
+  const handleRevoke = (id: string, keyName: string) => {
+    if (!confirm(`Revoke "${keyName}"? Anything using this key stops working immediately.`)) {
+      return;
+    }
+    revokeMutation.mutate({ workspaceId, id });
+  };
+
+  const handleCopy = async () => {
+    if (createdSecret) {
+      await navigator.clipboard.writeText(createdSecret);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {isLoading ? (
+        <div className="flex items-center gap-2 text-muted-foreground">
+          <RefreshCw className="h-4 w-4 animate-spin" />
+          Loading...
+        </div>
+      ) : !keys || keys.length === 0 ? (
+        <div className="bg-muted rounded-lg p-4">
+          <p className="text-sm text-muted-foreground">
+            No API keys yet. Create one for each integration so you can revoke them separately.
+          </p>
+        </div>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead>Scopes</TableHead>
+              <TableHead>Rows today</TableHead>
+              <TableHead>Expires</TableHead>
+              <TableHead>Last used</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {keys.map((key) => {
+              const expired = key.expiresAt !== null && new Date(key.expiresAt).getTime() <= Date.now();
+              return (
+                <TableRow key={key.id}>
+                  <TableCell>
+                    <p className="font-medium">{key.name}</p>
+                    <p className="font-mono text-xs text-muted-foreground">{key.prefix}…</p>
+                    {key.sheetName && (
+                      <p className="text-xs text-muted-foreground">Only {key.sheetName}</p>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {key.scopes.map((scope) => (
+                        <Badge key={scope} variant="outline">{scope}</Badge>
+                      ))}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {key.rowsToday.toLocaleString()} / {key.dailyRowQuota.toLocaleString()}
+                    <p className="text-xs text-muted-foreground">{key.rateLimitPerMinute} req/min</p>
+                  </TableCell>
+                  <TableCell className={`text-sm ${expired ? 'text-red-600' : ''}`}>
+                    {formatDate(key.expiresAt) ?? 'Never'}
+                    {expired && ' (expired)'}
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {formatDate(key.lastUsedAt) ?? <span className="text-muted-foreground">Never</span>}
+                    {key.lastUsedIp && (
+                      <p className="font-mono text-xs text-muted-foreground">{key.lastUsedIp}</p>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleRevoke(key.id, key.name)}
+                      disabled={revokeMutation.isPending}
+                      title="Revoke key"
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      )}
+
+      <Button onClick={openCreateDialog}>
+        <Plus className="h-4 w-4 mr-2" />
+        Create API Key
+      </Button>
+
+      <Dialog open={createOpen} onOpenChange={setCreateOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{createdSecret ? 'API Key Created' : 'Create API Key'}</DialogTitle>
+            <DialogDescription>
+              {createdSecret
+                ? "Copy the key now. You won't be able to see it again."
+                : 'Give each integration its own key with only the access it needs'}
+            </DialogDescription>
+          </DialogHeader>
+
+          {createdSecret ? (
+            <div className="space-y-4 py-4">
+              <div className="flex gap-2">
+                <Input value={createdSecret} readOnly className="font-mono text-sm" />
+                <Button variant="outline" size="icon" onClick={handleCopy} title="Copy to clipboard">
+                  {copied ? <Check className="h-4 w-4 text-green-600" /> : <Copy className="h-4 w-4" />}
+                </Button>
+              </div>
+              <div className="bg-amber-50 dark:bg-amber-950 border border-amber-200 dark:border-amber-800 rounded-lg p-3 flex gap-2">
+                <AlertTriangle className="h-5 w-5 text-amber-600 dark:text-amber-400 flex-shrink-0" />
+                <p className="text-sm text-amber-900 dark:text-amber-100">
+                  Anyone with this key can use it within its scopes. Never share it publicly or commit it to version control.
+                </p>
+              </div>
+            </div>
+          ) : (
+            <div className="space-y-4 py-4">
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Name</label>
+                <Input
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="e.g. Zapier"
+                />
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Scopes</label>
+                {SCOPES.map((scope) => (
+                  <label key={scope} className="flex items-center gap-2 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={scopes.includes(scope)}
+                      onChange={() => toggleScope(scope)}
+                    />
+                    {SCOPE_LABELS[scope]}
+                  </label>
+                ))}
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Sheet</label>
+                <select className={selectClassName} value={sheetId} onChange={(e) => setSheetId(e.target.value)}>
+                  <option value="">All sheets</option>
+                  {sheets?.map((sheet) => (
+                    <option key={sheet.id} value={sheet.id}>{sheet.name}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Daily row quota</label>
+                <Input
+                  type="number"
+                  min={1}
+                  step="100"
+                  value={dailyRowQuota}
+                  onChange={(e) => setDailyRowQuota(e.target.value)}
+                  placeholder="Default (10000)"
+                />
+                <p className="text-xs text-muted-foreground">
+                  Rows this key can add per day; each non-empty cell is processed by the sheet&apos;s columns
+                </p>
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Expires</label>
+                <select
+                  className={selectClassName}
+                  value={expiresInDays ?? ''}
+                  onChange={(e) => setExpiresInDays(e.target.value ? Number(e.target.value) : null)}
+                >
+                  {EXPIRY_OPTIONS.map((option) => (
+                    <option key={option.label} value={option.days ?? ''}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            {createdSecret ? (
+              <Button onClick={() => setCreateOpen(false)}>Done</Button>
+            ) : (
+              <>
+                <Button variant="outline" onClick={() => setCreateOpen(false)} disabled={createMutation.isPending}>
+                  Cancel
+                </Button>
+                <Button
+                  onClick={handleCreate}
+                  disabled={createMutation.isPending || !name.trim() || scopes.length === 0}
+                >
+                  <Key className="h-4 w-4 mr-2" />
+                  {createMutation.isPending ? 'Creating...' : 'Create Key'}
+                </Button>
+              </>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
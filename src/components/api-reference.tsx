@@ -0,0 +1,184 @@
+"use client";
+
+import Link from "next/link";
+import type { z } from "zod";
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Separator } from "@/components/ui/separator";
+import { API_OPERATIONS, toJsonSchema, type ApiOperation, type HttpMethod } from "@/lib/api-spec";
+import { ArrowLeft, FileJson } from "lucide-react";
+
+interface ApiReferenceProps {
+  appUrl: string;
+}
+
+const METHOD_COLORS: Record<HttpMethod, string> = {
+  get: 'text-green-600 dark:text-green-400',
+  post: 'text-blue-600 dark:text-blue-400',
+  put: 'text-purple-600 dark:text-purple-400',
+  patch: 'text-amber-600 dark:text-amber-400',
+  delete: 'text-red-600 dark:text-red-400',
+};
+
+const TAGS: ApiOperation['tag'][] = ['Sheets', 'Columns', 'Rows', 'Jobs', 'Webhooks'];
+
+/**
+ * A placeholder value for a JSON Schema, for the curl examples
+ */
+function exampleFor(schema: Record<string, unknown>): unknown {
+  if (Array.isArray(schema.enum)) return schema.enum[0];
+  if (Array.isArray(schema.anyOf)) return exampleFor(schema.anyOf[0] as Record<string, unknown>);
+  if (schema.default !== undefined) return schema.default;
+
+  const type = Array.isArray(schema.type) ? schema.type[0] : schema.type;
+  switch (type) {
+    case 'object': {
+      const properties = (schema.properties ?? {}) as Record<string, Record<string, unknown>>;
+      const required = (schema.required ?? []) as string[];
+      return Object.fromEntries(
+        Object.entries(properties)
+          .filter(([name]) => required.includes(name))
+          .map(([name, property]) => [name, exampleFor(property)])
+      );
+    }
+    case 'array':
+      return schema.items ? [exampleFor(schema.items as Record<string, unknown>)] : [];
+    case 'integer':
+    case 'number':
+      return 0;
+    case 'boolean':
+      return true;
+    case 'string':
+      return schema.format === 'uuid' ? '00000000-0000-0000-0000-000000000000' : 'string';
+    default:
+      return null;
+  }
+}
+
+function curlFor(op: ApiOperation, appUrl: string) {
+  const lines = [
+    `curl -X ${op.method.toUpperCase()} ${appUrl}/api/v1${op.path}`,
+    `  -H "Authorization: Bearer YOUR_API_KEY"`,
+  ];
+  if (op.body) {
+    lines.push(`  -H "Content-Type: application/json"`);
+    lines.push(`  -d '${JSON.stringify(exampleFor(toJsonSchema(op.body)))}'`);
+  }
+  return lines.join(' \\\n');
+}
+
+function SchemaBlock({ title, schema }: { title: string; schema: z.ZodTypeAny }) {
+  return (
+    <details className="text-sm">
+      <summary className="cursor-pointer font-medium">{title}</summary>
+      <pre className="mt-2 bg-muted p-3 rounded-lg text-xs overflow-x-auto">
+        {JSON.stringify(toJsonSchema(schema), null, 2)}
+      </pre>
+    </details>
+  );
+}
+
+function OperationCard({ op, appUrl }: { op: ApiOperation; appUrl: string }) {
+  const parameters = [
+    ...Object.keys(op.params?.shape ?? {}).map(name => ({ name, location: 'path' })),
+    ...Object.keys(op.query?.shape ?? {}).map(name => ({ name, location: 'query' })),
+  ];
+
+  return (
+    <Card id={op.operationId}>
+      <CardHeader>
+        <p className="font-mono text-sm">
+          <span className={`font-bold ${METHOD_COLORS[op.method]}`}>{op.method.toUpperCase()}</span>{' '}
+          /api/v1{op.path}
+        </p>
+        <CardTitle className="text-base">{op.summary}</CardTitle>
+        {op.description && <CardDescription>{op.description}</CardDescription>}
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <p className="text-xs text-muted-foreground">
+          Scope: <code className="bg-muted px-1 py-0.5 rounded">{op.scope}</code>
+          {op.role && (
+            <>
+              {' '}· Sheet role: <code className="bg-muted px-1 py-0.5 rounded">{op.role}</code>
+            </>
+          )}
+          {' '}· Client: <code className="bg-muted px-1 py-0.5 rounded">client.{op.operationId}()</code>
+        </p>
+
+        {parameters.length > 0 && (
+          <p className="text-xs text-muted-foreground">
+            Parameters:{' '}
+            {parameters.map(({ name, location }, i) => (
+              <span key={name}>
+                {i > 0 && ', '}
+                <code className="bg-muted px-1 py-0.5 rounded">{name}</code> ({location})
+              </span>
+            ))}
+          </p>
+        )}
+
+        <pre className="bg-muted p-3 rounded-lg text-xs overflow-x-auto">
+          {curlFor(op, appUrl)}
+        </pre>
+
+        {op.body && <SchemaBlock title="Request body" schema={op.body} />}
+        <SchemaBlock title={`Response (${op.status})`} schema={op.response} />
+      </CardContent>
+    </Card>
+  );
+}
+
+export function ApiReference({ appUrl }: ApiReferenceProps) {
+  return (
+    <div className="max-w-4xl mx-auto p-6 space-y-6">
+      <div>
+        <Link href="/settings" className="text-sm text-muted-foreground hover:text-foreground flex items-center gap-1 mb-2">
+          <ArrowLeft className="h-4 w-4" />
+          Settings
+        </Link>
+        <h1 className="text-3xl font-bold">API Reference</h1>
+        <p className="text-muted-foreground mt-2">
+          Every /api/v1 endpoint, generated from the same schemas the API validates requests with
+        </p>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <Button variant="outline" size="sm" asChild>
+          <a href="/api/v1/openapi.json" target="_blank" rel="noreferrer">
+            <FileJson className="h-4 w-4 mr-2" />
+            openapi.json
+          </a>
+        </Button>
+        {TAGS.map(tag => (
+          <Button key={tag} variant="ghost" size="sm" asChild>
+            <a href={`#${tag.toLowerCase()}`}>{tag}</a>
+          </Button>
+        ))}
+      </div>
+
+      <div className="bg-muted p-4 rounded-lg text-sm space-y-2">
+        <p>
+          From TypeScript, use the typed client in <code>packages/api-client</code>: each endpoint is a
+          method named after its operationId.
+        </p>
+        <pre className="bg-background p-3 rounded text-xs overflow-x-auto">
+{`import { WebsurfingClient } from "@websurfing/api-client";
+
+const client = new WebsurfingClient({ baseUrl: "${appUrl}", apiKey: process.env.WEBSURFING_API_KEY! });
+const { sheets } = await client.listSheets();`}
+        </pre>
+      </div>
+
+      <Separator />
+
+      {TAGS.map(tag => (
+        <section key={tag} id={tag.toLowerCase()} className="space-y-4">
+          <h2 className="text-xl font-semibold">{tag}</h2>
+          {API_OPERATIONS.filter(op => op.tag === tag).map(op => (
+            <OperationCard key={op.operationId} op={op} appUrl={appUrl} />
+          ))}
+        </section>
+      ))}
+    </div>
+  );
+}
@@ -11,7 +11,7 @@ interface ApiSnippetsDialogProps {
   appUrl: string;
 }
 
-type Language = 'curl' | 'javascript' | 'python';
+type Language = 'curl' | 'javascript' | 'typescript' | 'python';
 
 export function ApiSnippetsDialog({ sheetId, sheetName, appUrl }: ApiSnippetsDialogProps) {
   const [selectedLanguage, setSelectedLanguage] = useState<Language>('curl');
@@ -80,6 +80,36 @@ const response = await fetch('${apiUrl}/api/v1/sheets/${sheetId}/data?format=csv
 });
 
 const csvData = await response.text();
+console.log(csvData);`,
+    },
+    typescript: {
+      addRows: `// Add rows to ${sheetName || 'this sheet'} with the typed client (packages/api-client)
+import { WebsurfingClient } from '@websurfing/api-client';
+
+const client = new WebsurfingClient({ baseUrl: '${apiUrl}', apiKey: 'your_api_key_here' });
+
+const result = await client.addRows('${sheetId}', {
+  rows: [
+    ["value1", "value2", "value3"],
+    ["value1", "value2"]
+  ]
+});
+console.log(result.rowsAdded);`,
+
+      exportJson: `// Export sheet data as JSON
+import { WebsurfingClient } from '@websurfing/api-client';
+
+const client = new WebsurfingClient({ baseUrl: '${apiUrl}', apiKey: 'your_api_key_here' });
+
+const data = await client.exportData('${sheetId}');
+console.log(data.rows);`,
+
+      exportCsv: `// Export sheet data as CSV
+import { WebsurfingClient } from '@websurfing/api-client';
+
+const client = new WebsurfingClient({ baseUrl: '${apiUrl}', apiKey: 'your_api_key_here' });
+
+const csvData = await client.exportDataCsv('${sheetId}');
 console.log(csvData);`,
     },
     python: {
@@ -202,6 +232,16 @@ with open('${sheetName?.replace(/[^a-zA-Z0-9]/g, '_') || 'export'}.csv', 'w') as
             >
               JavaScript
             </button>
+            <button
+              onClick={() => setSelectedLanguage('typescript')}
+              className={`px-4 py-2 text-sm font-medium border-b-2 transition-colors ${
+                selectedLanguage === 'typescript'
+                  ? 'border-primary text-primary'
+                  : 'border-transparent text-muted-foreground hover:text-foreground'
+              }`}
+            >
+              TypeScript
+            </button>
             <button
               onClick={() => setSelectedLanguage('python')}
               className={`px-4 py-2 text-sm font-medium border-b-2 transition-colors ${
@@ -240,6 +280,10 @@ with open('${sheetName?.replace(/[^a-zA-Z0-9]/g, '_') || 'export'}.csv', 'w') as
               <a href="/settings" className="underline hover:text-amber-700 dark:hover:text-amber-300">
                 Settings
               </a>
+              . Every endpoint is listed in the{' '}
+              <a href="/settings/api" className="underline hover:text-amber-700 dark:hover:text-amber-300">
+                API reference
+              </a>
               .
             </p>
           </div>
@@ -1,6 +1,6 @@
 "use client";
 
-import { Home, FileText, Settings, LogOut, Plus, ChevronRight, Sparkles, Database } from "lucide-react";
+import { Home, FileText, Settings, LogOut, Plus, ChevronRight, ChevronsUpDown, Sparkles, Database, Users, Check, X, Building2, User } from "lucide-react";
 import {
   Sidebar,
   SidebarContent,
@@ -20,11 +20,14 @@ import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
-import { usePathname } from "next/navigation";
+import { usePathname, useRouter } from "next/navigation";
 import Link from "next/link";
 import Image from "next/image";
+import { Button } from "@/components/ui/button";
 import { api } from "@/trpc/react";
 
 interface AppSidebarProps {
@@ -56,10 +59,96 @@ const navigationItems = [
 
 export function AppSidebar({ user, onSignOut }: AppSidebarProps) {
   const pathname = usePathname();
+  const router = useRouter();
+  const utils = api.useUtils();
 
   // Query sheets list
   const { data: sheets, isLoading: sheetsLoading } = api.sheet.list.useQuery();
 
+  // Sheets other people have invited this user to
+  const { data: invites } = api.sheetMember.myInvites.useQuery();
+
+  const acceptInviteMutation = api.sheetMember.acceptInvite.useMutation({
+    onSuccess: ({ sheetId }) => {
+      void utils.sheetMember.myInvites.invalidate();
+      void utils.sheet.list.invalidate();
+      router.push(`/sheets/${sheetId}`);
+    },
+    onError: (error) => {
+      alert(`Failed to accept invitation: ${error.message}`);
+    },
+  });
+
+  const declineInviteMutation = api.sheetMember.declineInvite.useMutation({
+    onSuccess: () => {
+      void utils.sheetMember.myInvites.invalidate();
+    },
+    onError: (error) => {
+      alert(`Failed to decline invitation: ${error.message}`);
+    },
+  });
+
+  // Workspaces and the one currently active (null = personal)
+  const { data: workspaceData } = api.workspace.list.useQuery();
+  const { data: workspaceInvites } = api.workspace.myInvites.useQuery();
+
+  const activeWorkspace = workspaceData?.workspaces.find(
+    (workspace) => workspace.id === workspaceData.activeWorkspaceId
+  );
+
+  // Sheets and templates are listed per workspace
+  const refreshWorkspaceScope = () => {
+    void utils.workspace.list.invalidate();
+    void utils.sheet.list.invalidate();
+    void utils.template.list.invalidate();
+  };
+
+  const setActiveWorkspaceMutation = api.workspace.setActive.useMutation({
+    onSuccess: () => {
+      refreshWorkspaceScope();
+      router.push('/welcome');
+    },
+    onError: (error) => {
+      alert(`Failed to switch workspace: ${error.message}`);
+    },
+  });
+
+  const createWorkspaceMutation = api.workspace.create.useMutation({
+    onSuccess: () => {
+      refreshWorkspaceScope();
+      router.push('/settings/workspace');
+    },
+    onError: (error) => {
+      alert(`Failed to create workspace: ${error.message}`);
+    },
+  });
+
+  const acceptWorkspaceInviteMutation = api.workspace.acceptInvite.useMutation({
+    onSuccess: () => {
+      void utils.workspace.myInvites.invalidate();
+      refreshWorkspaceScope();
+      router.push('/welcome');
+    },
+    onError: (error) => {
+      alert(`Failed to accept invitation: ${error.message}`);
+    },
+  });
+
+  const declineWorkspaceInviteMutation = api.workspace.declineInvite.useMutation({
+    onSuccess: () => {
+      void utils.workspace.myInvites.invalidate();
+    },
+    onError: (error) => {
+      alert(`Failed to decline invitation: ${error.message}`);
+    },
+  });
+
+  const handleCreateWorkspace = () => {
+    const name = prompt('Workspace name')?.trim();
+    if (!name) return;
+    createWorkspaceMutation.mutate({ name });
+  };
+
   // Get recent sheets (last 15, reversed to show newest first)
   const recentSheets = sheets ? sheets.slice(-15).reverse() : [];
 
@@ -91,6 +180,56 @@ export function AppSidebar({ user, onSignOut }: AppSidebarProps) {
           </div>
           <SidebarTrigger className="-mr-1" />
         </div>
+
+        {/* Workspace Switcher */}
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <button className="mt-3 flex items-center gap-2 w-full rounded-lg border border-sidebar-border px-2 py-1.5 text-sm hover:bg-sidebar-accent transition-colors">
+              {activeWorkspace ? (
+                <Building2 className="w-4 h-4 flex-shrink-0" />
+              ) : (
+                <User className="w-4 h-4 flex-shrink-0" />
+              )}
+              <span className="flex-1 truncate text-left">{activeWorkspace?.name ?? 'Personal'}</span>
+              <ChevronsUpDown className="w-3 h-3 flex-shrink-0 text-muted-foreground" />
+            </button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="start" className="w-56">
+            <DropdownMenuLabel>Workspaces</DropdownMenuLabel>
+            <DropdownMenuItem
+              onClick={() => setActiveWorkspaceMutation.mutate({ workspaceId: null })}
+              disabled={setActiveWorkspaceMutation.isPending}
+            >
+              <User className="w-4 h-4 mr-2" />
+              <span className="flex-1">Personal</span>
+              {!activeWorkspace && <Check className="w-4 h-4" />}
+            </DropdownMenuItem>
+            {workspaceData?.workspaces.map((workspace) => (
+              <DropdownMenuItem
+                key={workspace.id}
+                onClick={() => setActiveWorkspaceMutation.mutate({ workspaceId: workspace.id })}
+                disabled={setActiveWorkspaceMutation.isPending}
+              >
+                <Building2 className="w-4 h-4 mr-2" />
+                <span className="flex-1 truncate">{workspace.name}</span>
+                {workspace.id === activeWorkspace?.id && <Check className="w-4 h-4" />}
+              </DropdownMenuItem>
+            ))}
+            <DropdownMenuSeparator />
+            <DropdownMenuItem onClick={handleCreateWorkspace} disabled={createWorkspaceMutation.isPending}>
+              <Plus className="w-4 h-4 mr-2" />
+              Create workspace
+            </DropdownMenuItem>
+            {activeWorkspace && (
+              <DropdownMenuItem asChild>
+                <Link href="/settings/workspace">
+                  <Settings className="w-4 h-4 mr-2" />
+                  Workspace settings
+                </Link>
+              </DropdownMenuItem>
+            )}
+          </DropdownMenuContent>
+        </DropdownMenu>
       </SidebarHeader>
 
       <SidebarContent>
@@ -116,6 +255,79 @@ export function AppSidebar({ user, onSignOut }: AppSidebarProps) {
           </SidebarGroupContent>
         </SidebarGroup>
 
+        {/* Invitations Group */}
+        {((invites && invites.length > 0) || (workspaceInvites && workspaceInvites.length > 0)) && (
+          <SidebarGroup>
+            <SidebarGroupLabel>Invitations</SidebarGroupLabel>
+            <SidebarGroupContent>
+              <SidebarMenu>
+                {workspaceInvites?.map((invite) => (
+                  <SidebarMenuItem key={invite.id}>
+                    <div className="flex items-center gap-2 px-2 py-1.5 text-sm">
+                      <Building2 className="w-4 h-4 flex-shrink-0" />
+                      <div className="flex-1 min-w-0">
+                        <p className="truncate">{invite.workspaceName}</p>
+                        <p className="truncate text-xs text-muted-foreground">
+                          workspace {invite.role}{invite.invitedByName && ` - from ${invite.invitedByName}`}
+                        </p>
+                      </div>
+                      <Button
+                        size="icon-sm"
+                        variant="ghost"
+                        title="Accept"
+                        onClick={() => acceptWorkspaceInviteMutation.mutate({ inviteId: invite.id })}
+                        disabled={acceptWorkspaceInviteMutation.isPending}
+                      >
+                        <Check className="w-4 h-4 text-green-600" />
+                      </Button>
+                      <Button
+                        size="icon-sm"
+                        variant="ghost"
+                        title="Decline"
+                        onClick={() => declineWorkspaceInviteMutation.mutate({ inviteId: invite.id })}
+                        disabled={declineWorkspaceInviteMutation.isPending}
+                      >
+                        <X className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </SidebarMenuItem>
+                ))}
+                {invites?.map((invite) => (
+                  <SidebarMenuItem key={invite.id}>
+                    <div className="flex items-center gap-2 px-2 py-1.5 text-sm">
+                      <Users className="w-4 h-4 flex-shrink-0" />
+                      <div className="flex-1 min-w-0">
+                        <p className="truncate">{invite.sheetName}</p>
+                        <p className="truncate text-xs text-muted-foreground">
+                          {invite.role}{invite.invitedByName && ` - from ${invite.invitedByName}`}
+                        </p>
+                      </div>
+                      <Button
+                        size="icon-sm"
+                        variant="ghost"
+                        title="Accept"
+                        onClick={() => acceptInviteMutation.mutate({ inviteId: invite.id })}
+                        disabled={acceptInviteMutation.isPending}
+                      >
+                        <Check className="w-4 h-4 text-green-600" />
+                      </Button>
+                      <Button
+                        size="icon-sm"
+                        variant="ghost"
+                        title="Decline"
+                        onClick={() => declineInviteMutation.mutate({ inviteId: invite.id })}
+                        disabled={declineInviteMutation.isPending}
+                      >
+                        <X className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </SidebarMenuItem>
+                ))}
+              </SidebarMenu>
+            </SidebarGroupContent>
+          </SidebarGroup>
+        )}
+
         {/* Recent Websets Group */}
         <SidebarGroup>
           <SidebarGroupLabel>Recent Websets</SidebarGroupLabel>
@@ -152,6 +364,9 @@ export function AppSidebar({ user, onSignOut }: AppSidebarProps) {
                         {sheet.isAutonomous && (
                           <Sparkles className="w-3 h-3 flex-shrink-0 text-primary" />
                         )}
+                        {sheet.role !== 'owner' && (
+                          <Users className="w-3 h-3 flex-shrink-0 text-muted-foreground" />
+                        )}
                       </Link>
                     </SidebarMenuButton>
                   </SidebarMenuItem>
@@ -0,0 +1,85 @@
+"use client";
+
+import { useState } from "react";
+import { api } from "@/trpc/react";
+import { Button } from "@/components/ui/button";
+import { BudgetLimitsDialog } from "@/components/budget-limits-dialog";
+import { AlertTriangle, Play } from "lucide-react";
+
+interface BudgetBannerProps {
+  sheetId: string;
+}
+
+/**
+ * Shown above the sheet when its account, workspace or sheet budget is exhausted
+ * and events have been paused
+ */
+export function BudgetBanner({ sheetId }: BudgetBannerProps) {
+  const [limitDialogOpen, setLimitDialogOpen] = useState(false);
+
+  const { data: status } = api.budget.getStatus.useQuery(
+    { sheetId },
+    { refetchInterval: 10000 }
+  );
+
+  const utils = api.useUtils();
+
+  const resumeMutation = api.budget.resumeSheet.useMutation({
+    onSuccess: () => {
+      void utils.budget.getStatus.invalidate({ sheetId });
+      void utils.cell.getEvents.invalidate({ sheetId });
+    },
+    onError: (error) => {
+      alert(error.message);
+    },
+  });
+
+  if (!status || (!status.exceeded && status.pausedEvents === 0)) {
+    return null;
+  }
+
+  // Raise whichever limit tripped; once back under budget, paused events can be resumed
+  const scope = status.exceeded?.scope;
+  const scopeUsage = scope === 'sheet' ? status.sheet : scope === 'workspace' ? status.workspace : status.user;
+
+  return (
+    <div className="mx-4 mt-4 bg-amber-50 border border-amber-200 rounded-lg p-4 flex items-center justify-between gap-4">
+      <div className="flex gap-2">
+        <AlertTriangle className="h-5 w-5 text-amber-600 flex-shrink-0 mt-0.5" />
+        <div className="text-sm text-amber-900">
+          <p className="font-medium">
+            {status.exceeded ? 'Processing paused - budget reached' : 'Processing paused'}
+          </p>
+          <p className="text-amber-700">
+            {status.exceeded?.reason ?? 'You are back under budget.'}
+            {status.pausedEvents > 0 && ` ${status.pausedEvents} event${status.pausedEvents === 1 ? '' : 's'} waiting.`}
+          </p>
+        </div>
+      </div>
+      <div className="flex gap-2 flex-shrink-0">
+        {status.exceeded && (
+          <Button size="sm" variant="outline" onClick={() => setLimitDialogOpen(true)}>
+            Raise limit
+          </Button>
+        )}
+        <Button
+          size="sm"
+          onClick={() => resumeMutation.mutate({ sheetId })}
+          disabled={!!status.exceeded || status.pausedEvents === 0 || resumeMutation.isPending}
+        >
+          <Play className="h-4 w-4 mr-2" />
+          {resumeMutation.isPending ? 'Resuming...' : 'Resume'}
+        </Button>
+      </div>
+
+      <BudgetLimitsDialog
+        open={limitDialogOpen}
+        onOpenChange={setLimitDialogOpen}
+        sheetId={scope === 'sheet' ? sheetId : undefined}
+        workspaceId={scope === 'workspace' ? status.workspace?.id : undefined}
+        currentBudgetUsd={scopeUsage?.budgetUsd ?? null}
+        currentTokenBudget={scopeUsage?.tokenBudget ?? null}
+      />
+    </div>
+  );
+}
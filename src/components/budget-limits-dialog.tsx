@@ -0,0 +1,135 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { api } from "@/trpc/react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+interface BudgetLimitsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Edit this sheet's cap; omit to edit the account budget */
+  sheetId?: string;
+  /** Edit this workspace's shared budget */
+  workspaceId?: string;
+  currentBudgetUsd: number | null;
+  currentTokenBudget: number | null;
+  onSaved?: () => void;
+}
+
+function parseLimit(value: string): number | null {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  const parsed = Number(trimmed);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : null;
+}
+
+export function BudgetLimitsDialog({
+  open,
+  onOpenChange,
+  sheetId,
+  workspaceId,
+  currentBudgetUsd,
+  currentTokenBudget,
+  onSaved,
+}: BudgetLimitsDialogProps) {
+  const [budgetUsd, setBudgetUsd] = useState("");
+  const [tokenBudget, setTokenBudget] = useState("");
+
+  useEffect(() => {
+    if (open) {
+      setBudgetUsd(currentBudgetUsd !== null ? String(currentBudgetUsd) : "");
+      setTokenBudget(currentTokenBudget !== null ? String(currentTokenBudget) : "");
+    }
+  }, [open, currentBudgetUsd, currentTokenBudget]);
+
+  const utils = api.useUtils();
+
+  const handleSuccess = () => {
+    void utils.budget.getStatus.invalidate();
+    onOpenChange(false);
+    onSaved?.();
+  };
+
+  const handleError = (error: { message: string }) => {
+    alert(`Failed to save budget: ${error.message}`);
+  };
+
+  const setUserBudget = api.budget.setUserBudget.useMutation({ onSuccess: handleSuccess, onError: handleError });
+  const setSheetBudget = api.budget.setSheetBudget.useMutation({ onSuccess: handleSuccess, onError: handleError });
+  const setWorkspaceBudget = api.budget.setWorkspaceBudget.useMutation({ onSuccess: handleSuccess, onError: handleError });
+
+  const isPending = setUserBudget.isPending || setSheetBudget.isPending || setWorkspaceBudget.isPending;
+
+  const handleSave = () => {
+    const limits = {
+      monthlyBudgetUsd: parseLimit(budgetUsd),
+      monthlyTokenBudget: parseLimit(tokenBudget) !== null ? Math.floor(parseLimit(tokenBudget)!) : null,
+    };
+
+    if (sheetId) {
+      setSheetBudget.mutate({ sheetId, ...limits });
+    } else if (workspaceId) {
+      setWorkspaceBudget.mutate({ workspaceId, ...limits });
+    } else {
+      setUserBudget.mutate(limits);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{sheetId ? 'Sheet Budget' : workspaceId ? 'Workspace Budget' : 'Monthly Budget'}</DialogTitle>
+          <DialogDescription>
+            {sheetId
+              ? 'Cap what this sheet can spend each calendar month. Leave blank for no cap.'
+              : workspaceId
+              ? "Limit Gemini spend across the workspace's sheets each calendar month. Leave blank for no limit."
+              : 'Limit Gemini spend across all your sheets each calendar month. Leave blank for no limit.'}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-4">
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Dollar limit (USD)</label>
+            <Input
+              type="number"
+              min={0}
+              step="0.01"
+              value={budgetUsd}
+              onChange={(e) => setBudgetUsd(e.target.value)}
+              placeholder="e.g. 25.00"
+            />
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Token limit</label>
+            <Input
+              type="number"
+              min={0}
+              step="1000"
+              value={tokenBudget}
+              onChange={(e) => setTokenBudget(e.target.value)}
+              placeholder="e.g. 5000000"
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isPending}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isPending}>
+            {isPending ? 'Saving...' : 'Save'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,129 @@
+"use client";
+
+import { useState, type CSSProperties } from "react";
+import { api } from "@/trpc/react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { HelpCircle, X } from "lucide-react";
+
+interface CellClarificationProps {
+  clarification: {
+    promptId: string;
+    question: string;
+    options: string[];
+    columnTitle: string | null;
+  };
+  /** Positions the overlay over its cell */
+  style: CSSProperties;
+  onResolved: () => void;
+}
+
+/**
+ * Inline question shown over a cell whose operator paused to ask the user
+ * (e.g. which of several matching companies a row means)
+ */
+export function CellClarification({ clarification, style, onResolved }: CellClarificationProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [answer, setAnswer] = useState("");
+
+  const handleError = (error: { message: string }) => {
+    alert(`Failed to submit answer: ${error.message}`);
+  };
+
+  const answerMutation = api.clarification.answer.useMutation({
+    onSuccess: () => {
+      setIsOpen(false);
+      onResolved();
+    },
+    onError: handleError,
+  });
+
+  const skipMutation = api.clarification.skip.useMutation({
+    onSuccess: () => {
+      setIsOpen(false);
+      onResolved();
+    },
+    onError: handleError,
+  });
+
+  const isPending = answerMutation.isPending || skipMutation.isPending;
+
+  const submit = (value: string) => {
+    if (!value.trim()) return;
+    answerMutation.mutate({ promptId: clarification.promptId, answer: value.trim() });
+  };
+
+  return (
+    <div style={{ ...style, pointerEvents: "none", zIndex: 20 }}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="absolute inset-0 flex items-center gap-1 px-3 bg-amber-50/90 border border-amber-300 text-amber-800 text-xs text-left"
+        style={{ pointerEvents: "auto" }}
+        title={clarification.question}
+      >
+        <HelpCircle className="h-3.5 w-3.5 flex-shrink-0" />
+        <span className="truncate">Needs your input</span>
+      </button>
+
+      {isOpen && (
+        <div
+          className="absolute left-0 top-full mt-1 w-80 bg-white border border-amber-300 rounded-lg shadow-lg p-3 space-y-3"
+          style={{ pointerEvents: "auto" }}
+        >
+          <div className="flex items-start justify-between gap-2">
+            <div>
+              {clarification.columnTitle && (
+                <p className="text-xs text-muted-foreground">{clarification.columnTitle}</p>
+              )}
+              <p className="text-sm font-medium">{clarification.question}</p>
+            </div>
+            <button onClick={() => setIsOpen(false)} className="text-muted-foreground hover:text-foreground">
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+
+          {clarification.options.length > 0 && (
+            <div className="space-y-1">
+              {clarification.options.map((option) => (
+                <Button
+                  key={option}
+                  size="sm"
+                  variant="outline"
+                  className="w-full justify-start h-auto py-1.5 text-xs whitespace-normal text-left"
+                  disabled={isPending}
+                  onClick={() => submit(option)}
+                >
+                  {option}
+                </Button>
+              ))}
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            <Input
+              value={answer}
+              onChange={(e) => setAnswer(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") submit(answer);
+              }}
+              placeholder={clarification.options.length > 0 ? "Or type another answer..." : "Your answer..."}
+              className="h-8 text-xs"
+              disabled={isPending}
+            />
+            <Button size="sm" className="h-8" disabled={isPending || !answer.trim()} onClick={() => submit(answer)}>
+              Send
+            </Button>
+          </div>
+
+          <button
+            onClick={() => skipMutation.mutate({ promptId: clarification.promptId })}
+            disabled={isPending}
+            className="text-xs text-muted-foreground hover:text-foreground"
+          >
+            Skip - let the AI make its best guess
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+"use client";
+
+import type { CSSProperties } from "react";
+import { isLowConfidence } from "@/lib/cell-confidence";
+import type { CellValidation } from "@/types/spreadsheet";
+
+interface CellConfidenceProps {
+  confidence: number;
+  validation: CellValidation | null;
+  /** Positions the tint over its cell */
+  style: CSSProperties;
+}
+
+function tint(confidence: number) {
+  if (isLowConfidence(confidence)) return "rgba(239, 68, 68, 0.2)";
+  if (confidence < 0.9) return "rgba(245, 158, 11, 0.15)";
+  return "rgba(34, 197, 94, 0.1)";
+}
+
+/**
+ * Heatmap tint over an operator-written cell; doubtful cells also get their
+ * score in the corner, with the validation issues on hover
+ */
+export function CellConfidence({ confidence, validation, style }: CellConfidenceProps) {
+  const details = [
+    `Confidence ${Math.round(confidence * 100)}%`,
+    ...(validation?.operatorConfidence != null
+      ? [`Operator's own score ${Math.round(validation.operatorConfidence * 100)}%`]
+      : []),
+    ...(validation?.issues.map((issue) => `• ${issue.message}`) ?? []),
+    ...(validation?.suggestions.map((suggestion) => `→ ${suggestion}`) ?? []),
+  ];
+
+  return (
+    <div style={{ ...style, pointerEvents: "none", zIndex: 4, backgroundColor: tint(confidence) }}>
+      {isLowConfidence(confidence) && (
+        <span
+          className="absolute bottom-0.5 left-1 px-1 rounded bg-white/90 text-[10px] font-medium text-red-700"
+          style={{ pointerEvents: "auto" }}
+          title={details.join("\n")}
+        >
+          {Math.round(confidence * 100)}%
+        </span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+"use client";
+
+import { useState, type CSSProperties } from "react";
+import { ExternalLink, Link2, X } from "lucide-react";
+import type { CellProvenance } from "@/types/spreadsheet";
+
+interface CellSourcesProps {
+  provenance: CellProvenance;
+  columnTitle: string | null;
+  /** Positions the badge over its cell */
+  style: CSSProperties;
+}
+
+function hostname(url: string) {
+  try {
+    return new URL(url).hostname.replace(/^www\./, "");
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Badge in the corner of an operator-written cell; hovering lists the source
+ * sites, clicking opens the sources with their supporting text
+ */
+export function CellSources({ provenance, columnTitle, style }: CellSourcesProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const { sources } = provenance;
+
+  const summary = sources.length > 0
+    ? `Sources: ${sources.map((source) => hostname(source.url)).join(", ")}`
+    : `Written by ${provenance.operatorName} (no sources)`;
+
+  return (
+    <div style={{ ...style, pointerEvents: "none", zIndex: 15 }}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="absolute top-1 right-1 flex items-center gap-0.5 px-1 rounded bg-white/90 border border-gray-200 text-[10px] text-gray-500 hover:text-blue-700 hover:border-blue-300"
+        style={{ pointerEvents: "auto" }}
+        title={summary}
+      >
+        <Link2 className="h-3 w-3" />
+        {sources.length > 0 && sources.length}
+      </button>
+
+      {isOpen && (
+        <div
+          className="absolute left-0 top-full mt-1 w-96 max-h-96 overflow-y-auto bg-white border border-gray-200 rounded-lg shadow-lg p-3 space-y-3"
+          style={{ pointerEvents: "auto" }}
+        >
+          <div className="flex items-start justify-between gap-2">
+            <div>
+              {columnTitle && <p className="text-xs text-muted-foreground">{columnTitle}</p>}
+              <p className="text-sm font-medium">
+                {sources.length > 0 ? `${sources.length} source${sources.length === 1 ? "" : "s"}` : "No sources recorded"}
+              </p>
+            </div>
+            <button onClick={() => setIsOpen(false)} className="text-muted-foreground hover:text-foreground">
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+
+          {sources.length > 0 && (
+            <ol className="space-y-2">
+              {sources.map((source, i) => (
+                <li key={`${source.url}-${i}`} className="text-xs space-y-0.5">
+                  <a
+                    href={source.url}
+                    target="_blank"
+                    rel="noreferrer"
+                    className="flex items-center gap-1 font-medium text-blue-700 hover:underline"
+                  >
+                    <span className="truncate">{source.title ?? hostname(source.url)}</span>
+                    <ExternalLink className="h-3 w-3 flex-shrink-0" />
+                  </a>
+                  <p className="text-muted-foreground truncate">{hostname(source.url)}</p>
+                  {source.snippet && (
+                    <p className="text-gray-700 border-l-2 border-gray-200 pl-2 line-clamp-3">{source.snippet}</p>
+                  )}
+                </li>
+              ))}
+            </ol>
+          )}
+
+          <p className="text-[11px] text-muted-foreground border-t pt-2">
+            {provenance.operatorName}
+            {provenance.model && ` · ${provenance.model}`}
+            {' · '}
+            {new Date(provenance.recordedAt).toLocaleString()}
+            {provenance.promptHash && (
+              <span className="block font-mono" title="SHA-256 of the prompt">prompt {provenance.promptHash.slice(0, 12)}</span>
+            )}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
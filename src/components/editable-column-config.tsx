@@ -21,10 +21,14 @@ export function EditableColumnConfig({ sheetId }: EditableColumnConfigProps) {
   const [editForm, setEditForm] = useState<{
     operatorType: string;
     prompt: string;
-  }>({ operatorType: '', prompt: '' });
+    operatorConfig: Record<string, unknown> | null;
+    allowedFunctions: string[];
+    allowedHosts: string;
+  }>({ operatorType: '', prompt: '', operatorConfig: null, allowedFunctions: [], allowedHosts: '' });
 
   const utils = api.useUtils();
   const { data: columns, isLoading } = api.columnConfig.getColumnConfig.useQuery({ sheetId });
+  const { data: functionCatalog } = api.columnConfig.listFunctions.useQuery();
 
   const updateConfig = api.columnConfig.updateColumnConfig.useMutation({
     onSuccess: () => {
@@ -37,20 +41,44 @@ export function EditableColumnConfig({ sheetId }: EditableColumnConfigProps) {
     },
   });
 
-  const startEdit = (columnId: string, operatorType?: string | null, prompt?: string | null) => {
+  const startEdit = (columnId: string, operatorType?: string | null, prompt?: string | null, operatorConfig?: unknown) => {
+    const config = (operatorConfig ?? null) as Record<string, unknown> | null;
     setEditingColumnId(columnId);
     setEditForm({
       operatorType: operatorType || 'structured_output',
       prompt: prompt || '',
+      operatorConfig: config,
+      allowedFunctions: (config?.allowedFunctions as string[] | undefined)
+        ?? functionCatalog?.functions.map(fn => fn.name)
+        ?? [],
+      allowedHosts: ((config?.allowedHosts as string[] | undefined) ?? []).join(', '),
     });
   };
 
+  const toggleFunction = (name: string) => {
+    setEditForm(form => ({
+      ...form,
+      allowedFunctions: form.allowedFunctions.includes(name)
+        ? form.allowedFunctions.filter(fn => fn !== name)
+        : [...form.allowedFunctions, name],
+    }));
+  };
+
   const saveEdit = (columnId: string) => {
+    const allowedHosts = editForm.allowedHosts.split(',').map(host => host.trim()).filter(Boolean);
+
     updateConfig.mutate({
       sheetId,
       columnId,
       operatorType: editForm.operatorType || null,
       prompt: editForm.prompt.trim() || null,
+      ...(editForm.operatorType === 'function_calling' && {
+        operatorConfig: {
+          ...editForm.operatorConfig,
+          allowedFunctions: editForm.allowedFunctions,
+          allowedHosts: allowedHosts.length > 0 ? allowedHosts : undefined,
+        },
+      }),
     });
   };
 
@@ -102,7 +130,7 @@ export function EditableColumnConfig({ sheetId }: EditableColumnConfigProps) {
 
               {!isEditing && (
                 <button
-                  onClick={() => startEdit(col.id, col.operatorType, col.prompt)}
+                  onClick={() => startEdit(col.id, col.operatorType, col.prompt, col.operatorConfig)}
                   className="p-1 hover:bg-gray-100 rounded transition-colors"
                   title="Edit column config"
                 >
@@ -125,6 +153,13 @@ export function EditableColumnConfig({ sheetId }: EditableColumnConfigProps) {
                   </span>
                 </div>
 
+                {col.operatorType === 'function_calling' && (
+                  <div className="text-xs text-gray-600">
+                    <span className="font-medium">Functions:</span>{' '}
+                    {((col.operatorConfig as { allowedFunctions?: string[] } | null)?.allowedFunctions ?? ['all built-ins']).join(', ') || 'none'}
+                  </div>
+                )}
+
                 {col.prompt && (
                   <div className="text-xs text-gray-600 bg-gray-50 p-2 rounded">
                     <span className="font-medium">Prompt:</span> {col.prompt}
@@ -160,6 +195,47 @@ export function EditableColumnConfig({ sheetId }: EditableColumnConfigProps) {
                   </select>
                 </div>
 
+                {/* Allowed Functions */}
+                {editForm.operatorType === 'function_calling' && (
+                  <div>
+                    <label className="block text-xs font-medium text-gray-700 mb-1">
+                      Allowed Functions
+                    </label>
+                    <div className="space-y-1">
+                      {functionCatalog?.functions.map((fn) => (
+                        <label key={fn.name} className="flex items-start gap-2 text-xs text-gray-700">
+                          <input
+                            type="checkbox"
+                            checked={editForm.allowedFunctions.includes(fn.name)}
+                            onChange={() => toggleFunction(fn.name)}
+                            className="mt-0.5"
+                          />
+                          <span>
+                            <span className="font-mono">{fn.name}</span>
+                            <span className="text-gray-500"> - {fn.description}</span>
+                          </span>
+                        </label>
+                      ))}
+                    </div>
+                    {editForm.allowedFunctions.includes('http_get') && (
+                      <div className="mt-2">
+                        <input
+                          type="text"
+                          value={editForm.allowedHosts}
+                          onChange={(e) => setEditForm({ ...editForm, allowedHosts: e.target.value })}
+                          placeholder="Limit to hosts (comma-separated, optional)"
+                          className="w-full text-xs border border-gray-300 rounded px-2 py-1.5 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                        <p className="text-xs text-gray-500 mt-1">
+                          {functionCatalog && functionCatalog.allowedHosts.length > 0
+                            ? `Server allows: ${functionCatalog.allowedHosts.join(', ')}`
+                            : 'No hosts are allowlisted on this server (FUNCTION_HTTP_ALLOWED_HOSTS)'}
+                        </p>
+                      </div>
+                    )}
+                  </div>
+                )}
+
                 {/* Custom Prompt */}
                 <div>
                   <label className="block text-xs font-medium text-gray-700 mb-1">
@@ -206,6 +282,7 @@ export function EditableColumnConfig({ sheetId }: EditableColumnConfigProps) {
           <li>• <strong>Google Search</strong>: Web search with grounding</li>
           <li>• <strong>URL Context</strong>: Extract content from URLs</li>
           <li>• <strong>Structured Output</strong>: Extract specific data</li>
+          <li>• <strong>Function Calling</strong>: Fetch, extract and parse with server functions</li>
           <li>• <strong>Auto-detect</strong>: AI chooses based on content</li>
         </ul>
       </div>
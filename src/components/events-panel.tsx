@@ -25,6 +25,8 @@ export function EventsPanel({ events }: EventsPanelProps) {
     processing: events.filter(e => e.status === 'processing').length,
     completed: events.filter(e => e.status === 'completed').length,
     failed: events.filter(e => e.status === 'failed').length,
+    pausedBudget: events.filter(e => e.status === 'paused_budget').length,
+    awaitingClarification: events.filter(e => e.status === 'awaiting_clarification').length,
   }
 
   return (
@@ -58,6 +60,16 @@ export function EventsPanel({ events }: EventsPanelProps) {
               Failed: {statusCounts.failed}
             </Badge>
           )}
+          {statusCounts.pausedBudget > 0 && (
+            <Badge variant="outline" className="bg-orange-50 text-orange-700 border-orange-300">
+              Paused (budget): {statusCounts.pausedBudget}
+            </Badge>
+          )}
+          {statusCounts.awaitingClarification > 0 && (
+            <Badge variant="outline" className="bg-amber-50 text-amber-700 border-amber-300">
+              Needs input: {statusCounts.awaitingClarification}
+            </Badge>
+          )}
         </div>
         <div className="flex items-center gap-2">
           <span className="text-xs text-muted-foreground">
@@ -90,6 +102,9 @@ export function EventsPanel({ events }: EventsPanelProps) {
                         event.status === 'completed' ? 'bg-green-50 text-green-700 border-green-300' :
                         event.status === 'processing' ? 'bg-blue-50 text-blue-700 border-blue-300' :
                         event.status === 'failed' ? 'bg-red-50 text-red-700 border-red-300' :
+                        event.status === 'paused_budget' ? 'bg-orange-50 text-orange-700 border-orange-300' :
+                        event.status === 'awaiting_clarification' ? 'bg-amber-50 text-amber-700 border-amber-300' :
+                        event.status === 'discarded' ? 'bg-gray-100 text-gray-600 border-gray-300' :
                         'bg-yellow-50 text-yellow-700 border-yellow-300'
                       }
                     >
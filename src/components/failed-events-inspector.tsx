@@ -0,0 +1,235 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { api } from "@/trpc/react";
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ArrowLeft, RefreshCw, RotateCcw, Trash2 } from "lucide-react";
+
+interface FailedEventsInspectorProps {
+  sheetId: string;
+}
+
+interface ErrorClass {
+  lastError: string | null;
+  operatorName: string | null;
+}
+
+function classKey(errorClass: ErrorClass) {
+  return `${errorClass.operatorName ?? ''}::${errorClass.lastError ?? ''}`;
+}
+
+/**
+ * Dead-letter view for a sheet: failed events grouped by error and operator,
+ * with retry and discard for selected events or a whole error class
+ */
+export function FailedEventsInspector({ sheetId }: FailedEventsInspectorProps) {
+  const [selectedClass, setSelectedClass] = useState<ErrorClass | null>(null);
+  const [selectedEventIds, setSelectedEventIds] = useState<string[]>([]);
+  const [expandedEventId, setExpandedEventId] = useState<string | null>(null);
+
+  const utils = api.useUtils();
+  const { data: groups, isLoading } = api.failedEvents.groups.useQuery({ sheetId });
+  const { data: events } = api.failedEvents.list.useQuery(
+    { sheetId, lastError: selectedClass?.lastError ?? null, operatorName: selectedClass?.operatorName ?? null },
+    { enabled: !!selectedClass }
+  );
+
+  const onSuccess = () => {
+    setSelectedEventIds([]);
+    void utils.failedEvents.groups.invalidate({ sheetId });
+    void utils.failedEvents.list.invalidate();
+    void utils.cell.getEvents.invalidate({ sheetId });
+  };
+  const onError = (error: { message: string }) => {
+    alert(error.message);
+  };
+
+  const retryMutation = api.failedEvents.retry.useMutation({ onSuccess, onError });
+  const discardMutation = api.failedEvents.discard.useMutation({ onSuccess, onError });
+  const isPending = retryMutation.isPending || discardMutation.isPending;
+
+  const selectClass = (errorClass: ErrorClass) => {
+    setSelectedClass(errorClass);
+    setSelectedEventIds([]);
+    setExpandedEventId(null);
+  };
+
+  const toggleEvent = (eventId: string) => {
+    setSelectedEventIds((ids) =>
+      ids.includes(eventId) ? ids.filter((id) => id !== eventId) : [...ids, eventId]
+    );
+  };
+
+  const discardClass = (errorClass: ErrorClass, count: number) => {
+    if (!confirm(`Discard all ${count} events with this error? They will not be retried.`)) return;
+    discardMutation.mutate({ sheetId, errorClass });
+  };
+
+  return (
+    <div className="max-w-5xl mx-auto p-6 space-y-6">
+      <div>
+        <Link href={`/sheets/${sheetId}`} className="text-sm text-muted-foreground hover:text-foreground flex items-center gap-1 mb-2">
+          <ArrowLeft className="h-4 w-4" />
+          Back to sheet
+        </Link>
+        <h1 className="text-3xl font-bold">Failed Events</h1>
+        <p className="text-muted-foreground mt-2">
+          Events that failed or ran out of retries. Retry them once the cause is fixed, or discard them.
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Errors</CardTitle>
+          <CardDescription>Grouped by error message and operator</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center gap-2 text-muted-foreground">
+              <RefreshCw className="h-4 w-4 animate-spin" />
+              Loading...
+            </div>
+          ) : !groups || groups.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No failed events</p>
+          ) : (
+            <div className="space-y-2">
+              {groups.map((group) => {
+                const isSelected = selectedClass !== null && classKey(selectedClass) === classKey(group);
+                return (
+                  <div
+                    key={classKey(group)}
+                    className={`flex items-start justify-between gap-4 rounded border p-3 ${isSelected ? 'border-primary bg-muted' : ''}`}
+                  >
+                    <button className="flex-1 text-left space-y-1" onClick={() => selectClass(group)}>
+                      <div className="flex items-center gap-2">
+                        <Badge variant="outline" className="bg-red-50 text-red-700 border-red-300">
+                          {group.count}
+                        </Badge>
+                        <span className="font-mono text-xs">{group.operatorName ?? 'unknown operator'}</span>
+                        {group.lastFailedAt && (
+                          <span className="text-xs text-muted-foreground">
+                            last {new Date(group.lastFailedAt).toLocaleString()}
+                          </span>
+                        )}
+                      </div>
+                      <p className="text-sm break-words">{group.lastError ?? 'No error recorded'}</p>
+                    </button>
+                    <div className="flex gap-2 flex-shrink-0">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={isPending}
+                        onClick={() => retryMutation.mutate({ sheetId, errorClass: group })}
+                      >
+                        <RotateCcw className="h-4 w-4 mr-1" />
+                        Retry all
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={isPending}
+                        onClick={() => discardClass(group, group.count)}
+                      >
+                        <Trash2 className="h-4 w-4 mr-1" />
+                        Discard all
+                      </Button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {selectedClass && (
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <CardTitle>Events</CardTitle>
+                <CardDescription className="break-words">{selectedClass.lastError ?? 'No error recorded'}</CardDescription>
+              </div>
+              <div className="flex gap-2 flex-shrink-0">
+                <Button
+                  size="sm"
+                  disabled={isPending || selectedEventIds.length === 0}
+                  onClick={() => retryMutation.mutate({ sheetId, eventIds: selectedEventIds })}
+                >
+                  Retry selected ({selectedEventIds.length})
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={isPending || selectedEventIds.length === 0}
+                  onClick={() => discardMutation.mutate({ sheetId, eventIds: selectedEventIds })}
+                >
+                  Discard selected
+                </Button>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {!events || events.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No events in this group</p>
+            ) : (
+              <div className="space-y-2">
+                {events.map((event) => (
+                  <div key={event.id} className="rounded border p-3 space-y-2">
+                    <div className="flex items-center gap-3 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={selectedEventIds.includes(event.id)}
+                        onChange={() => toggleEvent(event.id)}
+                      />
+                      <span className="font-mono text-xs">{event.eventType}</span>
+                      {event.rowIndex !== null && (
+                        <span className="text-xs text-muted-foreground">
+                          Row {event.rowIndex + 1}{event.colIndex !== null && `, column ${event.colIndex + 1}`}
+                        </span>
+                      )}
+                      <span className="text-xs text-muted-foreground">
+                        {event.retryCount ?? 0} {event.retryCount === 1 ? 'retry' : 'retries'}
+                      </span>
+                      {event.failedAt && (
+                        <span className="text-xs text-muted-foreground">
+                          {new Date(event.failedAt).toLocaleString()}
+                        </span>
+                      )}
+                      <button
+                        className="ml-auto text-xs text-muted-foreground hover:text-foreground"
+                        onClick={() => setExpandedEventId(expandedEventId === event.id ? null : event.id)}
+                      >
+                        {expandedEventId === event.id ? 'Hide details' : 'Show details'}
+                      </button>
+                    </div>
+
+                    {expandedEventId === event.id && (
+                      <div className="space-y-2">
+                        <div>
+                          <p className="text-xs font-medium mb-1">Payload</p>
+                          <pre className="text-xs bg-muted rounded p-2 overflow-x-auto max-h-48">
+                            {JSON.stringify(event.payload, null, 2)}
+                          </pre>
+                        </div>
+                        <div>
+                          <p className="text-xs font-medium mb-1">Prompt</p>
+                          <pre className="text-xs bg-muted rounded p-2 overflow-x-auto max-h-64 whitespace-pre-wrap">
+                            {event.lastPrompt ?? 'Failed before a prompt was built'}
+                          </pre>
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
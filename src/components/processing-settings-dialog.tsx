@@ -0,0 +1,116 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { api } from "@/trpc/react";
+import { Gauge } from "lucide-react";
+
+interface ProcessingSettingsDialogProps {
+  sheetId: string;
+  sheetName?: string;
+}
+
+/**
+ * How many rows of a sheet are processed in parallel
+ */
+export function ProcessingSettingsDialog({ sheetId, sheetName }: ProcessingSettingsDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [concurrency, setConcurrency] = useState("");
+
+  const utils = api.useUtils();
+
+  const { data: settings } = api.sheet.getProcessingSettings.useQuery(
+    { sheetId },
+    { enabled: open, refetchInterval: open ? 5000 : false }
+  );
+
+  // Only sync when the saved value changes, not on every stats refetch
+  const savedConcurrency = settings?.maxConcurrency;
+  useEffect(() => {
+    if (savedConcurrency !== undefined) {
+      setConcurrency(savedConcurrency?.toString() ?? "");
+    }
+  }, [savedConcurrency]);
+
+  const updateMutation = api.sheet.setConcurrency.useMutation({
+    onSuccess: () => {
+      void utils.sheet.getProcessingSettings.invalidate({ sheetId });
+      setOpen(false);
+    },
+    onError: (error) => {
+      alert(`Failed to save processing settings: ${error.message}`);
+    },
+  });
+
+  const handleSave = () => {
+    const value = concurrency.trim();
+    updateMutation.mutate({
+      sheetId,
+      maxConcurrency: value ? parseInt(value, 10) : null,
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Gauge className="h-4 w-4 mr-2" />
+          Processing
+        </Button>
+      </DialogTrigger>
+
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Processing</DialogTitle>
+          <DialogDescription>
+            How many rows of {sheetName ? `"${sheetName}"` : 'this sheet'} are filled in parallel
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Rows in parallel</label>
+            <Input
+              type="number"
+              min={1}
+              max={settings?.maxAllowedConcurrency}
+              value={concurrency}
+              onChange={(e) => setConcurrency(e.target.value)}
+              placeholder={settings ? `Default (${settings.defaultConcurrency})` : 'Default'}
+            />
+            <p className="text-xs text-muted-foreground">
+              Columns within a row still run in dependency order. All sheets share a limit of{' '}
+              {settings?.globalMaxConcurrentRequests ?? '...'} concurrent Gemini requests, and new
+              requests pause automatically when Gemini rate limits us.
+            </p>
+          </div>
+
+          {settings && (
+            <div className="text-xs text-muted-foreground space-y-1">
+              <p>
+                Gemini requests in flight: {settings.gemini.inFlight}
+                {settings.gemini.queued > 0 && ` (${settings.gemini.queued} waiting)`}
+              </p>
+              {settings.gemini.pausedForMs > 0 && (
+                <p className="text-amber-700">
+                  Rate limited - resuming in {Math.ceil(settings.gemini.pausedForMs / 1000)}s
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={updateMutation.isPending}>
+            {updateMutation.isPending ? 'Saving...' : 'Save'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,61 +1,13 @@
 "use client";
 
-import { useState } from "react";
-import { api } from "@/trpc/react";
+import Link from "next/link";
 import { Card, CardHeader, CardTitle, CardDescription, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
 import { Separator } from "@/components/ui/separator";
-import {
-  Dialog,
-  DialogContent,
-  DialogDescription,
-  DialogFooter,
-  DialogHeader,
-  DialogTitle,
-} from "@/components/ui/dialog";
-import { Copy, Eye, EyeOff, RefreshCw, Key, Check, AlertTriangle } from "lucide-react";
+import { ApiKeysManager } from "@/components/api-keys-manager";
+import { Key, DollarSign, Building2 } from "lucide-react";
 
 export function SettingsContent() {
-  const [showKey, setShowKey] = useState(false);
-  const [copied, setCopied] = useState(false);
-  const [regenerateDialogOpen, setRegenerateDialogOpen] = useState(false);
-
-  // Query API key
-  const { data: apiKeyData, isLoading, refetch } = api.apiKey.get.useQuery();
-
-  // Mutations
-  const generateMutation = api.apiKey.generate.useMutation({
-    onSuccess: () => {
-      refetch();
-    },
-  });
-
-  const regenerateMutation = api.apiKey.regenerate.useMutation({
-    onSuccess: () => {
-      refetch();
-      setRegenerateDialogOpen(false);
-    },
-  });
-
-  const handleCopy = async () => {
-    if (apiKeyData?.apiKey) {
-      await navigator.clipboard.writeText(apiKeyData.apiKey);
-      setCopied(true);
-      setTimeout(() => setCopied(false), 2000);
-    }
-  };
-
-  const handleGenerate = () => {
-    generateMutation.mutate();
-  };
-
-  const handleRegenerate = () => {
-    regenerateMutation.mutate();
-  };
-
-  const displayKey = showKey ? apiKeyData?.apiKey : apiKeyData?.maskedKey;
-
   return (
     <div className="max-w-4xl mx-auto p-6 space-y-6">
       <div>
@@ -75,100 +27,11 @@ export function SettingsContent() {
             <CardTitle>API Access</CardTitle>
           </div>
           <CardDescription>
-            Use your API key to integrate VibeSurfers with your applications
+            Create a key per integration, scoped to what it needs, to use VibeSurfers from your applications
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-6">
-          {isLoading ? (
-            <div className="flex items-center gap-2 text-muted-foreground">
-              <RefreshCw className="h-4 w-4 animate-spin" />
-              Loading...
-            </div>
-          ) : !apiKeyData?.hasKey ? (
-            // No API key yet
-            <div className="space-y-4">
-              <div className="bg-muted rounded-lg p-4">
-                <p className="text-sm text-muted-foreground">
-                  You don't have an API key yet. Generate one to start using the API.
-                </p>
-              </div>
-              <Button
-                onClick={handleGenerate}
-                disabled={generateMutation.isPending}
-                className="w-full sm:w-auto"
-              >
-                {generateMutation.isPending ? (
-                  <>
-                    <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
-                    Generating...
-                  </>
-                ) : (
-                  <>
-                    <Key className="h-4 w-4 mr-2" />
-                    Generate API Key
-                  </>
-                )}
-              </Button>
-            </div>
-          ) : (
-            // Has API key
-            <div className="space-y-4">
-              <div>
-                <label className="text-sm font-medium mb-2 block">Your API Key</label>
-                <div className="flex gap-2">
-                  <Input
-                    value={displayKey || ''}
-                    readOnly
-                    className="font-mono text-sm"
-                  />
-                  <Button
-                    variant="outline"
-                    size="icon"
-                    onClick={() => setShowKey(!showKey)}
-                    title={showKey ? 'Hide key' : 'Show key'}
-                  >
-                    {showKey ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
-                  </Button>
-                  <Button
-                    variant="outline"
-                    size="icon"
-                    onClick={handleCopy}
-                    title="Copy to clipboard"
-                  >
-                    {copied ? <Check className="h-4 w-4 text-green-600" /> : <Copy className="h-4 w-4" />}
-                  </Button>
-                </div>
-                {apiKeyData.createdAt && (
-                  <p className="text-xs text-muted-foreground mt-2">
-                    Created: {new Date(apiKeyData.createdAt).toLocaleDateString()}
-                  </p>
-                )}
-              </div>
-
-              <div className="flex gap-2">
-                <Button
-                  variant="destructive"
-                  onClick={() => setRegenerateDialogOpen(true)}
-                  disabled={regenerateMutation.isPending}
-                >
-                  <RefreshCw className="h-4 w-4 mr-2" />
-                  Regenerate Key
-                </Button>
-              </div>
-
-              <div className="bg-amber-50 dark:bg-amber-950 border border-amber-200 dark:border-amber-800 rounded-lg p-4">
-                <div className="flex gap-2">
-                  <AlertTriangle className="h-5 w-5 text-amber-600 dark:text-amber-400 flex-shrink-0 mt-0.5" />
-                  <div className="text-sm text-amber-900 dark:text-amber-100">
-                    <p className="font-medium mb-1">Keep your API key secure</p>
-                    <p className="text-amber-700 dark:text-amber-300">
-                      Anyone with your API key can access your sheets. Never share it publicly or commit it to version control.
-                    </p>
-                  </div>
-                </div>
-              </div>
-            </div>
-          )}
+          <ApiKeysManager />
 
           <Separator />
 
@@ -180,7 +43,7 @@ export function SettingsContent() {
               <div>
                 <h4 className="font-medium text-sm mb-2">Authentication</h4>
                 <p className="text-sm text-muted-foreground mb-2">
-                  Include your API key in the Authorization header:
+                  Include an API key in the Authorization header. Requests outside the key&apos;s scopes or sheet get a 403 or 404:
                 </p>
                 <pre className="bg-muted p-3 rounded-lg text-xs overflow-x-auto">
                   Authorization: Bearer YOUR_API_KEY
@@ -198,12 +61,53 @@ export function SettingsContent() {
                     <p className="text-muted-foreground">List all your sheets</p>
                   </div>
 
+                  <div className="bg-muted p-3 rounded-lg">
+                    <p className="font-mono text-xs mb-1">
+                      <span className="text-blue-600 dark:text-blue-400 font-bold">POST</span>{' '}
+                      /api/v1/sheets
+                    </p>
+                    <p className="text-muted-foreground mb-2">Create a sheet from a template or a list of columns (manage_sheets)</p>
+                    <pre className="text-xs bg-background p-2 rounded overflow-x-auto">
+{`{
+  "name": "Leads",
+  "templateId": "TEMPLATE_ID"
+}`}
+                    </pre>
+                  </div>
+
+                  <div className="bg-muted p-3 rounded-lg">
+                    <p className="font-mono text-xs mb-1">
+                      <span className="text-green-600 dark:text-green-400 font-bold">GET</span>{' '}
+                      <span className="text-blue-600 dark:text-blue-400 font-bold">POST</span>{' '}
+                      /api/v1/sheets/&#123;sheetId&#125;/columns
+                    </p>
+                    <p className="font-mono text-xs mb-1">
+                      <span className="text-amber-600 dark:text-amber-400 font-bold">PATCH</span>{' '}
+                      <span className="text-red-600 dark:text-red-400 font-bold">DELETE</span>{' '}
+                      /api/v1/sheets/&#123;sheetId&#125;/columns/&#123;columnId&#125;
+                    </p>
+                    <p className="text-muted-foreground">List, add, configure and delete columns (changes need manage_sheets)</p>
+                  </div>
+
+                  <div className="bg-muted p-3 rounded-lg">
+                    <p className="font-mono text-xs mb-1">
+                      <span className="text-amber-600 dark:text-amber-400 font-bold">PATCH</span>{' '}
+                      /api/v1/sheets/&#123;sheetId&#125;/cells
+                    </p>
+                    <p className="text-muted-foreground mb-2">Write individual cells; non-empty cells are processed unless &quot;process&quot; is false</p>
+                    <pre className="text-xs bg-background p-2 rounded overflow-x-auto">
+{`{
+  "cells": [{ "rowIndex": 3, "colIndex": 0, "content": "Acme Inc" }]
+}`}
+                    </pre>
+                  </div>
+
                   <div className="bg-muted p-3 rounded-lg">
                     <p className="font-mono text-xs mb-1">
                       <span className="text-blue-600 dark:text-blue-400 font-bold">POST</span>{' '}
                       /api/v1/sheets/&#123;sheetId&#125;/rows
                     </p>
-                    <p className="text-muted-foreground mb-2">Add rows to a sheet</p>
+                    <p className="text-muted-foreground mb-2">Add rows to a sheet (up to 1000 per request, within the key&apos;s daily row quota)</p>
                     <pre className="text-xs bg-background p-2 rounded overflow-x-auto">
 {`{
   "rows": [
@@ -214,16 +118,70 @@ export function SettingsContent() {
                     </pre>
                   </div>
 
+                  <div className="bg-muted p-3 rounded-lg">
+                    <p className="font-mono text-xs mb-1">
+                      <span className="text-blue-600 dark:text-blue-400 font-bold">POST</span>{' '}
+                      /api/v1/sheets/&#123;sheetId&#125;/enrich
+                    </p>
+                    <p className="text-muted-foreground">Add rows (same body as /rows) and get a job ID to follow them until they&apos;re filled</p>
+                  </div>
+
                   <div className="bg-muted p-3 rounded-lg">
                     <p className="font-mono text-xs mb-1">
                       <span className="text-green-600 dark:text-green-400 font-bold">GET</span>{' '}
-                      /api/v1/sheets/&#123;sheetId&#125;/data?format=csv
+                      /api/v1/jobs/&#123;jobId&#125;?wait=60
+                    </p>
+                    <p className="text-muted-foreground">Per-row progress of an enrich job; wait (up to 60 seconds) returns once every row has finished, with the filled values</p>
+                  </div>
+
+                  <div className="bg-muted p-3 rounded-lg">
+                    <p className="font-mono text-xs mb-1">
+                      <span className="text-green-600 dark:text-green-400 font-bold">GET</span>{' '}
+                      /api/v1/sheets/&#123;sheetId&#125;/data?format=csv&amp;include=sources
+                    </p>
+                    <p className="text-muted-foreground">Export sheet data (json or csv); include=sources adds a _sources column with the links behind each row&apos;s values, include=confidence a _confidence column with their scores (and, in JSON, each value&apos;s validation issues)</p>
+                  </div>
+
+                  <div className="bg-muted p-3 rounded-lg">
+                    <p className="font-mono text-xs mb-1">
+                      <span className="text-red-600 dark:text-red-400 font-bold">DELETE</span>{' '}
+                      /api/v1/sheets/&#123;sheetId&#125;/rows/&#123;rowIndex&#125;
                     </p>
-                    <p className="text-muted-foreground">Export sheet data (json or csv)</p>
+                    <p className="text-muted-foreground">Delete a row and its pending processing</p>
+                  </div>
+
+                  <div className="bg-muted p-3 rounded-lg">
+                    <p className="font-mono text-xs mb-1">
+                      <span className="text-blue-600 dark:text-blue-400 font-bold">POST</span>{' '}
+                      /api/v1/sheets/&#123;sheetId&#125;/reprocess
+                    </p>
+                    <p className="text-muted-foreground mb-2">Clear and refill one row or one column (rows queued count against the daily quota)</p>
+                    <pre className="text-xs bg-background p-2 rounded overflow-x-auto">
+{`{ "rowIndex": 3 }   or   { "colIndex": 2 }`}
+                    </pre>
                   </div>
                 </div>
               </div>
 
+              <div>
+                <h4 className="font-medium text-sm mb-2">Rate Limits</h4>
+                <p className="text-sm text-muted-foreground">
+                  Each key gets 60 requests per minute by default. Responses carry RateLimit-Limit,
+                  RateLimit-Remaining and RateLimit-Reset headers; over the limit you get a 429 with Retry-After.
+                </p>
+              </div>
+
+              <div>
+                <h4 className="font-medium text-sm mb-2">Retries and Duplicates</h4>
+                <p className="text-sm text-muted-foreground">
+                  Send an Idempotency-Key header with POST /rows and /enrich: a retry with the same key within
+                  24 hours gets the first response back instead of adding the rows twice. Mark a column as the
+                  sheet&apos;s key column and rows whose key matches an existing row update that row instead of
+                  being appended; matches that are already complete are skipped unless you send
+                  &quot;skipCompleteRows&quot;: false.
+                </p>
+              </div>
+
               <div>
                 <h4 className="font-medium text-sm mb-2">Example Request</h4>
                 <pre className="bg-muted p-3 rounded-lg text-xs overflow-x-auto">
@@ -231,50 +189,62 @@ export function SettingsContent() {
   -H "Authorization: Bearer YOUR_API_KEY"`}
                 </pre>
               </div>
+
+              <div>
+                <h4 className="font-medium text-sm mb-2">Reference</h4>
+                <p className="text-sm text-muted-foreground mb-2">
+                  Request and response schemas for every endpoint, an OpenAPI 3.1 spec for code generators,
+                  and a typed TypeScript client in packages/api-client.
+                </p>
+                <div className="flex flex-wrap gap-2">
+                  <Button variant="outline" size="sm" asChild>
+                    <Link href="/settings/api">API reference</Link>
+                  </Button>
+                  <Button variant="outline" size="sm" asChild>
+                    <a href="/api/v1/openapi.json" target="_blank" rel="noreferrer">openapi.json</a>
+                  </Button>
+                </div>
+              </div>
             </div>
           </div>
         </CardContent>
       </Card>
 
-      {/* Regenerate Confirmation Dialog */}
-      <Dialog open={regenerateDialogOpen} onOpenChange={setRegenerateDialogOpen}>
-        <DialogContent>
-          <DialogHeader>
-            <DialogTitle>Regenerate API Key?</DialogTitle>
-            <DialogDescription>
-              This will invalidate your current API key. Any applications using the old key will stop working immediately.
-            </DialogDescription>
-          </DialogHeader>
-          <div className="bg-destructive/10 border border-destructive/20 rounded-lg p-3">
-            <p className="text-sm text-destructive font-medium">
-              This action cannot be undone. Make sure to update all applications using your API key.
-            </p>
+      {/* Gemini Usage Section */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center gap-2">
+            <DollarSign className="h-5 w-5 text-primary" />
+            <CardTitle>Gemini Usage</CardTitle>
           </div>
-          <DialogFooter>
-            <Button
-              variant="outline"
-              onClick={() => setRegenerateDialogOpen(false)}
-              disabled={regenerateMutation.isPending}
-            >
-              Cancel
-            </Button>
-            <Button
-              variant="destructive"
-              onClick={handleRegenerate}
-              disabled={regenerateMutation.isPending}
-            >
-              {regenerateMutation.isPending ? (
-                <>
-                  <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
-                  Regenerating...
-                </>
-              ) : (
-                'Regenerate Key'
-              )}
-            </Button>
-          </DialogFooter>
-        </DialogContent>
-      </Dialog>
+          <CardDescription>
+            See what your enrichment runs cost, per sheet, column, operator and day
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Button variant="outline" asChild>
+            <Link href="/settings/usage">View usage dashboard</Link>
+          </Button>
+        </CardContent>
+      </Card>
+
+      {/* Workspace Section */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center gap-2">
+            <Building2 className="h-5 w-5 text-primary" />
+            <CardTitle>Workspace</CardTitle>
+          </div>
+          <CardDescription>
+            Share sheets, templates, API keys and a budget with your team
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Button variant="outline" asChild>
+            <Link href="/settings/workspace">Manage workspace</Link>
+          </Button>
+        </CardContent>
+      </Card>
     </div>
   );
 }
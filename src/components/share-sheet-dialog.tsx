@@ -0,0 +1,290 @@
+"use client";
+
+import { useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { api } from "@/trpc/react";
+import { useRouter } from "next/navigation";
+import { Users, X } from "lucide-react";
+
+interface ShareSheetDialogProps {
+  sheetId: string;
+  sheetName?: string;
+}
+
+const ROLE_LABELS: Record<string, string> = {
+  owner: 'Owner - can share, configure webhooks and budgets, and delete',
+  editor: 'Editor - can edit cells and columns and use the agent',
+  viewer: 'Viewer - can view the sheet',
+};
+
+const ROLES = ['owner', 'editor', 'viewer'] as const;
+type Role = (typeof ROLES)[number];
+
+const selectClassName = "h-8 rounded-md border border-input bg-background px-2 text-sm";
+
+/**
+ * Members of a sheet and their roles, plus email invitations (owners manage, everyone can see)
+ */
+export function ShareSheetDialog({ sheetId, sheetName }: ShareSheetDialogProps) {
+  const router = useRouter();
+  const [open, setOpen] = useState(false);
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<Role>('editor');
+
+  const utils = api.useUtils();
+
+  const { data, isLoading } = api.sheetMember.list.useQuery(
+    { sheetId },
+    { enabled: open }
+  );
+
+  // Workspaces the sheet can be moved into
+  const { data: workspaceData } = api.workspace.list.useQuery(undefined, { enabled: open });
+
+  const isOwner = data?.myRole === 'owner';
+  const currentUserId = data?.myUserId;
+
+  const invalidate = () => {
+    void utils.sheetMember.list.invalidate({ sheetId });
+  };
+
+  const inviteMutation = api.sheetMember.invite.useMutation({
+    onSuccess: () => {
+      setEmail("");
+      invalidate();
+    },
+    onError: (error) => {
+      alert(`Failed to invite: ${error.message}`);
+    },
+  });
+
+  const revokeMutation = api.sheetMember.revokeInvite.useMutation({
+    onSuccess: invalidate,
+    onError: (error) => {
+      alert(`Failed to revoke invitation: ${error.message}`);
+    },
+  });
+
+  const updateRoleMutation = api.sheetMember.updateRole.useMutation({
+    onSuccess: invalidate,
+    onError: (error) => {
+      alert(`Failed to change role: ${error.message}`);
+    },
+  });
+
+  const removeMutation = api.sheetMember.remove.useMutation({
+    onSuccess: (_, variables) => {
+      if (variables.userId === currentUserId) {
+        // Left the sheet
+        void utils.sheet.list.invalidate();
+        setOpen(false);
+        router.push('/welcome');
+        return;
+      }
+      invalidate();
+    },
+    onError: (error) => {
+      alert(`Failed to remove member: ${error.message}`);
+    },
+  });
+
+  const moveMutation = api.sheet.moveToWorkspace.useMutation({
+    onSuccess: () => {
+      invalidate();
+      void utils.sheet.list.invalidate();
+    },
+    onError: (error) => {
+      alert(`Failed to move sheet: ${error.message}`);
+    },
+  });
+
+  const handleInvite = () => {
+    const value = email.trim();
+    if (!value) return;
+    inviteMutation.mutate({ sheetId, email: value, role });
+  };
+
+  const handleLeave = () => {
+    if (!currentUserId) return;
+    if (!confirm(`Leave ${sheetName ? `"${sheetName}"` : 'this sheet'}? You'll need a new invitation to rejoin.`)) {
+      return;
+    }
+    removeMutation.mutate({ sheetId, userId: currentUserId });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Users className="h-4 w-4 mr-2" />
+          Share
+        </Button>
+      </DialogTrigger>
+
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Share</DialogTitle>
+          <DialogDescription>
+            People who can work on {sheetName ? `"${sheetName}"` : 'this sheet'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {isOwner && (
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Invite by email</label>
+              <div className="flex gap-2">
+                <Input
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') handleInvite();
+                  }}
+                  placeholder="teammate@company.com"
+                />
+                <select
+                  className={selectClassName}
+                  value={role}
+                  onChange={(e) => setRole(e.target.value as Role)}
+                >
+                  {ROLES.map((r) => (
+                    <option key={r} value={r}>{r}</option>
+                  ))}
+                </select>
+                <Button onClick={handleInvite} disabled={inviteMutation.isPending || !email.trim()}>
+                  {inviteMutation.isPending ? 'Inviting...' : 'Invite'}
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">{ROLE_LABELS[role]}</p>
+              <p className="text-xs text-muted-foreground">
+                They&apos;ll see the invitation in their sidebar after signing in with this email.
+              </p>
+            </div>
+          )}
+
+          {isOwner && workspaceData && workspaceData.workspaces.length > 0 && (
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Workspace</label>
+              <select
+                className={`${selectClassName} w-full`}
+                value={data.workspaceId ?? ''}
+                disabled={moveMutation.isPending}
+                onChange={(e) => moveMutation.mutate({ sheetId, workspaceId: e.target.value || null })}
+              >
+                <option value="">Personal</option>
+                {workspaceData.workspaces.map((workspace) => (
+                  <option key={workspace.id} value={workspace.id}>{workspace.name}</option>
+                ))}
+              </select>
+              <p className="text-xs text-muted-foreground">
+                Everyone in the workspace can edit its sheets, and its budget pays for processing.
+              </p>
+            </div>
+          )}
+
+          {isLoading && <p className="text-sm text-muted-foreground">Loading members...</p>}
+
+          {data && (
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Members</label>
+              <div className="border rounded-md divide-y">
+                {data.members.map((member) => (
+                  <div key={member.userId} className="flex items-center gap-3 p-2">
+                    <Avatar className="w-7 h-7">
+                      <AvatarImage src={member.image ?? undefined} alt={member.name ?? member.email} />
+                      <AvatarFallback className="text-xs">
+                        {(member.name ?? member.email).slice(0, 2).toUpperCase()}
+                      </AvatarFallback>
+                    </Avatar>
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm truncate">
+                        {member.name ?? member.email}
+                        {member.userId === currentUserId && ' (you)'}
+                      </p>
+                      <p className="text-xs text-muted-foreground truncate">{member.email}</p>
+                    </div>
+                    {isOwner ? (
+                      <select
+                        className={selectClassName}
+                        value={member.role}
+                        disabled={updateRoleMutation.isPending}
+                        onChange={(e) =>
+                          updateRoleMutation.mutate({
+                            sheetId,
+                            userId: member.userId,
+                            role: e.target.value as Role,
+                          })
+                        }
+                      >
+                        {ROLES.map((r) => (
+                          <option key={r} value={r}>{r}</option>
+                        ))}
+                      </select>
+                    ) : (
+                      <Badge variant="outline">{member.role}</Badge>
+                    )}
+                    {isOwner && member.userId !== currentUserId && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => removeMutation.mutate({ sheetId, userId: member.userId })}
+                        disabled={removeMutation.isPending}
+                        title="Remove member"
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {data && data.invites.length > 0 && (
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Pending invitations</label>
+              <div className="border rounded-md divide-y">
+                {data.invites.map((invite) => (
+                  <div key={invite.id} className="flex items-center gap-3 p-2">
+                    <p className="text-sm flex-1 truncate">{invite.email}</p>
+                    <Badge variant="outline">{invite.role}</Badge>
+                    {isOwner && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => revokeMutation.mutate({ sheetId, inviteId: invite.id })}
+                        disabled={revokeMutation.isPending}
+                        title="Revoke invitation"
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {data && currentUserId && (
+            <div className="flex justify-end">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleLeave}
+                disabled={removeMutation.isPending}
+                className="text-destructive hover:text-destructive"
+              >
+                Leave sheet
+              </Button>
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,8 +1,10 @@
 'use client'
 
+import { useState } from 'react'
+import Link from 'next/link'
 import { Button } from '@/components/ui/button'
 import { EventsPanel } from './events-panel'
-import { Download, RefreshCw, Play } from 'lucide-react'
+import { Download, RefreshCw, Play, AlertTriangle, History } from 'lucide-react'
 
 interface Event {
   id: string
@@ -13,20 +15,25 @@ interface Event {
 }
 
 interface SheetControlsProps {
+  sheetId: string
   events: Event[]
   onProcessEvents: () => void
   onRefreshEvents: () => void
-  onDownloadCSV: () => void
+  onDownloadCSV: (includeSources: boolean) => void
   isProcessing?: boolean
 }
 
 export function SheetControls({
+  sheetId,
   events,
   onProcessEvents,
   onRefreshEvents,
   onDownloadCSV,
   isProcessing = false
 }: SheetControlsProps) {
+  const [includeSources, setIncludeSources] = useState(false)
+  const failedCount = events.filter(e => e.status === 'failed').length
+
   return (
     <div className="fixed bottom-0 left-[var(--sidebar-width)] right-[var(--agent-panel-width)] bg-white border-t border-gray-300 shadow-lg z-40">
       <div className="px-4 py-3 space-y-3">
@@ -59,7 +66,7 @@ export function SheetControls({
             Refresh Events
           </Button>
           <Button
-            onClick={onDownloadCSV}
+            onClick={() => onDownloadCSV(includeSources)}
             variant="outline"
             size="sm"
             className="bg-green-50 hover:bg-green-100 border-green-300 text-green-700"
@@ -67,6 +74,36 @@ export function SheetControls({
             <Download className="h-4 w-4 mr-2" />
             Download CSV
           </Button>
+          <label
+            className="flex items-center gap-1.5 text-xs text-muted-foreground"
+            title="Adds a _sources column with the links behind each row's values"
+          >
+            <input
+              type="checkbox"
+              checked={includeSources}
+              onChange={(e) => setIncludeSources(e.target.checked)}
+            />
+            with sources
+          </label>
+          <Button asChild variant="outline" size="sm">
+            <Link href={`/sheets/${sheetId}/history`}>
+              <History className="h-4 w-4 mr-2" />
+              History
+            </Link>
+          </Button>
+          {failedCount > 0 && (
+            <Button
+              asChild
+              variant="outline"
+              size="sm"
+              className="bg-red-50 hover:bg-red-100 border-red-300 text-red-700"
+            >
+              <Link href={`/sheets/${sheetId}/failed`}>
+                <AlertTriangle className="h-4 w-4 mr-2" />
+                Failed events ({failedCount})
+              </Link>
+            </Button>
+          )}
         </div>
 
         {/* Collapsible Events Panel */}
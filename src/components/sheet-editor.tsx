@@ -4,10 +4,14 @@ import { TiptapTable } from "@/components/tiptap-table";
 import { AgentSidebar } from "@/components/agent-sidebar";
 import { SheetControls } from "@/components/sheet-controls";
 import { SheetHeader } from "@/components/sheet-header";
-import { useState, useCallback, createContext, useContext, useEffect } from "react";
+import { BudgetBanner } from "@/components/budget-banner";
+import { useState, useCallback, createContext, useContext, useEffect, useRef } from "react";
 import { api } from "@/trpc/react";
+import { useSheetEvents, type SheetEvent } from "@/hooks/use-sheet-events";
 import { useRouter } from "next/navigation";
 import Papa from "papaparse";
+import { SOURCES_COLUMN_TITLE, formatRowSources } from "@/lib/cell-sources";
+import type { CellProvenance } from "@/types/spreadsheet";
 
 interface SheetUpdateContextType {
   lastUpdate: Date | null;
@@ -54,12 +58,57 @@ export function SheetEditor({ sheetId, appUrl }: SheetEditorProps) {
     }
   );
 
+  const utils = api.useUtils();
+
+  // Pushed changes invalidate the affected queries, batched so a burst of
+  // writes causes one refetch
+  const staleQueries = useRef(new Set<'cells' | 'events'>());
+  const invalidateTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const handleSheetEvent = useCallback((event: SheetEvent) => {
+    if (event.type === 'cell_update') {
+      staleQueries.current.add('cells');
+    } else if (event.type === 'status_update') {
+      staleQueries.current.add('events');
+    } else if (event.type === 'connected') {
+      // Catch up on anything missed before the stream (re)opened
+      staleQueries.current.add('cells');
+      staleQueries.current.add('events');
+    } else {
+      return;
+    }
+
+    if (invalidateTimer.current) return;
+    invalidateTimer.current = setTimeout(() => {
+      invalidateTimer.current = null;
+      const stale = staleQueries.current;
+      if (stale.has('cells')) {
+        void utils.cell.getCells.invalidate({ sheetId });
+        void utils.cell.getProcessingStatus.invalidate({ sheetId });
+        void utils.clarification.listOpen.invalidate({ sheetId });
+      }
+      if (stale.has('events')) {
+        void utils.cell.getEvents.invalidate({ sheetId });
+        void utils.failedEvents.groups.invalidate({ sheetId });
+      }
+      stale.clear();
+    }, 250);
+  }, [sheetId, utils]);
+
+  useEffect(() => {
+    return () => {
+      if (invalidateTimer.current) clearTimeout(invalidateTimer.current);
+    };
+  }, []);
+
+  const { connected } = useSheetEvents(sheetId, { enabled: isReady, onEvent: handleSheetEvent });
+
   // Query events for sticky panel (with auto-refresh)
   const { data: events, refetch: refetchEvents } = api.cell.getEvents.useQuery(
     { sheetId },
     {
       enabled: !!sheetId && isReady,
-      refetchInterval: 2000, // Refresh every 2 seconds
+      refetchInterval: connected ? false : 2000, // Poll only while the change stream is down
     }
   );
 
@@ -75,8 +124,6 @@ export function SheetEditor({ sheetId, appUrl }: SheetEditorProps) {
     router.push(`/sheets/${newSheetId}`);
   }, [router]);
 
-  const utils = api.useUtils();
-
   // Sheet controls handlers
   const handleProcessEvents = useCallback(async () => {
     if (!sheetId) return;
@@ -96,7 +143,7 @@ export function SheetEditor({ sheetId, appUrl }: SheetEditorProps) {
     refetchEvents();
   }, [refetchEvents]);
 
-  const handleDownloadCSV = useCallback(async () => {
+  const handleDownloadCSV = useCallback(async (includeSources: boolean) => {
     if (!currentSheet?.name) return;
 
     try {
@@ -113,23 +160,35 @@ export function SheetEditor({ sheetId, appUrl }: SheetEditorProps) {
 
       // Build rows map
       const rowsMap = new Map<number, Map<number, string>>();
+      const provenanceMap = new Map<string, CellProvenance>();
       cells.forEach((cell) => {
         if (!rowsMap.has(cell.rowIndex)) {
           rowsMap.set(cell.rowIndex, new Map());
         }
         rowsMap.get(cell.rowIndex)!.set(cell.colIndex, cell.content || '');
+        if (cell.provenance) {
+          provenanceMap.set(`${cell.rowIndex}-${cell.colIndex}`, cell.provenance);
+        }
       });
 
       // Convert to array of arrays
       const rowIndices = Array.from(rowsMap.keys()).sort((a, b) => a - b);
       const rows = rowIndices.map((rowIndex) => {
         const rowData = rowsMap.get(rowIndex)!;
-        return columns.map((col, idx) => rowData.get(idx) || '');
+        const values = columns.map((col, idx) => rowData.get(idx) || '');
+        if (includeSources) {
+          values.push(formatRowSources(columns.map((col, idx) => ({
+            title: col.title,
+            provenance: provenanceMap.get(`${rowIndex}-${idx}`),
+          }))));
+        }
+        return values;
       });
 
       // Generate CSV
+      const fields = columns.map((col) => col.title);
       const csv = Papa.unparse({
-        fields: columns.map((col) => col.title),
+        fields: includeSources ? [...fields, SOURCES_COLUMN_TITLE] : fields,
         data: rows,
       });
 
@@ -229,7 +288,13 @@ export function SheetEditor({ sheetId, appUrl }: SheetEditorProps) {
         />
 
         <div className="pt-[120px] pb-[200px]">
-          <TiptapTable treatRobotsAsHumans={treatRobotsAsHumans} sheetId={sheetId} />
+          <BudgetBanner sheetId={sheetId} />
+          <TiptapTable
+            treatRobotsAsHumans={treatRobotsAsHumans}
+            sheetId={sheetId}
+            live={connected}
+            readOnly={currentSheet?.role === 'viewer'}
+          />
         </div>
       </main>
 
@@ -238,6 +303,7 @@ export function SheetEditor({ sheetId, appUrl }: SheetEditorProps) {
 
       {/* Sticky Bottom Control Panel */}
       <SheetControls
+        sheetId={sheetId}
         events={events ?? []}
         onProcessEvents={handleProcessEvents}
         onRefreshEvents={handleRefreshEvents}
@@ -3,6 +3,9 @@
 import { useState, useCallback } from "react";
 import { SheetSelector } from "@/components/sheet-selector";
 import { ApiSnippetsDialog } from "@/components/api-snippets-dialog";
+import { WebhookSettingsDialog } from "@/components/webhook-settings-dialog";
+import { ProcessingSettingsDialog } from "@/components/processing-settings-dialog";
+import { ShareSheetDialog } from "@/components/share-sheet-dialog";
 import { CountdownTimer } from "@/components/countdown-timer";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
@@ -22,7 +25,7 @@ import { Edit2, Check, X, Trash2 } from "lucide-react";
 interface SheetHeaderProps {
   sheetId: string;
   appUrl: string;
-  currentSheet?: { id: string; name: string };
+  currentSheet?: { id: string; name: string; role: string };
   pendingUpdates: number;
   treatRobotsAsHumans: boolean;
   onToggleRobotMode: () => void;
@@ -50,6 +53,9 @@ export function SheetHeader({
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [confirmText, setConfirmText] = useState("");
 
+  const isOwner = currentSheet?.role === 'owner';
+  const canEdit = isOwner || currentSheet?.role === 'editor';
+
   // Mutations
   const utils = api.useUtils();
 
@@ -133,25 +139,29 @@ export function SheetHeader({
                 <h1 className="text-3xl font-bold text-gray-900">
                   {currentSheet?.name || 'Loading...'}
                 </h1>
-                <Button
-                  size="icon-sm"
-                  variant="ghost"
-                  onClick={startEditTitle}
-                  className="opacity-0 group-hover:opacity-100 transition-opacity"
-                >
-                  <Edit2 className="w-5 h-5" />
-                </Button>
-                <Button
-                  size="icon-sm"
-                  variant="ghost"
-                  onClick={() => {
-                    setDeleteDialogOpen(true);
-                    setConfirmText("");
-                  }}
-                  className="text-destructive hover:text-destructive"
-                >
-                  <Trash2 className="w-5 h-5" />
-                </Button>
+                {canEdit && (
+                  <Button
+                    size="icon-sm"
+                    variant="ghost"
+                    onClick={startEditTitle}
+                    className="opacity-0 group-hover:opacity-100 transition-opacity"
+                  >
+                    <Edit2 className="w-5 h-5" />
+                  </Button>
+                )}
+                {isOwner && (
+                  <Button
+                    size="icon-sm"
+                    variant="ghost"
+                    onClick={() => {
+                      setDeleteDialogOpen(true);
+                      setConfirmText("");
+                    }}
+                    className="text-destructive hover:text-destructive"
+                  >
+                    <Trash2 className="w-5 h-5" />
+                  </Button>
+                )}
               </div>
             )}
           </div>
@@ -168,6 +178,20 @@ export function SheetHeader({
                 sheetName={currentSheet?.name}
                 appUrl={appUrl}
               />
+              <ShareSheetDialog
+                sheetId={sheetId}
+                sheetName={currentSheet?.name}
+              />
+              {isOwner && (
+                <WebhookSettingsDialog
+                  sheetId={sheetId}
+                  sheetName={currentSheet?.name}
+                />
+              )}
+              <ProcessingSettingsDialog
+                sheetId={sheetId}
+                sheetName={currentSheet?.name}
+              />
               {pendingUpdates > 0 && (
                 <Badge className="bg-green-100 text-green-700 border-green-200 hover:bg-green-100">
                   <div className="w-2 h-2 bg-green-500 rounded-full mr-2" />
@@ -0,0 +1,234 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { api } from "@/trpc/react";
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { SheetSnapshots } from "@/components/sheet-snapshots";
+import { ArrowLeft, History, RefreshCw, RotateCcw } from "lucide-react";
+
+interface SheetHistoryProps {
+  sheetId: string;
+  initialRow: number | null;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const PERIODS = [
+  { label: 'Last hour', ms: HOUR_MS },
+  { label: 'Since yesterday', ms: 24 * HOUR_MS },
+  { label: 'Last 7 days', ms: 7 * 24 * HOUR_MS },
+];
+
+const UPDATE_TYPE_LABELS: Record<string, string> = {
+  user_edit: 'Edit',
+  auto_copy: 'Auto copy',
+  clear: 'Cleared',
+  reprocess: 'Cleared for reprocessing',
+  row_delete: 'Row deleted',
+  revert: 'Reverted',
+};
+
+/**
+ * Who or what wrote a value: the operator for AI results, otherwise the kind of write and the user
+ */
+function writerLabel(entry: { updateType: string; operatorName: string | null; userName: string | null }) {
+  if (entry.updateType === 'ai_response') {
+    return entry.operatorName ?? 'AI';
+  }
+  const label = UPDATE_TYPE_LABELS[entry.updateType] ?? entry.updateType;
+  return entry.userName ? `${label} · ${entry.userName}` : label;
+}
+
+function Value({ content }: { content: string | null }) {
+  return content?.trim()
+    ? <span className="break-words">{content}</span>
+    : <span className="italic text-muted-foreground">empty</span>;
+}
+
+/**
+ * A sheet's change history: its snapshots, what changed over a period, and
+ * every past value of a row's cells, with revert for a cell or the whole row
+ */
+export function SheetHistory({ sheetId, initialRow }: SheetHistoryProps) {
+  const [period, setPeriod] = useState(PERIODS[1]!);
+  const [since, setSince] = useState(() => new Date(Date.now() - PERIODS[1]!.ms));
+  const [selectedRow, setSelectedRow] = useState<number | null>(initialRow);
+
+  const utils = api.useUtils();
+  const { data: columns } = api.sheet.getColumns.useQuery({ sheetId });
+  const { data: changes, isLoading } = api.history.changesSince.useQuery({ sheetId, since });
+  const { data: rowHistory } = api.history.rowHistory.useQuery(
+    { sheetId, rowIndex: selectedRow ?? 0 },
+    { enabled: selectedRow !== null }
+  );
+
+  const revertMutation = api.history.revert.useMutation({
+    onSuccess: ({ cellsReverted }) => {
+      if (cellsReverted === 0) {
+        alert('Nothing to revert: the values already match');
+      }
+      void utils.history.invalidate();
+      void utils.cell.getCells.invalidate({ sheetId });
+    },
+    onError: (error) => {
+      alert(error.message);
+    },
+  });
+
+  const columnTitle = (colIndex: number) =>
+    columns?.find((column) => column.position === colIndex)?.title ?? `Column ${colIndex + 1}`;
+
+  const selectPeriod = (next: typeof period) => {
+    setPeriod(next);
+    setSince(new Date(Date.now() - next.ms));
+  };
+
+  const revertRow = (rowIndex: number, at: Date) => {
+    if (!confirm(`Put every cell of row ${rowIndex + 1} back to its value at ${at.toLocaleString()}?`)) return;
+    revertMutation.mutate({ sheetId, rowIndex, at });
+  };
+
+  return (
+    <div className="max-w-5xl mx-auto p-6 space-y-6">
+      <div>
+        <Link href={`/sheets/${sheetId}`} className="text-sm text-muted-foreground hover:text-foreground flex items-center gap-1 mb-2">
+          <ArrowLeft className="h-4 w-4" />
+          Back to sheet
+        </Link>
+        <h1 className="text-3xl font-bold">History</h1>
+        <p className="text-muted-foreground mt-2">
+          Every value a cell has held, who or what wrote it, and when. Revert a cell or a whole row to an earlier point.
+        </p>
+      </div>
+
+      <SheetSnapshots sheetId={sheetId} columnTitle={columnTitle} />
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <CardTitle>What changed</CardTitle>
+              <CardDescription>Cells whose value differs from {since.toLocaleString()}</CardDescription>
+            </div>
+            <div className="flex gap-1 flex-shrink-0">
+              {PERIODS.map((option) => (
+                <Button
+                  key={option.label}
+                  size="sm"
+                  variant={option.label === period.label ? 'default' : 'outline'}
+                  onClick={() => selectPeriod(option)}
+                >
+                  {option.label}
+                </Button>
+              ))}
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center gap-2 text-muted-foreground">
+              <RefreshCw className="h-4 w-4 animate-spin" />
+              Loading...
+            </div>
+          ) : !changes || changes.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No changes</p>
+          ) : (
+            <div className="space-y-2">
+              {changes.map((change) => (
+                <div key={`${change.rowIndex}-${change.colIndex}`} className="rounded border p-3 space-y-1">
+                  <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                    <span className="font-medium text-foreground">
+                      Row {change.rowIndex + 1}, {columnTitle(change.colIndex)}
+                    </span>
+                    <Badge variant="outline">{writerLabel({
+                      updateType: change.lastUpdateType,
+                      operatorName: change.lastOperatorName,
+                      userName: change.lastUserName,
+                    })}</Badge>
+                    {change.changes > 1 && <span>{change.changes} changes</span>}
+                    {change.lastChangedAt && <span>{new Date(change.lastChangedAt).toLocaleString()}</span>}
+                    <div className="ml-auto flex gap-1">
+                      <Button size="sm" variant="ghost" onClick={() => setSelectedRow(change.rowIndex)}>
+                        <History className="h-4 w-4 mr-1" />
+                        Row history
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={revertMutation.isPending}
+                        onClick={() => revertMutation.mutate({ sheetId, rowIndex: change.rowIndex, colIndex: change.colIndex, at: since })}
+                      >
+                        <RotateCcw className="h-4 w-4 mr-1" />
+                        Revert
+                      </Button>
+                    </div>
+                  </div>
+                  <div className="grid grid-cols-2 gap-3 text-sm">
+                    <div className="bg-red-50 rounded p-2"><Value content={change.before} /></div>
+                    <div className="bg-green-50 rounded p-2"><Value content={change.after} /></div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {selectedRow !== null && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Row {selectedRow + 1}</CardTitle>
+            <CardDescription>Every recorded write, newest first</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {!rowHistory || rowHistory.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No history recorded for this row</p>
+            ) : (
+              <div className="space-y-2">
+                {rowHistory.map((entry) => (
+                  <div key={entry.id} className="rounded border p-3 space-y-1">
+                    <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                      <span className="font-medium text-foreground">{columnTitle(entry.colIndex)}</span>
+                      <Badge variant="outline">{writerLabel(entry)}</Badge>
+                      {entry.createdAt && <span>{new Date(entry.createdAt).toLocaleString()}</span>}
+                      {entry.createdAt && (
+                        <div className="ml-auto flex gap-1">
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            disabled={revertMutation.isPending}
+                            onClick={() => revertMutation.mutate({ sheetId, rowIndex: entry.rowIndex, colIndex: entry.colIndex, at: entry.createdAt! })}
+                            title="Put this cell back to the value written here"
+                          >
+                            <RotateCcw className="h-4 w-4 mr-1" />
+                            Restore
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            disabled={revertMutation.isPending}
+                            onClick={() => revertRow(entry.rowIndex, entry.createdAt!)}
+                            title="Put every cell of the row back to its value at this time"
+                          >
+                            Revert row to here
+                          </Button>
+                        </div>
+                      )}
+                    </div>
+                    <p className="text-sm">
+                      <span className="text-muted-foreground line-through mr-2"><Value content={entry.previousContent} /></span>
+                      <Value content={entry.content} />
+                    </p>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
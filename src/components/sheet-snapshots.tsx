@@ -0,0 +1,193 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { api } from "@/trpc/react";
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Camera, GitBranch, GitCompare, RotateCcw, Trash2 } from "lucide-react";
+
+interface SheetSnapshotsProps {
+  sheetId: string;
+  columnTitle: (colIndex: number) => string;
+}
+
+const TRIGGER_LABELS: Record<string, string> = {
+  manual: 'Manual',
+  before_reprocess: 'Before reprocess',
+  before_restore: 'Before restore',
+  agent: 'Agent',
+};
+
+/**
+ * Named copies of the sheet: take one, compare it with the sheet now, restore
+ * it, or fork it into a new sheet
+ */
+export function SheetSnapshots({ sheetId, columnTitle }: SheetSnapshotsProps) {
+  const router = useRouter();
+  const [name, setName] = useState('');
+  const [comparingId, setComparingId] = useState<string | null>(null);
+
+  const utils = api.useUtils();
+  const { data: snapshots } = api.snapshot.list.useQuery({ sheetId });
+  const { data: diff, isLoading: isDiffLoading } = api.snapshot.diff.useQuery(
+    { sheetId, snapshotId: comparingId ?? '' },
+    { enabled: !!comparingId }
+  );
+
+  const onError = (error: { message: string }) => {
+    alert(error.message);
+  };
+
+  const createMutation = api.snapshot.create.useMutation({
+    onSuccess: () => {
+      setName('');
+      void utils.snapshot.list.invalidate({ sheetId });
+    },
+    onError,
+  });
+  const restoreMutation = api.snapshot.restore.useMutation({
+    onSuccess: () => {
+      setComparingId(null);
+      void utils.snapshot.invalidate();
+      void utils.history.invalidate();
+      void utils.cell.getCells.invalidate({ sheetId });
+      void utils.sheet.getColumns.invalidate({ sheetId });
+    },
+    onError,
+  });
+  const forkMutation = api.snapshot.fork.useMutation({
+    onSuccess: (sheet) => {
+      void utils.sheet.invalidate();
+      router.push(`/sheets/${sheet.id}`);
+    },
+    onError,
+  });
+  const deleteMutation = api.snapshot.delete.useMutation({
+    onSuccess: () => {
+      void utils.snapshot.list.invalidate({ sheetId });
+    },
+    onError,
+  });
+  const isPending = createMutation.isPending || restoreMutation.isPending || forkMutation.isPending || deleteMutation.isPending;
+
+  const restore = (snapshot: { id: string; name: string }) => {
+    if (!confirm(`Replace the sheet's columns and cells with "${snapshot.name}"? The current state is snapshotted first.`)) return;
+    restoreMutation.mutate({ sheetId, snapshotId: snapshot.id });
+  };
+
+  const fork = (snapshot: { id: string; name: string }) => {
+    const forkName = prompt('Name of the new sheet', `${snapshot.name} (copy)`);
+    if (!forkName?.trim()) return;
+    forkMutation.mutate({ sheetId, snapshotId: snapshot.id, name: forkName.trim() });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Snapshots</CardTitle>
+        <CardDescription>
+          Taken automatically before reprocessing a column and before the agent changes the sheet
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form
+          className="flex gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (name.trim()) createMutation.mutate({ sheetId, name: name.trim() });
+          }}
+        >
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Snapshot name, e.g. Before reprocessing emails"
+            maxLength={255}
+          />
+          <Button type="submit" disabled={isPending || !name.trim()}>
+            <Camera className="h-4 w-4 mr-2" />
+            Take snapshot
+          </Button>
+        </form>
+
+        {!snapshots || snapshots.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No snapshots yet</p>
+        ) : (
+          <div className="space-y-2">
+            {snapshots.map((snapshot) => (
+              <div key={snapshot.id} className="rounded border p-3 space-y-2">
+                <div className="flex items-center gap-2 text-sm">
+                  <span className="font-medium">{snapshot.name}</span>
+                  <Badge variant="outline">{TRIGGER_LABELS[snapshot.trigger] ?? snapshot.trigger}</Badge>
+                  <span className="text-xs text-muted-foreground">
+                    {snapshot.columnCount} columns, {snapshot.cellCount} cells
+                    {snapshot.createdAt && ` · ${new Date(snapshot.createdAt).toLocaleString()}`}
+                  </span>
+                  <div className="ml-auto flex gap-1">
+                    <Button
+                      size="sm"
+                      variant={comparingId === snapshot.id ? 'default' : 'ghost'}
+                      onClick={() => setComparingId(comparingId === snapshot.id ? null : snapshot.id)}
+                    >
+                      <GitCompare className="h-4 w-4 mr-1" />
+                      Compare
+                    </Button>
+                    <Button size="sm" variant="outline" disabled={isPending} onClick={() => restore(snapshot)}>
+                      <RotateCcw className="h-4 w-4 mr-1" />
+                      Restore
+                    </Button>
+                    <Button size="sm" variant="outline" disabled={isPending} onClick={() => fork(snapshot)}>
+                      <GitBranch className="h-4 w-4 mr-1" />
+                      Fork
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      disabled={isPending}
+                      onClick={() => deleteMutation.mutate({ sheetId, snapshotId: snapshot.id })}
+                      title="Delete snapshot"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+
+                {comparingId === snapshot.id && (
+                  isDiffLoading || !diff ? (
+                    <p className="text-xs text-muted-foreground">Comparing...</p>
+                  ) : (
+                    <div className="space-y-2 text-xs">
+                      {diff.columnsAdded.length > 0 && <p>Columns added since: {diff.columnsAdded.join(', ')}</p>}
+                      {diff.columnsRemoved.length > 0 && <p>Columns removed since: {diff.columnsRemoved.join(', ')}</p>}
+                      {diff.columnsChanged.length > 0 && <p>Columns reconfigured since: {diff.columnsChanged.join(', ')}</p>}
+                      <p className="text-muted-foreground">
+                        {diff.cellsChanged === 0
+                          ? 'No cells changed since this snapshot'
+                          : `${diff.cellsChanged} cells changed since this snapshot${diff.cells.length < diff.cellsChanged ? ` (first ${diff.cells.length} shown)` : ''}`}
+                      </p>
+                      {diff.cells.length > 0 && (
+                        <div className="max-h-80 overflow-y-auto space-y-1">
+                          {diff.cells.map((cell) => (
+                            <div key={`${cell.rowIndex}-${cell.colIndex}`} className="grid grid-cols-[10rem_1fr_1fr] gap-2">
+                              <span className="text-muted-foreground truncate">
+                                Row {cell.rowIndex + 1}, {columnTitle(cell.colIndex)}
+                              </span>
+                              <span className="bg-red-50 rounded px-1 break-words">{cell.snapshot ?? <em>empty</em>}</span>
+                              <span className="bg-green-50 rounded px-1 break-words">{cell.current ?? <em>empty</em>}</span>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  )
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
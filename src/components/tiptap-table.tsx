@@ -10,6 +10,10 @@ import { api } from "@/trpc/react"
 import { useCallback, useRef, useEffect, useState, useContext, createContext } from 'react'
 import { Button } from "@/components/ui/button"
 import { ScrollArea, ScrollBar } from "@/components/ui/scroll-area"
+import { CellClarification } from "@/components/cell-clarification"
+import { CellSources } from "@/components/cell-sources"
+import { CellConfidence } from "@/components/cell-confidence"
+import { isLowConfidence } from "@/lib/cell-confidence"
 
 interface SheetUpdateContextType {
   lastUpdate: Date | null;
@@ -39,9 +43,13 @@ function generateInitialContent(columnCount: number): string {
 interface TiptapTableProps {
   treatRobotsAsHumans: boolean
   sheetId: string
+  /** Changes are being pushed over SSE; poll only while disconnected */
+  live?: boolean
+  /** The user is a viewer on this sheet */
+  readOnly?: boolean
 }
 
-export function TiptapTable({ treatRobotsAsHumans, sheetId }: TiptapTableProps) {
+export function TiptapTable({ treatRobotsAsHumans, sheetId, live = false, readOnly = false }: TiptapTableProps) {
   const { lastUpdate } = useSheetUpdates()
   const isApplyingRobotUpdates = useRef(false)
   const [columnCount, setColumnCount] = useState(2)
@@ -55,6 +63,8 @@ export function TiptapTable({ treatRobotsAsHumans, sheetId }: TiptapTableProps)
   } | null>(null)
   const [isAddingColumn, setIsAddingColumn] = useState(false)
   const [newColumnTitle, setNewColumnTitle] = useState('')
+  const [showConfidence, setShowConfidence] = useState(true)
+  const [lowConfidenceOnly, setLowConfidenceOnly] = useState(false)
   const columnInputRef = useRef<HTMLInputElement>(null)
 
   const utils = api.useUtils()
@@ -134,7 +144,7 @@ export function TiptapTable({ treatRobotsAsHumans, sheetId }: TiptapTableProps)
   const { data: cells, refetch: refetchCells } = api.cell.getCells.useQuery(
     { sheetId },
     {
-      refetchInterval: 2000,
+      refetchInterval: live ? false : 2000,
       retry: (failureCount, error) => {
         if (error.data?.code === 'UNAUTHORIZED') return false;
         return failureCount < 3;
@@ -170,7 +180,19 @@ export function TiptapTable({ treatRobotsAsHumans, sheetId }: TiptapTableProps)
   const { data: processingStatus } = api.cell.getProcessingStatus.useQuery(
     { sheetId },
     {
-      refetchInterval: 2000,
+      refetchInterval: live ? false : 2000,
+      retry: (failureCount, error) => {
+        if (error.data?.code === 'UNAUTHORIZED') return false;
+        return failureCount < 3;
+      },
+      refetchOnWindowFocus: false,
+    }
+  )
+
+  const { data: clarifications, refetch: refetchClarifications } = api.clarification.listOpen.useQuery(
+    { sheetId },
+    {
+      refetchInterval: live ? false : 5000,
       retry: (failureCount, error) => {
         if (error.data?.code === 'UNAUTHORIZED') return false;
         return failureCount < 3;
@@ -309,6 +331,7 @@ export function TiptapTable({ treatRobotsAsHumans, sheetId }: TiptapTableProps)
       TableCell,
     ],
     content: generateInitialContent(columnCount),
+    editable: !readOnly,
     immediatelyRender: false,
     onUpdate: ({ editor }) => {
       // Parse table and extract actual cell contents
@@ -388,6 +411,11 @@ export function TiptapTable({ treatRobotsAsHumans, sheetId }: TiptapTableProps)
     }
   }, [columnCount, editor])
 
+  // The role arrives after the editor is created
+  useEffect(() => {
+    editor?.setEditable(!readOnly)
+  }, [editor, readOnly])
+
   // Clear editor and refetch when sheet changes
   useEffect(() => {
     if (!editor) return
@@ -738,6 +766,12 @@ export function TiptapTable({ treatRobotsAsHumans, sheetId }: TiptapTableProps)
 
   if (!editor) return null
 
+  const scoredCells = cells?.filter((cell) => cell.confidence !== null && cell.content?.trim()) ?? []
+  const lowConfidenceCells = new Set(
+    scoredCells.filter((cell) => isLowConfidence(cell.confidence)).map((cell) => `${cell.rowIndex}-${cell.colIndex}`)
+  )
+  const rowCount = cells && cells.length > 0 ? Math.max(...cells.map((cell) => cell.rowIndex)) + 1 : 0
+
   return (
     <div className="space-y-4 pb-52">
       <style dangerouslySetInnerHTML={{ __html: `
@@ -782,6 +816,26 @@ export function TiptapTable({ treatRobotsAsHumans, sheetId }: TiptapTableProps)
           z-index: 10;
         }
       `}} />
+      {scoredCells.length > 0 && (
+        <div className="flex items-center gap-4 text-xs text-muted-foreground">
+          <label className="flex items-center gap-1.5">
+            <input
+              type="checkbox"
+              checked={showConfidence}
+              onChange={(e) => setShowConfidence(e.target.checked)}
+            />
+            Confidence heatmap
+          </label>
+          <label className="flex items-center gap-1.5">
+            <input
+              type="checkbox"
+              checked={lowConfidenceOnly}
+              onChange={(e) => setLowConfidenceOnly(e.target.checked)}
+            />
+            Show only low-confidence cells ({lowConfidenceCells.size} of {scoredCells.length})
+          </label>
+        </div>
+      )}
       <ScrollArea className="w-full">
       <div className="relative group">
         <table style={{ width: '100%', borderCollapse: 'collapse', tableLayout: 'fixed', position: 'relative' }}>
@@ -868,9 +922,9 @@ export function TiptapTable({ treatRobotsAsHumans, sheetId }: TiptapTableProps)
                 className="row-actions"
                 style={{
                   position: 'absolute',
-                  left: '-50px',
+                  left: '-72px',
                   top: `${rowIndex * 40}px`,
-                  width: '45px',
+                  width: '68px',
                   height: '40px',
                   display: 'none',
                   alignItems: 'center',
@@ -903,9 +957,84 @@ export function TiptapTable({ treatRobotsAsHumans, sheetId }: TiptapTableProps)
                 >
                   ↻
                 </button>
+                <a
+                  href={`/sheets/${sheetId}/history?row=${rowIndex}`}
+                  className="p-1 text-gray-600 hover:bg-gray-100 rounded transition-colors"
+                  title="Row history"
+                  style={{ fontSize: '14px' }}
+                >
+                  🕘
+                </a>
               </div>
             ))}
           </div>
+          {/* How much to trust operator-written values - tinted by confidence */}
+          {showConfidence && scoredCells.map((cell) => (
+            <CellConfidence
+              key={`${cell.rowIndex}-${cell.colIndex}`}
+              confidence={cell.confidence!}
+              validation={cell.validation}
+              style={{
+                position: 'absolute',
+                left: `${cell.colIndex * 250}px`,
+                top: `${cell.rowIndex * 40}px`,
+                width: '250px',
+                height: '40px',
+              }}
+            />
+          ))}
+          {/* Low-confidence filter - fade out every other cell */}
+          {lowConfidenceOnly && Array.from({ length: rowCount }, (_, rowIndex) =>
+            Array.from({ length: columnCount }, (_, colIndex) =>
+              lowConfidenceCells.has(`${rowIndex}-${colIndex}`) ? null : (
+                <div
+                  key={`${rowIndex}-${colIndex}`}
+                  className="bg-white/85"
+                  style={{
+                    position: 'absolute',
+                    left: `${colIndex * 250}px`,
+                    top: `${rowIndex * 40}px`,
+                    width: '250px',
+                    height: '40px',
+                    zIndex: 20,
+                  }}
+                />
+              )
+            )
+          )}
+          {/* Where operator-written values came from - a badge in the corner of their cells */}
+          {cells?.filter((cell) => cell.provenance && cell.content?.trim()).map((cell) => (
+            <CellSources
+              key={`${cell.rowIndex}-${cell.colIndex}`}
+              provenance={cell.provenance!}
+              columnTitle={columnTitles[cell.colIndex] ?? null}
+              style={{
+                position: 'absolute',
+                left: `${cell.colIndex * 250}px`,
+                top: `${cell.rowIndex * 40}px`,
+                width: '250px',
+                height: '40px',
+              }}
+            />
+          ))}
+          {/* Questions operators asked instead of guessing - positioned over their cells */}
+          {clarifications?.map((clarification) => (
+            <CellClarification
+              key={clarification.promptId}
+              clarification={clarification}
+              style={{
+                position: 'absolute',
+                left: `${clarification.colIndex * 250}px`,
+                top: `${clarification.rowIndex * 40}px`,
+                width: '250px',
+                height: '40px',
+              }}
+              onResolved={() => {
+                void refetchClarifications()
+                void refetch()
+              }}
+            />
+          ))}
         </div>
       </div>
       <ScrollBar orientation="horizontal" />
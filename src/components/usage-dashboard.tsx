@@ -0,0 +1,390 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { api } from "@/trpc/react";
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Separator } from "@/components/ui/separator";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { BudgetLimitsDialog } from "@/components/budget-limits-dialog";
+import { ArrowLeft, DollarSign, RefreshCw, Users, Wallet } from "lucide-react";
+
+const PERIODS = [7, 30, 90] as const;
+
+function formatCost(cost: number) {
+  return cost < 0.01 && cost > 0 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
+}
+
+/**
+ * Share of operator results served from the cache instead of a Gemini call
+ */
+function formatHitRate(cacheHits: number, calls: number) {
+  const total = cacheHits + calls;
+  return total > 0 ? `${Math.round((cacheHits / total) * 100)}%` : '-';
+}
+
+function formatTokens(tokens: number) {
+  if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(1)}M`;
+  if (tokens >= 1_000) return `${(tokens / 1_000).toFixed(1)}K`;
+  return String(tokens);
+}
+
+export function UsageDashboard() {
+  const [days, setDays] = useState<number>(30);
+  const [selectedSheetId, setSelectedSheetId] = useState<string | null>(null);
+  const [budgetDialog, setBudgetDialog] = useState<'user' | 'workspace' | 'sheet' | null>(null);
+  const [showWorkspace, setShowWorkspace] = useState(false);
+
+  // The active workspace's usage rolls up every member's calls on its sheets and templates
+  const { data: workspaceData } = api.workspace.list.useQuery();
+  const activeWorkspace = workspaceData?.workspaces.find(
+    (workspace) => workspace.id === workspaceData.activeWorkspaceId
+  );
+  const workspaceId = showWorkspace ? activeWorkspace?.id : undefined;
+
+  const { data: summary, isLoading } = api.usage.summary.useQuery({ days, workspaceId });
+  const { data: bySheet } = api.usage.bySheet.useQuery({ days, workspaceId });
+  const { data: byOperator } = api.usage.byOperator.useQuery({ days, workspaceId });
+  const { data: byDay } = api.usage.byDay.useQuery({ days, workspaceId });
+  const { data: byUser } = api.usage.byUser.useQuery(
+    { days, workspaceId },
+    { enabled: !!workspaceId }
+  );
+  const { data: byColumn } = api.usage.byColumn.useQuery(
+    { days, sheetId: selectedSheetId!, workspaceId },
+    { enabled: !!selectedSheetId }
+  );
+  const { data: budget } = api.budget.getStatus.useQuery({ sheetId: selectedSheetId ?? undefined, workspaceId });
+
+  // Show the workspace's shared budget when looking at workspace usage
+  const scopeBudget = workspaceId ? budget?.workspace : budget?.user;
+  const canEditBudget = !workspaceId || activeWorkspace?.role === 'owner';
+
+  const handleScopeChange = (workspace: boolean) => {
+    setShowWorkspace(workspace);
+    setSelectedSheetId(null);
+  };
+
+  const maxDailyCost = Math.max(...(byDay ?? []).map(d => d.cost), 0);
+  const selectedSheetName = bySheet?.find(s => s.sheetId === selectedSheetId)?.sheetName;
+
+  return (
+    <div className="max-w-4xl mx-auto p-6 space-y-6">
+      <div>
+        <Link href="/settings" className="text-sm text-muted-foreground hover:text-foreground flex items-center gap-1 mb-2">
+          <ArrowLeft className="h-4 w-4" />
+          Settings
+        </Link>
+        <h1 className="text-3xl font-bold">Gemini Usage</h1>
+        <p className="text-muted-foreground mt-2">
+          Estimated spend on your Gemini keys, from every operator, agent and template call
+        </p>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {activeWorkspace && (
+          <>
+            <Button size="sm" variant={!workspaceId ? "default" : "outline"} onClick={() => handleScopeChange(false)}>
+              Me
+            </Button>
+            <Button size="sm" variant={workspaceId ? "default" : "outline"} onClick={() => handleScopeChange(true)}>
+              {activeWorkspace.name}
+            </Button>
+            <div className="w-px bg-border mx-1" />
+          </>
+        )}
+        {PERIODS.map((period) => (
+          <Button
+            key={period}
+            size="sm"
+            variant={days === period ? "default" : "outline"}
+            onClick={() => setDays(period)}
+          >
+            Last {period} days
+          </Button>
+        ))}
+      </div>
+
+      <Separator />
+
+      {/* Totals */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center gap-2">
+            <DollarSign className="h-5 w-5 text-primary" />
+            <CardTitle>Total Spend</CardTitle>
+          </div>
+          <CardDescription>
+            Estimated from token counts using published per-model pricing
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading || !summary ? (
+            <div className="flex items-center gap-2 text-muted-foreground">
+              <RefreshCw className="h-4 w-4 animate-spin" />
+              Loading...
+            </div>
+          ) : (
+            <div className="grid grid-cols-2 sm:grid-cols-5 gap-4">
+              <div>
+                <p className="text-2xl font-bold">{formatCost(summary.cost)}</p>
+                <p className="text-xs text-muted-foreground">Estimated cost</p>
+              </div>
+              <div>
+                <p className="text-2xl font-bold">{summary.calls}</p>
+                <p className="text-xs text-muted-foreground">Gemini calls ({summary.errors} failed)</p>
+              </div>
+              <div>
+                <p className="text-2xl font-bold">{formatHitRate(summary.cacheHits, summary.calls)}</p>
+                <p className="text-xs text-muted-foreground">Cache hit rate ({summary.cacheHits} calls saved)</p>
+              </div>
+              <div>
+                <p className="text-2xl font-bold">{formatTokens(summary.totalTokens)}</p>
+                <p className="text-xs text-muted-foreground">
+                  Tokens ({formatTokens(summary.promptTokens)} in / {formatTokens(summary.outputTokens)} out)
+                </p>
+              </div>
+              <div>
+                <p className="text-2xl font-bold">{(summary.avgDurationMs / 1000).toFixed(1)}s</p>
+                <p className="text-xs text-muted-foreground">Average call duration</p>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Monthly budget */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center gap-2">
+            <Wallet className="h-5 w-5 text-primary" />
+            <CardTitle>{workspaceId ? 'Workspace Budget' : 'Monthly Budget'}</CardTitle>
+          </div>
+          <CardDescription>
+            {workspaceId
+              ? "The workspace's sheets stop processing when its shared budget or their own cap is reached this month"
+              : 'Sheets stop processing when the account budget or their own cap is reached this month'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex items-center justify-between gap-4">
+          {scopeBudget ? (
+            <div className="text-sm space-y-1">
+              <p>
+                <span className="font-medium">{formatCost(scopeBudget.spendUsd)}</span>
+                {' of '}
+                {scopeBudget.budgetUsd !== null ? formatCost(scopeBudget.budgetUsd) : 'no dollar limit'}
+              </p>
+              <p className="text-muted-foreground">
+                {formatTokens(scopeBudget.tokens)} tokens
+                {scopeBudget.tokenBudget !== null && ` of ${formatTokens(scopeBudget.tokenBudget)}`}
+              </p>
+              {budget?.exceeded?.scope === (workspaceId ? 'workspace' : 'user') && (
+                <p className="text-red-600">{budget.exceeded.reason}</p>
+              )}
+            </div>
+          ) : (
+            <div />
+          )}
+          {canEditBudget && (
+            <Button variant="outline" onClick={() => setBudgetDialog(workspaceId ? 'workspace' : 'user')}>
+              Set budget
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Per day */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Spend per Day</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {!byDay || byDay.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No usage in this period</p>
+          ) : (
+            <div className="space-y-1">
+              {byDay.map((day) => (
+                <div key={day.day} className="flex items-center gap-3 text-sm">
+                  <span className="w-24 font-mono text-xs text-muted-foreground">{day.day}</span>
+                  <div className="flex-1 bg-muted rounded h-4 overflow-hidden">
+                    <div
+                      className="bg-primary h-4"
+                      style={{ width: `${maxDailyCost > 0 ? (day.cost / maxDailyCost) * 100 : 0}%` }}
+                    />
+                  </div>
+                  <span className="w-20 text-right">{formatCost(day.cost)}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Per member of the workspace */}
+      {workspaceId && (
+        <Card>
+          <CardHeader>
+            <div className="flex items-center gap-2">
+              <Users className="h-5 w-5 text-primary" />
+              <CardTitle>Spend per Member</CardTitle>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Member</TableHead>
+                  <TableHead className="text-right">Calls</TableHead>
+                  <TableHead className="text-right">Tokens</TableHead>
+                  <TableHead className="text-right">Cost</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {(byUser ?? []).map((row) => (
+                  <TableRow key={row.userId}>
+                    <TableCell>{row.userName ?? row.userEmail ?? row.userId}</TableCell>
+                    <TableCell className="text-right">{row.calls}</TableCell>
+                    <TableCell className="text-right">{formatTokens(row.totalTokens)}</TableCell>
+                    <TableCell className="text-right">{formatCost(row.cost)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Per sheet */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Spend per Sheet</CardTitle>
+          <CardDescription>Select a sheet to break its spend down by column</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Sheet</TableHead>
+                <TableHead className="text-right">Calls</TableHead>
+                <TableHead className="text-right">Tokens</TableHead>
+                <TableHead className="text-right">Cost</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {(bySheet ?? []).map((row) => (
+                <TableRow
+                  key={row.sheetId ?? 'none'}
+                  onClick={() => row.sheetId && setSelectedSheetId(row.sheetId)}
+                  className={`${row.sheetId ? 'cursor-pointer' : ''} ${row.sheetId === selectedSheetId ? 'bg-muted' : ''}`}
+                >
+                  <TableCell>{row.sheetName ?? <span className="text-muted-foreground">Templates &amp; other</span>}</TableCell>
+                  <TableCell className="text-right">{row.calls}</TableCell>
+                  <TableCell className="text-right">{formatTokens(row.totalTokens)}</TableCell>
+                  <TableCell className="text-right">{formatCost(row.cost)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {/* Per column of selected sheet */}
+      {selectedSheetId && (
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div>
+                <CardTitle>Spend per Column</CardTitle>
+                <CardDescription>
+                  {selectedSheetName}
+                  {budget?.sheet?.budgetUsd != null && ` - cap ${formatCost(budget.sheet.budgetUsd)}/month`}
+                </CardDescription>
+              </div>
+              <Button size="sm" variant="outline" onClick={() => setBudgetDialog('sheet')}>
+                Set sheet cap
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Column</TableHead>
+                  <TableHead className="text-right">Calls</TableHead>
+                  <TableHead className="text-right">Cache hit rate</TableHead>
+                  <TableHead className="text-right">Tokens</TableHead>
+                  <TableHead className="text-right">Cost</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {(byColumn ?? []).map((row) => (
+                  <TableRow key={row.colIndex ?? 'agent'}>
+                    <TableCell>
+                      {row.colIndex === null
+                        ? <span className="text-muted-foreground">Agent</span>
+                        : row.columnTitle ?? `Column ${row.colIndex + 1}`}
+                    </TableCell>
+                    <TableCell className="text-right">{row.calls}</TableCell>
+                    <TableCell className="text-right">{formatHitRate(row.cacheHits, row.calls)}</TableCell>
+                    <TableCell className="text-right">{formatTokens(row.totalTokens)}</TableCell>
+                    <TableCell className="text-right">{formatCost(row.cost)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Per operator */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Spend per Operator</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Operator</TableHead>
+                <TableHead className="text-right">Calls</TableHead>
+                <TableHead className="text-right">Errors</TableHead>
+                <TableHead className="text-right">Cache hit rate</TableHead>
+                <TableHead className="text-right">Avg duration</TableHead>
+                <TableHead className="text-right">Cost</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {(byOperator ?? []).map((row) => (
+                <TableRow key={row.operatorName}>
+                  <TableCell className="font-mono text-xs">{row.operatorName}</TableCell>
+                  <TableCell className="text-right">{row.calls}</TableCell>
+                  <TableCell className="text-right">{row.errors}</TableCell>
+                  <TableCell className="text-right">{formatHitRate(row.cacheHits, row.calls)}</TableCell>
+                  <TableCell className="text-right">{(row.avgDurationMs / 1000).toFixed(1)}s</TableCell>
+                  <TableCell className="text-right">{formatCost(row.cost)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <BudgetLimitsDialog
+        open={budgetDialog !== null}
+        onOpenChange={(open) => !open && setBudgetDialog(null)}
+        sheetId={budgetDialog === 'sheet' ? selectedSheetId ?? undefined : undefined}
+        workspaceId={budgetDialog === 'workspace' ? workspaceId : undefined}
+        currentBudgetUsd={(budgetDialog === 'sheet' ? budget?.sheet?.budgetUsd : scopeBudget?.budgetUsd) ?? null}
+        currentTokenBudget={(budgetDialog === 'sheet' ? budget?.sheet?.tokenBudget : scopeBudget?.tokenBudget) ?? null}
+      />
+    </div>
+  );
+}
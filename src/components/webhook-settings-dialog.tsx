@@ -0,0 +1,280 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { api } from "@/trpc/react";
+import { Webhook, Copy, Check, RefreshCw, Send, RotateCcw } from "lucide-react";
+
+interface WebhookSettingsDialogProps {
+  sheetId: string;
+  sheetName?: string;
+}
+
+type Tab = 'settings' | 'deliveries';
+
+const EVENT_LABELS: Record<string, string> = {
+  row_complete: 'Row complete - every column in a row has been filled',
+  sheet_complete: 'Sheet complete - every row in the sheet is done',
+  error: 'Error - an operator failed to process a cell',
+};
+
+export function WebhookSettingsDialog({ sheetId, sheetName }: WebhookSettingsDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [selectedTab, setSelectedTab] = useState<Tab>('settings');
+  const [url, setUrl] = useState("");
+  const [events, setEvents] = useState<string[]>([]);
+  const [copied, setCopied] = useState(false);
+  const [expandedDelivery, setExpandedDelivery] = useState<string | null>(null);
+
+  const utils = api.useUtils();
+
+  const { data: config } = api.webhook.getConfig.useQuery(
+    { sheetId },
+    { enabled: open }
+  );
+
+  const { data: deliveries, isLoading: deliveriesLoading } = api.webhook.listDeliveries.useQuery(
+    { sheetId },
+    { enabled: open && selectedTab === 'deliveries', refetchInterval: 5000 }
+  );
+
+  useEffect(() => {
+    if (config) {
+      setUrl(config.webhookUrl ?? "");
+      setEvents(config.webhookEvents);
+    }
+  }, [config]);
+
+  const updateMutation = api.webhook.updateConfig.useMutation({
+    onSuccess: () => {
+      void utils.webhook.getConfig.invalidate({ sheetId });
+    },
+    onError: (error) => {
+      alert(`Failed to save webhook: ${error.message}`);
+    },
+  });
+
+  const rotateMutation = api.webhook.rotateSecret.useMutation({
+    onSuccess: () => {
+      void utils.webhook.getConfig.invalidate({ sheetId });
+    },
+  });
+
+  const testMutation = api.webhook.sendTest.useMutation({
+    onSuccess: (delivery) => {
+      void utils.webhook.listDeliveries.invalidate({ sheetId });
+      if (delivery.status === 'delivered') {
+        alert(`Test delivered (HTTP ${delivery.responseStatus})`);
+      } else {
+        alert(`Test delivery failed: ${delivery.lastError ?? 'unknown error'}. It will be retried automatically.`);
+      }
+    },
+    onError: (error) => {
+      alert(`Failed to send test: ${error.message}`);
+    },
+  });
+
+  const redeliverMutation = api.webhook.redeliver.useMutation({
+    onSuccess: () => {
+      void utils.webhook.listDeliveries.invalidate({ sheetId });
+    },
+  });
+
+  const toggleEvent = (event: string) => {
+    setEvents(prev => prev.includes(event) ? prev.filter(e => e !== event) : [...prev, event]);
+  };
+
+  const handleSave = () => {
+    updateMutation.mutate({
+      sheetId,
+      webhookUrl: url.trim() || null,
+      webhookEvents: events as Array<'row_complete' | 'sheet_complete' | 'error'>,
+    });
+  };
+
+  const copySecret = async () => {
+    if (!config?.webhookSecret) return;
+    await navigator.clipboard.writeText(config.webhookSecret);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const statusBadgeClass = (status: string) => {
+    switch (status) {
+      case 'delivered':
+        return 'bg-green-100 text-green-700 border-green-200 hover:bg-green-100';
+      case 'failed':
+        return 'bg-red-100 text-red-700 border-red-200 hover:bg-red-100';
+      default:
+        return 'bg-amber-100 text-amber-700 border-amber-200 hover:bg-amber-100';
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Webhook className="h-4 w-4 mr-2" />
+          Webhooks
+        </Button>
+      </DialogTrigger>
+
+      <DialogContent className="max-w-3xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Webhooks</DialogTitle>
+          <DialogDescription>
+            Get notified when {sheetName ? `"${sheetName}"` : 'this sheet'} finishes rows, completes, or hits errors
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {/* Tabs */}
+          <div className="flex gap-2 border-b">
+            <button
+              onClick={() => setSelectedTab('settings')}
+              className={`px-4 py-2 text-sm font-medium border-b-2 transition-colors ${
+                selectedTab === 'settings'
+                  ? 'border-primary text-primary'
+                  : 'border-transparent text-muted-foreground hover:text-foreground'
+              }`}
+            >
+              Settings
+            </button>
+            <button
+              onClick={() => setSelectedTab('deliveries')}
+              className={`px-4 py-2 text-sm font-medium border-b-2 transition-colors ${
+                selectedTab === 'deliveries'
+                  ? 'border-primary text-primary'
+                  : 'border-transparent text-muted-foreground hover:text-foreground'
+              }`}
+            >
+              Delivery History
+            </button>
+          </div>
+
+          {selectedTab === 'settings' ? (
+            <div className="space-y-6">
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Endpoint URL</label>
+                <Input
+                  value={url}
+                  onChange={(e) => setUrl(e.target.value)}
+                  placeholder="https://example.com/hooks/websurfing"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Events</label>
+                {(config?.availableEvents ?? Object.keys(EVENT_LABELS)).map((event) => (
+                  <label key={event} className="flex items-center gap-2 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={events.includes(event)}
+                      onChange={() => toggleEvent(event)}
+                    />
+                    <code className="bg-muted px-1 py-0.5 rounded text-xs">{event}</code>
+                    <span className="text-muted-foreground">{EVENT_LABELS[event]?.split(' - ')[1]}</span>
+                  </label>
+                ))}
+              </div>
+
+              {config?.webhookSecret && (
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Signing Secret</label>
+                  <div className="flex items-center gap-2">
+                    <code className="flex-1 bg-muted p-2 rounded text-xs font-mono truncate">
+                      {config.webhookSecret}
+                    </code>
+                    <Button size="sm" variant="ghost" onClick={copySecret}>
+                      {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => {
+                        if (confirm('Rotate the signing secret? Receivers must be updated with the new value.')) {
+                          rotateMutation.mutate({ sheetId });
+                        }
+                      }}
+                      disabled={rotateMutation.isPending}
+                    >
+                      <RefreshCw className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Each request carries <code>X-Websurfing-Signature: t=&lt;timestamp&gt;,v1=&lt;signature&gt;</code>,
+                    an HMAC-SHA256 of <code>&lt;timestamp&gt;.&lt;body&gt;</code> using this secret.
+                  </p>
+                </div>
+              )}
+
+              <div className="flex justify-end gap-2">
+                <Button
+                  variant="outline"
+                  onClick={() => testMutation.mutate({ sheetId })}
+                  disabled={!config?.webhookUrl || testMutation.isPending}
+                >
+                  <Send className="h-4 w-4 mr-2" />
+                  {testMutation.isPending ? 'Sending...' : 'Send Test'}
+                </Button>
+                <Button onClick={handleSave} disabled={updateMutation.isPending}>
+                  {updateMutation.isPending ? 'Saving...' : 'Save'}
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {deliveriesLoading ? (
+                <p className="text-sm text-muted-foreground">Loading deliveries...</p>
+              ) : !deliveries || deliveries.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No deliveries yet</p>
+              ) : (
+                deliveries.map((delivery) => (
+                  <div key={delivery.id} className="border rounded-lg p-3 space-y-2">
+                    <div className="flex items-center justify-between gap-2">
+                      <button
+                        onClick={() => setExpandedDelivery(expandedDelivery === delivery.id ? null : delivery.id)}
+                        className="flex items-center gap-2 text-sm text-left"
+                      >
+                        <Badge className={statusBadgeClass(delivery.status)}>{delivery.status}</Badge>
+                        <code className="text-xs">{delivery.eventType}</code>
+                        <span className="text-muted-foreground text-xs">
+                          {delivery.createdAt ? new Date(delivery.createdAt).toLocaleString() : ''}
+                        </span>
+                      </button>
+                      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                        {delivery.responseStatus && <span>HTTP {delivery.responseStatus}</span>}
+                        <span>{delivery.attempts} attempt{delivery.attempts === 1 ? '' : 's'}</span>
+                        {delivery.status !== 'pending' && (
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => redeliverMutation.mutate({ deliveryId: delivery.id })}
+                            disabled={redeliverMutation.isPending}
+                          >
+                            <RotateCcw className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                    {delivery.lastError && (
+                      <p className="text-xs text-red-600">{delivery.lastError}</p>
+                    )}
+                    {expandedDelivery === delivery.id && (
+                      <pre className="bg-muted p-3 rounded-lg text-xs overflow-x-auto font-mono">
+                        {JSON.stringify(delivery.payload, null, 2)}
+                      </pre>
+                    )}
+                  </div>
+                ))
+              )}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,409 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { api } from "@/trpc/react";
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from "@/components/ui/card";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { BudgetLimitsDialog } from "@/components/budget-limits-dialog";
+import { ApiKeysManager } from "@/components/api-keys-manager";
+import { ArrowLeft, Building2, Key, RefreshCw, Users, Wallet, X } from "lucide-react";
+
+const ROLES = ['owner', 'member'] as const;
+type Role = (typeof ROLES)[number];
+
+const ROLE_LABELS: Record<Role, string> = {
+  owner: 'Owner - manages members, budget and API keys; owns every sheet',
+  member: 'Member - can edit every sheet and template in the workspace',
+};
+
+const selectClassName = "h-8 rounded-md border border-input bg-background px-2 text-sm";
+
+/**
+ * Settings for the active workspace: name, members, invitations, budget and API keys
+ */
+export function WorkspaceSettings() {
+  const router = useRouter();
+  const utils = api.useUtils();
+
+  const { data: workspaceData, isLoading: listLoading } = api.workspace.list.useQuery();
+  const workspaceId = workspaceData?.activeWorkspaceId ?? null;
+
+  const { data: workspace, isLoading } = api.workspace.get.useQuery(
+    { workspaceId: workspaceId! },
+    { enabled: !!workspaceId }
+  );
+
+  const isOwner = workspace?.myRole === 'owner';
+  const currentUserId = workspace?.myUserId;
+
+  const [name, setName] = useState("");
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<Role>('member');
+  const [budgetOpen, setBudgetOpen] = useState(false);
+
+  useEffect(() => {
+    if (workspace) {
+      setName(workspace.name);
+    }
+  }, [workspace]);
+
+  const invalidate = () => {
+    if (workspaceId) {
+      void utils.workspace.get.invalidate({ workspaceId });
+    }
+  };
+
+  // Leaving or deleting drops back to the personal space
+  const leaveWorkspace = () => {
+    void utils.workspace.list.invalidate();
+    void utils.sheet.list.invalidate();
+    void utils.template.list.invalidate();
+    router.push('/welcome');
+  };
+
+  const renameMutation = api.workspace.rename.useMutation({
+    onSuccess: () => {
+      invalidate();
+      void utils.workspace.list.invalidate();
+    },
+    onError: (error) => {
+      alert(`Failed to rename workspace: ${error.message}`);
+    },
+  });
+
+  const inviteMutation = api.workspace.invite.useMutation({
+    onSuccess: () => {
+      setEmail("");
+      invalidate();
+    },
+    onError: (error) => {
+      alert(`Failed to invite: ${error.message}`);
+    },
+  });
+
+  const revokeMutation = api.workspace.revokeInvite.useMutation({
+    onSuccess: invalidate,
+    onError: (error) => {
+      alert(`Failed to revoke invitation: ${error.message}`);
+    },
+  });
+
+  const updateRoleMutation = api.workspace.updateRole.useMutation({
+    onSuccess: invalidate,
+    onError: (error) => {
+      alert(`Failed to change role: ${error.message}`);
+    },
+  });
+
+  const removeMutation = api.workspace.removeMember.useMutation({
+    onSuccess: (_, variables) => {
+      if (variables.userId === currentUserId) {
+        leaveWorkspace();
+        return;
+      }
+      invalidate();
+    },
+    onError: (error) => {
+      alert(`Failed to remove member: ${error.message}`);
+    },
+  });
+
+  const deleteMutation = api.workspace.delete.useMutation({
+    onSuccess: leaveWorkspace,
+    onError: (error) => {
+      alert(`Failed to delete workspace: ${error.message}`);
+    },
+  });
+
+  const handleInvite = () => {
+    const value = email.trim();
+    if (!value || !workspaceId) return;
+    inviteMutation.mutate({ workspaceId, email: value, role });
+  };
+
+  const handleRemove = (userId: string, label: string) => {
+    if (!workspaceId) return;
+    const message = userId === currentUserId
+      ? `Leave "${workspace?.name}"? Sheets and templates you created stay in the workspace.`
+      : `Remove ${label}? Sheets and templates they created will be handed to you.`;
+    if (!confirm(message)) return;
+    removeMutation.mutate({ workspaceId, userId });
+  };
+
+  const handleDelete = () => {
+    if (!workspaceId) return;
+    if (!confirm(`Delete "${workspace?.name}"? Its templates go back to the people who created them.`)) return;
+    deleteMutation.mutate({ workspaceId });
+  };
+
+  const header = (
+    <div>
+      <Link href="/settings" className="text-sm text-muted-foreground hover:text-foreground flex items-center gap-1 mb-2">
+        <ArrowLeft className="h-4 w-4" />
+        Settings
+      </Link>
+      <h1 className="text-3xl font-bold">Workspace</h1>
+      <p className="text-muted-foreground mt-2">
+        Sheets, templates, API keys and the budget here belong to the team, not to any one member
+      </p>
+    </div>
+  );
+
+  if (listLoading || (workspaceId && isLoading)) {
+    return (
+      <div className="max-w-4xl mx-auto p-6 space-y-6">
+        {header}
+        <div className="flex items-center gap-2 text-muted-foreground">
+          <RefreshCw className="h-4 w-4 animate-spin" />
+          Loading...
+        </div>
+      </div>
+    );
+  }
+
+  if (!workspaceId || !workspace) {
+    return (
+      <div className="max-w-4xl mx-auto p-6 space-y-6">
+        {header}
+        <Card>
+          <CardContent className="pt-6 text-sm text-muted-foreground">
+            You&apos;re in your personal space. Create or switch to a workspace from the sidebar to manage it here.
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto p-6 space-y-6">
+      {header}
+
+      {/* General */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center gap-2">
+            <Building2 className="h-5 w-5 text-primary" />
+            <CardTitle>{workspace.name}</CardTitle>
+          </div>
+          <CardDescription>
+            {workspace.sheetCount} sheet{workspace.sheetCount === 1 ? '' : 's'} - you are {workspace.myRole === 'owner' ? 'an owner' : 'a member'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {isOwner && (
+            <div className="flex gap-2">
+              <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="Workspace name" />
+              <Button
+                variant="outline"
+                onClick={() => renameMutation.mutate({ workspaceId, name: name.trim() })}
+                disabled={renameMutation.isPending || !name.trim() || name.trim() === workspace.name}
+              >
+                Rename
+              </Button>
+            </div>
+          )}
+          <div className="flex gap-2">
+            <Button variant="outline" asChild>
+              <Link href="/settings/usage">View workspace usage</Link>
+            </Button>
+            {currentUserId && (
+              <Button
+                variant="outline"
+                onClick={() => handleRemove(currentUserId, 'yourself')}
+                disabled={removeMutation.isPending}
+                className="text-destructive hover:text-destructive"
+              >
+                Leave workspace
+              </Button>
+            )}
+            {isOwner && (
+              <Button
+                variant="destructive"
+                onClick={handleDelete}
+                disabled={deleteMutation.isPending || workspace.sheetCount > 0}
+                title={workspace.sheetCount > 0 ? 'Move or delete its sheets first' : undefined}
+              >
+                Delete workspace
+              </Button>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Members */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center gap-2">
+            <Users className="h-5 w-5 text-primary" />
+            <CardTitle>Members</CardTitle>
+          </div>
+          <CardDescription>
+            When someone leaves, the sheets and templates they created stay with the workspace
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {isOwner && (
+            <div className="space-y-2">
+              <div className="flex gap-2">
+                <Input
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') handleInvite();
+                  }}
+                  placeholder="teammate@company.com"
+                />
+                <select
+                  className={selectClassName}
+                  value={role}
+                  onChange={(e) => setRole(e.target.value as Role)}
+                >
+                  {ROLES.map((r) => (
+                    <option key={r} value={r}>{r}</option>
+                  ))}
+                </select>
+                <Button onClick={handleInvite} disabled={inviteMutation.isPending || !email.trim()}>
+                  {inviteMutation.isPending ? 'Inviting...' : 'Invite'}
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">{ROLE_LABELS[role]}</p>
+            </div>
+          )}
+
+          <div className="border rounded-md divide-y">
+            {workspace.members.map((member) => (
+              <div key={member.userId} className="flex items-center gap-3 p-2">
+                <Avatar className="w-7 h-7">
+                  <AvatarImage src={member.image ?? undefined} alt={member.name ?? member.email} />
+                  <AvatarFallback className="text-xs">
+                    {(member.name ?? member.email).slice(0, 2).toUpperCase()}
+                  </AvatarFallback>
+                </Avatar>
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm truncate">
+                    {member.name ?? member.email}
+                    {member.userId === currentUserId && ' (you)'}
+                  </p>
+                  <p className="text-xs text-muted-foreground truncate">{member.email}</p>
+                </div>
+                {isOwner ? (
+                  <select
+                    className={selectClassName}
+                    value={member.role}
+                    disabled={updateRoleMutation.isPending}
+                    onChange={(e) =>
+                      updateRoleMutation.mutate({
+                        workspaceId,
+                        userId: member.userId,
+                        role: e.target.value as Role,
+                      })
+                    }
+                  >
+                    {ROLES.map((r) => (
+                      <option key={r} value={r}>{r}</option>
+                    ))}
+                  </select>
+                ) : (
+                  <Badge variant="outline">{member.role}</Badge>
+                )}
+                {isOwner && member.userId !== currentUserId && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleRemove(member.userId, member.name ?? member.email)}
+                    disabled={removeMutation.isPending}
+                    title="Remove member"
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {workspace.invites.length > 0 && (
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Pending invitations</label>
+              <div className="border rounded-md divide-y">
+                {workspace.invites.map((invite) => (
+                  <div key={invite.id} className="flex items-center gap-3 p-2">
+                    <p className="text-sm flex-1 truncate">{invite.email}</p>
+                    <Badge variant="outline">{invite.role}</Badge>
+                    {isOwner && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => revokeMutation.mutate({ workspaceId, inviteId: invite.id })}
+                        disabled={revokeMutation.isPending}
+                        title="Revoke invitation"
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {isOwner && (
+        <>
+          {/* Budget */}
+          <Card>
+            <CardHeader>
+              <div className="flex items-center gap-2">
+                <Wallet className="h-5 w-5 text-primary" />
+                <CardTitle>Workspace Budget</CardTitle>
+              </div>
+              <CardDescription>
+                The workspace&apos;s sheets are billed here instead of to members&apos; personal budgets
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="flex items-center justify-between gap-4">
+              <p className="text-sm text-muted-foreground">
+                {workspace.monthlyBudgetUsd !== null ? `$${workspace.monthlyBudgetUsd}/month` : 'No dollar limit'}
+                {workspace.monthlyTokenBudget !== null && `, ${workspace.monthlyTokenBudget.toLocaleString()} tokens/month`}
+              </p>
+              <Button variant="outline" onClick={() => setBudgetOpen(true)}>
+                Set budget
+              </Button>
+            </CardContent>
+          </Card>
+
+          {/* API key */}
+          <Card>
+            <CardHeader>
+              <div className="flex items-center gap-2">
+                <Key className="h-5 w-5 text-primary" />
+                <CardTitle>Workspace API Keys</CardTitle>
+              </div>
+              <CardDescription>
+                Reach only this workspace&apos;s sheets and keep working when members leave
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ApiKeysManager workspaceId={workspaceId} />
+            </CardContent>
+          </Card>
+
+          <BudgetLimitsDialog
+            open={budgetOpen}
+            onOpenChange={setBudgetOpen}
+            workspaceId={workspaceId}
+            currentBudgetUsd={workspace.monthlyBudgetUsd !== null ? Number(workspace.monthlyBudgetUsd) : null}
+            currentTokenBudget={workspace.monthlyTokenBudget}
+            onSaved={invalidate}
+          />
+        </>
+      )}
+    </div>
+  );
+}
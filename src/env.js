@@ -34,6 +34,8 @@ export const env = createEnv({
     GOOGLE_CREDENTIALS_JSON: z.string(),
     // Optional: VERTEX_API_KEY is not needed when using service account
     VERTEX_API_KEY: z.string().optional(),
+    // Comma-separated hosts the http_get column function may call
+    FUNCTION_HTTP_ALLOWED_HOSTS: z.string().optional(),
     NODE_ENV: z
       .enum(["development", "test", "production"])
       .default("development"),
@@ -62,6 +64,7 @@ export const env = createEnv({
     GOOGLE_CLOUD_PROJECT: process.env.GOOGLE_CLOUD_PROJECT,
     GOOGLE_CLOUD_LOCATION: process.env.GOOGLE_CLOUD_LOCATION,
     GOOGLE_CREDENTIALS_JSON: process.env.GOOGLE_CREDENTIALS_JSON,
+    FUNCTION_HTTP_ALLOWED_HOSTS: process.env.FUNCTION_HTTP_ALLOWED_HOSTS,
     NODE_ENV: process.env.NODE_ENV,
   },
   /**
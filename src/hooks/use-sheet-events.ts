@@ -2,69 +2,72 @@ import { useEffect, useState, useRef } from "react";
 
 export interface SheetEvent {
   type: 'connected' | 'status_update' | 'cell_update' | 'error';
+  id?: number; // Change feed cursor (absent on connected/error)
   timestamp: string;
   message?: string;
   data?: {
-    pendingEvents?: Array<{
-      id: string;
-      eventType: string;
+    eventUpdate?: {
+      eventId?: string;
       status: string;
-      retryCount: number | null;
-      lastError: string | null;
-      createdAt: Date | null;
-    }>;
-    recentUpdates?: Array<{
-      id: string;
-      rowIndex: number;
-      colIndex: number;
-      content: string | null;
-      updateType: string;
-      createdAt: Date | null;
-      appliedAt: Date | null;
-    }>;
+      count?: number;
+      lastError?: string | null;
+    };
     cellUpdate?: {
-      rowIndex: number;
-      colIndex: number;
-      status: 'pending' | 'processing' | 'completed' | 'error';
-      content?: string;
-      progress?: number;
-      message?: string;
+      rowIndex: number | null; // null = every row
+      colIndex: number | null; // null = every column
+      status?: 'idle' | 'processing' | 'completed' | 'error' | 'awaiting_input';
+      content?: string | null;
+      message?: string | null;
     };
   };
 }
 
 export interface SheetStatus {
   connected: boolean;
-  pendingEventsCount: number;
-  processingCount: number;
   lastUpdate: Date | null;
   events: SheetEvent[];
 }
 
+interface UseSheetEventsOptions {
+  enabled?: boolean;
+  /** Called for every pushed change, e.g. to invalidate queries */
+  onEvent?: (event: SheetEvent) => void;
+}
+
 /**
  * Hook to subscribe to real-time sheet updates via Server-Sent Events
  *
+ * Changes are pushed as they commit; EventSource resumes from the last
+ * received change after a dropped connection.
+ *
  * @param sheetId - The ID of the sheet to monitor
- * @param enabled - Whether to connect to the stream (default: true)
- * @returns Current status and event history
+ * @param options.enabled - Whether to connect to the stream (default: true)
+ * @param options.onEvent - Callback for each received change
+ * @returns Connection status and recent change history
  *
  * @example
- * const { connected, pendingEventsCount, events } = useSheetEvents(sheetId);
+ * const { connected } = useSheetEvents(sheetId, {
+ *   onEvent: (event) => { if (event.type === 'cell_update') void refetch(); },
+ * });
  */
 export function useSheetEvents(
   sheetId: string | null,
-  enabled: boolean = true
+  { enabled = true, onEvent }: UseSheetEventsOptions = {}
 ): SheetStatus {
   const [status, setStatus] = useState<SheetStatus>({
     connected: false,
-    pendingEventsCount: 0,
-    processingCount: 0,
     lastUpdate: null,
     events: [],
   });
 
   const eventSourceRef = useRef<EventSource | null>(null);
 
+  // Keep the latest callback without reconnecting when it changes
+  const onEventRef = useRef(onEvent);
+  useEffect(() => {
+    onEventRef.current = onEvent;
+  }, [onEvent]);
+
   useEffect(() => {
     if (!sheetId || !enabled) {
       return;
@@ -86,30 +89,13 @@ export function useSheetEvents(
       try {
         const data = JSON.parse(event.data) as SheetEvent;
 
-        setStatus((prev) => {
-          const newEvents = [...prev.events, data].slice(-50); // Keep last 50 events
-
-          let pendingCount = prev.pendingEventsCount;
-          let processingCount = prev.processingCount;
-
-          // Update counts based on event type
-          if (data.type === 'status_update' && data.data?.pendingEvents) {
-            pendingCount = data.data.pendingEvents.filter(
-              (e) => e.status === 'pending'
-            ).length;
-            processingCount = data.data.pendingEvents.filter(
-              (e) => e.status === 'processing'
-            ).length;
-          }
-
-          return {
-            ...prev,
-            pendingEventsCount: pendingCount,
-            processingCount,
-            lastUpdate: new Date(),
-            events: newEvents,
-          };
-        });
+        setStatus((prev) => ({
+          ...prev,
+          lastUpdate: new Date(),
+          events: [...prev.events, data].slice(-50), // Keep last 50 events
+        }));
+
+        onEventRef.current?.(data);
       } catch (error) {
         console.error('[SSE] Error parsing event:', error);
       }
@@ -122,7 +108,7 @@ export function useSheetEvents(
         connected: false,
       }));
 
-      // EventSource will automatically reconnect
+      // EventSource will automatically reconnect, sending Last-Event-ID
     };
 
     // Cleanup
@@ -144,9 +130,8 @@ export function useCellStatus(
   rowIndex: number,
   colIndex: number
 ): {
-  status: 'idle' | 'pending' | 'processing' | 'completed' | 'error';
+  status: 'idle' | 'processing' | 'completed' | 'error' | 'awaiting_input';
   message?: string;
-  progress?: number;
 } {
   const { events } = useSheetEvents(sheetId);
 
@@ -156,7 +141,8 @@ export function useCellStatus(
       (e) =>
         e.type === 'cell_update' &&
         e.data?.cellUpdate?.rowIndex === rowIndex &&
-        e.data?.cellUpdate?.colIndex === colIndex
+        e.data?.cellUpdate?.colIndex === colIndex &&
+        e.data.cellUpdate.status !== undefined
     )
     .slice(-1);
 
@@ -169,7 +155,6 @@ export function useCellStatus(
 
   return {
     status: cellUpdate?.status || 'idle',
-    message: cellUpdate?.message,
-    progress: cellUpdate?.progress,
+    message: cellUpdate?.message ?? undefined,
   };
 }
@@ -1,6 +1,36 @@
 import { db } from "@/server/db";
-import { users } from "@/server/db/schema";
-import { eq } from "drizzle-orm";
+import { apiKeys, sheets } from "@/server/db/schema";
+import { and, eq, isNull, lt, or } from "drizzle-orm";
+import { getSheetRole, hasSheetRole, type SheetRole } from "@/server/sheet-access";
+import { getPrimaryWorkspaceOwner } from "@/server/workspace-access";
+import { hashApiKey, type ApiKeyScope } from "@/server/api-keys";
+import { API_LIMITS, consumeRequest, consumeRows, rateLimitHeaders } from "@/server/api-rate-limit";
+import { completeIdempotencyKey, hashRequest, IDEMPOTENCY_KEY_HEADER, releaseIdempotencyKey, reserveIdempotencyKey } from "@/server/api-idempotency";
+import type { z } from "zod";
+
+/**
+ * An authenticated API key and what it may reach
+ */
+export interface ApiKeyAuth {
+  keyId: string;
+  userId: string; // The account the key acts as
+  workspaceId: string | null; // Workspace keys only reach the workspace's sheets
+  sheetId: string | null; // Keys restricted to one sheet
+  scopes: ApiKeyScope[];
+  rateLimitPerMinute: number;
+  dailyRowQuota: number;
+}
+
+// Don't write last-used on every request from a busy integration
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+/**
+ * The client's IP as reported by the proxy in front of the app
+ */
+function clientIp(request: Request): string | null {
+  const forwarded = request.headers.get('x-forwarded-for')?.split(',')[0]?.trim();
+  return (forwarded ?? request.headers.get('x-real-ip'))?.slice(0, 64) ?? null;
+}
 
 /**
  * Authenticate API requests using Bearer token (API key)
@@ -8,18 +38,24 @@ import { eq } from "drizzle-orm";
  * Usage in API routes:
  * ```typescript
  * const auth = await authenticateApiKey(request);
- * if (auth.error) {
- *   return new Response(JSON.stringify({ error: auth.error }), {
- *     status: 401,
- *     headers: { 'Content-Type': 'application/json' }
- *   });
+ * if (auth.error !== undefined) {
+ *   return apiErrorResponse(auth.error, 401);
+ * }
+ * const rateLimit = await enforceRateLimit(auth);
+ * if (rateLimit.limited) {
+ *   return rateLimit.limited;
  * }
- * const userId = auth.userId;
+ * const denied = requireScope(auth, 'read') ?? await authorizeSheetAccess(auth, sheetId);
+ * ...
+ * return apiSuccessResponse(data, 200, rateLimit.headers);
  * ```
+ *
+ * Workspace keys act as the workspace's longest-standing owner and carry the
+ * workspaceId, which limits them to the workspace's sheets.
  */
 export async function authenticateApiKey(
   request: Request
-): Promise<{ userId: string; error?: undefined } | { userId: null; error: string }> {
+): Promise<(ApiKeyAuth & { error?: undefined }) | { userId: null; error: string }> {
   // Extract Authorization header
   const authHeader = request.headers.get('Authorization');
 
@@ -47,33 +83,263 @@ export async function authenticateApiKey(
     };
   }
 
-  // Look up user by API key
-  const user = await db.query.users.findFirst({
-    where: eq(users.apiKey, apiKey),
-    columns: {
-      id: true,
-    },
+  // Look up the key by the hash of its secret
+  const key = await db.query.apiKeys.findFirst({
+    where: and(eq(apiKeys.keyHash, hashApiKey(apiKey)), isNull(apiKeys.revokedAt)),
   });
 
-  if (!user) {
+  if (!key) {
     return {
       userId: null,
       error: 'Invalid API key. Please check your API key in settings.'
     };
   }
 
-  return { userId: user.id };
+  if (key.expiresAt && key.expiresAt.getTime() <= Date.now()) {
+    return {
+      userId: null,
+      error: `API key "${key.name}" expired on ${key.expiresAt.toISOString()}. Create a new key in settings.`
+    };
+  }
+
+  const userId = key.workspaceId ? await getPrimaryWorkspaceOwner(key.workspaceId) : key.userId;
+
+  if (!userId) {
+    return {
+      userId: null,
+      error: 'Invalid API key. Please check your API key in settings.'
+    };
+  }
+
+  const now = new Date();
+  await db
+    .update(apiKeys)
+    .set({ lastUsedAt: now, lastUsedIp: clientIp(request) })
+    .where(and(
+      eq(apiKeys.id, key.id),
+      or(isNull(apiKeys.lastUsedAt), lt(apiKeys.lastUsedAt, new Date(now.getTime() - LAST_USED_RESOLUTION_MS)))
+    ));
+
+  return {
+    keyId: key.id,
+    userId,
+    workspaceId: key.workspaceId,
+    sheetId: key.sheetId,
+    scopes: key.scopes as ApiKeyScope[],
+    rateLimitPerMinute: key.rateLimitPerMinute ?? API_LIMITS.requestsPerMinute,
+    dailyRowQuota: key.dailyRowQuota ?? API_LIMITS.dailyRowQuota,
+  };
+}
+
+/**
+ * Count the request against the key's per-minute limit
+ *
+ * @returns a 429 response to return as-is when limited, and RateLimit-* headers for the response
+ */
+export async function enforceRateLimit(
+  auth: ApiKeyAuth
+): Promise<{ limited: Response | null; headers: Record<string, string> }> {
+  const result = await consumeRequest(auth.keyId, auth.rateLimitPerMinute);
+  const headers = rateLimitHeaders(result);
+
+  if (!result.allowed) {
+    return {
+      limited: apiErrorResponse(
+        `Rate limit exceeded: ${result.limit} requests per minute. Retry in ${result.resetSeconds}s.`,
+        429,
+        headers
+      ),
+      headers,
+    };
+  }
+
+  return { limited: null, headers };
+}
+
+/**
+ * Reserve rows from the key's daily quota
+ *
+ * @returns a 429 response to return as-is when the rows don't fit, or null
+ */
+export async function enforceRowQuota(auth: ApiKeyAuth, rows: number): Promise<Response | null> {
+  const result = await consumeRows(auth.keyId, rows, auth.dailyRowQuota);
+
+  if (result.allowed) {
+    return null;
+  }
+
+  return apiErrorResponse(
+    `Daily row quota exceeded: ${result.remaining} of ${result.limit} rows left today, ${rows} requested. Resets in ${result.resetSeconds}s.`,
+    429,
+    rateLimitHeaders(result)
+  );
+}
+
+/**
+ * Check the key was granted a scope
+ *
+ * @returns an error response to return as-is, or null if the scope is granted
+ */
+export function requireScope(auth: ApiKeyAuth, scope: ApiKeyScope): Response | null {
+  if (auth.scopes.includes(scope)) {
+    return null;
+  }
+  return apiErrorResponse(`This API key is missing the '${scope}' scope`, 403);
+}
+
+/**
+ * Check the authenticated key's access to a sheet
+ *
+ * Keys restricted to a sheet, and workspace keys, can't reach other sheets;
+ * otherwise the acting user's membership decides.
+ *
+ * @returns an error response to return as-is, or null if access is allowed
+ */
+export async function authorizeSheetAccess(
+  auth: ApiKeyAuth,
+  sheetId: string,
+  minimum: SheetRole = 'viewer'
+): Promise<Response | null> {
+  if (auth.sheetId && auth.sheetId !== sheetId) {
+    return apiErrorResponse('Sheet not found or unauthorized', 404);
+  }
+
+  if (auth.workspaceId) {
+    const sheet = await db.query.sheets.findFirst({
+      where: eq(sheets.id, sheetId),
+      columns: { workspaceId: true },
+    });
+
+    if (sheet?.workspaceId !== auth.workspaceId) {
+      return apiErrorResponse('Sheet not found or unauthorized', 404);
+    }
+  }
+
+  const role = await getSheetRole(sheetId, auth.userId);
+
+  if (!role) {
+    return apiErrorResponse('Sheet not found or unauthorized', 404);
+  }
+
+  if (!hasSheetRole(role, minimum)) {
+    return apiErrorResponse(`This action requires ${minimum} access to the sheet (you are a ${role})`, 403);
+  }
+
+  return null;
+}
+
+/**
+ * Parse and validate a JSON request body
+ *
+ * @returns the parsed body, or a 400 response naming the first invalid field
+ */
+export async function parseJsonBody<T extends z.ZodTypeAny>(
+  request: Request,
+  schema: T
+): Promise<{ data: z.infer<T>; error?: undefined } | { error: Response }> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return { error: apiErrorResponse('Invalid JSON body', 400) };
+  }
+
+  const parsed = schema.safeParse(body);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    const field = issue?.path.length ? `"${issue.path.join('.')}": ` : '';
+    return { error: apiErrorResponse(`Invalid request body: ${field}${issue?.message ?? 'invalid'}`, 400) };
+  }
+
+  return { data: parsed.data as z.infer<T> };
+}
+
+/**
+ * Parse and validate a request's query string
+ *
+ * @returns the parsed query, or a 400 response naming the first invalid parameter
+ */
+export function parseQuery<T extends z.ZodTypeAny>(
+  request: Request,
+  schema: T
+): { data: z.infer<T>; error?: undefined } | { error: Response } {
+  const searchParams = new URL(request.url).searchParams;
+  const parsed = schema.safeParse(Object.fromEntries(searchParams.entries()));
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    return { error: apiErrorResponse(`Invalid query parameter "${issue?.path.join('.')}": ${issue?.message ?? 'invalid'}`, 400) };
+  }
+
+  return { data: parsed.data as z.infer<T> };
+}
+
+/**
+ * Run a request handler at most once per Idempotency-Key
+ *
+ * Without the header the handler just runs. With it, a retry of a request
+ * that succeeded gets the stored response back (marked Idempotent-Replayed),
+ * a retry while the first is still running gets a 409, and reusing the key
+ * for a different body gets a 422.
+ *
+ * @param body - the parsed request body, part of what identifies the request
+ */
+export async function withIdempotencyKey(
+  request: Request,
+  auth: ApiKeyAuth,
+  body: unknown,
+  handler: () => Promise<Response>
+): Promise<Response> {
+  const key = request.headers.get(IDEMPOTENCY_KEY_HEADER)?.trim();
+  if (!key) {
+    return handler();
+  }
+
+  if (key.length > 255) {
+    return apiErrorResponse(`${IDEMPOTENCY_KEY_HEADER} must be at most 255 characters`, 400);
+  }
+
+  const requestHash = hashRequest(request.method, new URL(request.url).pathname, body);
+  const reservation = await reserveIdempotencyKey(auth.keyId, key, requestHash);
+
+  switch (reservation.state) {
+    case 'replay':
+      return new Response(JSON.stringify(reservation.body), {
+        status: reservation.status,
+        headers: { 'Content-Type': 'application/json', 'Idempotent-Replayed': 'true' },
+      });
+    case 'in_progress':
+      return apiErrorResponse(`A request with this ${IDEMPOTENCY_KEY_HEADER} is still being processed`, 409);
+    case 'mismatch':
+      return apiErrorResponse(`This ${IDEMPOTENCY_KEY_HEADER} was already used for a different request`, 422);
+  }
+
+  let response: Response;
+  try {
+    response = await handler();
+  } catch (error) {
+    await releaseIdempotencyKey(reservation.id);
+    throw error;
+  }
+
+  // Only successes are replayed; errors (a 429 over quota, say) may go away on retry
+  if (response.ok) {
+    await completeIdempotencyKey(reservation.id, response.status, await response.clone().json());
+  } else {
+    await releaseIdempotencyKey(reservation.id);
+  }
+
+  return response;
 }
 
 /**
  * Create a standard JSON error response
  */
-export function apiErrorResponse(error: string, status = 400): Response {
+export function apiErrorResponse(error: string, status = 400, headers?: Record<string, string>): Response {
   return new Response(
     JSON.stringify({ error }),
     {
       status,
-      headers: { 'Content-Type': 'application/json' },
+      headers: { 'Content-Type': 'application/json', ...headers },
     }
   );
 }
@@ -81,12 +347,12 @@ export function apiErrorResponse(error: string, status = 400): Response {
 /**
  * Create a standard JSON success response
  */
-export function apiSuccessResponse<T>(data: T, status = 200): Response {
+export function apiSuccessResponse<T>(data: T, status = 200, headers?: Record<string, string>): Response {
   return new Response(
     JSON.stringify(data),
     {
       status,
-      headers: { 'Content-Type': 'application/json' },
+      headers: { 'Content-Type': 'application/json', ...headers },
     }
   );
 }
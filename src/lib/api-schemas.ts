@@ -0,0 +1,333 @@
+import { z } from "zod";
+import { COLUMN_DATA_TYPES, WEBHOOK_EVENT_TYPES } from "@/types/spreadsheet";
+import type { columns } from "@/server/db/schema";
+
+/**
+ * Request and response schemas for the REST API (/api/v1)
+ *
+ * Route handlers validate request bodies and query strings with these and
+ * type their responses against them; api-spec.ts turns them into the OpenAPI
+ * document and the generated TypeScript client. Change a shape here and both
+ * follow, so keep this module free of server-only imports.
+ */
+
+const timestamp = z.string().datetime().describe('ISO 8601 timestamp');
+
+// Shared
+
+export const errorResponseSchema = z.object({
+  error: z.string(),
+});
+
+export const sheetIdParamsSchema = z.object({
+  sheetId: z.string().uuid(),
+});
+
+export const columnParamsSchema = sheetIdParamsSchema.extend({
+  columnId: z.string().uuid(),
+});
+
+export const rowParamsSchema = sheetIdParamsSchema.extend({
+  rowIndex: z.coerce.number().int().min(0),
+});
+
+export const columnSchema = z.object({
+  id: z.string().uuid(),
+  title: z.string(),
+  position: z.number().int().describe("The colIndex of the column's cells"),
+  dataType: z.string(),
+  operatorType: z.string().nullable(),
+  operatorConfig: z.unknown().nullable(),
+  prompt: z.string().nullable(),
+  dependencies: z.array(z.number().int()).nullable().describe('Positions of the columns this one reads'),
+  isRequired: z.boolean().nullable(),
+  isKey: z.boolean().nullable().describe('Rows added through the API upsert by this column'),
+  cacheResults: z.boolean().nullable().describe('Reuse cached operator results for identical inputs'),
+  defaultValue: z.string().nullable(),
+});
+
+// Sheets
+
+export const listSheetsResponseSchema = z.object({
+  sheets: z.array(z.object({
+    id: z.string().uuid(),
+    name: z.string(),
+    createdAt: timestamp,
+    role: z.enum(['owner', 'editor', 'viewer']).nullable(),
+    columnCount: z.number().int(),
+    rowCount: z.number().int(),
+  })),
+});
+
+const columnConfigFields = {
+  operatorType: z.enum(["google_search", "url_context", "structured_output", "function_calling"]).nullable().optional(),
+  operatorConfig: z.record(z.any()).nullable().optional(),
+  prompt: z.string().max(10000).nullable().optional(),
+  dependencies: z.array(z.number().int().min(0)).nullable().optional().describe('Positions of the columns this one reads'),
+  isRequired: z.boolean().optional(),
+  isKey: z.boolean().optional().describe('Rows added through the API upsert by this column; setting it unsets the previous key column'),
+  cacheResults: z.boolean().optional().describe('Reuse cached operator results for identical inputs (default true); false always calls the model'),
+  defaultValue: z.string().nullable().optional(),
+};
+
+export const createColumnSchema = z.object({
+  title: z.string().trim().min(1).max(255),
+  position: z.number().int().min(0).optional().describe('Defaults to after the last column'),
+  dataType: z.enum(COLUMN_DATA_TYPES).default('text'),
+  ...columnConfigFields,
+});
+
+export const updateColumnSchema = z.object({
+  title: z.string().trim().min(1).max(255).optional(),
+  dataType: z.enum(COLUMN_DATA_TYPES).optional(),
+  ...columnConfigFields,
+});
+
+export const createSheetSchema = z.object({
+  name: z.string().trim().min(1).max(255),
+  templateId: z.string().uuid().optional().describe('A public template, one of yours, or one shared with your workspace'),
+  columns: z.array(createColumnSchema.required({ position: true })).max(100).optional(),
+}).refine(body => !(body.templateId && body.columns), {
+  message: 'Pass either templateId or columns, not both',
+});
+
+export const createSheetResponseSchema = z.object({
+  sheet: z.object({
+    id: z.string().uuid(),
+    name: z.string(),
+    workspaceId: z.string().uuid().nullable(),
+    templateId: z.string().uuid().nullable(),
+    createdAt: timestamp.nullable(),
+  }),
+  columns: z.array(columnSchema),
+});
+
+// Columns
+
+export const listColumnsResponseSchema = z.object({
+  columns: z.array(columnSchema),
+});
+
+export const columnResponseSchema = z.object({
+  column: columnSchema,
+});
+
+export const deleteColumnResponseSchema = z.object({
+  success: z.literal(true),
+  title: z.string(),
+  position: z.number().int(),
+  cellsDeleted: z.number().int(),
+});
+
+// Rows and cells
+
+const cellValue = z.union([z.string(), z.number(), z.boolean(), z.null()]).describe('Stored as text; null and empty values are skipped');
+
+export const addRowsSchema = z.object({
+  rows: z.array(z.union([
+    z.array(cellValue).describe('Values by column position'),
+    z.record(z.string().regex(/^\d+$/, 'Column keys must be column positions'), cellValue).describe('Values keyed by column position'),
+  ])).min(1, 'Rows array is empty'),
+  skipCompleteRows: z.boolean().default(true).describe("With a key column: leave matching rows that already have every column filled untouched"),
+}).refine(
+  ({ rows }) => rows.some(row => Object.values(row).some(value => value !== null && String(value).trim() !== '')),
+  { message: 'No valid cells to insert (all cells were empty)', path: ['rows'] }
+);
+
+export const addRowsResponseSchema = z.object({
+  success: z.literal(true),
+  rowsAdded: z.number().int(),
+  rowsUpdated: z.number().int().describe('Existing rows matched by the key column'),
+  rowsSkipped: z.number().int().describe('Matched rows left untouched because they were already complete'),
+  cellsCreated: z.number().int(),
+  startingRow: z.number().int(),
+  rowIndexes: z.array(z.number().int()).describe('The row each request row was written to, in request order'),
+  message: z.string(),
+});
+
+export const updateCellsSchema = z.object({
+  cells: z.array(z.object({
+    rowIndex: z.number().int().min(0),
+    colIndex: z.number().int().min(0),
+    content: z.string().max(100_000),
+  })).min(1).max(1000),
+  process: z.boolean().default(true).describe("Queue non-empty cells for the sheet's operators"),
+});
+
+export const updateCellsResponseSchema = z.object({
+  success: z.literal(true),
+  cellsUpdated: z.number().int(),
+  eventsQueued: z.number().int(),
+});
+
+export const deleteRowResponseSchema = z.object({
+  success: z.literal(true),
+  rowIndex: z.number().int(),
+  cellsDeleted: z.number().int(),
+});
+
+export const reprocessSchema = z.object({
+  rowIndex: z.number().int().min(0).optional().describe('Refill one row from its first column'),
+  colIndex: z.number().int().min(1).optional().describe('Refill one column for every row'),
+}).refine(body => (body.rowIndex === undefined) !== (body.colIndex === undefined), {
+  message: 'Pass exactly one of rowIndex or colIndex',
+});
+
+export const reprocessResponseSchema = z.object({
+  success: z.literal(true),
+  rowsQueued: z.number().int(),
+  message: z.string(),
+});
+
+export const EXPORT_INCLUDES = ['sources', 'confidence'] as const;
+
+export const exportDataQuerySchema = z.object({
+  format: z.enum(['json', 'csv']).default('json'),
+  include: z
+    .string()
+    .default('')
+    .transform(value => value.split(',').map(part => part.trim()).filter(Boolean))
+    .refine(
+      parts => parts.every(part => (EXPORT_INCLUDES as readonly string[]).includes(part)),
+      `Must be a comma-separated list of: ${EXPORT_INCLUDES.join(', ')}`
+    )
+    .describe('Extra columns to export; "sources" adds a _sources column with the links behind each row\'s values, "confidence" a _confidence column with their scores'),
+});
+
+export const exportDataResponseSchema = z.object({
+  sheetId: z.string().uuid(),
+  sheetName: z.string(),
+  columns: z.array(z.object({ title: z.string(), position: z.number().int() })),
+  rows: z.array(z.array(z.string())).describe('One array per row, one string per column'),
+  rowCount: z.number().int(),
+  columnCount: z.number().int(),
+  confidence: z
+    .array(z.array(z.object({
+      confidence: z.number().describe('0.0 - 1.0'),
+      issues: z.array(z.string()),
+      suggestions: z.array(z.string()),
+    }).nullable()))
+    .optional()
+    .describe('With include=confidence: one array per row, one entry per sheet column; null where no operator wrote the value'),
+});
+
+// Webhooks
+
+export const webhookResponseSchema = z.object({
+  webhookUrl: z.string().nullable(),
+  webhookEvents: z.array(z.string()),
+  webhookSecret: z.string().nullable().describe('Signs deliveries: X-Websurfing-Signature: t=<unix-seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">'),
+});
+
+export const setWebhookSchema = z.object({
+  url: z.string().max(500).url().refine(url => /^https?:\/\//i.test(url), 'Webhook URL must use http or https').describe('Must resolve to a public address: loopback, private and link-local hosts are refused'),
+  events: z.array(z.enum(WEBHOOK_EVENT_TYPES)).optional().describe('Defaults to every event'),
+});
+
+export const successResponseSchema = z.object({
+  success: z.literal(true),
+});
+
+export const listDeliveriesQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(25),
+});
+
+export const listDeliveriesResponseSchema = z.object({
+  deliveries: z.array(z.object({
+    id: z.string().uuid(),
+    eventType: z.string(),
+    status: z.string().describe('pending, delivered or failed'),
+    attempts: z.number().int(),
+    responseStatus: z.number().int().nullable(),
+    lastError: z.string().nullable(),
+    createdAt: timestamp.nullable(),
+    lastAttemptAt: timestamp.nullable(),
+    deliveredAt: timestamp.nullable(),
+    payload: z.unknown(),
+  })),
+});
+
+export const testWebhookResponseSchema = z.object({
+  deliveryId: z.string().uuid(),
+  status: z.string().describe('pending, delivered or failed'),
+  responseStatus: z.number().int().nullable(),
+  lastError: z.string().nullable(),
+});
+
+// Enrich jobs
+
+export const jobParamsSchema = z.object({
+  jobId: z.string().uuid(),
+});
+
+export const createEnrichJobResponseSchema = z.object({
+  jobId: z.string().uuid(),
+  sheetId: z.string().uuid(),
+  status: z.literal('processing'),
+  startingRow: z.number().int(),
+  rowCount: z.number().int(),
+  statusUrl: z.string().describe('GET it (with ?wait=60 to long-poll) for progress'),
+});
+
+export const enrichJobQuerySchema = z.object({
+  wait: z.coerce.number().int().min(0).max(60).default(0).describe('Seconds to wait for every row to finish'),
+});
+
+export const enrichJobResponseSchema = z.object({
+  jobId: z.string().uuid(),
+  sheetId: z.string().uuid(),
+  status: z.enum(['processing', 'completed', 'partial']).describe('partial: every row finished, but some failed, await input or are paused by the budget'),
+  createdAt: timestamp.nullable(),
+  completedAt: timestamp.nullable(),
+  rowCount: z.number().int(),
+  rowsFinished: z.number().int(),
+  rowsCompleted: z.number().int(),
+  columns: z.array(z.object({ title: z.string(), position: z.number().int() })),
+  rows: z.array(z.object({
+    rowIndex: z.number().int(),
+    status: z.enum(['pending', 'processing', 'completed', 'failed', 'awaiting_input', 'paused']),
+    filledColumns: z.number().int(),
+    values: z.array(z.string()).describe('One per column'),
+    error: z.string().nullable(),
+  })),
+});
+
+/**
+ * Response bodies, for typing what the route handlers return
+ */
+export type ListSheetsResponse = z.infer<typeof listSheetsResponseSchema>;
+export type CreateSheetResponse = z.infer<typeof createSheetResponseSchema>;
+export type ListColumnsResponse = z.infer<typeof listColumnsResponseSchema>;
+export type ColumnResponse = z.infer<typeof columnResponseSchema>;
+export type DeleteColumnResponse = z.infer<typeof deleteColumnResponseSchema>;
+export type AddRowsResponse = z.infer<typeof addRowsResponseSchema>;
+export type UpdateCellsResponse = z.infer<typeof updateCellsResponseSchema>;
+export type DeleteRowResponse = z.infer<typeof deleteRowResponseSchema>;
+export type ReprocessResponse = z.infer<typeof reprocessResponseSchema>;
+export type ExportDataResponse = z.infer<typeof exportDataResponseSchema>;
+export type WebhookResponse = z.infer<typeof webhookResponseSchema>;
+export type SuccessResponse = z.infer<typeof successResponseSchema>;
+export type ListDeliveriesResponse = z.infer<typeof listDeliveriesResponseSchema>;
+export type TestWebhookResponse = z.infer<typeof testWebhookResponseSchema>;
+export type CreateEnrichJobResponse = z.infer<typeof createEnrichJobResponseSchema>;
+export type EnrichJobResponse = z.infer<typeof enrichJobResponseSchema>;
+
+/**
+ * A column as the REST API returns it
+ */
+export function toApiColumn(column: typeof columns.$inferSelect): z.infer<typeof columnSchema> {
+  return {
+    id: column.id,
+    title: column.title,
+    position: column.position,
+    dataType: column.dataType ?? 'text',
+    operatorType: column.operatorType,
+    operatorConfig: column.operatorConfig,
+    prompt: column.prompt,
+    dependencies: column.dependencies as number[] | null,
+    isRequired: column.isRequired,
+    isKey: column.isKey,
+    cacheResults: column.cacheResults,
+    defaultValue: column.defaultValue,
+  };
+}
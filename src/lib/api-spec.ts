@@ -0,0 +1,424 @@
+import type { z } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
+import type { ApiKeyScope } from "@/server/api-keys";
+import type { SheetRole } from "@/server/sheet-access";
+import {
+  addRowsResponseSchema,
+  addRowsSchema,
+  columnParamsSchema,
+  columnResponseSchema,
+  createColumnSchema,
+  createEnrichJobResponseSchema,
+  createSheetResponseSchema,
+  createSheetSchema,
+  deleteColumnResponseSchema,
+  deleteRowResponseSchema,
+  enrichJobQuerySchema,
+  enrichJobResponseSchema,
+  errorResponseSchema,
+  exportDataQuerySchema,
+  exportDataResponseSchema,
+  jobParamsSchema,
+  listColumnsResponseSchema,
+  listDeliveriesQuerySchema,
+  listDeliveriesResponseSchema,
+  listSheetsResponseSchema,
+  reprocessResponseSchema,
+  reprocessSchema,
+  rowParamsSchema,
+  setWebhookSchema,
+  sheetIdParamsSchema,
+  successResponseSchema,
+  testWebhookResponseSchema,
+  updateCellsResponseSchema,
+  updateCellsSchema,
+  updateColumnSchema,
+  webhookResponseSchema,
+} from "@/lib/api-schemas";
+
+/**
+ * REST API Spec
+ *
+ * Every /api/v1 operation with its request and response schemas. This is the
+ * source for /api/v1/openapi.json, the API reference page and the generated
+ * client in packages/api-client (regenerate it with `pnpm api:client`).
+ * Adding a route? Add it here too.
+ */
+
+export type HttpMethod = 'get' | 'post' | 'put' | 'patch' | 'delete';
+
+export interface ApiOperation {
+  operationId: string; // Also the generated client's method name
+  method: HttpMethod;
+  path: string; // Relative to /api/v1, with {param} placeholders
+  tag: 'Sheets' | 'Columns' | 'Rows' | 'Jobs' | 'Webhooks';
+  summary: string;
+  description?: string;
+  scope: ApiKeyScope;
+  role?: SheetRole; // Minimum role on the sheet, for sheet routes
+  params?: z.AnyZodObject;
+  query?: z.AnyZodObject;
+  body?: z.ZodTypeAny;
+  status: number;
+  response: z.ZodTypeAny;
+  csv?: boolean; // Also serves text/csv (with ?format=csv)
+  idempotent?: boolean; // Accepts an Idempotency-Key header
+}
+
+export const API_OPERATIONS: ApiOperation[] = [
+  {
+    operationId: 'listSheets',
+    method: 'get',
+    path: '/sheets',
+    tag: 'Sheets',
+    summary: 'List sheets',
+    description: "Sheets the key can reach: a workspace key's workspace sheets, or the sheet a key is restricted to.",
+    scope: 'read',
+    status: 200,
+    response: listSheetsResponseSchema,
+  },
+  {
+    operationId: 'createSheet',
+    method: 'post',
+    path: '/sheets',
+    tag: 'Sheets',
+    summary: 'Create a sheet',
+    description: "From a saved template or a list of columns. Personal keys create it in the key owner's personal space, workspace keys in the workspace. Keys restricted to one sheet can't create sheets.",
+    scope: 'manage_sheets',
+    body: createSheetSchema,
+    status: 201,
+    response: createSheetResponseSchema,
+  },
+  {
+    operationId: 'listColumns',
+    method: 'get',
+    path: '/sheets/{sheetId}/columns',
+    tag: 'Columns',
+    summary: 'List columns',
+    description: "A sheet's columns and their operator configuration, in order.",
+    scope: 'read',
+    role: 'viewer',
+    params: sheetIdParamsSchema,
+    status: 200,
+    response: listColumnsResponseSchema,
+  },
+  {
+    operationId: 'createColumn',
+    method: 'post',
+    path: '/sheets/{sheetId}/columns',
+    tag: 'Columns',
+    summary: 'Add a column',
+    description: 'Goes after the last column. Existing rows are filled once the column is reprocessed.',
+    scope: 'manage_sheets',
+    role: 'editor',
+    params: sheetIdParamsSchema,
+    body: createColumnSchema,
+    status: 201,
+    response: columnResponseSchema,
+  },
+  {
+    operationId: 'updateColumn',
+    method: 'patch',
+    path: '/sheets/{sheetId}/columns/{columnId}',
+    tag: 'Columns',
+    summary: 'Update a column',
+    description: 'Only the fields sent change; null clears one. Filled cells keep their values until the column is reprocessed.',
+    scope: 'manage_sheets',
+    role: 'editor',
+    params: columnParamsSchema,
+    body: updateColumnSchema,
+    status: 200,
+    response: columnResponseSchema,
+  },
+  {
+    operationId: 'deleteColumn',
+    method: 'delete',
+    path: '/sheets/{sheetId}/columns/{columnId}',
+    tag: 'Columns',
+    summary: 'Delete a column',
+    description: 'Deletes its cells and moves the columns to its right one position left. 409 while another column depends on it.',
+    scope: 'manage_sheets',
+    role: 'editor',
+    params: columnParamsSchema,
+    status: 200,
+    response: deleteColumnResponseSchema,
+  },
+  {
+    operationId: 'addRows',
+    method: 'post',
+    path: '/sheets/{sheetId}/rows',
+    tag: 'Rows',
+    summary: 'Add rows',
+    description: "Appends rows after the last one; every non-empty cell is processed by the sheet's columns. If the sheet has a key column, a row whose key matches an existing row updates that row instead. At most 1000 rows per request (413), within the key's daily row quota (429).",
+    scope: 'write_rows',
+    role: 'editor',
+    params: sheetIdParamsSchema,
+    body: addRowsSchema,
+    idempotent: true,
+    status: 200,
+    response: addRowsResponseSchema,
+  },
+  {
+    operationId: 'updateCells',
+    method: 'patch',
+    path: '/sheets/{sheetId}/cells',
+    tag: 'Rows',
+    summary: 'Write cells',
+    description: 'With process (the default), non-empty cells are queued like an edit in the app and each row touched counts against the daily row quota. Empty content clears a cell.',
+    scope: 'write_rows',
+    role: 'editor',
+    params: sheetIdParamsSchema,
+    body: updateCellsSchema,
+    status: 200,
+    response: updateCellsResponseSchema,
+  },
+  {
+    operationId: 'deleteRow',
+    method: 'delete',
+    path: '/sheets/{sheetId}/rows/{rowIndex}',
+    tag: 'Rows',
+    summary: 'Delete a row',
+    description: 'Deletes its cells and pending processing. Other rows keep their rowIndex.',
+    scope: 'write_rows',
+    role: 'editor',
+    params: rowParamsSchema,
+    status: 200,
+    response: deleteRowResponseSchema,
+  },
+  {
+    operationId: 'reprocess',
+    method: 'post',
+    path: '/sheets/{sheetId}/reprocess',
+    tag: 'Rows',
+    summary: 'Reprocess a row or column',
+    description: 'Clears and refills one row (except its first column) or one column for every row with data. Rows queued count against the daily row quota.',
+    scope: 'write_rows',
+    role: 'editor',
+    params: sheetIdParamsSchema,
+    body: reprocessSchema,
+    status: 202,
+    response: reprocessResponseSchema,
+  },
+  {
+    operationId: 'exportData',
+    method: 'get',
+    path: '/sheets/{sheetId}/data',
+    tag: 'Rows',
+    summary: 'Export sheet data',
+    description: 'Every row as an array of strings, one per column; ?format=csv returns a CSV file instead. ?include=sources adds a _sources column with the links behind each row\'s values; ?include=confidence adds a _confidence column and, in JSON, each value\'s score with its validation issues.',
+    scope: 'read',
+    role: 'viewer',
+    params: sheetIdParamsSchema,
+    query: exportDataQuerySchema,
+    status: 200,
+    response: exportDataResponseSchema,
+    csv: true,
+  },
+  {
+    operationId: 'createEnrichJob',
+    method: 'post',
+    path: '/sheets/{sheetId}/enrich',
+    tag: 'Jobs',
+    summary: 'Enrich rows',
+    description: 'Adds rows like POST /rows, but returns a job to follow them until every column is filled. Same limits as adding rows.',
+    scope: 'write_rows',
+    role: 'editor',
+    params: sheetIdParamsSchema,
+    body: addRowsSchema,
+    idempotent: true,
+    status: 202,
+    response: createEnrichJobResponseSchema,
+  },
+  {
+    operationId: 'getEnrichJob',
+    method: 'get',
+    path: '/jobs/{jobId}',
+    tag: 'Jobs',
+    summary: 'Get an enrich job',
+    description: "Per-row progress and values. With ?wait, holds the request (up to 60 seconds) until every row has finished.",
+    scope: 'read',
+    role: 'viewer',
+    params: jobParamsSchema,
+    query: enrichJobQuerySchema,
+    status: 200,
+    response: enrichJobResponseSchema,
+  },
+  {
+    operationId: 'getWebhook',
+    method: 'get',
+    path: '/sheets/{sheetId}/webhook',
+    tag: 'Webhooks',
+    summary: 'Get the webhook',
+    scope: 'manage_sheets',
+    role: 'owner',
+    params: sheetIdParamsSchema,
+    status: 200,
+    response: webhookResponseSchema,
+  },
+  {
+    operationId: 'setWebhook',
+    method: 'put',
+    path: '/sheets/{sheetId}/webhook',
+    tag: 'Webhooks',
+    summary: 'Configure the webhook',
+    description: 'Deliveries are POSTed as JSON and signed with the returned secret.',
+    scope: 'manage_sheets',
+    role: 'owner',
+    params: sheetIdParamsSchema,
+    body: setWebhookSchema,
+    status: 200,
+    response: webhookResponseSchema,
+  },
+  {
+    operationId: 'deleteWebhook',
+    method: 'delete',
+    path: '/sheets/{sheetId}/webhook',
+    tag: 'Webhooks',
+    summary: 'Disable the webhook',
+    description: 'The signing secret is kept for re-enabling.',
+    scope: 'manage_sheets',
+    role: 'owner',
+    params: sheetIdParamsSchema,
+    status: 200,
+    response: successResponseSchema,
+  },
+  {
+    operationId: 'listWebhookDeliveries',
+    method: 'get',
+    path: '/sheets/{sheetId}/webhook/deliveries',
+    tag: 'Webhooks',
+    summary: 'List webhook deliveries',
+    description: 'Newest first.',
+    scope: 'manage_sheets',
+    role: 'owner',
+    params: sheetIdParamsSchema,
+    query: listDeliveriesQuerySchema,
+    status: 200,
+    response: listDeliveriesResponseSchema,
+  },
+  {
+    operationId: 'testWebhook',
+    method: 'post',
+    path: '/sheets/{sheetId}/webhook/test',
+    tag: 'Webhooks',
+    summary: 'Send a test delivery',
+    scope: 'manage_sheets',
+    role: 'owner',
+    params: sheetIdParamsSchema,
+    status: 200,
+    response: testWebhookResponseSchema,
+  },
+];
+
+/**
+ * JSON Schema for a zod schema, as request input (fields with defaults are optional)
+ */
+export function toJsonSchema(schema: z.ZodTypeAny): Record<string, unknown> {
+  const jsonSchema = zodToJsonSchema(schema, {
+    $refStrategy: 'none',
+    effectStrategy: 'input',
+  }) as Record<string, unknown>;
+  delete jsonSchema.$schema;
+  return jsonSchema;
+}
+
+const ERROR_STATUSES: Record<string, string> = {
+  '400': 'Invalid request',
+  '401': 'Missing, invalid, revoked or expired API key',
+  '403': 'The key lacks the scope, or the sheet role is too low',
+  '404': 'Not found, or not reachable with this key',
+  '429': 'Rate limit or daily row quota exceeded (see Retry-After)',
+};
+
+/**
+ * The OpenAPI 3.1 document for /api/v1
+ */
+export function buildOpenApiDocument(baseUrl: string) {
+  const paths: Record<string, Record<string, unknown>> = {};
+
+  for (const op of API_OPERATIONS) {
+    const parameters = [
+      ...Object.entries(op.params?.shape ?? {}).map(([name, schema]) => ({
+        name,
+        in: 'path',
+        required: true,
+        schema: toJsonSchema(schema as z.ZodTypeAny),
+      })),
+      ...Object.entries(op.query?.shape ?? {}).map(([name, schema]) => ({
+        name,
+        in: 'query',
+        required: false,
+        schema: toJsonSchema(schema as z.ZodTypeAny),
+      })),
+      ...(op.idempotent
+        ? [{
+          name: 'Idempotency-Key',
+          in: 'header',
+          required: false,
+          description: 'Retries with the same key within 24 hours get the first response back instead of adding the rows again',
+          schema: { type: 'string', maxLength: 255 },
+        }]
+        : []),
+    ];
+
+    const responses: Record<string, unknown> = {
+      [String(op.status)]: {
+        description: op.summary,
+        content: {
+          'application/json': { schema: toJsonSchema(op.response) },
+          ...(op.csv ? { 'text/csv': { schema: { type: 'string' } } } : {}),
+        },
+      },
+    };
+    for (const [status, description] of Object.entries(ERROR_STATUSES)) {
+      responses[status] = {
+        description,
+        content: { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } },
+      };
+    }
+
+    paths[op.path] ??= {};
+    paths[op.path]![op.method] = {
+      operationId: op.operationId,
+      tags: [op.tag],
+      summary: op.summary,
+      description: [
+        op.description,
+        `Requires the \`${op.scope}\` scope${op.role ? ` and ${op.role} access to the sheet` : ''}.`,
+      ].filter(Boolean).join('\n\n'),
+      'x-required-scope': op.scope,
+      ...(parameters.length > 0 ? { parameters } : {}),
+      ...(op.body
+        ? { requestBody: { required: true, content: { 'application/json': { schema: toJsonSchema(op.body) } } } }
+        : {}),
+      responses,
+    };
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'Websurfing API',
+      version: '1.0.0',
+      description: 'Build and fill sheets from your own services. Authenticate with an API key from Settings.',
+    },
+    servers: [{ url: `${baseUrl}/api/v1` }],
+    security: [{ bearerAuth: [] }],
+    tags: [
+      { name: 'Sheets' },
+      { name: 'Columns' },
+      { name: 'Rows' },
+      { name: 'Jobs' },
+      { name: 'Webhooks' },
+    ],
+    paths,
+    components: {
+      securitySchemes: {
+        bearerAuth: { type: 'http', scheme: 'bearer', description: 'Authorization: Bearer <api-key>' },
+      },
+      schemas: {
+        Error: toJsonSchema(errorResponseSchema),
+      },
+    },
+  };
+}
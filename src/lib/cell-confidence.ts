@@ -0,0 +1,25 @@
+/**
+ * Cells scored below this are worth a human look
+ */
+export const LOW_CONFIDENCE_THRESHOLD = 0.7;
+
+/**
+ * Title of the extra export column with each value's confidence
+ */
+export const CONFIDENCE_COLUMN_TITLE = '_confidence';
+
+export function isLowConfidence(confidence: number | null | undefined): boolean {
+  return confidence !== null && confidence !== undefined && confidence < LOW_CONFIDENCE_THRESHOLD;
+}
+
+/**
+ * A row's scores as one export value: "Column: 0.42; Column: 0.95"
+ */
+export function formatRowConfidence(
+  columns: { title: string; confidence: number | null | undefined }[]
+): string {
+  return columns
+    .filter(({ confidence }) => confidence !== null && confidence !== undefined)
+    .map(({ title, confidence }) => `${title}: ${confidence!.toFixed(2)}`)
+    .join('; ');
+}
@@ -0,0 +1,18 @@
+import type { CellProvenance } from "@/types/spreadsheet";
+
+/**
+ * Title of the extra export column listing where a row's values came from
+ */
+export const SOURCES_COLUMN_TITLE = '_sources';
+
+/**
+ * A row's sources as one export value: "Column: url url; Column: url"
+ */
+export function formatRowSources(
+  columns: { title: string; provenance: CellProvenance | null | undefined }[]
+): string {
+  return columns
+    .filter(({ provenance }) => provenance && provenance.sources.length > 0)
+    .map(({ title, provenance }) => `${title}: ${provenance!.sources.map((source) => source.url).join(' ')}`)
+    .join('; ');
+}
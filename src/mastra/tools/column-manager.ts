@@ -2,7 +2,9 @@ import { createTool } from "@mastra/core/tools";
 import { z } from "zod";
 import { db } from "@/server/db";
 import { columns, cells, eventQueue } from "@/server/db/schema";
-import { eq, and, gte, sql } from "drizzle-orm";
+import { eq, and, gt, gte, lt, lte, sql } from "drizzle-orm";
+import { publishCellUpdate, publishEventUpdate } from "@/server/realtime/sheet-change-feed";
+import { captureActionState, recordAgentAction, snapshotBeforeAgentChange } from "@/server/agent-actions";
 
 /**
  * Column Manager Tool
@@ -13,7 +15,8 @@ import { eq, and, gte, sql } from "drizzle-orm";
  * - Reorder columns
  * - Update column configuration (dataType, operatorType, prompt)
  *
- * This gives the agent full control over sheet structure.
+ * This gives the agent full control over sheet structure. Every change is
+ * recorded as an agent action so it can be undone from the chat.
  */
 export const columnManagerTool = createTool({
   id: "column-manager",
@@ -83,6 +86,9 @@ export const columnManagerTool = createTool({
               : 0;
           }
 
+          await snapshotBeforeAgentChange(sheetId, `Before agent added column "${title}"`);
+          const before = await captureActionState(sheetId, { kind: 'column', colIndex: insertPosition }, true);
+
           // Shift existing columns if inserting in middle
           if (position !== undefined && insertPosition < existingCols.length) {
             await db
@@ -105,6 +111,8 @@ export const columnManagerTool = createTool({
             })
             .returning({ id: columns.id, title: columns.title, position: columns.position });
 
+          await recordAgentAction(sheetId, "column-manager", `Added column "${title}"`, before);
+
           console.log(`[Column Manager] Added column "${title}" at position ${insertPosition}`);
 
           // If processExistingRows is true, create events for all existing rows
@@ -136,6 +144,7 @@ export const columnManagerTool = createTool({
             if (eventsToCreate.length > 0) {
               await db.insert(eventQueue).values(eventsToCreate);
               eventsCreated = eventsToCreate.length;
+              await publishEventUpdate(db, sheetId, { status: 'pending', count: eventsCreated });
               console.log(`[Column Manager] Created ${eventsCreated} events to fill new column`);
             }
           }
@@ -179,6 +188,9 @@ export const columnManagerTool = createTool({
             };
           }
 
+          await snapshotBeforeAgentChange(sheetId, `Before agent removed column "${colToRemove.title}"`);
+          const before = await captureActionState(sheetId, { kind: 'column', colIndex: colToRemove.position }, true);
+
           // Delete cells in this column (cascade will handle this if FK exists)
           await db
             .delete(cells)
@@ -195,12 +207,15 @@ export const columnManagerTool = createTool({
           // Shift remaining columns left
           await db
             .update(columns)
-            .set({ position: db.raw(`position - 1`) })
+            .set({ position: sql`${columns.position} - 1` })
             .where(and(
               eq(columns.sheetId, sheetId),
               gte(columns.position, colToRemove.position + 1)
             ));
 
+          await publishCellUpdate(db, sheetId, { rowIndex: null, colIndex: colToRemove.position });
+          await recordAgentAction(sheetId, "column-manager", `Removed column "${colToRemove.title}"`, before);
+
           console.log(`[Column Manager] Removed column "${colToRemove.title}" at position ${colToRemove.position}`);
 
           return {
@@ -252,26 +267,29 @@ export const columnManagerTool = createTool({
             };
           }
 
+          await snapshotBeforeAgentChange(sheetId, `Before agent moved column "${col.title}"`);
+          const before = await captureActionState(sheetId, { kind: 'none' }, true);
+
           // Shift columns in between
           if (newPosition < oldPosition) {
             // Moving left: shift right
             await db
               .update(columns)
-              .set({ position: db.raw(`position + 1`) })
+              .set({ position: sql`${columns.position} + 1` })
               .where(and(
                 eq(columns.sheetId, sheetId),
                 gte(columns.position, newPosition),
-                db.raw(`position < ${oldPosition}`)
+                lt(columns.position, oldPosition)
               ));
           } else {
             // Moving right: shift left
             await db
               .update(columns)
-              .set({ position: db.raw(`position - 1`) })
+              .set({ position: sql`${columns.position} - 1` })
               .where(and(
                 eq(columns.sheetId, sheetId),
-                db.raw(`position > ${oldPosition}`),
-                db.raw(`position <= ${newPosition}`)
+                gt(columns.position, oldPosition),
+                lte(columns.position, newPosition)
               ));
           }
 
@@ -281,6 +299,8 @@ export const columnManagerTool = createTool({
             .set({ position: newPosition })
             .where(eq(columns.id, columnId));
 
+          await recordAgentAction(sheetId, "column-manager", `Moved column "${col.title}" from position ${oldPosition} to ${newPosition}`, before);
+
           console.log(`[Column Manager] Reordered column "${col.title}" from ${oldPosition} to ${newPosition}`);
 
           return {
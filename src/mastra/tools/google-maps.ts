@@ -1,6 +1,7 @@
 import { createTool } from "@mastra/core/tools";
 import { z } from "zod";
 import { getGeminiClient } from "@/server/gemini/client";
+import { trackGeminiCall } from "@/server/gemini/usage-tracker";
 
 /**
  * Google Maps Tool
@@ -64,11 +65,14 @@ export const googleMapsTool = createTool({
         };
       }
 
-      const response = await genAI.models.generateContent({
-        model: "gemini-2.5-flash",
-        contents: `Find the top ${maxResults} ${placeType} near ${location}. Include names, addresses, ratings, and other relevant information.`,
-        config,
-      });
+      const response = await trackGeminiCall(
+        { operatorName: 'mastra_google_maps', model: "gemini-2.5-flash", requestData: { searchQuery } },
+        () => genAI.models.generateContent({
+          model: "gemini-2.5-flash",
+          contents: `Find the top ${maxResults} ${placeType} near ${location}. Include names, addresses, ratings, and other relevant information.`,
+          config,
+        })
+      );
 
       const candidate = response.candidates?.[0];
       const groundingMetadata = candidate?.groundingMetadata;
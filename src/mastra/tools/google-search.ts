@@ -2,6 +2,7 @@ import { createTool } from "@mastra/core/tools";
 import { z } from "zod";
 import { vertex } from "../lib/vertex";
 import { generateText } from "ai";
+import { trackGeminiCall, extractAISDKUsage } from "@/server/gemini/usage-tracker";
 
 /**
  * Google Search Tool
@@ -43,10 +44,12 @@ export const googleSearchTool = createTool({
       console.log(`[Google Search] Searching for: "${searchQuery}" (max ${maxResults} results)`);
 
       // Use Gemini with Google Search grounding
-      const result = await generateText({
-        model: vertex("gemini-2.5-flash"),
-        tools: { google_search: vertex.tools.googleSearch({}) },
-        prompt: `Search for: ${searchQuery}
+      const result = await trackGeminiCall(
+        { operatorName: 'mastra_google_search', model: "gemini-2.5-flash", requestData: { searchQuery }, extractUsage: extractAISDKUsage },
+        () => generateText({
+          model: vertex("gemini-2.5-flash"),
+          tools: { google_search: vertex.tools.googleSearch({}) },
+          prompt: `Search for: ${searchQuery}
 
 Return the top ${maxResults} most relevant results in this exact JSON format:
 {
@@ -69,7 +72,8 @@ Focus on:
 - Clean, direct website URLs only
 - Business listings with full information
 - Most recent and relevant results`,
-      });
+        })
+      );
 
       console.log(`[Google Search] Raw response:`, result.text);
 
@@ -3,6 +3,8 @@ import { z } from "zod";
 import { db } from "@/server/db";
 import { cells } from "@/server/db/schema";
 import { eq, and, isNull, gte, lte, sql } from "drizzle-orm";
+import { publishCellUpdate } from "@/server/realtime/sheet-change-feed";
+import { captureActionState, recordAgentAction, snapshotBeforeAgentChange } from "@/server/agent-actions";
 
 /**
  * Row Manager Tool
@@ -13,6 +15,7 @@ import { eq, and, isNull, gte, lte, sql } from "drizzle-orm";
  * - Clear row content (keep row structure)
  *
  * This gives the agent the ability to clean up and manage spreadsheet data.
+ * Every change is recorded as an agent action so it can be undone from the chat.
  */
 export const rowManagerTool = createTool({
   id: "row-manager",
@@ -58,6 +61,9 @@ export const rowManagerTool = createTool({
             };
           }
 
+          await snapshotBeforeAgentChange(sheetId, `Before agent deleted ${rowIndices.length} rows`);
+          const before = await captureActionState(sheetId, { kind: 'rows', rowIndices }, false);
+
           // Delete cells for these rows
           let totalDeleted = 0;
           for (const rowIndex of rowIndices) {
@@ -72,6 +78,10 @@ export const rowManagerTool = createTool({
             totalDeleted += result.length;
           }
 
+          await publishCellUpdate(db, sheetId, { rowIndex: null, colIndex: null });
+
+          await recordAgentAction(sheetId, "row-manager", `Deleted ${rowIndices.length} rows`, before);
+
           console.log(`[Row Manager] Deleted ${totalDeleted} cells from ${rowIndices.length} rows`);
 
           return {
@@ -150,6 +160,12 @@ export const rowManagerTool = createTool({
             };
           }
 
+          await snapshotBeforeAgentChange(
+            sheetId,
+            `Before agent deleted rows with empty "${columnTitle || `column ${targetColIndex}`}"`
+          );
+          const before = await captureActionState(sheetId, { kind: 'rows', rowIndices: emptyRows }, false);
+
           // Delete all cells for these rows
           let totalDeleted = 0;
           for (const rowIndex of emptyRows) {
@@ -164,6 +180,15 @@ export const rowManagerTool = createTool({
             totalDeleted += result.length;
           }
 
+          await publishCellUpdate(db, sheetId, { rowIndex: null, colIndex: null });
+
+          await recordAgentAction(
+            sheetId,
+            "row-manager",
+            `Deleted ${emptyRows.length} rows with empty "${columnTitle || `column ${targetColIndex}`}"`,
+            before
+          );
+
           console.log(`[Row Manager] Deleted ${emptyRows.length} empty rows (${totalDeleted} cells total)`);
 
           return {
@@ -188,10 +213,14 @@ export const rowManagerTool = createTool({
 
           const end = endRow ?? startRow;
 
+          await snapshotBeforeAgentChange(sheetId, `Before agent cleared rows ${startRow} to ${end}`);
+          const rowIndices = Array.from({ length: Math.max(end - startRow + 1, 0) }, (_, i) => startRow + i);
+          const before = await captureActionState(sheetId, { kind: 'rows', rowIndices }, false);
+
           // Clear content but keep cells
           const result = await db
             .update(cells)
-            .set({ content: "" })
+            .set({ content: "", provenance: null, confidence: null, validation: null })
             .where(and(
               eq(cells.sheetId, sheetId),
               gte(cells.rowIndex, startRow),
@@ -199,6 +228,10 @@ export const rowManagerTool = createTool({
             ))
             .returning({ id: cells.id });
 
+          await publishCellUpdate(db, sheetId, { rowIndex: null, colIndex: null });
+
+          await recordAgentAction(sheetId, "row-manager", `Cleared rows ${startRow} to ${end}`, before);
+
           console.log(`[Row Manager] Cleared ${result.length} cells from rows ${startRow}-${end}`);
 
           return {
@@ -3,6 +3,8 @@ import { z } from "zod";
 import { db } from "@/server/db";
 import { cells, columns, eventQueue } from "@/server/db/schema";
 import { eq } from "drizzle-orm";
+import { publishCellUpdate, publishEventUpdate } from "@/server/realtime/sheet-change-feed";
+import { captureActionState, recordAgentAction, snapshotBeforeAgentChange } from "@/server/agent-actions";
 
 /**
  * Sheet Writer Tool
@@ -13,7 +15,8 @@ import { eq } from "drizzle-orm";
  *
  * This tool is used for bulk row creation from agent queries like
  * "find top 20 pizzas in SF" - the agent can preview the results
- * before the user confirms.
+ * before the user confirms. Executed writes are recorded as agent actions so
+ * they can be undone from the chat.
  */
 export const sheetWriterTool = createTool({
   id: "sheet-writer",
@@ -110,6 +113,13 @@ export const sheetWriterTool = createTool({
       // EXECUTE MODE: Actually write to database
       console.log(`[Sheet Writer] Executing write of ${inputRows.length} rows`);
 
+      await snapshotBeforeAgentChange(sheetId, `Before agent wrote ${inputRows.length} rows`);
+      const before = await captureActionState(
+        sheetId,
+        { kind: 'rows', rowIndices: rowsToCreate.map(row => row.rowIndex) },
+        false
+      );
+
       let cellsCreated = 0;
       let eventsCreated = 0;
 
@@ -155,9 +165,16 @@ export const sheetWriterTool = createTool({
           eventsCreated += eventsToInsert.length;
         }
 
+        await publishCellUpdate(db, sheetId, { rowIndex: null, colIndex: null });
+        if (eventsToInsert.length > 0) {
+          await publishEventUpdate(db, sheetId, { status: 'pending', count: eventsToInsert.length });
+        }
+
         console.log(`[Sheet Writer] Batch ${i / BATCH_SIZE + 1}: Created ${cellsToInsert.length} cells, ${eventsToInsert.length} events`);
       }
 
+      await recordAgentAction(sheetId, "sheet-writer", `Wrote ${inputRows.length} rows from row ${startingRow}`, before);
+
       return {
         success: true,
         mode: "execute",
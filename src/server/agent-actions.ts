@@ -0,0 +1,331 @@
+/**
+ * Agent Actions
+ *
+ * Every sheet change the spreadsheet agent's tools make (columnManagerTool,
+ * sheetWriterTool, rowManagerTool) is recorded in agent_action together with
+ * its inverse: the state of the part of the sheet it touched, captured just
+ * before. Undoing an action puts that state back and keeps what it replaced,
+ * so the undo can be redone; a new action clears the redo stack.
+ *
+ * Actions are grouped by the chat turn they were taken in (set around the
+ * agent call with runAgentTurn()), which is what reverting one agent message
+ * undoes. Undo restores the touched cells wholesale, so edits made to them
+ * after the action are undone with it. The sheet is also snapshotted once
+ * per turn, before its first change.
+ */
+
+import { AsyncLocalStorage } from "async_hooks";
+import { db } from "@/server/db";
+import { agentActions, cellProcessingStatus, cells, columns, eventQueue, sheetUpdates } from "@/server/db/schema";
+import { and, desc, eq, inArray, isNull, sql, type SQL } from "drizzle-orm";
+import { publishCellUpdate } from "@/server/realtime/sheet-change-feed";
+import { recordCellChanges } from "@/server/cell-history";
+import { SheetOperationError } from "@/server/sheet-operations";
+import {
+  changedCells,
+  createSnapshot,
+  lockQueuedEvents,
+  readSnapshotCells,
+  readSnapshotColumns,
+} from "@/server/sheet-snapshots";
+import type { AgentActionScope, AgentActionState } from "@/types/spreadsheet";
+
+// Cells per insert, well under Postgres' bind parameter limit
+const INSERT_BATCH_SIZE = 1000;
+
+export interface AgentActionSummary {
+  id: string;
+  turnId: string | null;
+  tool: string;
+  description: string;
+  status: string;
+  createdAt: Date | null;
+  undoneAt: Date | null;
+}
+
+const summaryColumns = {
+  id: agentActions.id,
+  turnId: agentActions.turnId,
+  tool: agentActions.tool,
+  description: agentActions.description,
+  status: agentActions.status,
+  createdAt: agentActions.createdAt,
+  undoneAt: agentActions.undoneAt,
+};
+
+interface AgentTurn {
+  turnId: string;
+  snapshots: Map<string, Promise<unknown>>; // By sheet: taken before the turn's first change to it
+}
+
+const turnStorage = new AsyncLocalStorage<AgentTurn>();
+
+/**
+ * Run `fn` (an agent call) so the actions its tools take are grouped under `turnId`
+ */
+export function runAgentTurn<T>(turnId: string, fn: () => Promise<T>): Promise<T> {
+  return turnStorage.run({ turnId, snapshots: new Map() }, fn);
+}
+
+/**
+ * Snapshot the sheet before an agent tool changes it: once per chat turn, or
+ * on every call made outside one
+ */
+export async function snapshotBeforeAgentChange(sheetId: string, name: string): Promise<void> {
+  const turn = turnStorage.getStore();
+  if (!turn) {
+    await createSnapshot(sheetId, null, name, 'agent');
+    return;
+  }
+
+  let snapshot = turn.snapshots.get(sheetId);
+  if (!snapshot) {
+    snapshot = createSnapshot(sheetId, null, name, 'agent');
+    turn.snapshots.set(sheetId, snapshot);
+    // A failed snapshot is retried by the next change
+    snapshot.catch(() => turn.snapshots.delete(sheetId));
+  }
+  await snapshot;
+}
+
+function scopeCondition(scope: AgentActionScope): SQL | undefined {
+  switch (scope.kind) {
+    case 'rows':
+      return scope.rowIndices.length > 0 ? inArray(cells.rowIndex, scope.rowIndices) : sql`false`;
+    case 'column':
+      return eq(cells.colIndex, scope.colIndex);
+    case 'none':
+      return undefined;
+  }
+}
+
+/**
+ * The current state of the part of the sheet an action is about to touch
+ */
+export async function captureActionState(
+  sheetId: string,
+  scope: AgentActionScope,
+  includeColumns: boolean,
+  executor: Pick<typeof db, 'select'> = db
+): Promise<AgentActionState> {
+  const where = scopeCondition(scope);
+  const [sheetColumns, scopeCells] = await Promise.all([
+    includeColumns ? readSnapshotColumns(sheetId, executor) : null,
+    where ? readSnapshotCells(sheetId, where, executor) : [],
+  ]);
+
+  return { columns: sheetColumns, scope, cells: scopeCells };
+}
+
+/**
+ * Record a change an agent tool just made, with the state it replaced
+ */
+export async function recordAgentAction(
+  sheetId: string,
+  tool: string,
+  description: string,
+  undoState: AgentActionState
+): Promise<void> {
+  await db
+    .delete(agentActions)
+    .where(and(eq(agentActions.sheetId, sheetId), eq(agentActions.status, 'undone')));
+
+  await db.insert(agentActions).values({
+    sheetId,
+    turnId: turnStorage.getStore()?.turnId ?? null,
+    tool,
+    description,
+    undoState,
+  });
+}
+
+/**
+ * Whether a queued event would fill a cell in `scope`
+ */
+function isEventInScope(payload: unknown, scope: AgentActionScope): boolean {
+  const { rowIndex, targetColIndex } = (payload ?? {}) as { rowIndex?: number; targetColIndex?: number };
+  switch (scope.kind) {
+    case 'rows':
+      return rowIndex !== undefined && scope.rowIndices.includes(rowIndex);
+    case 'column':
+      return targetColIndex === scope.colIndex;
+    case 'none':
+      return false;
+  }
+}
+
+/**
+ * Put part of a sheet back to `state`, dropping processing queued for it
+ *
+ * Refuses (409) while the sheet is processing, like restoring a snapshot.
+ *
+ * @returns the state it replaced
+ */
+async function applyActionState(sheetId: string, userId: string, state: AgentActionState): Promise<AgentActionState> {
+  const where = scopeCondition(state.scope);
+
+  const replaced = await db.transaction(async (tx) => {
+    const queued = await lockQueuedEvents(tx, sheetId);
+    const replaced = await captureActionState(sheetId, state.scope, state.columns !== null, tx);
+
+    if (state.columns) {
+      await tx.delete(columns).where(eq(columns.sheetId, sheetId));
+      if (state.columns.length > 0) {
+        await tx.insert(columns).values(state.columns.map(column => ({ ...column, sheetId })));
+      }
+    }
+
+    if (!where) {
+      return replaced;
+    }
+
+    await tx.delete(cells).where(and(eq(cells.sheetId, sheetId), where));
+    for (let i = 0; i < state.cells.length; i += INSERT_BATCH_SIZE) {
+      await tx.insert(cells).values(
+        state.cells.slice(i, i + INSERT_BATCH_SIZE).map(cell => ({ ...cell, sheetId, userId }))
+      );
+    }
+
+    // Processing queued for the scope, and results not yet applied to it, were
+    // computed from the state being replaced
+    const stale = queued.filter(event => isEventInScope(event.payload, state.scope)).map(event => event.id);
+    if (stale.length > 0) {
+      await tx.delete(eventQueue).where(inArray(eventQueue.id, stale));
+    }
+    if (state.scope.kind === 'rows') {
+      await tx
+        .delete(sheetUpdates)
+        .where(and(
+          eq(sheetUpdates.sheetId, sheetId),
+          isNull(sheetUpdates.appliedAt),
+          inArray(sheetUpdates.rowIndex, state.scope.rowIndices)
+        ));
+      await tx
+        .delete(cellProcessingStatus)
+        .where(and(eq(cellProcessingStatus.sheetId, sheetId), inArray(cellProcessingStatus.rowIndex, state.scope.rowIndices)));
+    } else if (state.scope.kind === 'column') {
+      await tx
+        .delete(sheetUpdates)
+        .where(and(
+          eq(sheetUpdates.sheetId, sheetId),
+          isNull(sheetUpdates.appliedAt),
+          eq(sheetUpdates.colIndex, state.scope.colIndex)
+        ));
+      await tx
+        .delete(cellProcessingStatus)
+        .where(and(eq(cellProcessingStatus.sheetId, sheetId), eq(cellProcessingStatus.colIndex, state.scope.colIndex)));
+    }
+
+    const changes = changedCells(replaced.cells, state.cells);
+    for (let i = 0; i < changes.length; i += INSERT_BATCH_SIZE) {
+      await recordCellChanges(tx, sheetId, userId, 'revert', changes.slice(i, i + INSERT_BATCH_SIZE));
+    }
+
+    return replaced;
+  });
+
+  await publishCellUpdate(db, sheetId, { rowIndex: null, colIndex: null });
+
+  return replaced;
+}
+
+/**
+ * The sheet's agent actions, newest first
+ */
+export async function listAgentActions(sheetId: string, limit = 100): Promise<AgentActionSummary[]> {
+  return db
+    .select(summaryColumns)
+    .from(agentActions)
+    .where(eq(agentActions.sheetId, sheetId))
+    .orderBy(desc(agentActions.createdAt))
+    .limit(limit);
+}
+
+async function undoAction(sheetId: string, userId: string, action: { id: string; undoState: AgentActionState }) {
+  const redoState = await applyActionState(sheetId, userId, action.undoState);
+
+  const [undone] = await db
+    .update(agentActions)
+    .set({ status: 'undone', redoState, undoneAt: new Date() })
+    .where(eq(agentActions.id, action.id))
+    .returning(summaryColumns);
+
+  return undone!;
+}
+
+/**
+ * Undo the most recent agent action still applied
+ */
+export async function undoLastAgentAction(sheetId: string, userId: string): Promise<AgentActionSummary> {
+  const [action] = await db
+    .select({ id: agentActions.id, undoState: agentActions.undoState })
+    .from(agentActions)
+    .where(and(eq(agentActions.sheetId, sheetId), eq(agentActions.status, 'applied')))
+    .orderBy(desc(agentActions.createdAt))
+    .limit(1);
+
+  if (!action) {
+    throw new SheetOperationError('No agent action to undo', 404);
+  }
+
+  const undone = await undoAction(sheetId, userId, action);
+
+  console.log(`[Agent Actions] Undid "${undone.description}" on sheet ${sheetId}`);
+
+  return undone;
+}
+
+/**
+ * Redo the most recently undone agent action
+ */
+export async function redoAgentAction(sheetId: string, userId: string): Promise<AgentActionSummary> {
+  const [action] = await db
+    .select({ id: agentActions.id, redoState: agentActions.redoState })
+    .from(agentActions)
+    .where(and(eq(agentActions.sheetId, sheetId), eq(agentActions.status, 'undone')))
+    .orderBy(desc(agentActions.undoneAt))
+    .limit(1);
+
+  if (!action?.redoState) {
+    throw new SheetOperationError('No agent action to redo', 404);
+  }
+
+  const undoState = await applyActionState(sheetId, userId, action.redoState);
+
+  const [redone] = await db
+    .update(agentActions)
+    .set({ status: 'applied', undoState, redoState: null, undoneAt: null })
+    .where(eq(agentActions.id, action.id))
+    .returning(summaryColumns);
+
+  console.log(`[Agent Actions] Redid "${redone!.description}" on sheet ${sheetId}`);
+
+  return redone!;
+}
+
+/**
+ * Undo every action still applied from one agent chat turn, newest first
+ */
+export async function revertAgentTurn(sheetId: string, userId: string, turnId: string): Promise<{ actionsUndone: number }> {
+  const actions = await db
+    .select({ id: agentActions.id, undoState: agentActions.undoState })
+    .from(agentActions)
+    .where(and(
+      eq(agentActions.sheetId, sheetId),
+      eq(agentActions.turnId, turnId),
+      eq(agentActions.status, 'applied')
+    ))
+    .orderBy(desc(agentActions.createdAt));
+
+  if (actions.length === 0) {
+    throw new SheetOperationError('Nothing to revert for this message', 404);
+  }
+
+  for (const action of actions) {
+    await undoAction(sheetId, userId, action);
+  }
+
+  console.log(`[Agent Actions] Reverted ${actions.length} actions of turn ${turnId} on sheet ${sheetId}`);
+
+  return { actionsUndone: actions.length };
+}
@@ -2,6 +2,7 @@ import { z } from "zod";
 import { zodToJsonSchema } from "zod-to-json-schema";
 import { getGeminiClient } from "../gemini/client";
 import { DEFAULT_GENERATION_CONFIG, GEMINI_MODELS } from "../gemini/config";
+import { trackGeminiCall } from "../gemini/usage-tracker";
 
 // Schema for a single column configuration
 const columnConfigSchema = z.object({
@@ -118,15 +119,18 @@ Think step-by-step about the data flow from left to right.`;
     // Combine system instruction and prompt
     const fullPrompt = systemInstruction + "\n\n" + prompt;
 
-    const result = await client.models.generateContent({
-      model: GEMINI_MODELS.FLASH, // Use gemini-2.5-flash
-      contents: fullPrompt,
-      config: {
-        responseMimeType: "application/json",
-        responseJsonSchema: jsonSchema,
-        ...DEFAULT_GENERATION_CONFIG,
-      },
-    });
+    const result = await trackGeminiCall(
+      { operatorName: 'template_generate', model: GEMINI_MODELS.FLASH },
+      () => client.models.generateContent({
+        model: GEMINI_MODELS.FLASH, // Use gemini-2.5-flash
+        contents: fullPrompt,
+        config: {
+          responseMimeType: "application/json",
+          responseJsonSchema: jsonSchema,
+          ...DEFAULT_GENERATION_CONFIG,
+        },
+      })
+    );
 
     const text = result.text || "";
 
@@ -196,15 +200,18 @@ Update the template based on this feedback. Return the complete updated configur
     // Combine system instruction and prompt
     const fullPrompt = systemInstruction + "\n\n" + prompt;
 
-    const result = await client.models.generateContent({
-      model: GEMINI_MODELS.FLASH, // Use gemini-2.5-flash
-      contents: fullPrompt,
-      config: {
-        responseMimeType: "application/json",
-        responseJsonSchema: jsonSchema,
-        ...DEFAULT_GENERATION_CONFIG,
-      },
-    });
+    const result = await trackGeminiCall(
+      { operatorName: 'template_refine', model: GEMINI_MODELS.FLASH },
+      () => client.models.generateContent({
+        model: GEMINI_MODELS.FLASH, // Use gemini-2.5-flash
+        contents: fullPrompt,
+        config: {
+          responseMimeType: "application/json",
+          responseJsonSchema: jsonSchema,
+          ...DEFAULT_GENERATION_CONFIG,
+        },
+      })
+    );
 
     const text = result.text || "";
 
@@ -259,15 +266,18 @@ Provide 2-5 concrete, actionable suggestions.`;
     // Convert Zod schema to JSON Schema for Gemini API
     const jsonSchema = zodToJsonSchema(suggestionSchema);
 
-    const result = await client.models.generateContent({
-      model: GEMINI_MODELS.FLASH, // Use gemini-2.5-flash
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseJsonSchema: jsonSchema,
-        ...DEFAULT_GENERATION_CONFIG,
-      },
-    });
+    const result = await trackGeminiCall(
+      { operatorName: 'template_suggest', model: GEMINI_MODELS.FLASH },
+      () => client.models.generateContent({
+        model: GEMINI_MODELS.FLASH, // Use gemini-2.5-flash
+        contents: prompt,
+        config: {
+          responseMimeType: "application/json",
+          responseJsonSchema: jsonSchema,
+          ...DEFAULT_GENERATION_CONFIG,
+        },
+      })
+    );
 
     const text = result.text || "";
 
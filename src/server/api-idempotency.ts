@@ -0,0 +1,126 @@
+/**
+ * API Idempotency
+ *
+ * A client retrying a request sends the same Idempotency-Key header. The
+ * first request reserves the key; once it succeeds its response is stored and
+ * replayed to retries for 24 hours, so a resent batch isn't appended (and
+ * enriched) twice. Failed requests release the key so they can be retried.
+ */
+
+import { createHash } from "crypto";
+import { db } from "@/server/db";
+import { apiIdempotencyKeys } from "@/server/db/schema";
+import { and, eq, isNull, lt, or } from "drizzle-orm";
+
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// How long a stored response is replayed
+const IDEMPOTENCY_TTL_MS = 24 * HOUR_MS;
+
+// A reservation this old without a response belongs to a request that died
+const ABANDONED_AFTER_MS = 5 * 60 * 1000;
+
+export type IdempotencyReservation =
+  | { state: 'reserved'; id: string }
+  | { state: 'replay'; status: number; body: unknown }
+  | { state: 'in_progress' }
+  | { state: 'mismatch' };
+
+/**
+ * Fingerprint of a request, to tell a retry from a different request reusing the key
+ */
+export function hashRequest(method: string, path: string, body: unknown): string {
+  return createHash('sha256')
+    .update(`${method} ${path}\n${JSON.stringify(body ?? null)}`)
+    .digest('hex');
+}
+
+/**
+ * Claim a key for a request, or find what an earlier request with it did
+ */
+export async function reserveIdempotencyKey(
+  apiKeyId: string,
+  key: string,
+  requestHash: string
+): Promise<IdempotencyReservation> {
+  const now = Date.now();
+
+  // Expired responses and abandoned reservations free the key
+  await db
+    .delete(apiIdempotencyKeys)
+    .where(and(
+      eq(apiIdempotencyKeys.apiKeyId, apiKeyId),
+      eq(apiIdempotencyKeys.key, key),
+      or(
+        lt(apiIdempotencyKeys.createdAt, new Date(now - IDEMPOTENCY_TTL_MS)),
+        and(
+          isNull(apiIdempotencyKeys.responseStatus),
+          lt(apiIdempotencyKeys.createdAt, new Date(now - ABANDONED_AFTER_MS))
+        )
+      )
+    ));
+
+  const [reserved] = await db
+    .insert(apiIdempotencyKeys)
+    .values({ apiKeyId, key, requestHash })
+    .onConflictDoNothing()
+    .returning({ id: apiIdempotencyKeys.id });
+
+  if (reserved) {
+    return { state: 'reserved', id: reserved.id };
+  }
+
+  const existing = await db.query.apiIdempotencyKeys.findFirst({
+    where: and(eq(apiIdempotencyKeys.apiKeyId, apiKeyId), eq(apiIdempotencyKeys.key, key)),
+  });
+
+  // Deleted between the insert and the lookup; the client can simply retry
+  if (!existing) {
+    return { state: 'in_progress' };
+  }
+
+  if (existing.requestHash !== requestHash) {
+    return { state: 'mismatch' };
+  }
+
+  if (existing.responseStatus === null) {
+    return { state: 'in_progress' };
+  }
+
+  return { state: 'replay', status: existing.responseStatus, body: existing.responseBody };
+}
+
+/**
+ * Store the response to replay for the key
+ */
+export async function completeIdempotencyKey(id: string, status: number, body: unknown): Promise<void> {
+  await db
+    .update(apiIdempotencyKeys)
+    .set({ responseStatus: status, responseBody: body })
+    .where(eq(apiIdempotencyKeys.id, id));
+}
+
+/**
+ * Free the key after a failed request so the client can retry it
+ */
+export async function releaseIdempotencyKey(id: string): Promise<void> {
+  await db
+    .delete(apiIdempotencyKeys)
+    .where(eq(apiIdempotencyKeys.id, id));
+}
+
+/**
+ * Delete keys whose responses are no longer replayed
+ *
+ * @returns number of rows deleted
+ */
+export async function pruneIdempotencyKeys(): Promise<number> {
+  const deleted = await db
+    .delete(apiIdempotencyKeys)
+    .where(lt(apiIdempotencyKeys.createdAt, new Date(Date.now() - IDEMPOTENCY_TTL_MS)))
+    .returning({ id: apiIdempotencyKeys.id });
+
+  return deleted.length;
+}
@@ -0,0 +1,38 @@
+/**
+ * API Keys
+ *
+ * Secrets are shown once when a key is created; only their SHA-256 hash and a
+ * short prefix (to tell keys apart in settings) are stored. Each key carries
+ * scopes that limit what it can do:
+ *
+ * - read:          list sheets, export data
+ * - write_rows:    add, edit, delete and reprocess rows
+ * - manage_sheets: create sheets, configure columns and webhooks
+ */
+
+import crypto from "crypto";
+
+export const API_KEY_SCOPES = ['read', 'write_rows', 'manage_sheets'] as const;
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+const KEY_PREFIX = 'vs_';
+const DISPLAY_PREFIX_LENGTH = 11; // 'vs_' plus 8 characters of the secret
+
+/**
+ * Hash a secret the way it's stored in api_key.key_hash
+ */
+export function hashApiKey(secret: string): string {
+  return crypto.createHash('sha256').update(secret, 'utf8').digest('hex');
+}
+
+/**
+ * Generate a new secret along with the prefix and hash to store
+ */
+export function generateApiKey(): { secret: string; prefix: string; keyHash: string } {
+  const secret = KEY_PREFIX + crypto.randomBytes(32).toString('hex');
+  return {
+    secret,
+    prefix: secret.slice(0, DISPLAY_PREFIX_LENGTH),
+    keyHash: hashApiKey(secret),
+  };
+}
@@ -0,0 +1,155 @@
+/**
+ * API Rate Limit
+ *
+ * Postgres-backed fixed-window counters per API key, so limits hold across
+ * app instances:
+ *
+ * - requests: every authenticated /api/v1 request, per minute
+ * - rows:     rows added through the API, per UTC day (each non-empty cell
+ *             becomes a Gemini call, so this caps what a runaway script can enqueue)
+ *
+ * Keys can override the defaults with rateLimitPerMinute / dailyRowQuota.
+ */
+
+import { db } from "@/server/db";
+import { apiKeyUsage } from "@/server/db/schema";
+import { and, eq, lt, sql } from "drizzle-orm";
+
+export const API_LIMITS = {
+  requestsPerMinute: 60,
+  maxRowsPerRequest: 1000,
+  dailyRowQuota: 10000,
+} as const;
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Counters are only needed for the current window; keep yesterday's for support questions
+const USAGE_RETENTION_MS = 2 * DAY_MS;
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetSeconds: number; // Until the window resets
+}
+
+/**
+ * Start of the current daily quota window (UTC midnight)
+ */
+export function dayWindowStart(now = Date.now()): Date {
+  return new Date(Math.floor(now / DAY_MS) * DAY_MS);
+}
+
+/**
+ * Add to a key's counter for the window
+ *
+ * With `cap`, the increment is only applied if it keeps the count within it.
+ *
+ * @returns the new count, or null if the increment would exceed the cap
+ */
+async function increment(
+  apiKeyId: string,
+  bucket: 'requests' | 'rows',
+  windowStart: Date,
+  amount: number,
+  cap?: number
+): Promise<number | null> {
+  if (cap !== undefined && amount > cap) {
+    return null;
+  }
+
+  const [row] = await db
+    .insert(apiKeyUsage)
+    .values({ apiKeyId, bucket, windowStart, count: amount })
+    .onConflictDoUpdate({
+      target: [apiKeyUsage.apiKeyId, apiKeyUsage.bucket, apiKeyUsage.windowStart],
+      set: { count: sql`${apiKeyUsage.count} + excluded.count` },
+      setWhere: cap !== undefined ? sql`${apiKeyUsage.count} + excluded.count <= ${cap}` : undefined,
+    })
+    .returning({ count: apiKeyUsage.count });
+
+  return row?.count ?? null;
+}
+
+/**
+ * The current count for a window (0 if nothing was recorded yet)
+ */
+async function currentCount(apiKeyId: string, bucket: 'requests' | 'rows', windowStart: Date): Promise<number> {
+  const [row] = await db
+    .select({ count: apiKeyUsage.count })
+    .from(apiKeyUsage)
+    .where(and(
+      eq(apiKeyUsage.apiKeyId, apiKeyId),
+      eq(apiKeyUsage.bucket, bucket),
+      eq(apiKeyUsage.windowStart, windowStart)
+    ))
+    .limit(1);
+
+  return row?.count ?? 0;
+}
+
+/**
+ * Count a request against the key's per-minute limit
+ */
+export async function consumeRequest(apiKeyId: string, limit: number): Promise<RateLimitResult> {
+  const now = Date.now();
+  const windowStart = new Date(Math.floor(now / MINUTE_MS) * MINUTE_MS);
+  const count = (await increment(apiKeyId, 'requests', windowStart, 1)) ?? 0;
+
+  return {
+    allowed: count <= limit,
+    limit,
+    remaining: Math.max(0, limit - count),
+    resetSeconds: Math.ceil((windowStart.getTime() + MINUTE_MS - now) / 1000),
+  };
+}
+
+/**
+ * Reserve rows from the key's daily quota; nothing is consumed if they don't all fit
+ */
+export async function consumeRows(apiKeyId: string, rows: number, quota: number): Promise<RateLimitResult> {
+  const now = Date.now();
+  const windowStart = dayWindowStart(now);
+  const resetSeconds = Math.ceil((windowStart.getTime() + DAY_MS - now) / 1000);
+
+  const count = await increment(apiKeyId, 'rows', windowStart, rows, quota);
+
+  if (count === null) {
+    const used = await currentCount(apiKeyId, 'rows', windowStart);
+    return { allowed: false, limit: quota, remaining: Math.max(0, quota - used), resetSeconds };
+  }
+
+  return { allowed: true, limit: quota, remaining: Math.max(0, quota - count), resetSeconds };
+}
+
+/**
+ * Standard RateLimit-* headers (plus Retry-After when limited)
+ */
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  const headers: Record<string, string> = {
+    'RateLimit-Limit': String(result.limit),
+    'RateLimit-Remaining': String(result.remaining),
+    'RateLimit-Reset': String(result.resetSeconds),
+  };
+
+  if (!result.allowed) {
+    headers['Retry-After'] = String(result.resetSeconds);
+  }
+
+  return headers;
+}
+
+/**
+ * Delete counters for windows that ended long ago
+ *
+ * @returns number of rows deleted
+ */
+export async function pruneApiKeyUsage(): Promise<number> {
+  const deleted = await db
+    .delete(apiKeyUsage)
+    .where(lt(apiKeyUsage.windowStart, new Date(Date.now() - USAGE_RETENTION_MS)))
+    .returning({ id: apiKeyUsage.id });
+
+  return deleted.length;
+}
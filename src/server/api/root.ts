@@ -8,6 +8,15 @@ import { columnConfigRouter } from "@/server/api/routers/column-config";
 import { mastraTestRouter } from "@/server/api/routers/mastra-test";
 import { spreadsheetAgentTestRouter } from "@/server/api/routers/spreadsheet-agent-test";
 import { apiKeyRouter } from "@/server/api/routers/api-key";
+import { webhookRouter } from "@/server/api/routers/webhook";
+import { usageRouter } from "@/server/api/routers/usage";
+import { budgetRouter } from "@/server/api/routers/budget";
+import { clarificationRouter } from "@/server/api/routers/clarification";
+import { failedEventsRouter } from "@/server/api/routers/failed-events";
+import { sheetMemberRouter } from "@/server/api/routers/sheet-member";
+import { workspaceRouter } from "@/server/api/routers/workspace";
+import { historyRouter } from "@/server/api/routers/history";
+import { snapshotRouter } from "@/server/api/routers/snapshot";
 import { createCallerFactory, createTRPCRouter } from "@/server/api/trpc";
 
 /**
@@ -26,6 +35,15 @@ export const appRouter = createTRPCRouter({
   mastraTest: mastraTestRouter,
   spreadsheetAgentTest: spreadsheetAgentTestRouter,
   apiKey: apiKeyRouter,
+  webhook: webhookRouter,
+  usage: usageRouter,
+  budget: budgetRouter,
+  clarification: clarificationRouter,
+  failedEvents: failedEventsRouter,
+  sheetMember: sheetMemberRouter,
+  workspace: workspaceRouter,
+  history: historyRouter,
+  snapshot: snapshotRouter,
 });
 
 // export type definition of API
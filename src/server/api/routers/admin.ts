@@ -2,39 +2,46 @@ import { z } from "zod";
 import { createTRPCRouter, protectedProcedure } from "@/server/api/trpc";
 import { eventQueue } from "@/server/db/schema";
 import { eq, or, and, lt } from "drizzle-orm";
+import { assertSheetAccess } from "@/server/sheet-access";
 
 export const adminRouter = createTRPCRouter({
   cleanupStuckEvents: protectedProcedure
     .mutation(async ({ ctx }) => {
       const twoMinutesAgo = new Date(Date.now() - 2 * 60 * 1000);
 
+      // Fail rather than complete them so they show up in the failed-events inspector
       const result = await ctx.db
         .update(eventQueue)
         .set({
-          status: 'completed',
+          status: 'failed',
+          lastError: 'Stuck for over 2 minutes, cleaned up by admin',
           processedAt: new Date(),
         })
         .where(
           and(
+            eq(eventQueue.userId, ctx.session.user.id),
             or(
               eq(eventQueue.status, 'processing'),
               eq(eventQueue.status, 'pending')
             ),
             lt(eventQueue.createdAt, twoMinutesAgo)
           )
-        );
+        )
+        .returning({ id: eventQueue.id });
 
-      console.log('[Admin] Cleaned up stuck events');
-      return { success: true, message: 'Cleaned up old stuck events' };
+      console.log(`[Admin] Marked ${result.length} stuck events as failed`);
+      return { success: true, message: `Marked ${result.length} stuck events as failed` };
     }),
 
   clearAllPendingEvents: protectedProcedure
     .input(z.object({ sheetId: z.string().uuid() }))
     .mutation(async ({ ctx, input }) => {
+      await assertSheetAccess(input.sheetId, ctx.session.user.id, 'editor');
+
       await ctx.db
         .update(eventQueue)
         .set({
-          status: 'completed',
+          status: 'discarded',
           processedAt: new Date(),
         })
         .where(
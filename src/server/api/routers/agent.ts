@@ -1,6 +1,16 @@
+import { randomUUID } from "crypto";
 import { z } from "zod";
 import { createTRPCRouter, protectedProcedure } from "@/server/api/trpc";
 import { getSpreadsheetAgent } from "@/mastra";
+import { runWithUsageContext, trackGeminiCall, extractAISDKUsage } from "@/server/gemini/usage-tracker";
+import { assertSheetAccess } from "@/server/sheet-access";
+import {
+  listAgentActions,
+  redoAgentAction,
+  revertAgentTurn,
+  runAgentTurn,
+  undoLastAgentAction,
+} from "@/server/agent-actions";
 
 /**
  * Production Agent Router
@@ -20,6 +30,9 @@ export const agentRouter = createTRPCRouter({
       })
     )
     .mutation(async ({ input, ctx }) => {
+      // The agent's tools write to the sheet
+      await assertSheetAccess(input.sheetId, ctx.session.user.id, 'editor');
+
       try {
         const agent = getSpreadsheetAgent();
 
@@ -34,6 +47,9 @@ export const agentRouter = createTRPCRouter({
         const threadId = input.threadId || `sheet-${input.sheetId}-${Date.now()}`;
         const resourceId = input.sheetId;
 
+        // Groups the changes this message's tool calls make, so they can be reverted together
+        const turnId = randomUUID();
+
         // Build context message with sheet info
         const contextMessage = `Sheet ID: ${input.sheetId}
 User ID: ${ctx.session.user.id}
@@ -41,10 +57,16 @@ User ID: ${ctx.session.user.id}
 User message: ${input.message}`;
 
         // Call the agent
-        const response = await agent.generate(contextMessage, {
-          threadId,
-          resourceId,
-        });
+        const response = await runWithUsageContext(
+          { userId: ctx.session.user.id, sheetId: input.sheetId },
+          () => runAgentTurn(turnId, () => trackGeminiCall(
+            { operatorName: 'spreadsheet_agent', model: 'gemini-2.5-flash', extractUsage: extractAISDKUsage, limited: false },
+            () => agent.generate(contextMessage, {
+              threadId,
+              resourceId,
+            })
+          ))
+        );
 
         console.log("[Agent] Response:", response.text);
 
@@ -53,6 +75,7 @@ User message: ${input.message}`;
           success: true,
           response: response.text,
           threadId,
+          turnId,
         };
       } catch (error) {
         console.error("[Agent] Error:", error);
@@ -72,7 +95,9 @@ User message: ${input.message}`;
         threadId: z.string().optional(),
       })
     )
-    .query(async ({ input }) => {
+    .query(async ({ input, ctx }) => {
+      await assertSheetAccess(input.sheetId, ctx.session.user.id);
+
       // TODO: Load from Mastra storage
       // For now, return empty
       return {
@@ -97,6 +122,9 @@ User message: ${input.message}`;
       })
     )
     .mutation(async ({ input, ctx }) => {
+      // The agent's tools write to the sheet
+      await assertSheetAccess(input.sheetId, ctx.session.user.id, 'editor');
+
       try {
         const agent = getSpreadsheetAgent();
 
@@ -112,6 +140,9 @@ User message: ${input.message}`;
         const threadId = input.threadId || `csv-${input.sheetId}-${Date.now()}`;
         const resourceId = input.sheetId;
 
+        // Groups the changes this message's tool calls make, so they can be reverted together
+        const turnId = randomUUID();
+
         // Build context message with CSV data
         const contextMessage = `Sheet ID: ${input.sheetId}
 User ID: ${ctx.session.user.id}
@@ -125,10 +156,16 @@ ${JSON.stringify(input.csvData.rows.slice(0, 5), null, 2)}
 Please analyze this CSV and present an import preview to the user.`;
 
         // Call the agent
-        const response = await agent.generate(contextMessage, {
-          threadId,
-          resourceId,
-        });
+        const response = await runWithUsageContext(
+          { userId: ctx.session.user.id, sheetId: input.sheetId },
+          () => runAgentTurn(turnId, () => trackGeminiCall(
+            { operatorName: 'spreadsheet_agent', model: 'gemini-2.5-flash', extractUsage: extractAISDKUsage, limited: false },
+            () => agent.generate(contextMessage, {
+              threadId,
+              resourceId,
+            })
+          ))
+        );
 
         console.log("[Agent] CSV Analysis Response:", response.text);
 
@@ -136,6 +173,7 @@ Please analyze this CSV and present an import preview to the user.`;
           success: true,
           response: response.text,
           threadId,
+          turnId,
         };
       } catch (error) {
         console.error("[Agent] CSV Upload error:", error);
@@ -144,4 +182,48 @@ Please analyze this CSV and present an import preview to the user.`;
         );
       }
     }),
+
+  /**
+   * The sheet's agent actions, newest first, with whether each is applied or undone
+   */
+  listActions: protectedProcedure
+    .input(z.object({ sheetId: z.string().uuid() }))
+    .query(async ({ input, ctx }) => {
+      await assertSheetAccess(input.sheetId, ctx.session.user.id);
+
+      return listAgentActions(input.sheetId);
+    }),
+
+  /**
+   * Undo the most recent agent action still applied
+   */
+  undo: protectedProcedure
+    .input(z.object({ sheetId: z.string().uuid() }))
+    .mutation(async ({ input, ctx }) => {
+      await assertSheetAccess(input.sheetId, ctx.session.user.id, 'editor');
+
+      return undoLastAgentAction(input.sheetId, ctx.session.user.id);
+    }),
+
+  /**
+   * Redo the most recently undone agent action
+   */
+  redo: protectedProcedure
+    .input(z.object({ sheetId: z.string().uuid() }))
+    .mutation(async ({ input, ctx }) => {
+      await assertSheetAccess(input.sheetId, ctx.session.user.id, 'editor');
+
+      return redoAgentAction(input.sheetId, ctx.session.user.id);
+    }),
+
+  /**
+   * Undo every change made while answering one chat message
+   */
+  revertTurn: protectedProcedure
+    .input(z.object({ sheetId: z.string().uuid(), turnId: z.string().min(1) }))
+    .mutation(async ({ input, ctx }) => {
+      await assertSheetAccess(input.sheetId, ctx.session.user.id, 'editor');
+
+      return revertAgentTurn(input.sheetId, ctx.session.user.id, input.turnId);
+    }),
 });
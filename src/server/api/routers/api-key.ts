@@ -1,110 +1,151 @@
 import { z } from "zod";
 import { createTRPCRouter, protectedProcedure } from "@/server/api/trpc";
-import { users } from "@/server/db/schema";
-import { eq } from "drizzle-orm";
-import crypto from "crypto";
+import { apiKeys, apiKeyUsage, sheets } from "@/server/db/schema";
+import { and, desc, eq, isNull, sql } from "drizzle-orm";
+import { assertWorkspaceAccess } from "@/server/workspace-access";
+import { assertSheetAccess } from "@/server/sheet-access";
+import { API_KEY_SCOPES, generateApiKey } from "@/server/api-keys";
+import { API_LIMITS, dayWindowStart } from "@/server/api-rate-limit";
 
 /**
- * Generate a secure random API key
+ * API Key Router
+ *
+ * Named, scoped keys for the REST API. Personal keys act as the user who
+ * created them; workspace keys (owners only) belong to the team and keep
+ * working when members leave. Secrets are returned once, at creation.
+ * Rate limits and daily row quotas default to API_LIMITS unless set per key.
  */
-function generateApiKey(): string {
-  return crypto.randomBytes(32).toString('hex'); // 64-character hex string
-}
+
+const keyOwnerInput = z.object({
+  workspaceId: z.string().uuid().optional(), // Omit for personal keys
+});
 
 /**
- * Mask API key for display (show last 4 characters only)
+ * Which keys the signed-in user manages: a workspace's (owners only) or their own
  */
-function maskApiKey(apiKey: string): string {
-  if (apiKey.length <= 4) return apiKey;
-  return '•'.repeat(apiKey.length - 4) + apiKey.slice(-4);
+async function keyOwnerFilter(userId: string, workspaceId: string | undefined) {
+  if (workspaceId) {
+    await assertWorkspaceAccess(workspaceId, userId, 'owner');
+    return eq(apiKeys.workspaceId, workspaceId);
+  }
+  return and(eq(apiKeys.userId, userId), isNull(apiKeys.workspaceId));
 }
 
 export const apiKeyRouter = createTRPCRouter({
   /**
-   * Get current user's API key (masked)
+   * Active (unrevoked) keys, without their secrets
    */
-  get: protectedProcedure.query(async ({ ctx }) => {
-    const user = await ctx.db.query.users.findFirst({
-      where: eq(users.id, ctx.session.user.id),
-      columns: {
-        apiKey: true,
-        apiKeyCreatedAt: true,
-      },
-    });
-
-    if (!user?.apiKey) {
-      return {
-        hasKey: false,
-        apiKey: null,
-        maskedKey: null,
-        createdAt: null,
-      };
-    }
-
-    return {
-      hasKey: true,
-      apiKey: user.apiKey,
-      maskedKey: maskApiKey(user.apiKey),
-      createdAt: user.apiKeyCreatedAt,
-    };
-  }),
+  list: protectedProcedure
+    .input(keyOwnerInput)
+    .query(async ({ ctx, input }) => {
+      const owner = await keyOwnerFilter(ctx.session.user.id, input.workspaceId);
+
+      return ctx.db
+        .select({
+          id: apiKeys.id,
+          name: apiKeys.name,
+          prefix: apiKeys.prefix,
+          scopes: apiKeys.scopes,
+          sheetId: apiKeys.sheetId,
+          sheetName: sheets.name,
+          rateLimitPerMinute: sql<number>`coalesce(${apiKeys.rateLimitPerMinute}, ${API_LIMITS.requestsPerMinute})`.mapWith(Number),
+          dailyRowQuota: sql<number>`coalesce(${apiKeys.dailyRowQuota}, ${API_LIMITS.dailyRowQuota})`.mapWith(Number),
+          rowsToday: sql<number>`coalesce(${apiKeyUsage.count}, 0)`.mapWith(Number),
+          expiresAt: apiKeys.expiresAt,
+          lastUsedAt: apiKeys.lastUsedAt,
+          lastUsedIp: apiKeys.lastUsedIp,
+          createdAt: apiKeys.createdAt,
+        })
+        .from(apiKeys)
+        .leftJoin(sheets, eq(sheets.id, apiKeys.sheetId))
+        .leftJoin(apiKeyUsage, and(
+          eq(apiKeyUsage.apiKeyId, apiKeys.id),
+          eq(apiKeyUsage.bucket, 'rows'),
+          eq(apiKeyUsage.windowStart, dayWindowStart())
+        ))
+        .where(and(owner, isNull(apiKeys.revokedAt)))
+        .orderBy(desc(apiKeys.createdAt));
+    }),
 
   /**
-   * Generate a new API key (first time)
+   * Create a key; the secret is only ever returned here
    */
-  generate: protectedProcedure.mutation(async ({ ctx }) => {
-    // Check if user already has an API key
-    const existingUser = await ctx.db.query.users.findFirst({
-      where: eq(users.id, ctx.session.user.id),
-      columns: {
-        apiKey: true,
-      },
-    });
-
-    if (existingUser?.apiKey) {
-      throw new Error('API key already exists. Use regenerate to create a new one.');
-    }
-
-    const newApiKey = generateApiKey();
-    const now = new Date();
-
-    await ctx.db
-      .update(users)
-      .set({
-        apiKey: newApiKey,
-        apiKeyCreatedAt: now,
-      })
-      .where(eq(users.id, ctx.session.user.id));
-
-    return {
-      success: true,
-      apiKey: newApiKey,
-      maskedKey: maskApiKey(newApiKey),
-      createdAt: now,
-    };
-  }),
+  create: protectedProcedure
+    .input(keyOwnerInput.extend({
+      name: z.string().trim().min(1).max(255),
+      scopes: z.array(z.enum(API_KEY_SCOPES)).min(1),
+      sheetId: z.string().uuid().nullable().default(null), // Restrict the key to one sheet
+      expiresInDays: z.number().int().min(1).max(3650).nullable().default(null), // null = never expires
+      rateLimitPerMinute: z.number().int().min(1).max(10000).nullable().default(null), // null = default
+      dailyRowQuota: z.number().int().min(1).max(10_000_000).nullable().default(null), // null = default
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id;
+
+      if (input.workspaceId) {
+        await assertWorkspaceAccess(input.workspaceId, userId, 'owner');
+      }
+
+      if (input.sheetId) {
+        await assertSheetAccess(input.sheetId, userId);
+
+        if (input.workspaceId) {
+          const sheet = await ctx.db.query.sheets.findFirst({
+            where: eq(sheets.id, input.sheetId),
+            columns: { workspaceId: true },
+          });
+          if (sheet?.workspaceId !== input.workspaceId) {
+            throw new Error("Workspace keys can only be restricted to the workspace's sheets");
+          }
+        }
+      }
+
+      const { secret, prefix, keyHash } = generateApiKey();
+
+      const [key] = await ctx.db
+        .insert(apiKeys)
+        .values({
+          userId: input.workspaceId ? null : userId,
+          workspaceId: input.workspaceId ?? null,
+          createdBy: userId,
+          name: input.name,
+          prefix,
+          keyHash,
+          scopes: input.scopes,
+          sheetId: input.sheetId,
+          rateLimitPerMinute: input.rateLimitPerMinute,
+          dailyRowQuota: input.dailyRowQuota,
+          expiresAt: input.expiresInDays
+            ? new Date(Date.now() + input.expiresInDays * 24 * 60 * 60 * 1000)
+            : null,
+        })
+        .returning({ id: apiKeys.id, name: apiKeys.name, prefix: apiKeys.prefix, expiresAt: apiKeys.expiresAt });
+
+      console.log(`[ApiKey] ${userId} created key ${key!.id} (${input.scopes.join(', ')})${input.workspaceId ? ` for workspace ${input.workspaceId}` : ''}`);
+
+      return { ...key!, secret };
+    }),
 
   /**
-   * Regenerate API key (replaces existing key)
+   * Revoke a key; integrations using it stop working immediately
    */
-  regenerate: protectedProcedure.mutation(async ({ ctx }) => {
-    const newApiKey = generateApiKey();
-    const now = new Date();
-
-    await ctx.db
-      .update(users)
-      .set({
-        apiKey: newApiKey,
-        apiKeyCreatedAt: now,
-      })
-      .where(eq(users.id, ctx.session.user.id));
-
-    return {
-      success: true,
-      apiKey: newApiKey,
-      maskedKey: maskApiKey(newApiKey),
-      createdAt: now,
-      warning: 'Your old API key has been revoked. Update any applications using the old key.',
-    };
-  }),
+  revoke: protectedProcedure
+    .input(keyOwnerInput.extend({ id: z.string().uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      const owner = await keyOwnerFilter(ctx.session.user.id, input.workspaceId);
+
+      const [revoked] = await ctx.db
+        .update(apiKeys)
+        .set({ revokedAt: new Date() })
+        .where(and(eq(apiKeys.id, input.id), owner, isNull(apiKeys.revokedAt)))
+        .returning({ id: apiKeys.id });
+
+      if (!revoked) {
+        throw new Error('API key not found');
+      }
+
+      console.log(`[ApiKey] ${ctx.session.user.id} revoked key ${input.id}`);
+
+      return { success: true };
+    }),
 });
@@ -0,0 +1,154 @@
+import { z } from "zod";
+import { createTRPCRouter, protectedProcedure } from "@/server/api/trpc";
+import { users, sheets, workspaces } from "@/server/db/schema";
+import { eq } from "drizzle-orm";
+import {
+  getBudgetStatus,
+  resumeSheetEvents,
+  countPausedEvents,
+} from "@/server/budgets/budget-guard";
+import { assertSheetAccess } from "@/server/sheet-access";
+import { assertWorkspaceAccess } from "@/server/workspace-access";
+
+const budgetLimitsInput = {
+  monthlyBudgetUsd: z.number().min(0).max(1_000_000).nullable(),
+  monthlyTokenBudget: z.number().int().min(0).nullable(),
+};
+
+/**
+ * Budget Router
+ *
+ * Monthly Gemini spend limits for the account, workspaces and individual sheets
+ */
+export const budgetRouter = createTRPCRouter({
+  /**
+   * Current month's usage vs. limits, plus paused event count when a sheet is given
+   *
+   * A sheet's account limits are its owner's (or its workspace's), since that's
+   * what processing is checked against.
+   */
+  getStatus: protectedProcedure
+    .input(z.object({
+      sheetId: z.string().uuid().optional(),
+      workspaceId: z.string().uuid().optional(),
+    }))
+    .query(async ({ ctx, input }) => {
+      let accountUserId = ctx.session.user.id;
+      if (input.workspaceId) {
+        await assertWorkspaceAccess(input.workspaceId, ctx.session.user.id);
+      }
+      if (input.sheetId) {
+        await assertSheetAccess(input.sheetId, ctx.session.user.id);
+
+        const sheet = await ctx.db.query.sheets.findFirst({
+          where: eq(sheets.id, input.sheetId),
+          columns: { userId: true },
+        });
+        accountUserId = sheet?.userId ?? accountUserId;
+      }
+
+      const status = await getBudgetStatus(accountUserId, input.sheetId, input.workspaceId);
+      const pausedEvents = input.sheetId ? await countPausedEvents(input.sheetId) : 0;
+
+      return { ...status, pausedEvents };
+    }),
+
+  /**
+   * Set the account-wide monthly limits (null removes a limit)
+   */
+  setUserBudget: protectedProcedure
+    .input(z.object(budgetLimitsInput))
+    .mutation(async ({ ctx, input }) => {
+      await ctx.db
+        .update(users)
+        .set({
+          monthlyBudgetUsd: input.monthlyBudgetUsd?.toFixed(2) ?? null,
+          monthlyTokenBudget: input.monthlyTokenBudget,
+        })
+        .where(eq(users.id, ctx.session.user.id));
+
+      console.log(`[Budget] Updated account budget for user ${ctx.session.user.id}`);
+
+      return { success: true };
+    }),
+
+  /**
+   * Set a workspace's shared monthly limits (null removes a limit)
+   */
+  setWorkspaceBudget: protectedProcedure
+    .input(z.object({
+      workspaceId: z.string().uuid(),
+      ...budgetLimitsInput,
+    }))
+    .mutation(async ({ ctx, input }) => {
+      await assertWorkspaceAccess(input.workspaceId, ctx.session.user.id, 'owner');
+
+      await ctx.db
+        .update(workspaces)
+        .set({
+          monthlyBudgetUsd: input.monthlyBudgetUsd?.toFixed(2) ?? null,
+          monthlyTokenBudget: input.monthlyTokenBudget,
+        })
+        .where(eq(workspaces.id, input.workspaceId));
+
+      console.log(`[Budget] Updated budget for workspace ${input.workspaceId}`);
+
+      return { success: true };
+    }),
+
+  /**
+   * Set a sheet's monthly cap (null removes the cap)
+   */
+  setSheetBudget: protectedProcedure
+    .input(z.object({
+      sheetId: z.string().uuid(),
+      ...budgetLimitsInput,
+    }))
+    .mutation(async ({ ctx, input }) => {
+      await assertSheetAccess(input.sheetId, ctx.session.user.id, 'owner');
+
+      const [updated] = await ctx.db
+        .update(sheets)
+        .set({
+          monthlyBudgetUsd: input.monthlyBudgetUsd?.toFixed(2) ?? null,
+          monthlyTokenBudget: input.monthlyTokenBudget,
+          updatedAt: new Date(),
+        })
+        .where(eq(sheets.id, input.sheetId))
+        .returning({ id: sheets.id });
+
+      if (!updated) {
+        throw new Error('Sheet not found or access denied');
+      }
+
+      console.log(`[Budget] Updated budget for sheet ${input.sheetId}`);
+
+      return { success: true };
+    }),
+
+  /**
+   * Resume a sheet's budget-paused events (only allowed once it is back under budget)
+   */
+  resumeSheet: protectedProcedure
+    .input(z.object({ sheetId: z.string().uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      await assertSheetAccess(input.sheetId, ctx.session.user.id, 'editor');
+
+      const sheet = await ctx.db.query.sheets.findFirst({
+        where: eq(sheets.id, input.sheetId),
+      });
+
+      if (!sheet) {
+        throw new Error('Sheet not found or access denied');
+      }
+
+      const status = await getBudgetStatus(sheet.userId, input.sheetId);
+      if (status.exceeded) {
+        throw new Error(`Still over budget: ${status.exceeded.reason}. Raise the limit to resume.`);
+      }
+
+      const resumed = await resumeSheetEvents(input.sheetId);
+
+      return { success: true, resumed };
+    }),
+});
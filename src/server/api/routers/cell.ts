@@ -1,7 +1,39 @@
 import { z } from "zod";
 import { createTRPCRouter, protectedProcedure } from "@/server/api/trpc";
-import { cells, eventQueue, sheets, cellProcessingStatus } from "@/server/db/schema";
+import type { db as Database } from "@/server/db";
+import { cells, columns, eventQueue, sheets, cellProcessingStatus } from "@/server/db/schema";
 import { eq, and, gt } from "drizzle-orm";
+import { publishCellUpdate } from "@/server/realtime/sheet-change-feed";
+import { recordCellChanges } from "@/server/cell-history";
+import { createSnapshot } from "@/server/sheet-snapshots";
+import { assertSheetAccess, type SheetRole } from "@/server/sheet-access";
+import {
+  deleteRow,
+  reprocessColumn,
+  reprocessRow,
+  SheetOperationError,
+  writeCell,
+} from "@/server/sheet-operations";
+
+/**
+ * The sheet a procedure acts on after checking the user's access to it
+ *
+ * Falls back to the user's first owned sheet when no sheetId is given (legacy single-sheet clients).
+ */
+async function resolveSheetId(
+  db: typeof Database,
+  userId: string,
+  sheetId: string | undefined,
+  minimum: SheetRole
+): Promise<string | null> {
+  if (!sheetId) {
+    const userSheet = await db.select().from(sheets).where(eq(sheets.userId, userId)).limit(1);
+    return userSheet[0]?.id ?? null;
+  }
+
+  await assertSheetAccess(sheetId, userId, minimum);
+  return sheetId;
+}
 
 export const cellRouter = createTRPCRouter({
   updateCell: protectedProcedure
@@ -23,42 +55,10 @@ export const cellRouter = createTRPCRouter({
 
       console.log('Updating cell for user:', userId, input);
 
-      let sheetId = input.sheetId;
-      if (!sheetId) {
-        const userSheet = await ctx.db.select().from(sheets).where(eq(sheets.userId, userId)).limit(1);
-        if (!userSheet[0]) throw new Error('No sheet found for user');
-        sheetId = userSheet[0].id;
-      }
+      const sheetId = await resolveSheetId(ctx.db, userId, input.sheetId, 'editor');
+      if (!sheetId) throw new Error('No sheet found for user');
 
-      // 1. Update/insert cell
-      await ctx.db.insert(cells).values({
-        sheetId: sheetId,
-        userId: userId,
-        rowIndex: input.rowIndex,
-        colIndex: input.colIndex,
-        content: input.content,
-      }).onConflictDoUpdate({
-        target: [cells.sheetId, cells.userId, cells.rowIndex, cells.colIndex],
-        set: {
-          content: input.content,
-          updatedAt: new Date(),
-        }
-      });
-
-      // 2. Add event to queue
-      await ctx.db.insert(eventQueue).values({
-        sheetId: sheetId,
-        userId: userId,
-        eventType: 'user_cell_edit',
-        payload: {
-          spreadsheetId: sheetId,
-          rowIndex: input.rowIndex,
-          columnId: '',
-          colIndex: input.colIndex,
-          content: input.content,
-        },
-        status: 'pending',
-      });
+      await writeCell(sheetId, userId, input, { process: true });
 
       console.log('Cell update complete, event queued');
       return { success: true };
@@ -75,27 +75,11 @@ export const cellRouter = createTRPCRouter({
       const userId = ctx.session.user.id;
       console.log('Updating cell without event for user:', userId, input);
 
-      let sheetId = input.sheetId;
-      if (!sheetId) {
-        const userSheet = await ctx.db.select().from(sheets).where(eq(sheets.userId, userId)).limit(1);
-        if (!userSheet[0]) throw new Error('No sheet found for user');
-        sheetId = userSheet[0].id;
-      }
+      const sheetId = await resolveSheetId(ctx.db, userId, input.sheetId, 'editor');
+      if (!sheetId) throw new Error('No sheet found for user');
 
       // Update/insert cell only (no event created)
-      await ctx.db.insert(cells).values({
-        sheetId: sheetId,
-        userId: userId,
-        rowIndex: input.rowIndex,
-        colIndex: input.colIndex,
-        content: input.content,
-      }).onConflictDoUpdate({
-        target: [cells.sheetId, cells.userId, cells.rowIndex, cells.colIndex],
-        set: {
-          content: input.content,
-          updatedAt: new Date(),
-        }
-      });
+      await writeCell(sheetId, userId, input, { process: false });
 
       console.log('Cell update complete (no event created)');
       return { success: true };
@@ -111,12 +95,14 @@ export const cellRouter = createTRPCRouter({
       const userId = ctx.session.user.id;
       console.log('Clearing cell for user:', userId, input);
 
-      let sheetId = input.sheetId;
-      if (!sheetId) {
-        const userSheet = await ctx.db.select().from(sheets).where(eq(sheets.userId, userId)).limit(1);
-        if (!userSheet[0]) throw new Error('No sheet found for user');
-        sheetId = userSheet[0].id;
-      }
+      const sheetId = await resolveSheetId(ctx.db, userId, input.sheetId, 'editor');
+      if (!sheetId) throw new Error('No sheet found for user');
+
+      const [previous] = await ctx.db
+        .select({ content: cells.content })
+        .from(cells)
+        .where(and(eq(cells.sheetId, sheetId), eq(cells.rowIndex, input.rowIndex), eq(cells.colIndex, input.colIndex)))
+        .limit(1);
 
       // 1. Clear the cell content
       await ctx.db.insert(cells).values({
@@ -126,19 +112,33 @@ export const cellRouter = createTRPCRouter({
         colIndex: input.colIndex,
         content: '',
       }).onConflictDoUpdate({
-        target: [cells.sheetId, cells.userId, cells.rowIndex, cells.colIndex],
+        target: [cells.sheetId, cells.rowIndex, cells.colIndex],
         set: {
+          userId,
           content: '',
+          provenance: null,
+          confidence: null,
+          validation: null,
           updatedAt: new Date(),
         }
       });
 
+      await recordCellChanges(ctx.db, sheetId, userId, 'clear', [
+        { rowIndex: input.rowIndex, colIndex: input.colIndex, previousContent: previous?.content ?? null, content: '' },
+      ]);
+
       // 2. Cancel any pending events for this cell
       // Instead of fetching all events and filtering in JS, we'll just mark them as cancelled
       // Note: We can't directly query by payload content in PostgreSQL without special operators,
       // but we can simply skip this optimization for now since cleared cells shouldn't have events
       console.log(`Cell cleared at (${input.rowIndex}, ${input.colIndex})`)
 
+      await publishCellUpdate(ctx.db, sheetId, {
+        rowIndex: input.rowIndex,
+        colIndex: input.colIndex,
+        content: '',
+      });
+
       console.log('Cell clear complete');
       return { success: true };
     }),
@@ -148,12 +148,8 @@ export const cellRouter = createTRPCRouter({
     .query(async ({ ctx, input }) => {
       const userId = ctx.session.user.id;
 
-      let sheetId = input?.sheetId;
-      if (!sheetId) {
-        const userSheet = await ctx.db.select().from(sheets).where(eq(sheets.userId, userId)).limit(1);
-        if (!userSheet[0]) return [];
-        sheetId = userSheet[0].id;
-      }
+      const sheetId = await resolveSheetId(ctx.db, userId, input?.sheetId, 'viewer');
+      if (!sheetId) return [];
 
       const events = await ctx.db
         .select()
@@ -171,12 +167,8 @@ export const cellRouter = createTRPCRouter({
     .query(async ({ ctx, input }) => {
       const userId = ctx.session.user.id;
 
-      let sheetId = input?.sheetId;
-      if (!sheetId) {
-        const userSheet = await ctx.db.select().from(sheets).where(eq(sheets.userId, userId)).limit(1);
-        if (!userSheet[0]) return [];
-        sheetId = userSheet[0].id;
-      }
+      const sheetId = await resolveSheetId(ctx.db, userId, input?.sheetId, 'viewer');
+      if (!sheetId) return [];
 
       const cellData = await ctx.db
         .select()
@@ -190,7 +182,7 @@ export const cellRouter = createTRPCRouter({
   getProcessingStatus: protectedProcedure
     .input(z.object({ sheetId: z.string().uuid() }))
     .query(async ({ ctx, input }) => {
-      const userId = ctx.session.user.id;
+      await assertSheetAccess(input.sheetId, ctx.session.user.id);
 
       const statuses = await ctx.db
         .select()
@@ -221,23 +213,33 @@ export const cellRouter = createTRPCRouter({
       const userId = ctx.session.user.id;
       console.log('Clearing cells to the right for user:', userId, input);
 
-      let sheetId = input.sheetId;
-      if (!sheetId) {
-        const userSheet = await ctx.db.select().from(sheets).where(eq(sheets.userId, userId)).limit(1);
-        if (!userSheet[0]) throw new Error('No sheet found for user');
-        sheetId = userSheet[0].id;
-      }
+      const sheetId = await resolveSheetId(ctx.db, userId, input.sheetId, 'editor');
+      if (!sheetId) throw new Error('No sheet found for user');
+
+      const cellsToRight = and(
+        eq(cells.sheetId, sheetId),
+        eq(cells.rowIndex, input.rowIndex),
+        gt(cells.colIndex, input.startColIndex)
+      );
+      const previous = await ctx.db
+        .select({ colIndex: cells.colIndex, content: cells.content })
+        .from(cells)
+        .where(cellsToRight);
 
       await ctx.db
         .update(cells)
-        .set({ content: '', updatedAt: new Date() })
-        .where(
-          and(
-            eq(cells.sheetId, sheetId),
-            eq(cells.rowIndex, input.rowIndex),
-            gt(cells.colIndex, input.startColIndex)
-          )
-        );
+        .set({ userId, content: '', provenance: null, confidence: null, validation: null, updatedAt: new Date() })
+        .where(cellsToRight);
+
+      await recordCellChanges(ctx.db, sheetId, userId, 'clear', previous.map(cell => ({
+        rowIndex: input.rowIndex,
+        colIndex: cell.colIndex,
+        previousContent: cell.content,
+        content: '',
+      })));
+
+      // A null column means "every cell in the row" to subscribers
+      await publishCellUpdate(ctx.db, sheetId, { rowIndex: input.rowIndex, colIndex: null });
 
       console.log(`Cleared cells to the right of column ${input.startColIndex} in row ${input.rowIndex}`);
       return { success: true };
@@ -254,74 +256,33 @@ export const cellRouter = createTRPCRouter({
     }))
     .mutation(async ({ ctx, input }) => {
       const userId = ctx.session.user.id;
+      await assertSheetAccess(input.sheetId, userId, 'editor');
+
+      try {
+        const [column] = await ctx.db
+          .select({ title: columns.title })
+          .from(columns)
+          .where(and(eq(columns.sheetId, input.sheetId), eq(columns.position, input.colIndex)))
+          .limit(1);
+        await createSnapshot(
+          input.sheetId,
+          userId,
+          `Before reprocessing "${column?.title ?? `column ${input.colIndex + 1}`}"`,
+          'before_reprocess'
+        );
 
-      console.log(`Reprocessing column ${input.colIndex} for sheet ${input.sheetId}`);
-
-      // Get all rows that have REAL content in the FIRST column (skip empty/null rows)
-      const allFirstColumnCells = await ctx.db
-        .select({ rowIndex: cells.rowIndex, content: cells.content })
-        .from(cells)
-        .where(and(
-          eq(cells.sheetId, input.sheetId),
-          eq(cells.colIndex, 0) // First column
-        ))
-        .orderBy(cells.rowIndex);
-
-      // Filter for rows with actual meaningful content
-      const rowsWithData = allFirstColumnCells.filter(cell => {
-        const content = cell.content?.trim() || '';
-        // Skip if empty, null, or JSON null objects
-        if (!content || content === 'null' || content === '{}' || content === '[]') {
-          return false;
-        }
-        // Skip if it's a JSON object with null value
-        if (content.includes('"null"') || content.includes(':null')) {
-          return false;
-        }
-        return true;
-      });
-
-      console.log(`Found ${rowsWithData.length} rows with real data to reprocess (out of ${allFirstColumnCells.length} total)`);
-
-      // Clear existing content in this column
-      await ctx.db
-        .delete(cells)
-        .where(and(
-          eq(cells.sheetId, input.sheetId),
-          eq(cells.colIndex, input.colIndex)
-        ));
-
-      // Create events for the PREVIOUS column (which will trigger filling THIS column)
-      const prevColIndex = input.colIndex - 1;
-      if (prevColIndex < 0) {
+        const queued = await reprocessColumn(input.sheetId, userId, input.colIndex);
         return {
-          success: false,
-          error: "Cannot reprocess first column (no previous column to trigger from)",
+          success: true,
+          eventsCreated: queued,
+          message: `Queued ${queued} rows for reprocessing`,
         };
+      } catch (error) {
+        if (error instanceof SheetOperationError) {
+          return { success: false, error: error.message };
+        }
+        throw error;
       }
-
-      const eventsToCreate = rowsWithData.map(row => ({
-        sheetId: input.sheetId,
-        userId,
-        eventType: "robot_cell_update" as const,
-        payload: {
-          spreadsheetId: input.sheetId,
-          rowIndex: row.rowIndex,
-          colIndex: prevColIndex,
-          content: "reprocess_trigger",
-        },
-        status: "pending" as const,
-      }));
-
-      await ctx.db.insert(eventQueue).values(eventsToCreate);
-
-      console.log(`Created ${eventsToCreate.length} events to reprocess column ${input.colIndex}`);
-
-      return {
-        success: true,
-        eventsCreated: eventsToCreate.length,
-        message: `Queued ${eventsToCreate.length} rows for reprocessing`,
-      };
     }),
 
   deleteRow: protectedProcedure
@@ -331,42 +292,13 @@ export const cellRouter = createTRPCRouter({
     }))
     .mutation(async ({ ctx, input }) => {
       const userId = ctx.session.user.id;
+      await assertSheetAccess(input.sheetId, userId, 'editor');
 
-      console.log(`Deleting row ${input.rowIndex} from sheet ${input.sheetId}`);
-
-      // Delete all cells in this row
-      const deleted = await ctx.db
-        .delete(cells)
-        .where(and(
-          eq(cells.sheetId, input.sheetId),
-          eq(cells.userId, userId),
-          eq(cells.rowIndex, input.rowIndex)
-        ))
-        .returning();
-
-      // Delete any pending events for this row
-      await ctx.db
-        .delete(eventQueue)
-        .where(and(
-          eq(eventQueue.sheetId, input.sheetId),
-          eq(eventQueue.userId, userId),
-          eq(eventQueue.rowIndex, input.rowIndex)
-        ));
-
-      // Delete any processing status for cells in this row
-      await ctx.db
-        .delete(cellProcessingStatus)
-        .where(and(
-          eq(cellProcessingStatus.sheetId, input.sheetId),
-          eq(cellProcessingStatus.userId, userId),
-          eq(cellProcessingStatus.rowIndex, input.rowIndex)
-        ));
-
-      console.log(`Deleted ${deleted.length} cells from row ${input.rowIndex}`);
+      const cellsDeleted = await deleteRow(input.sheetId, userId, input.rowIndex);
 
       return {
         success: true,
-        cellsDeleted: deleted.length,
+        cellsDeleted,
         message: `Deleted row ${input.rowIndex}`,
       };
     }),
@@ -378,64 +310,17 @@ export const cellRouter = createTRPCRouter({
     }))
     .mutation(async ({ ctx, input }) => {
       const userId = ctx.session.user.id;
+      await assertSheetAccess(input.sheetId, userId, 'editor');
 
-      console.log(`Reprocessing row ${input.rowIndex} for sheet ${input.sheetId}`);
-
-      // Get all cells in this row
-      const rowCells = await ctx.db
-        .select()
-        .from(cells)
-        .where(and(
-          eq(cells.sheetId, input.sheetId),
-          eq(cells.userId, userId),
-          eq(cells.rowIndex, input.rowIndex)
-        ))
-        .orderBy(cells.colIndex);
-
-      if (rowCells.length === 0) {
-        return {
-          success: false,
-          message: `No cells found in row ${input.rowIndex}`,
-        };
-      }
-
-      // Check if first column has content
-      const firstCell = rowCells.find(c => c.colIndex === 0);
-      const firstCellContent = firstCell?.content?.trim() || '';
-
-      if (!firstCellContent || firstCellContent === 'null' || firstCellContent === '{}' || firstCellContent === '[]') {
-        return {
-          success: false,
-          message: `Row ${input.rowIndex} has no content in first column`,
-        };
+      try {
+        await reprocessRow(input.sheetId, userId, input.rowIndex);
+      } catch (error) {
+        if (error instanceof SheetOperationError) {
+          return { success: false, message: error.message };
+        }
+        throw error;
       }
 
-      // Clear all cells except the first column
-      await ctx.db
-        .delete(cells)
-        .where(and(
-          eq(cells.sheetId, input.sheetId),
-          eq(cells.userId, userId),
-          eq(cells.rowIndex, input.rowIndex),
-          gt(cells.colIndex, 0)
-        ));
-
-      // Create event to reprocess from column 0
-      await ctx.db.insert(eventQueue).values({
-        sheetId: input.sheetId,
-        userId,
-        eventType: "robot_cell_update" as const,
-        payload: {
-          spreadsheetId: input.sheetId,
-          rowIndex: input.rowIndex,
-          colIndex: 0,
-          content: firstCellContent,
-        },
-        status: "pending" as const,
-      });
-
-      console.log(`Created reprocess event for row ${input.rowIndex}`);
-
       return {
         success: true,
         message: `Row ${input.rowIndex} queued for reprocessing`,
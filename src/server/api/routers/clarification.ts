@@ -0,0 +1,71 @@
+import { z } from "zod";
+import { createTRPCRouter, protectedProcedure } from "@/server/api/trpc";
+import { ClarificationManager } from "@/server/operators/clarification-manager";
+import { assertSheetAccess } from "@/server/sheet-access";
+
+/**
+ * Answering a question resumes processing, so it takes editor access to the question's sheet
+ */
+async function assertPromptAccess(promptId: string, userId: string) {
+  const sheetId = await ClarificationManager.getPromptSheetId(promptId);
+  if (!sheetId) {
+    throw new Error('Question not found or already answered');
+  }
+
+  await assertSheetAccess(sheetId, userId, 'editor');
+}
+
+/**
+ * Clarification Router
+ *
+ * Questions operators asked instead of guessing, and the user's answers
+ */
+export const clarificationRouter = createTRPCRouter({
+  /**
+   * Unanswered questions for a sheet
+   */
+  listOpen: protectedProcedure
+    .input(z.object({ sheetId: z.string().uuid() }))
+    .query(async ({ ctx, input }) => {
+      await assertSheetAccess(input.sheetId, ctx.session.user.id);
+
+      return ClarificationManager.listOpen(input.sheetId);
+    }),
+
+  /**
+   * Answer a question and resume processing the cell
+   */
+  answer: protectedProcedure
+    .input(z.object({
+      promptId: z.string().uuid(),
+      answer: z.string().trim().min(1).max(1000),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      await assertPromptAccess(input.promptId, ctx.session.user.id);
+
+      const answered = await ClarificationManager.answer(input.promptId, input.answer);
+
+      if (!answered) {
+        throw new Error('Question not found or already answered');
+      }
+
+      return { success: true };
+    }),
+
+  /**
+   * Skip a question; the operator resumes and makes its best guess
+   */
+  skip: protectedProcedure
+    .input(z.object({ promptId: z.string().uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      await assertPromptAccess(input.promptId, ctx.session.user.id);
+
+      const skipped = await ClarificationManager.answer(input.promptId, null);
+
+      if (!skipped) {
+        throw new Error('Question not found or already answered');
+      }
+
+      return { success: true };
+    }),
+});
@@ -1,7 +1,10 @@
 import { z } from "zod";
 import { createTRPCRouter, protectedProcedure } from "@/server/api/trpc";
-import { columns, sheets } from "@/server/db/schema";
-import { eq, and } from "drizzle-orm";
+import { columns } from "@/server/db/schema";
+import { eq } from "drizzle-orm";
+import { getFunctionRegistry, getAllowedHosts } from "@/server/operators/function-registry";
+import { assertSheetAccess } from "@/server/sheet-access";
+import { updateColumn } from "@/server/sheet-operations";
 
 /**
  * Column Config Router
@@ -23,45 +26,17 @@ export const columnConfigRouter = createTRPCRouter({
       dataType: z.string().optional().nullable(),
       dependencies: z.array(z.number()).optional().nullable(),
       isRequired: z.boolean().optional().nullable(),
+      isKey: z.boolean().optional().nullable(),
+      cacheResults: z.boolean().optional().nullable(),
       defaultValue: z.string().optional().nullable(),
     }))
     .mutation(async ({ ctx, input }) => {
-      const userId = ctx.session.user.id;
-
       console.log(`[Column Config] Updating column ${input.columnId}`);
 
-      // Verify sheet belongs to user
-      const [sheet] = await ctx.db
-        .select()
-        .from(sheets)
-        .where(and(
-          eq(sheets.id, input.sheetId),
-          eq(sheets.userId, userId)
-        ))
-        .limit(1);
-
-      if (!sheet) {
-        throw new Error('Sheet not found or access denied');
-      }
+      await assertSheetAccess(input.sheetId, ctx.session.user.id, 'editor');
 
-      // Build update object (only include non-undefined fields)
-      const updates: any = { updatedAt: new Date() };
-      if (input.operatorType !== undefined) updates.operatorType = input.operatorType;
-      if (input.operatorConfig !== undefined) updates.operatorConfig = input.operatorConfig;
-      if (input.prompt !== undefined) updates.prompt = input.prompt;
-      if (input.dataType !== undefined) updates.dataType = input.dataType;
-      if (input.dependencies !== undefined) updates.dependencies = input.dependencies;
-      if (input.isRequired !== undefined) updates.isRequired = input.isRequired;
-      if (input.defaultValue !== undefined) updates.defaultValue = input.defaultValue;
-
-      // Update column configuration
-      await ctx.db
-        .update(columns)
-        .set(updates)
-        .where(and(
-          eq(columns.id, input.columnId),
-          eq(columns.sheetId, input.sheetId)
-        ));
+      const { sheetId, columnId, ...updates } = input;
+      await updateColumn(sheetId, columnId, updates);
 
       console.log(`[Column Config] Updated column configuration:`, updates);
 
@@ -80,23 +55,9 @@ export const columnConfigRouter = createTRPCRouter({
       systemPrompt: z.string(),
     }))
     .mutation(async ({ ctx, input }) => {
-      const userId = ctx.session.user.id;
-
       console.log(`[Column Config] Updating system prompt for sheet ${input.sheetId}`);
 
-      // Get sheet and verify ownership
-      const [sheet] = await ctx.db
-        .select()
-        .from(sheets)
-        .where(and(
-          eq(sheets.id, input.sheetId),
-          eq(sheets.userId, userId)
-        ))
-        .limit(1);
-
-      if (!sheet) {
-        throw new Error('Sheet not found or access denied');
-      }
+      await assertSheetAccess(input.sheetId, ctx.session.user.id, 'editor');
 
       // If sheet has a template, update the template
       // Otherwise, we'd need to store system prompt on sheet itself
@@ -117,6 +78,8 @@ export const columnConfigRouter = createTRPCRouter({
       sheetId: z.string().uuid(),
     }))
     .query(async ({ ctx, input }) => {
+      await assertSheetAccess(input.sheetId, ctx.session.user.id);
+
       const cols = await ctx.db
         .select()
         .from(columns)
@@ -133,7 +96,22 @@ export const columnConfigRouter = createTRPCRouter({
         prompt: col.prompt,
         dependencies: col.dependencies as number[] | null,
         isRequired: col.isRequired,
+        isKey: col.isKey,
+        cacheResults: col.cacheResults,
         defaultValue: col.defaultValue,
       }));
     }),
+
+  /**
+   * Functions available to function_calling columns, and the hosts http_get may reach
+   */
+  listFunctions: protectedProcedure.query(() => {
+    return {
+      functions: getFunctionRegistry().getDeclarations().map(fn => ({
+        name: fn.name,
+        description: fn.description,
+      })),
+      allowedHosts: getAllowedHosts(),
+    };
+  }),
 });
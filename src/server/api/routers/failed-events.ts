@@ -0,0 +1,159 @@
+import { z } from "zod";
+import { createTRPCRouter, protectedProcedure } from "@/server/api/trpc";
+import { eventQueue } from "@/server/db/schema";
+import { eq, and, desc, inArray, isNull, sql } from "drizzle-orm";
+import { assertSheetAccess } from "@/server/sheet-access";
+
+/**
+ * Which failed events an action applies to: explicit IDs, or a whole error class
+ */
+const selectionInput = z
+  .object({
+    sheetId: z.string().uuid(),
+    eventIds: z.array(z.string().uuid()).max(500).optional(),
+    errorClass: z
+      .object({
+        lastError: z.string().nullable(),
+        operatorName: z.string().nullable(),
+      })
+      .optional(),
+  })
+  .refine((input) => !!input.eventIds?.length || !!input.errorClass, {
+    message: 'Select events or an error class',
+  });
+
+function failedWhere(input: z.infer<typeof selectionInput>) {
+  const errorClass = input.errorClass;
+
+  return and(
+    eq(eventQueue.sheetId, input.sheetId),
+    eq(eventQueue.status, 'failed'),
+    input.eventIds?.length ? inArray(eventQueue.id, input.eventIds) : undefined,
+    errorClass
+      ? errorClass.lastError === null ? isNull(eventQueue.lastError) : eq(eventQueue.lastError, errorClass.lastError)
+      : undefined,
+    errorClass
+      ? errorClass.operatorName === null ? isNull(eventQueue.operatorName) : eq(eventQueue.operatorName, errorClass.operatorName)
+      : undefined
+  );
+}
+
+/**
+ * Failed Events Router
+ *
+ * Dead-letter view of events that exhausted their retries or failed outright
+ */
+export const failedEventsRouter = createTRPCRouter({
+  /**
+   * Failed events grouped by error message and operator, largest group first
+   */
+  groups: protectedProcedure
+    .input(z.object({ sheetId: z.string().uuid() }))
+    .query(async ({ ctx, input }) => {
+      await assertSheetAccess(input.sheetId, ctx.session.user.id);
+
+      const count = sql<number>`count(*)`.mapWith(Number);
+
+      return ctx.db
+        .select({
+          lastError: eventQueue.lastError,
+          operatorName: eventQueue.operatorName,
+          count,
+          lastFailedAt: sql<Date | null>`max(${eventQueue.processedAt})`.mapWith((value: string | null) => value ? new Date(value) : null),
+        })
+        .from(eventQueue)
+        .where(and(
+          eq(eventQueue.sheetId, input.sheetId),
+          eq(eventQueue.status, 'failed')
+        ))
+        .groupBy(eventQueue.lastError, eventQueue.operatorName)
+        .orderBy(desc(count));
+    }),
+
+  /**
+   * Events in one error class, with the payload and prompt of their last attempt
+   */
+  list: protectedProcedure
+    .input(z.object({
+      sheetId: z.string().uuid(),
+      lastError: z.string().nullable(),
+      operatorName: z.string().nullable(),
+      limit: z.number().int().min(1).max(200).default(50),
+    }))
+    .query(async ({ ctx, input }) => {
+      await assertSheetAccess(input.sheetId, ctx.session.user.id);
+
+      const events = await ctx.db
+        .select({
+          id: eventQueue.id,
+          eventType: eventQueue.eventType,
+          payload: eventQueue.payload,
+          lastPrompt: eventQueue.lastPrompt,
+          lastError: eventQueue.lastError,
+          operatorName: eventQueue.operatorName,
+          retryCount: eventQueue.retryCount,
+          createdAt: eventQueue.createdAt,
+          failedAt: eventQueue.processedAt,
+        })
+        .from(eventQueue)
+        .where(failedWhere({
+          sheetId: input.sheetId,
+          errorClass: { lastError: input.lastError, operatorName: input.operatorName },
+        }))
+        .orderBy(desc(eventQueue.processedAt))
+        .limit(input.limit);
+
+      return events.map((event) => {
+        const payload = (event.payload ?? {}) as { rowIndex?: number; targetColIndex?: number; colIndex?: number };
+        return {
+          ...event,
+          rowIndex: payload.rowIndex ?? null,
+          colIndex: payload.targetColIndex ?? payload.colIndex ?? null,
+        };
+      });
+    }),
+
+  /**
+   * Requeue failed events with a fresh retry budget
+   */
+  retry: protectedProcedure
+    .input(selectionInput)
+    .mutation(async ({ ctx, input }) => {
+      await assertSheetAccess(input.sheetId, ctx.session.user.id, 'editor');
+
+      const retried = await ctx.db
+        .update(eventQueue)
+        .set({
+          status: 'pending',
+          retryCount: 0,
+          lastError: null,
+          nextAttemptAt: null,
+          processedAt: null,
+          // Start over from the original task rather than the last improved prompt
+          payload: sql`${eventQueue.payload} - 'retryPrompt'`,
+        })
+        .where(failedWhere(input))
+        .returning({ id: eventQueue.id });
+
+      console.log(`[FailedEvents] Requeued ${retried.length} events for sheet ${input.sheetId}`);
+      return { count: retried.length };
+    }),
+
+  /**
+   * Drop failed events from the dead-letter view without running them
+   */
+  discard: protectedProcedure
+    .input(selectionInput)
+    .mutation(async ({ ctx, input }) => {
+      await assertSheetAccess(input.sheetId, ctx.session.user.id, 'editor');
+
+      const discarded = await ctx.db
+        .update(eventQueue)
+        .set({ status: 'discarded' })
+        .where(failedWhere(input))
+        .returning({ id: eventQueue.id });
+
+      console.log(`[FailedEvents] Discarded ${discarded.length} events for sheet ${input.sheetId}`);
+      return { count: discarded.length };
+    }),
+});
@@ -0,0 +1,60 @@
+import { z } from "zod";
+import { createTRPCRouter, protectedProcedure } from "@/server/api/trpc";
+import { assertSheetAccess } from "@/server/sheet-access";
+import { getRowHistory, getSheetChangesSince } from "@/server/cell-history";
+import { revertCells } from "@/server/sheet-operations";
+
+/**
+ * History Router
+ *
+ * Cell version history from sheet_updates: past values, the sheet diff since
+ * a point in time, and reverting cells or rows to earlier values
+ */
+export const historyRouter = createTRPCRouter({
+  /**
+   * Every recorded write to a row (or one of its cells), newest first
+   */
+  rowHistory: protectedProcedure
+    .input(z.object({
+      sheetId: z.string().uuid(),
+      rowIndex: z.number().int().min(0),
+      colIndex: z.number().int().min(0).optional(),
+    }))
+    .query(async ({ ctx, input }) => {
+      await assertSheetAccess(input.sheetId, ctx.session.user.id);
+
+      return getRowHistory(input.sheetId, input.rowIndex, input.colIndex);
+    }),
+
+  /**
+   * Cells that changed since a point in time, with their value then and now
+   */
+  changesSince: protectedProcedure
+    .input(z.object({
+      sheetId: z.string().uuid(),
+      since: z.date(),
+    }))
+    .query(async ({ ctx, input }) => {
+      await assertSheetAccess(input.sheetId, ctx.session.user.id);
+
+      return getSheetChangesSince(input.sheetId, input.since);
+    }),
+
+  /**
+   * Put a cell, or a whole row without colIndex, back to its value at a point in time
+   */
+  revert: protectedProcedure
+    .input(z.object({
+      sheetId: z.string().uuid(),
+      rowIndex: z.number().int().min(0),
+      colIndex: z.number().int().min(0).optional(),
+      at: z.date(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id;
+      await assertSheetAccess(input.sheetId, userId, 'editor');
+
+      const cellsReverted = await revertCells(input.sheetId, userId, input);
+      return { cellsReverted };
+    }),
+});
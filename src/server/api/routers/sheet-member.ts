@@ -0,0 +1,287 @@
+import { z } from "zod";
+import { createTRPCRouter, protectedProcedure } from "@/server/api/trpc";
+import { sheets, sheetMembers, sheetInvites, users } from "@/server/db/schema";
+import { and, eq, asc, desc, sql } from "drizzle-orm";
+import type { db } from "@/server/db";
+import { SHEET_ROLES, assertSheetAccess } from "@/server/sheet-access";
+
+/**
+ * Sheet Member Router
+ *
+ * Sharing a sheet: members and their roles, plus pending email invitations.
+ * Invitations are matched to the signed-in user's email and accepted from the
+ * sheets list.
+ */
+
+const roleSchema = z.enum(SHEET_ROLES);
+
+/**
+ * The signed-in user's email, normalized the way invites are stored
+ */
+function sessionEmail(email: string | null | undefined): string {
+  if (!email) {
+    throw new Error('Your account has no email address to match invitations against');
+  }
+  return email.toLowerCase();
+}
+
+export const sheetMemberRouter = createTRPCRouter({
+  /**
+   * Members and pending invitations for a sheet
+   */
+  list: protectedProcedure
+    .input(z.object({ sheetId: z.string().uuid() }))
+    .query(async ({ ctx, input }) => {
+      const myRole = await assertSheetAccess(input.sheetId, ctx.session.user.id);
+
+      const members = await ctx.db
+        .select({
+          userId: sheetMembers.userId,
+          role: sheetMembers.role,
+          createdAt: sheetMembers.createdAt,
+          name: users.name,
+          email: users.email,
+          image: users.image,
+        })
+        .from(sheetMembers)
+        .innerJoin(users, eq(users.id, sheetMembers.userId))
+        .where(eq(sheetMembers.sheetId, input.sheetId))
+        .orderBy(asc(sheetMembers.createdAt));
+
+      const invites = await ctx.db
+        .select({
+          id: sheetInvites.id,
+          email: sheetInvites.email,
+          role: sheetInvites.role,
+          createdAt: sheetInvites.createdAt,
+        })
+        .from(sheetInvites)
+        .where(eq(sheetInvites.sheetId, input.sheetId))
+        .orderBy(asc(sheetInvites.createdAt));
+
+      const sheet = await ctx.db.query.sheets.findFirst({
+        where: eq(sheets.id, input.sheetId),
+        columns: { workspaceId: true },
+      });
+
+      return {
+        myRole,
+        myUserId: ctx.session.user.id,
+        workspaceId: sheet?.workspaceId ?? null,
+        members,
+        invites,
+      };
+    }),
+
+  /**
+   * Invite someone by email (re-inviting updates the pending role)
+   */
+  invite: protectedProcedure
+    .input(z.object({
+      sheetId: z.string().uuid(),
+      email: z.string().email().max(255),
+      role: roleSchema,
+    }))
+    .mutation(async ({ ctx, input }) => {
+      await assertSheetAccess(input.sheetId, ctx.session.user.id, 'owner');
+
+      const email = input.email.trim().toLowerCase();
+
+      const [existing] = await ctx.db
+        .select({ userId: sheetMembers.userId })
+        .from(sheetMembers)
+        .innerJoin(users, eq(users.id, sheetMembers.userId))
+        .where(and(eq(sheetMembers.sheetId, input.sheetId), eq(sql`lower(${users.email})`, email)))
+        .limit(1);
+
+      if (existing) {
+        throw new Error(`${email} is already a member of this sheet`);
+      }
+
+      const [invite] = await ctx.db
+        .insert(sheetInvites)
+        .values({
+          sheetId: input.sheetId,
+          email,
+          role: input.role,
+          invitedBy: ctx.session.user.id,
+        })
+        .onConflictDoUpdate({
+          target: [sheetInvites.sheetId, sheetInvites.email],
+          set: { role: input.role, invitedBy: ctx.session.user.id },
+        })
+        .returning();
+
+      console.log(`[SheetMember] Invited ${email} to sheet ${input.sheetId} as ${input.role}`);
+
+      return invite!;
+    }),
+
+  /**
+   * Cancel a pending invitation
+   */
+  revokeInvite: protectedProcedure
+    .input(z.object({ sheetId: z.string().uuid(), inviteId: z.string().uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      await assertSheetAccess(input.sheetId, ctx.session.user.id, 'owner');
+
+      await ctx.db
+        .delete(sheetInvites)
+        .where(and(eq(sheetInvites.id, input.inviteId), eq(sheetInvites.sheetId, input.sheetId)));
+
+      return { success: true };
+    }),
+
+  /**
+   * Change a member's role
+   */
+  updateRole: protectedProcedure
+    .input(z.object({
+      sheetId: z.string().uuid(),
+      userId: z.string(),
+      role: roleSchema,
+    }))
+    .mutation(async ({ ctx, input }) => {
+      await assertSheetAccess(input.sheetId, ctx.session.user.id, 'owner');
+
+      if (input.role !== 'owner') {
+        await assertNotLastOwner(ctx.db, input.sheetId, input.userId);
+      }
+
+      const [updated] = await ctx.db
+        .update(sheetMembers)
+        .set({ role: input.role })
+        .where(and(eq(sheetMembers.sheetId, input.sheetId), eq(sheetMembers.userId, input.userId)))
+        .returning();
+
+      if (!updated) {
+        throw new Error('Member not found');
+      }
+
+      console.log(`[SheetMember] Set ${input.userId} to ${input.role} on sheet ${input.sheetId}`);
+
+      return updated;
+    }),
+
+  /**
+   * Remove a member (owners can remove anyone; everyone can leave)
+   */
+  remove: protectedProcedure
+    .input(z.object({ sheetId: z.string().uuid(), userId: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const isSelf = input.userId === ctx.session.user.id;
+      await assertSheetAccess(input.sheetId, ctx.session.user.id, isSelf ? 'viewer' : 'owner');
+
+      await assertNotLastOwner(ctx.db, input.sheetId, input.userId);
+
+      // The creator's account pays for the sheet's processing, so they can't be removed
+      const sheet = await ctx.db.query.sheets.findFirst({
+        where: eq(sheets.id, input.sheetId),
+        columns: { userId: true },
+      });
+      if (sheet?.userId === input.userId) {
+        throw new Error("The sheet's creator can't be removed; delete the sheet instead");
+      }
+
+      await ctx.db
+        .delete(sheetMembers)
+        .where(and(eq(sheetMembers.sheetId, input.sheetId), eq(sheetMembers.userId, input.userId)));
+
+      console.log(`[SheetMember] Removed ${input.userId} from sheet ${input.sheetId}`);
+
+      return { success: true };
+    }),
+
+  /**
+   * Invitations waiting for the signed-in user
+   */
+  myInvites: protectedProcedure.query(async ({ ctx }) => {
+    if (!ctx.session.user.email) {
+      return [];
+    }
+
+    return ctx.db
+      .select({
+        id: sheetInvites.id,
+        sheetId: sheetInvites.sheetId,
+        sheetName: sheets.name,
+        role: sheetInvites.role,
+        invitedByName: users.name,
+        createdAt: sheetInvites.createdAt,
+      })
+      .from(sheetInvites)
+      .innerJoin(sheets, eq(sheets.id, sheetInvites.sheetId))
+      .leftJoin(users, eq(users.id, sheetInvites.invitedBy))
+      .where(eq(sheetInvites.email, ctx.session.user.email.toLowerCase()))
+      .orderBy(desc(sheetInvites.createdAt));
+  }),
+
+  /**
+   * Join a sheet from an invitation
+   */
+  acceptInvite: protectedProcedure
+    .input(z.object({ inviteId: z.string().uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      const email = sessionEmail(ctx.session.user.email);
+
+      return ctx.db.transaction(async (tx) => {
+        const [invite] = await tx
+          .delete(sheetInvites)
+          .where(and(eq(sheetInvites.id, input.inviteId), eq(sheetInvites.email, email)))
+          .returning();
+
+        if (!invite) {
+          throw new Error('Invitation not found');
+        }
+
+        // Already a member (e.g. invited twice): keep the existing role
+        const [member] = await tx
+          .insert(sheetMembers)
+          .values({
+            sheetId: invite.sheetId,
+            userId: ctx.session.user.id,
+            role: invite.role,
+            invitedBy: invite.invitedBy,
+          })
+          .onConflictDoNothing()
+          .returning();
+
+        console.log(`[SheetMember] ${ctx.session.user.id} joined sheet ${invite.sheetId} as ${invite.role}`);
+
+        return { sheetId: invite.sheetId, role: member?.role ?? invite.role };
+      });
+    }),
+
+  /**
+   * Turn down an invitation
+   */
+  declineInvite: protectedProcedure
+    .input(z.object({ inviteId: z.string().uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      const email = sessionEmail(ctx.session.user.email);
+
+      await ctx.db
+        .delete(sheetInvites)
+        .where(and(eq(sheetInvites.id, input.inviteId), eq(sheetInvites.email, email)));
+
+      return { success: true };
+    }),
+});
+
+/**
+ * Throw if the user is the sheet's only owner (a sheet must always have one)
+ */
+async function assertNotLastOwner(
+  executor: Pick<typeof db, 'select'>,
+  sheetId: string,
+  userId: string
+): Promise<void> {
+  const owners = await executor
+    .select({ userId: sheetMembers.userId })
+    .from(sheetMembers)
+    .where(and(eq(sheetMembers.sheetId, sheetId), eq(sheetMembers.role, 'owner')));
+
+  if (owners.length === 1 && owners[0]!.userId === userId) {
+    throw new Error('A sheet needs at least one owner; make someone else an owner first');
+  }
+}
@@ -1,19 +1,62 @@
 import { z } from "zod";
 import { createTRPCRouter, protectedProcedure } from "@/server/api/trpc";
-import { sheets, columns, templates } from "@/server/db/schema";
-import { eq } from "drizzle-orm";
-import { getTemplate, type TemplateType } from "@/server/templates/column-templates";
+import { sheets, columns, sheetMembers } from "@/server/db/schema";
+import { eq, and, or, isNull, notInArray, getTableColumns } from "drizzle-orm";
+import { RATE_LIMIT_CONFIG } from "@/server/gemini/config";
+import { getGeminiLimiter } from "@/server/gemini/concurrency-limiter";
+import {
+  addSheetOwner,
+  assertSheetAccess,
+  strongerSheetRole,
+  workspaceSheetRole,
+  type SheetRole,
+} from "@/server/sheet-access";
+import {
+  assertWorkspaceAccess,
+  getActiveWorkspaceId,
+  getWorkspaceRole,
+  memberWorkspaceIds,
+} from "@/server/workspace-access";
+import { addColumn, createSheet } from "@/server/sheet-operations";
+import { COLUMN_DATA_TYPES } from "@/types/spreadsheet";
 
 export const sheetRouter = createTRPCRouter({
+  /**
+   * Sheets in the user's active workspace, with their role on each
+   *
+   * The personal space lists sheets shared with the user directly, except
+   * those in a workspace they belong to (those are listed under the workspace).
+   */
   list: protectedProcedure.query(async ({ ctx }) => {
     const userId = ctx.session.user.id;
+    const workspaceId = await getActiveWorkspaceId(userId);
+
+    if (workspaceId) {
+      const workspaceRole = workspaceSheetRole(await getWorkspaceRole(workspaceId, userId));
+      const workspaceSheets = await ctx.db
+        .select({ ...getTableColumns(sheets), memberRole: sheetMembers.role })
+        .from(sheets)
+        .leftJoin(sheetMembers, and(eq(sheetMembers.sheetId, sheets.id), eq(sheetMembers.userId, userId)))
+        .where(eq(sheets.workspaceId, workspaceId))
+        .orderBy(sheets.createdAt);
+
+      return workspaceSheets.map(({ memberRole, ...sheet }) => ({
+        ...sheet,
+        role: strongerSheetRole(memberRole as SheetRole | null, workspaceRole) ?? 'viewer',
+      }));
+    }
+
     const userSheets = await ctx.db
-      .select()
+      .select({ ...getTableColumns(sheets), role: sheetMembers.role })
       .from(sheets)
-      .where(eq(sheets.userId, userId))
+      .innerJoin(sheetMembers, and(eq(sheetMembers.sheetId, sheets.id), eq(sheetMembers.userId, userId)))
+      .where(or(
+        isNull(sheets.workspaceId),
+        notInArray(sheets.workspaceId, memberWorkspaceIds(userId))
+      ))
       .orderBy(sheets.createdAt);
 
-    return userSheets;
+    return userSheets.map((sheet) => ({ ...sheet, role: sheet.role as SheetRole }));
   }),
 
   create: protectedProcedure
@@ -25,13 +68,15 @@ export const sheetRouter = createTRPCRouter({
         columns: z.array(z.object({
           title: z.string().min(1).max(255),
           position: z.number().int().min(0),
-          dataType: z.enum(['text', 'array', 'url', 'number']).default('text'),
+          dataType: z.enum(COLUMN_DATA_TYPES).default('text'),
           operatorType: z.string().optional().nullable(),
           operatorConfig: z.any().optional().nullable(),
           prompt: z.string().optional().nullable(),
           dependencies: z.array(z.number()).optional().nullable(),
           validationRules: z.any().optional().nullable(),
           isRequired: z.boolean().optional().nullable(),
+          isKey: z.boolean().optional().nullable(),
+          cacheResults: z.boolean().optional().nullable(),
           defaultValue: z.string().optional().nullable(),
         })).optional(),
       })
@@ -39,89 +84,16 @@ export const sheetRouter = createTRPCRouter({
     .mutation(async ({ ctx, input }) => {
       const userId = ctx.session.user.id;
 
-      let columnsToCreate = input.columns;
-      let isAutonomous = false;
-
-      // Load columns from database template if templateId is provided
-      if (input.templateId) {
-        const dbTemplate = await ctx.db.query.templates.findFirst({
-          where: eq(templates.id, input.templateId),
-          with: {
-            columns: {
-              orderBy: (cols, { asc }) => [asc(cols.position)],
-            },
-          },
-        });
-
-        if (dbTemplate) {
-          columnsToCreate = dbTemplate.columns.map((col) => ({
-            title: col.title,
-            position: col.position,
-            dataType: col.dataType as 'text' | 'array' | 'url' | 'number',
-            operatorType: col.operatorType,
-            operatorConfig: col.operatorConfig,
-            prompt: col.prompt,
-            dependencies: (col.dependencies as number[] | null) || null,
-            validationRules: col.validationRules,
-            isRequired: col.isRequired,
-            defaultValue: col.defaultValue,
-          }));
-          isAutonomous = dbTemplate.isAutonomous || false;
-        }
-      }
-      // Fallback to old hardcoded templates
-      else if (input.templateType && !input.columns) {
-        const template = getTemplate(input.templateType as TemplateType);
-        columnsToCreate = template.columns;
-        isAutonomous = template.isAutonomous;
-      }
-
-      const newSheet = await ctx.db
-        .insert(sheets)
-        .values({
-          userId,
-          name: input.name,
-          templateType: input.templateType ?? null,
-          templateId: input.templateId ?? null,
-          isAutonomous,
-        })
-        .returning();
+      // New sheets belong to the workspace the user is working in
+      const workspaceId = await getActiveWorkspaceId(userId);
 
-      if (columnsToCreate && columnsToCreate.length > 0) {
-        await ctx.db.insert(columns).values(
-          columnsToCreate.map((col) => ({
-            sheetId: newSheet[0]!.id,
-            title: col.title,
-            position: col.position,
-            dataType: col.dataType,
-            operatorType: col.operatorType || null,
-            operatorConfig: col.operatorConfig || null,
-            prompt: col.prompt || null,
-            dependencies: col.dependencies || null,
-            validationRules: col.validationRules || null,
-            isRequired: col.isRequired || false,
-            defaultValue: col.defaultValue || null,
-          }))
-        );
-      }
-
-      return newSheet[0];
+      return createSheet(userId, { ...input, workspaceId });
     }),
 
   getColumns: protectedProcedure
     .input(z.object({ sheetId: z.string().uuid() }))
     .query(async ({ ctx, input }) => {
-      const userId = ctx.session.user.id;
-
-      const sheet = await ctx.db
-        .select()
-        .from(sheets)
-        .where(eq(sheets.id, input.sheetId))
-        .limit(1);
-
-      if (!sheet[0]?.userId || sheet[0].userId !== userId) {
-        throw new Error("Sheet not found or unauthorized");
-      }
+      await assertSheetAccess(input.sheetId, ctx.session.user.id);
 
       const sheetColumns = await ctx.db
         .select()
@@ -140,7 +112,7 @@ export const sheetRouter = createTRPCRouter({
       })
     )
     .mutation(async ({ ctx, input }) => {
-      const userId = ctx.session.user.id;
+      await assertSheetAccess(input.sheetId, ctx.session.user.id, 'editor');
 
       const updated = await ctx.db
         .update(sheets)
@@ -148,28 +120,111 @@ export const sheetRouter = createTRPCRouter({
         .where(eq(sheets.id, input.sheetId))
         .returning();
 
-      if (!updated[0]?.userId || updated[0].userId !== userId) {
-        throw new Error("Sheet not found or unauthorized");
-      }
-
       return updated[0];
     }),
 
-  delete: protectedProcedure
+  /**
+   * Parallelism for a sheet, plus the process-wide Gemini limiter's current load
+   */
+  getProcessingSettings: protectedProcedure
     .input(z.object({ sheetId: z.string().uuid() }))
+    .query(async ({ ctx, input }) => {
+      await assertSheetAccess(input.sheetId, ctx.session.user.id);
+
+      const sheet = await ctx.db.query.sheets.findFirst({
+        where: eq(sheets.id, input.sheetId),
+      });
+
+      if (!sheet) {
+        throw new Error('Sheet not found or access denied');
+      }
+
+      return {
+        maxConcurrency: sheet.maxConcurrency,
+        defaultConcurrency: RATE_LIMIT_CONFIG.defaultSheetConcurrency,
+        maxAllowedConcurrency: RATE_LIMIT_CONFIG.maxSheetConcurrency,
+        globalMaxConcurrentRequests: RATE_LIMIT_CONFIG.maxConcurrentRequests,
+        gemini: getGeminiLimiter().getStats(),
+      };
+    }),
+
+  /**
+   * Set how many rows of a sheet are processed in parallel (null = default)
+   */
+  setConcurrency: protectedProcedure
+    .input(z.object({
+      sheetId: z.string().uuid(),
+      maxConcurrency: z.number().int().min(1).max(RATE_LIMIT_CONFIG.maxSheetConcurrency).nullable(),
+    }))
     .mutation(async ({ ctx, input }) => {
-      const userId = ctx.session.user.id;
+      await assertSheetAccess(input.sheetId, ctx.session.user.id, 'editor');
 
-      const sheet = await ctx.db
-        .select()
-        .from(sheets)
+      const [updated] = await ctx.db
+        .update(sheets)
+        .set({ maxConcurrency: input.maxConcurrency, updatedAt: new Date() })
         .where(eq(sheets.id, input.sheetId))
-        .limit(1);
+        .returning({ id: sheets.id });
+
+      if (!updated) {
+        throw new Error('Sheet not found or access denied');
+      }
 
-      if (!sheet[0]?.userId || sheet[0].userId !== userId) {
-        throw new Error("Sheet not found or unauthorized");
+      return { success: true };
+    }),
+
+  /**
+   * Move a sheet into a workspace, or back to the personal space (null)
+   *
+   * Taking a sheet out of a workspace needs a workspace owner, so members
+   * can't walk off with the team's work.
+   */
+  moveToWorkspace: protectedProcedure
+    .input(z.object({
+      sheetId: z.string().uuid(),
+      workspaceId: z.string().uuid().nullable(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id;
+      await assertSheetAccess(input.sheetId, userId, 'owner');
+
+      const sheet = await ctx.db.query.sheets.findFirst({
+        where: eq(sheets.id, input.sheetId),
+        columns: { workspaceId: true },
+      });
+
+      if (!sheet) {
+        throw new Error('Sheet not found or access denied');
       }
 
+      if (sheet.workspaceId === input.workspaceId) {
+        return { success: true };
+      }
+
+      if (sheet.workspaceId) {
+        await assertWorkspaceAccess(sheet.workspaceId, userId, 'owner');
+      }
+      if (input.workspaceId) {
+        await assertWorkspaceAccess(input.workspaceId, userId);
+      }
+
+      await ctx.db
+        .update(sheets)
+        .set({ workspaceId: input.workspaceId, updatedAt: new Date() })
+        .where(eq(sheets.id, input.sheetId));
+
+      // A workspace owner may only have had access through the workspace
+      await addSheetOwner(ctx.db, input.sheetId, userId);
+
+      console.log(`[Sheet] Moved sheet ${input.sheetId} to ${input.workspaceId ?? 'personal space'}`);
+
+      return { success: true };
+    }),
+
+  delete: protectedProcedure
+    .input(z.object({ sheetId: z.string().uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      await assertSheetAccess(input.sheetId, ctx.session.user.id, 'owner');
+
       await ctx.db.delete(sheets).where(eq(sheets.id, input.sheetId));
 
       return { success: true };
@@ -181,32 +236,13 @@ export const sheetRouter = createTRPCRouter({
         sheetId: z.string().uuid(),
         title: z.string().min(1).max(255),
         position: z.number().int().min(0),
-        dataType: z.enum(['text', 'array', 'url', 'number']).default('text'),
+        dataType: z.enum(COLUMN_DATA_TYPES).default('text'),
       })
     )
     .mutation(async ({ ctx, input }) => {
-      const userId = ctx.session.user.id;
-
-      const sheet = await ctx.db
-        .select()
-        .from(sheets)
-        .where(eq(sheets.id, input.sheetId))
-        .limit(1);
-
-      if (!sheet[0]?.userId || sheet[0].userId !== userId) {
-        throw new Error("Sheet not found or unauthorized");
-      }
-
-      const newColumn = await ctx.db
-        .insert(columns)
-        .values({
-          sheetId: input.sheetId,
-          title: input.title,
-          position: input.position,
-          dataType: input.dataType,
-        })
-        .returning();
+      await assertSheetAccess(input.sheetId, ctx.session.user.id, 'editor');
 
-      return newColumn[0];
+      const { sheetId, ...column } = input;
+      return addColumn(sheetId, column);
     }),
 });
@@ -0,0 +1,84 @@
+import { z } from "zod";
+import { createTRPCRouter, protectedProcedure } from "@/server/api/trpc";
+import { assertSheetAccess } from "@/server/sheet-access";
+import {
+  createSnapshot,
+  deleteSnapshot,
+  diffSnapshot,
+  forkSnapshot,
+  listSnapshots,
+  restoreSnapshot,
+} from "@/server/sheet-snapshots";
+
+const snapshotInput = z.object({
+  sheetId: z.string().uuid(),
+  snapshotId: z.string().uuid(),
+});
+
+/**
+ * Snapshot Router
+ *
+ * Named copies of a sheet to compare against, restore, or fork into a new sheet
+ */
+export const snapshotRouter = createTRPCRouter({
+  list: protectedProcedure
+    .input(z.object({ sheetId: z.string().uuid() }))
+    .query(async ({ ctx, input }) => {
+      await assertSheetAccess(input.sheetId, ctx.session.user.id);
+
+      return listSnapshots(input.sheetId);
+    }),
+
+  create: protectedProcedure
+    .input(z.object({
+      sheetId: z.string().uuid(),
+      name: z.string().trim().min(1).max(255),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id;
+      await assertSheetAccess(input.sheetId, userId, 'editor');
+
+      return createSnapshot(input.sheetId, userId, input.name);
+    }),
+
+  /**
+   * What changed in the sheet since the snapshot
+   */
+  diff: protectedProcedure
+    .input(snapshotInput)
+    .query(async ({ ctx, input }) => {
+      await assertSheetAccess(input.sheetId, ctx.session.user.id);
+
+      return diffSnapshot(input.sheetId, input.snapshotId);
+    }),
+
+  restore: protectedProcedure
+    .input(snapshotInput)
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id;
+      await assertSheetAccess(input.sheetId, userId, 'editor');
+
+      return restoreSnapshot(input.sheetId, userId, input.snapshotId);
+    }),
+
+  /**
+   * Copy the snapshot into a new sheet owned by the user
+   */
+  fork: protectedProcedure
+    .input(snapshotInput.extend({ name: z.string().trim().min(1).max(255) }))
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id;
+      await assertSheetAccess(input.sheetId, userId);
+
+      return forkSnapshot(input.sheetId, userId, input.snapshotId, input.name);
+    }),
+
+  delete: protectedProcedure
+    .input(snapshotInput)
+    .mutation(async ({ ctx, input }) => {
+      await assertSheetAccess(input.sheetId, ctx.session.user.id, 'editor');
+
+      await deleteSnapshot(input.sheetId, input.snapshotId);
+      return { success: true };
+    }),
+});
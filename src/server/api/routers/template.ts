@@ -1,13 +1,21 @@
 import { z } from "zod";
 import { createTRPCRouter, protectedProcedure } from "@/server/api/trpc";
 import { templates, templateColumns } from "@/server/db/schema";
-import { eq, and, desc, lt } from "drizzle-orm";
+import { eq, and, or, desc, lt, inArray, isNull } from "drizzle-orm";
 import {
   generateTemplateFromDescription,
   refineTemplate,
   suggestTemplateImprovements,
   type TemplateConfig,
 } from "@/server/ai/template-generator";
+import { runWithUsageContext } from "@/server/gemini/usage-tracker";
+import { ColumnDependencyGraph } from "@/server/operators/column-dependency-graph";
+import {
+  assertWorkspaceAccess,
+  getActiveWorkspaceId,
+  getWorkspaceRole,
+  memberWorkspaceIds,
+} from "@/server/workspace-access";
 
 // Input validation schemas
 const createTemplateInput = z.object({
@@ -43,6 +51,7 @@ const updateTemplateInput = z.object({
   isAutonomous: z.boolean().optional(),
   systemPrompt: z.string().optional(),
   config: z.record(z.any()).optional(),
+  workspaceId: z.string().uuid().nullable().optional(), // Share with a workspace (null = private)
 });
 
 const generateFromChatInput = z.object({
@@ -59,6 +68,16 @@ const refineTemplateInput = z.object({
   feedback: z.string().min(1).max(1000),
 });
 
+/**
+ * Templates the user created, or that are shared with a workspace they belong to
+ */
+function accessibleTemplates(userId: string) {
+  return or(
+    eq(templates.userId, userId),
+    inArray(templates.workspaceId, memberWorkspaceIds(userId))
+  );
+}
+
 export const templateRouter = createTRPCRouter({
   /**
    * Create a new template with columns
@@ -68,12 +87,15 @@ export const templateRouter = createTRPCRouter({
     .mutation(async ({ ctx, input }) => {
       const { columns: columnData, ...templateData } = input;
 
-      // Insert template
+      ColumnDependencyGraph.validate(columnData);
+
+      // Insert template (shared with the active workspace, if any)
       const [template] = await ctx.db
         .insert(templates)
         .values({
           ...templateData,
           userId: ctx.session.user.id,
+          workspaceId: await getActiveWorkspaceId(ctx.session.user.id),
         })
         .returning();
 
@@ -104,35 +126,35 @@ export const templateRouter = createTRPCRouter({
     }),
 
   /**
-   * Get all templates for the current user with cursor-based pagination
+   * Get the templates of the user's active workspace (or their private ones
+   * in the personal space) with cursor-based pagination
    */
   list: protectedProcedure
     .input(listPaginatedInput.optional())
     .query(async ({ ctx, input }) => {
       const { limit = 36, cursor } = input ?? {};
 
+      const workspaceId = await getActiveWorkspaceId(ctx.session.user.id);
+      const scope = workspaceId
+        ? eq(templates.workspaceId, workspaceId)
+        : and(eq(templates.userId, ctx.session.user.id), isNull(templates.workspaceId));
+
       // Build where clause
       let whereClause;
       if (cursor) {
         // Get the cursor template's createdAt
         const cursorTemplate = await ctx.db.query.templates.findFirst({
-          where: and(
-            eq(templates.id, cursor),
-            eq(templates.userId, ctx.session.user.id)
-          ),
+          where: and(eq(templates.id, cursor), scope),
           columns: { createdAt: true },
         });
 
         if (cursorTemplate) {
-          whereClause = and(
-            eq(templates.userId, ctx.session.user.id),
-            lt(templates.createdAt, cursorTemplate.createdAt)
-          );
+          whereClause = and(scope, lt(templates.createdAt, cursorTemplate.createdAt));
         } else {
-          whereClause = eq(templates.userId, ctx.session.user.id);
+          whereClause = scope;
         }
       } else {
-        whereClause = eq(templates.userId, ctx.session.user.id);
+        whereClause = scope;
       }
 
       // Fetch limit + 1 to determine if there are more
@@ -225,7 +247,7 @@ export const templateRouter = createTRPCRouter({
       const template = await ctx.db.query.templates.findFirst({
         where: and(
           eq(templates.id, input.id),
-          eq(templates.userId, ctx.session.user.id)
+          accessibleTemplates(ctx.session.user.id)
         ),
         with: {
           columns: {
@@ -248,13 +270,27 @@ export const templateRouter = createTRPCRouter({
     .input(updateTemplateInput)
     .mutation(async ({ ctx, input }) => {
       const { id, ...updateData } = input;
+      const userId = ctx.session.user.id;
+
+      if (updateData.workspaceId !== undefined) {
+        const existing = await ctx.db.query.templates.findFirst({
+          where: and(eq(templates.id, id), accessibleTemplates(userId)),
+          columns: { userId: true, workspaceId: true },
+        });
+
+        // Only the creator or a workspace owner can take a template out of a workspace
+        if (existing?.workspaceId && existing.userId !== userId && updateData.workspaceId !== existing.workspaceId) {
+          await assertWorkspaceAccess(existing.workspaceId, userId, 'owner');
+        }
+        if (updateData.workspaceId) {
+          await assertWorkspaceAccess(updateData.workspaceId, userId);
+        }
+      }
 
       const [updated] = await ctx.db
         .update(templates)
         .set(updateData)
-        .where(
-          and(eq(templates.id, id), eq(templates.userId, ctx.session.user.id))
-        )
+        .where(and(eq(templates.id, id), accessibleTemplates(userId)))
         .returning();
 
       if (!updated) {
@@ -270,20 +306,24 @@ export const templateRouter = createTRPCRouter({
   delete: protectedProcedure
     .input(z.object({ id: z.string().uuid() }))
     .mutation(async ({ ctx, input }) => {
-      const result = await ctx.db
-        .delete(templates)
-        .where(
-          and(
-            eq(templates.id, input.id),
-            eq(templates.userId, ctx.session.user.id)
-          )
-        )
-        .returning();
+      const userId = ctx.session.user.id;
+      const template = await ctx.db.query.templates.findFirst({
+        where: and(eq(templates.id, input.id), accessibleTemplates(userId)),
+        columns: { userId: true, workspaceId: true },
+      });
 
-      if (result.length === 0) {
+      // Workspace templates can be deleted by their creator or a workspace owner
+      const canDelete =
+        template &&
+        (template.userId === userId ||
+          (template.workspaceId && (await getWorkspaceRole(template.workspaceId, userId)) === 'owner'));
+
+      if (!canDelete) {
         throw new Error("Template not found or unauthorized");
       }
 
+      await ctx.db.delete(templates).where(eq(templates.id, input.id));
+
       return { success: true };
     }),
 
@@ -312,6 +352,7 @@ export const templateRouter = createTRPCRouter({
         .insert(templates)
         .values({
           userId: ctx.session.user.id,
+          workspaceId: await getActiveWorkspaceId(ctx.session.user.id),
           name: `${original.name} (Copy)`,
           description: original.description,
           icon: original.icon,
@@ -363,19 +404,23 @@ export const templateRouter = createTRPCRouter({
     .input(generateFromChatInput)
     .mutation(async ({ ctx, input }) => {
       try {
-        const config = await generateTemplateFromDescription(
-          input.description,
-          ctx.session.user.id
+        const workspaceId = await getActiveWorkspaceId(ctx.session.user.id);
+        const config = await runWithUsageContext(
+          { userId: ctx.session.user.id, workspaceId: workspaceId ?? undefined },
+          () => generateTemplateFromDescription(input.description, ctx.session.user.id)
         );
 
         // Create the template in the database
         const { columns: columnData, ...templateData } = config;
 
+        ColumnDependencyGraph.validate(columnData);
+
         const [template] = await ctx.db
           .insert(templates)
           .values({
             ...templateData,
             userId: ctx.session.user.id,
+            workspaceId,
           })
           .returning();
 
@@ -424,7 +469,7 @@ export const templateRouter = createTRPCRouter({
       const existing = await ctx.db.query.templates.findFirst({
         where: and(
           eq(templates.id, input.templateId),
-          eq(templates.userId, ctx.session.user.id)
+          accessibleTemplates(ctx.session.user.id)
         ),
         with: {
           columns: {
@@ -457,7 +502,12 @@ export const templateRouter = createTRPCRouter({
       };
 
       // Get refined config from AI
-      const refinedConfig = await refineTemplate(currentConfig, input.feedback);
+      const refinedConfig = await runWithUsageContext(
+        { userId: ctx.session.user.id, workspaceId: existing.workspaceId ?? undefined },
+        () => refineTemplate(currentConfig, input.feedback)
+      );
+
+      ColumnDependencyGraph.validate(refinedConfig.columns);
 
       // Update template
       const [updated] = await ctx.db
@@ -506,7 +556,7 @@ export const templateRouter = createTRPCRouter({
       const template = await ctx.db.query.templates.findFirst({
         where: and(
           eq(templates.id, input.id),
-          eq(templates.userId, ctx.session.user.id)
+          accessibleTemplates(ctx.session.user.id)
         ),
         with: {
           columns: {
@@ -537,7 +587,10 @@ export const templateRouter = createTRPCRouter({
         })),
       };
 
-      const suggestions = await suggestTemplateImprovements(config);
+      const suggestions = await runWithUsageContext(
+        { userId: ctx.session.user.id, workspaceId: template.workspaceId ?? undefined },
+        () => suggestTemplateImprovements(config)
+      );
       return suggestions;
     }),
 });
@@ -0,0 +1,199 @@
+import { z } from "zod";
+import { createTRPCRouter, protectedProcedure } from "@/server/api/trpc";
+import { geminiUsageLog, sheets, columns, users } from "@/server/db/schema";
+import { eq, and, gte, desc, sql } from "drizzle-orm";
+import { assertWorkspaceAccess } from "@/server/workspace-access";
+
+const usageFilterInput = z.object({
+  days: z.number().int().min(1).max(365).default(30),
+  sheetId: z.string().uuid().optional(),
+  workspaceId: z.string().uuid().optional(), // Roll up every member's usage in a workspace
+});
+
+/**
+ * Shared aggregate columns for usage breakdowns
+ *
+ * Results served from the operator cache are logged as 'cache_hit' rows: they
+ * count as cache hits, not calls, and carry no tokens or cost.
+ */
+const usageAggregates = {
+  calls: sql<number>`count(*) filter (where ${geminiUsageLog.status} <> 'cache_hit')`.mapWith(Number),
+  errors: sql<number>`count(*) filter (where ${geminiUsageLog.status} = 'error')`.mapWith(Number),
+  cacheHits: sql<number>`count(*) filter (where ${geminiUsageLog.status} = 'cache_hit')`.mapWith(Number),
+  promptTokens: sql<number>`coalesce(sum(${geminiUsageLog.promptTokens}), 0)`.mapWith(Number),
+  outputTokens: sql<number>`coalesce(sum(${geminiUsageLog.outputTokens}), 0)`.mapWith(Number),
+  totalTokens: sql<number>`coalesce(sum(${geminiUsageLog.totalTokens}), 0)`.mapWith(Number),
+  cost: sql<number>`coalesce(sum(${geminiUsageLog.estimatedCost}), 0)`.mapWith(Number),
+  avgDurationMs: sql<number>`coalesce(avg(${geminiUsageLog.durationMs}) filter (where ${geminiUsageLog.status} <> 'cache_hit'), 0)`.mapWith(Number),
+};
+
+/**
+ * The user's own usage, or a workspace's usage across all members (members only)
+ */
+async function usageWhere(userId: string, input: z.infer<typeof usageFilterInput>) {
+  const since = new Date(Date.now() - input.days * 24 * 60 * 60 * 1000);
+
+  if (input.workspaceId) {
+    await assertWorkspaceAccess(input.workspaceId, userId);
+  }
+
+  return and(
+    input.workspaceId ? eq(geminiUsageLog.workspaceId, input.workspaceId) : eq(geminiUsageLog.userId, userId),
+    gte(geminiUsageLog.createdAt, since),
+    input.sheetId ? eq(geminiUsageLog.sheetId, input.sheetId) : undefined
+  );
+}
+
+/**
+ * Usage Router
+ *
+ * Gemini spend dashboards built from gemini_usage_log
+ */
+export const usageRouter = createTRPCRouter({
+  /**
+   * Totals for the selected period
+   */
+  summary: protectedProcedure
+    .input(usageFilterInput)
+    .query(async ({ ctx, input }) => {
+      const [totals] = await ctx.db
+        .select(usageAggregates)
+        .from(geminiUsageLog)
+        .where(await usageWhere(ctx.session.user.id, input));
+
+      return totals ?? {
+        calls: 0,
+        errors: 0,
+        cacheHits: 0,
+        promptTokens: 0,
+        outputTokens: 0,
+        totalTokens: 0,
+        cost: 0,
+        avgDurationMs: 0,
+      };
+    }),
+
+  /**
+   * Spend per sheet (calls without a sheet, e.g. template generation, are grouped under null)
+   */
+  bySheet: protectedProcedure
+    .input(usageFilterInput)
+    .query(async ({ ctx, input }) => {
+      return ctx.db
+        .select({
+          sheetId: geminiUsageLog.sheetId,
+          sheetName: sheets.name,
+          ...usageAggregates,
+        })
+        .from(geminiUsageLog)
+        .leftJoin(sheets, eq(geminiUsageLog.sheetId, sheets.id))
+        .where(await usageWhere(ctx.session.user.id, input))
+        .groupBy(geminiUsageLog.sheetId, sheets.name)
+        .orderBy(desc(usageAggregates.cost));
+    }),
+
+  /**
+   * Spend per member (for a workspace rollup)
+   */
+  byUser: protectedProcedure
+    .input(usageFilterInput)
+    .query(async ({ ctx, input }) => {
+      return ctx.db
+        .select({
+          userId: geminiUsageLog.userId,
+          userName: users.name,
+          userEmail: users.email,
+          ...usageAggregates,
+        })
+        .from(geminiUsageLog)
+        .leftJoin(users, eq(geminiUsageLog.userId, users.id))
+        .where(await usageWhere(ctx.session.user.id, input))
+        .groupBy(geminiUsageLog.userId, users.name, users.email)
+        .orderBy(desc(usageAggregates.cost));
+    }),
+
+  /**
+   * Spend per column of a sheet
+   */
+  byColumn: protectedProcedure
+    .input(usageFilterInput.extend({ sheetId: z.string().uuid() }))
+    .query(async ({ ctx, input }) => {
+      return ctx.db
+        .select({
+          colIndex: geminiUsageLog.colIndex,
+          columnTitle: columns.title,
+          ...usageAggregates,
+        })
+        .from(geminiUsageLog)
+        .leftJoin(columns, and(
+          eq(columns.sheetId, geminiUsageLog.sheetId),
+          eq(columns.position, geminiUsageLog.colIndex)
+        ))
+        .where(await usageWhere(ctx.session.user.id, input))
+        .groupBy(geminiUsageLog.colIndex, columns.title)
+        .orderBy(geminiUsageLog.colIndex);
+    }),
+
+  /**
+   * Spend per operator / tool
+   */
+  byOperator: protectedProcedure
+    .input(usageFilterInput)
+    .query(async ({ ctx, input }) => {
+      return ctx.db
+        .select({
+          operatorName: geminiUsageLog.operatorName,
+          ...usageAggregates,
+        })
+        .from(geminiUsageLog)
+        .where(await usageWhere(ctx.session.user.id, input))
+        .groupBy(geminiUsageLog.operatorName)
+        .orderBy(desc(usageAggregates.cost));
+    }),
+
+  /**
+   * Spend per day (UTC)
+   */
+  byDay: protectedProcedure
+    .input(usageFilterInput)
+    .query(async ({ ctx, input }) => {
+      const day = sql<string>`to_char(date_trunc('day', ${geminiUsageLog.createdAt} at time zone 'UTC'), 'YYYY-MM-DD')`;
+
+      return ctx.db
+        .select({
+          day,
+          ...usageAggregates,
+        })
+        .from(geminiUsageLog)
+        .where(await usageWhere(ctx.session.user.id, input))
+        .groupBy(day)
+        .orderBy(day);
+    }),
+
+  /**
+   * Most recent individual calls, for debugging unexpected spend
+   */
+  recent: protectedProcedure
+    .input(usageFilterInput.extend({ limit: z.number().int().min(1).max(100).default(25) }))
+    .query(async ({ ctx, input }) => {
+      return ctx.db
+        .select({
+          id: geminiUsageLog.id,
+          operatorName: geminiUsageLog.operatorName,
+          model: geminiUsageLog.model,
+          sheetId: geminiUsageLog.sheetId,
+          colIndex: geminiUsageLog.colIndex,
+          eventId: geminiUsageLog.eventId,
+          totalTokens: geminiUsageLog.totalTokens,
+          estimatedCost: geminiUsageLog.estimatedCost,
+          durationMs: geminiUsageLog.durationMs,
+          status: geminiUsageLog.status,
+          errorMessage: geminiUsageLog.errorMessage,
+          createdAt: geminiUsageLog.createdAt,
+        })
+        .from(geminiUsageLog)
+        .where(await usageWhere(ctx.session.user.id, input))
+        .orderBy(desc(geminiUsageLog.createdAt))
+        .limit(input.limit);
+    }),
+});
@@ -0,0 +1,180 @@
+import { z } from "zod";
+import { createTRPCRouter, protectedProcedure } from "@/server/api/trpc";
+import { sheets, webhookDeliveries } from "@/server/db/schema";
+import { eq, desc } from "drizzle-orm";
+import { generateWebhookSecret, getWebhookDispatcher } from "@/server/webhooks/webhook-dispatcher";
+import { assertPublicWebhookUrl } from "@/server/webhooks/webhook-url";
+import { WEBHOOK_EVENT_TYPES } from "@/types/spreadsheet";
+import { assertSheetAccess } from "@/server/sheet-access";
+
+/**
+ * Webhook Router
+ *
+ * Endpoints for configuring per-sheet webhooks and inspecting delivery history
+ */
+export const webhookRouter = createTRPCRouter({
+  /**
+   * Get webhook configuration for a sheet
+   */
+  getConfig: protectedProcedure
+    .input(z.object({ sheetId: z.string().uuid() }))
+    .query(async ({ ctx, input }) => {
+      // Webhook settings include the signing secret, so they're owner-only
+      await assertSheetAccess(input.sheetId, ctx.session.user.id, 'owner');
+
+      const sheet = await ctx.db.query.sheets.findFirst({
+        where: eq(sheets.id, input.sheetId),
+      });
+
+      if (!sheet) {
+        throw new Error('Sheet not found or access denied');
+      }
+
+      return {
+        webhookUrl: sheet.webhookUrl,
+        webhookEvents: (sheet.webhookEvents as string[] | null) ?? [],
+        webhookSecret: sheet.webhookSecret,
+        availableEvents: [...WEBHOOK_EVENT_TYPES],
+      };
+    }),
+
+  /**
+   * Set webhook URL and subscribed events (a signing secret is generated on first save)
+   */
+  updateConfig: protectedProcedure
+    .input(z.object({
+      sheetId: z.string().uuid(),
+      webhookUrl: z.string().url().max(500).nullable(),
+      webhookEvents: z.array(z.enum(WEBHOOK_EVENT_TYPES)),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      // Webhook settings include the signing secret, so they're owner-only
+      await assertSheetAccess(input.sheetId, ctx.session.user.id, 'owner');
+
+      const sheet = await ctx.db.query.sheets.findFirst({
+        where: eq(sheets.id, input.sheetId),
+      });
+
+      if (!sheet) {
+        throw new Error('Sheet not found or access denied');
+      }
+
+      if (input.webhookUrl) {
+        await assertPublicWebhookUrl(input.webhookUrl);
+      }
+
+      const [updated] = await ctx.db
+        .update(sheets)
+        .set({
+          webhookUrl: input.webhookUrl,
+          webhookEvents: input.webhookEvents,
+          webhookSecret: sheet.webhookSecret ?? generateWebhookSecret(),
+          updatedAt: new Date(),
+        })
+        .where(eq(sheets.id, input.sheetId))
+        .returning();
+
+      console.log(`[Webhook] Updated webhook for sheet ${input.sheetId}: ${input.webhookUrl ?? 'disabled'}`);
+
+      return {
+        webhookUrl: updated!.webhookUrl,
+        webhookEvents: (updated!.webhookEvents as string[] | null) ?? [],
+        webhookSecret: updated!.webhookSecret,
+      };
+    }),
+
+  /**
+   * Replace the signing secret
+   */
+  rotateSecret: protectedProcedure
+    .input(z.object({ sheetId: z.string().uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      await assertSheetAccess(input.sheetId, ctx.session.user.id, 'owner');
+
+      const [updated] = await ctx.db
+        .update(sheets)
+        .set({
+          webhookSecret: generateWebhookSecret(),
+          updatedAt: new Date(),
+        })
+        .where(eq(sheets.id, input.sheetId))
+        .returning({ webhookSecret: sheets.webhookSecret });
+
+      if (!updated) {
+        throw new Error('Sheet not found or access denied');
+      }
+
+      return updated;
+    }),
+
+  /**
+   * Send a test delivery to the configured URL and return the result
+   */
+  sendTest: protectedProcedure
+    .input(z.object({ sheetId: z.string().uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      // Webhook settings include the signing secret, so they're owner-only
+      await assertSheetAccess(input.sheetId, ctx.session.user.id, 'owner');
+
+      const sheet = await ctx.db.query.sheets.findFirst({
+        where: eq(sheets.id, input.sheetId),
+      });
+
+      if (!sheet) {
+        throw new Error('Sheet not found or access denied');
+      }
+
+      return getWebhookDispatcher().sendTest(input.sheetId);
+    }),
+
+  /**
+   * Recent deliveries for a sheet, newest first
+   */
+  listDeliveries: protectedProcedure
+    .input(z.object({
+      sheetId: z.string().uuid(),
+      limit: z.number().min(1).max(100).default(25),
+    }))
+    .query(async ({ ctx, input }) => {
+      // Webhook settings include the signing secret, so they're owner-only
+      await assertSheetAccess(input.sheetId, ctx.session.user.id, 'owner');
+
+      const sheet = await ctx.db.query.sheets.findFirst({
+        where: eq(sheets.id, input.sheetId),
+      });
+
+      if (!sheet) {
+        throw new Error('Sheet not found or access denied');
+      }
+
+      return ctx.db
+        .select()
+        .from(webhookDeliveries)
+        .where(eq(webhookDeliveries.sheetId, input.sheetId))
+        .orderBy(desc(webhookDeliveries.createdAt))
+        .limit(input.limit);
+    }),
+
+  /**
+   * Queue a failed or delivered webhook to be sent again
+   */
+  redeliver: protectedProcedure
+    .input(z.object({ deliveryId: z.string().uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      const [delivery] = await ctx.db
+        .select({ id: webhookDeliveries.id, sheetId: webhookDeliveries.sheetId })
+        .from(webhookDeliveries)
+        .where(eq(webhookDeliveries.id, input.deliveryId))
+        .limit(1);
+
+      if (!delivery) {
+        throw new Error('Delivery not found or access denied');
+      }
+
+      await assertSheetAccess(delivery.sheetId, ctx.session.user.id, 'owner');
+
+      await getWebhookDispatcher().redeliver(delivery.id);
+
+      return { success: true };
+    }),
+});
@@ -0,0 +1,463 @@
+import { z } from "zod";
+import { createTRPCRouter, protectedProcedure } from "@/server/api/trpc";
+import type { db } from "@/server/db";
+import {
+  users,
+  sheets,
+  sheetMembers,
+  templates,
+  workspaces,
+  workspaceMembers,
+  workspaceInvites,
+} from "@/server/db/schema";
+import { and, eq, asc, desc, inArray, sql } from "drizzle-orm";
+import { addSheetOwner } from "@/server/sheet-access";
+import {
+  WORKSPACE_ROLES,
+  assertWorkspaceAccess,
+  getActiveWorkspaceId,
+  getPrimaryWorkspaceOwner,
+} from "@/server/workspace-access";
+
+/**
+ * Workspace Router
+ *
+ * Team workspaces: creating and switching, members and roles, and email
+ * invitations (accepted from the sidebar, like sheet invitations).
+ */
+
+const roleSchema = z.enum(WORKSPACE_ROLES);
+
+/**
+ * Database handle accepted by detachMember - either `db` or a transaction
+ */
+type DbExecutor = Pick<typeof db, 'select' | 'insert' | 'update' | 'delete'>;
+
+/**
+ * Throw if the user is the workspace's only owner (a workspace must always have one)
+ */
+async function assertNotLastOwner(executor: DbExecutor, workspaceId: string, userId: string): Promise<void> {
+  const owners = await executor
+    .select({ userId: workspaceMembers.userId })
+    .from(workspaceMembers)
+    .where(and(eq(workspaceMembers.workspaceId, workspaceId), eq(workspaceMembers.role, 'owner')));
+
+  if (owners.length === 1 && owners[0]!.userId === userId) {
+    throw new Error('A workspace needs at least one owner; make someone else an owner first');
+  }
+}
+
+/**
+ * Remove a member, handing the sheets and templates they created to `successorId`
+ *
+ * Their direct access to the workspace's sheets leaves with them, so nothing
+ * stays reachable from their personal space.
+ */
+async function detachMember(
+  executor: DbExecutor,
+  workspaceId: string,
+  userId: string,
+  successorId: string
+): Promise<void> {
+  const handedOver = await executor
+    .update(sheets)
+    .set({ userId: successorId, updatedAt: new Date() })
+    .where(and(eq(sheets.workspaceId, workspaceId), eq(sheets.userId, userId)))
+    .returning({ id: sheets.id });
+
+  for (const sheet of handedOver) {
+    await addSheetOwner(executor, sheet.id, successorId);
+  }
+
+  await executor
+    .update(templates)
+    .set({ userId: successorId })
+    .where(and(eq(templates.workspaceId, workspaceId), eq(templates.userId, userId)));
+
+  await executor
+    .delete(sheetMembers)
+    .where(and(
+      eq(sheetMembers.userId, userId),
+      inArray(
+        sheetMembers.sheetId,
+        executor.select({ id: sheets.id }).from(sheets).where(eq(sheets.workspaceId, workspaceId))
+      )
+    ));
+
+  await executor
+    .update(users)
+    .set({ activeWorkspaceId: null })
+    .where(and(eq(users.id, userId), eq(users.activeWorkspaceId, workspaceId)));
+
+  await executor
+    .delete(workspaceMembers)
+    .where(and(eq(workspaceMembers.workspaceId, workspaceId), eq(workspaceMembers.userId, userId)));
+
+  console.log(`[Workspace] ${userId} left workspace ${workspaceId}; ${handedOver.length} sheets handed to ${successorId}`);
+}
+
+/**
+ * The signed-in user's email, normalized the way invites are stored
+ */
+function sessionEmail(email: string | null | undefined): string {
+  if (!email) {
+    throw new Error('Your account has no email address to match invitations against');
+  }
+  return email.toLowerCase();
+}
+
+export const workspaceRouter = createTRPCRouter({
+  /**
+   * Workspaces the user belongs to, and which one is active (null = personal)
+   */
+  list: protectedProcedure.query(async ({ ctx }) => {
+    const userId = ctx.session.user.id;
+
+    const userWorkspaces = await ctx.db
+      .select({
+        id: workspaces.id,
+        name: workspaces.name,
+        role: workspaceMembers.role,
+      })
+      .from(workspaceMembers)
+      .innerJoin(workspaces, eq(workspaces.id, workspaceMembers.workspaceId))
+      .where(eq(workspaceMembers.userId, userId))
+      .orderBy(asc(workspaces.name));
+
+    return {
+      activeWorkspaceId: await getActiveWorkspaceId(userId),
+      workspaces: userWorkspaces,
+    };
+  }),
+
+  /**
+   * Create a workspace and switch to it
+   */
+  create: protectedProcedure
+    .input(z.object({ name: z.string().trim().min(1).max(255) }))
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id;
+
+      return ctx.db.transaction(async (tx) => {
+        const [workspace] = await tx
+          .insert(workspaces)
+          .values({ name: input.name, createdBy: userId })
+          .returning();
+
+        await tx.insert(workspaceMembers).values({
+          workspaceId: workspace!.id,
+          userId,
+          role: 'owner',
+        });
+
+        await tx.update(users).set({ activeWorkspaceId: workspace!.id }).where(eq(users.id, userId));
+
+        console.log(`[Workspace] ${userId} created workspace ${workspace!.id} "${input.name}"`);
+
+        return workspace!;
+      });
+    }),
+
+  /**
+   * Switch workspace (null = personal space)
+   */
+  setActive: protectedProcedure
+    .input(z.object({ workspaceId: z.string().uuid().nullable() }))
+    .mutation(async ({ ctx, input }) => {
+      if (input.workspaceId) {
+        await assertWorkspaceAccess(input.workspaceId, ctx.session.user.id);
+      }
+
+      await ctx.db
+        .update(users)
+        .set({ activeWorkspaceId: input.workspaceId })
+        .where(eq(users.id, ctx.session.user.id));
+
+      return { success: true };
+    }),
+
+  /**
+   * A workspace with its members, pending invitations and sheet count
+   */
+  get: protectedProcedure
+    .input(z.object({ workspaceId: z.string().uuid() }))
+    .query(async ({ ctx, input }) => {
+      const myRole = await assertWorkspaceAccess(input.workspaceId, ctx.session.user.id);
+
+      const workspace = await ctx.db.query.workspaces.findFirst({
+        where: eq(workspaces.id, input.workspaceId),
+      });
+
+      if (!workspace) {
+        throw new Error('Workspace not found or access denied');
+      }
+
+      const members = await ctx.db
+        .select({
+          userId: workspaceMembers.userId,
+          role: workspaceMembers.role,
+          createdAt: workspaceMembers.createdAt,
+          name: users.name,
+          email: users.email,
+          image: users.image,
+        })
+        .from(workspaceMembers)
+        .innerJoin(users, eq(users.id, workspaceMembers.userId))
+        .where(eq(workspaceMembers.workspaceId, input.workspaceId))
+        .orderBy(asc(workspaceMembers.createdAt));
+
+      const invites = await ctx.db
+        .select({
+          id: workspaceInvites.id,
+          email: workspaceInvites.email,
+          role: workspaceInvites.role,
+          createdAt: workspaceInvites.createdAt,
+        })
+        .from(workspaceInvites)
+        .where(eq(workspaceInvites.workspaceId, input.workspaceId))
+        .orderBy(asc(workspaceInvites.createdAt));
+
+      const [sheetCount] = await ctx.db
+        .select({ count: sql<number>`count(*)`.mapWith(Number) })
+        .from(sheets)
+        .where(eq(sheets.workspaceId, input.workspaceId));
+
+      return {
+        ...workspace,
+        myRole,
+        myUserId: ctx.session.user.id,
+        members,
+        invites,
+        sheetCount: sheetCount?.count ?? 0,
+      };
+    }),
+
+  rename: protectedProcedure
+    .input(z.object({
+      workspaceId: z.string().uuid(),
+      name: z.string().trim().min(1).max(255),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      await assertWorkspaceAccess(input.workspaceId, ctx.session.user.id, 'owner');
+
+      await ctx.db
+        .update(workspaces)
+        .set({ name: input.name })
+        .where(eq(workspaces.id, input.workspaceId));
+
+      return { success: true };
+    }),
+
+  /**
+   * Invite someone by email (re-inviting updates the pending role)
+   */
+  invite: protectedProcedure
+    .input(z.object({
+      workspaceId: z.string().uuid(),
+      email: z.string().email().max(255),
+      role: roleSchema,
+    }))
+    .mutation(async ({ ctx, input }) => {
+      await assertWorkspaceAccess(input.workspaceId, ctx.session.user.id, 'owner');
+
+      const email = input.email.trim().toLowerCase();
+
+      const [existing] = await ctx.db
+        .select({ userId: workspaceMembers.userId })
+        .from(workspaceMembers)
+        .innerJoin(users, eq(users.id, workspaceMembers.userId))
+        .where(and(eq(workspaceMembers.workspaceId, input.workspaceId), eq(sql`lower(${users.email})`, email)))
+        .limit(1);
+
+      if (existing) {
+        throw new Error(`${email} is already a member of this workspace`);
+      }
+
+      const [invite] = await ctx.db
+        .insert(workspaceInvites)
+        .values({
+          workspaceId: input.workspaceId,
+          email,
+          role: input.role,
+          invitedBy: ctx.session.user.id,
+        })
+        .onConflictDoUpdate({
+          target: [workspaceInvites.workspaceId, workspaceInvites.email],
+          set: { role: input.role, invitedBy: ctx.session.user.id },
+        })
+        .returning();
+
+      console.log(`[Workspace] Invited ${email} to workspace ${input.workspaceId} as ${input.role}`);
+
+      return invite!;
+    }),
+
+  /**
+   * Cancel a pending invitation
+   */
+  revokeInvite: protectedProcedure
+    .input(z.object({ workspaceId: z.string().uuid(), inviteId: z.string().uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      await assertWorkspaceAccess(input.workspaceId, ctx.session.user.id, 'owner');
+
+      await ctx.db
+        .delete(workspaceInvites)
+        .where(and(eq(workspaceInvites.id, input.inviteId), eq(workspaceInvites.workspaceId, input.workspaceId)));
+
+      return { success: true };
+    }),
+
+  /**
+   * Change a member's role
+   */
+  updateRole: protectedProcedure
+    .input(z.object({
+      workspaceId: z.string().uuid(),
+      userId: z.string(),
+      role: roleSchema,
+    }))
+    .mutation(async ({ ctx, input }) => {
+      await assertWorkspaceAccess(input.workspaceId, ctx.session.user.id, 'owner');
+
+      if (input.role !== 'owner') {
+        await assertNotLastOwner(ctx.db, input.workspaceId, input.userId);
+      }
+
+      const [updated] = await ctx.db
+        .update(workspaceMembers)
+        .set({ role: input.role })
+        .where(and(eq(workspaceMembers.workspaceId, input.workspaceId), eq(workspaceMembers.userId, input.userId)))
+        .returning();
+
+      if (!updated) {
+        throw new Error('Member not found');
+      }
+
+      return updated;
+    }),
+
+  /**
+   * Remove a member (owners can remove anyone; everyone can leave)
+   *
+   * What they created stays in the workspace: their sheets and templates are
+   * handed to the owner removing them, or to the longest-standing owner when
+   * they leave.
+   */
+  removeMember: protectedProcedure
+    .input(z.object({ workspaceId: z.string().uuid(), userId: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const actingUserId = ctx.session.user.id;
+      const isSelf = input.userId === actingUserId;
+      await assertWorkspaceAccess(input.workspaceId, actingUserId, isSelf ? 'member' : 'owner');
+
+      await assertNotLastOwner(ctx.db, input.workspaceId, input.userId);
+
+      const successorId = isSelf
+        ? await getPrimaryWorkspaceOwner(input.workspaceId, input.userId)
+        : actingUserId;
+
+      if (!successorId) {
+        throw new Error('A workspace needs at least one owner; make someone else an owner first');
+      }
+
+      await ctx.db.transaction((tx) => detachMember(tx, input.workspaceId, input.userId, successorId));
+
+      return { success: true };
+    }),
+
+  /**
+   * Delete an empty workspace (its templates go back to their creators)
+   */
+  delete: protectedProcedure
+    .input(z.object({ workspaceId: z.string().uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      await assertWorkspaceAccess(input.workspaceId, ctx.session.user.id, 'owner');
+
+      const [sheetCount] = await ctx.db
+        .select({ count: sql<number>`count(*)`.mapWith(Number) })
+        .from(sheets)
+        .where(eq(sheets.workspaceId, input.workspaceId));
+
+      if (sheetCount && sheetCount.count > 0) {
+        throw new Error(`Move or delete the workspace's ${sheetCount.count} sheets first`);
+      }
+
+      await ctx.db.delete(workspaces).where(eq(workspaces.id, input.workspaceId));
+
+      console.log(`[Workspace] Deleted workspace ${input.workspaceId}`);
+
+      return { success: true };
+    }),
+
+  /**
+   * Invitations waiting for the signed-in user
+   */
+  myInvites: protectedProcedure.query(async ({ ctx }) => {
+    if (!ctx.session.user.email) {
+      return [];
+    }
+
+    return ctx.db
+      .select({
+        id: workspaceInvites.id,
+        workspaceId: workspaceInvites.workspaceId,
+        workspaceName: workspaces.name,
+        role: workspaceInvites.role,
+        invitedByName: users.name,
+        createdAt: workspaceInvites.createdAt,
+      })
+      .from(workspaceInvites)
+      .innerJoin(workspaces, eq(workspaces.id, workspaceInvites.workspaceId))
+      .leftJoin(users, eq(users.id, workspaceInvites.invitedBy))
+      .where(eq(workspaceInvites.email, ctx.session.user.email.toLowerCase()))
+      .orderBy(desc(workspaceInvites.createdAt));
+  }),
+
+  /**
+   * Join a workspace from an invitation and switch to it
+   */
+  acceptInvite: protectedProcedure
+    .input(z.object({ inviteId: z.string().uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id;
+      const email = sessionEmail(ctx.session.user.email);
+
+      return ctx.db.transaction(async (tx) => {
+        const [invite] = await tx
+          .delete(workspaceInvites)
+          .where(and(eq(workspaceInvites.id, input.inviteId), eq(workspaceInvites.email, email)))
+          .returning();
+
+        if (!invite) {
+          throw new Error('Invitation not found');
+        }
+
+        // Already a member (e.g. invited twice): keep the existing role
+        await tx
+          .insert(workspaceMembers)
+          .values({ workspaceId: invite.workspaceId, userId, role: invite.role })
+          .onConflictDoNothing();
+
+        await tx.update(users).set({ activeWorkspaceId: invite.workspaceId }).where(eq(users.id, userId));
+
+        console.log(`[Workspace] ${userId} joined workspace ${invite.workspaceId} as ${invite.role}`);
+
+        return { workspaceId: invite.workspaceId };
+      });
+    }),
+
+  /**
+   * Turn down an invitation
+   */
+  declineInvite: protectedProcedure
+    .input(z.object({ inviteId: z.string().uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      const email = sessionEmail(ctx.session.user.email);
+
+      await ctx.db
+        .delete(workspaceInvites)
+        .where(and(eq(workspaceInvites.id, input.inviteId), eq(workspaceInvites.email, email)));
+
+      return { success: true };
+    }),
+});
@@ -1,12 +1,24 @@
 import { db } from "@/server/db";
-import { eventQueue } from "@/server/db/schema";
-import { eq } from "drizzle-orm";
+import { eventQueue, sheets } from "@/server/db/schema";
+import { eq, and, or, isNull, lte } from "drizzle-orm";
 import { SheetUpdater } from "./sheet-updater";
+import { getWebhookDispatcher } from "./webhooks/webhook-dispatcher";
+import { enforceSheetBudget } from "./budgets/budget-guard";
+import { reapExpiredLeases } from "./event-lease";
+import { getSheetChangeFeed } from "./realtime/sheet-change-feed";
+import { pruneApiKeyUsage } from "./api-rate-limit";
+import { pruneIdempotencyKeys } from "./api-idempotency";
+import { pruneOperatorCache } from "./operators/operator-cache";
 
 class BackgroundEventProcessor {
   private isRunning = false;
   private pollInterval = 1000;
   private processingSheets = new Set<string>();
+  private deliveringWebhooks = false;
+  private reapInterval = 30000;
+  private lastReapAt = 0;
+  private pruneInterval = 60 * 60 * 1000;
+  private lastPruneAt = 0;
   private sheetUpdater: SheetUpdater;
 
   constructor() {
@@ -43,49 +55,133 @@ class BackgroundEventProcessor {
   }
 
   private async tick() {
-    const pendingEvents = await db
-      .select()
+    this.flushWebhooks();
+    await this.reapLeases();
+    await this.pruneLogs();
+
+    // One row per sheet with due work, so a large sheet can't crowd the others out.
+    // Shared sheets are processed (and budgeted) as their owner
+    const pendingSheets = await db
+      .selectDistinct({ sheetId: eventQueue.sheetId, userId: sheets.userId })
       .from(eventQueue)
-      .where(eq(eventQueue.status, 'pending'))
+      .innerJoin(sheets, eq(eventQueue.sheetId, sheets.id))
+      .where(and(
+        eq(eventQueue.status, 'pending'),
+        or(isNull(eventQueue.nextAttemptAt), lte(eventQueue.nextAttemptAt, new Date()))
+      ))
       .limit(50);
 
-    if (pendingEvents.length === 0) {
+    if (pendingSheets.length === 0) {
       return;
     }
 
-    console.log(`[BackgroundProcessor] Found ${pendingEvents.length} pending events`);
-
-    const sheetGroups = new Map<string, typeof pendingEvents>();
-
-    for (const event of pendingEvents) {
-      if (!sheetGroups.has(event.sheetId)) {
-        sheetGroups.set(event.sheetId, []);
-      }
-      sheetGroups.get(event.sheetId)!.push(event);
-    }
-
-    const processingPromises: Promise<unknown>[] = [];
-
-    for (const [sheetId, events] of sheetGroups) {
+    for (const { sheetId, userId } of pendingSheets) {
       if (this.processingSheets.has(sheetId)) {
-        console.log(`[BackgroundProcessor] Sheet ${sheetId} already processing, skipping`);
         continue;
       }
 
       this.processingSheets.add(sheetId);
-
-      const userId = events[0]!.userId;
-
-      const promise = this.sheetUpdater
-        .updateSheet(userId, sheetId)
+      console.log(`[BackgroundProcessor] Processing sheet ${sheetId}`);
+
+      // Sheets run independently: a slow sheet no longer holds up the next tick.
+      // Over-budget sheets get their events parked as 'paused_budget' instead of dispatched
+      void enforceSheetBudget(userId, sheetId)
+        .then((withinBudget) => withinBudget ? this.sheetUpdater.updateSheet(userId, sheetId) : undefined)
+        .catch((error) => {
+          console.error(`[BackgroundProcessor] Error processing sheet ${sheetId}:`, error);
+        })
         .finally(() => {
           this.processingSheets.delete(sheetId);
         });
+    }
+  }
+
+  /**
+   * Deliver due webhooks without blocking event processing (slow endpoints
+   * would otherwise stall the tick)
+   */
+  private flushWebhooks() {
+    if (this.deliveringWebhooks) {
+      return;
+    }
+
+    this.deliveringWebhooks = true;
+
+    void getWebhookDispatcher()
+      .deliverDue()
+      .catch((error) => {
+        console.error('[BackgroundProcessor] Error delivering webhooks:', error);
+      })
+      .finally(() => {
+        this.deliveringWebhooks = false;
+      });
+  }
+
+  /**
+   * Requeue events whose worker stopped renewing its lease (crashed or
+   * redeployed instance), at most every reapInterval
+   */
+  private async reapLeases() {
+    if (Date.now() - this.lastReapAt < this.reapInterval) {
+      return;
+    }
+
+    this.lastReapAt = Date.now();
+
+    try {
+      await reapExpiredLeases();
+    } catch (error) {
+      console.error('[BackgroundProcessor] Error reaping expired leases:', error);
+    }
+  }
+
+  /**
+   * Trim the change feed log (clients only replay across short disconnects)
+   * API rate limit counters for windows long past, idempotency keys no
+   * longer replayed, and expired operator cache entries
+   */
+  private async pruneLogs() {
+    if (Date.now() - this.lastPruneAt < this.pruneInterval) {
+      return;
+    }
+
+    this.lastPruneAt = Date.now();
 
-      processingPromises.push(promise);
+    try {
+      const pruned = await getSheetChangeFeed().prune();
+      if (pruned > 0) {
+        console.log(`[BackgroundProcessor] Pruned ${pruned} old sheet changes`);
+      }
+    } catch (error) {
+      console.error('[BackgroundProcessor] Error pruning sheet changes:', error);
     }
 
-    await Promise.allSettled(processingPromises);
+    try {
+      const pruned = await pruneApiKeyUsage();
+      if (pruned > 0) {
+        console.log(`[BackgroundProcessor] Pruned ${pruned} old API rate limit counters`);
+      }
+    } catch (error) {
+      console.error('[BackgroundProcessor] Error pruning API rate limit counters:', error);
+    }
+
+    try {
+      const pruned = await pruneIdempotencyKeys();
+      if (pruned > 0) {
+        console.log(`[BackgroundProcessor] Pruned ${pruned} expired idempotency keys`);
+      }
+    } catch (error) {
+      console.error('[BackgroundProcessor] Error pruning idempotency keys:', error);
+    }
+
+    try {
+      const pruned = await pruneOperatorCache();
+      if (pruned > 0) {
+        console.log(`[BackgroundProcessor] Pruned ${pruned} expired operator cache entries`);
+      }
+    } catch (error) {
+      console.error('[BackgroundProcessor] Error pruning operator cache:', error);
+    }
   }
 
   private sleep(ms: number): Promise<void> {
@@ -0,0 +1,217 @@
+/**
+ * Budget Guard
+ *
+ * Compares this month's Gemini usage (from gemini_usage_log) against the
+ * user's account budget and the sheet's optional cap. Sheets in a workspace
+ * are billed to the workspace instead, so its shared budget applies in place
+ * of the account budget. Sheets over budget have their pending events parked
+ * as 'paused_budget' until someone raises the limit and resumes, or the month
+ * rolls over.
+ */
+
+import { db } from "@/server/db";
+import { users, sheets, workspaces, eventQueue, geminiUsageLog } from "@/server/db/schema";
+import { eq, and, gte, sql } from "drizzle-orm";
+
+export interface BudgetUsage {
+  spendUsd: number;
+  tokens: number;
+  budgetUsd: number | null;
+  tokenBudget: number | null;
+}
+
+export interface BudgetStatus {
+  periodStart: Date;
+  user: BudgetUsage;
+  workspace: (BudgetUsage & { id: string; name: string }) | null;
+  sheet: BudgetUsage | null;
+  exceeded: { scope: 'user' | 'workspace' | 'sheet'; reason: string } | null;
+}
+
+/**
+ * Start of the current budget period (first day of the month, UTC)
+ */
+export function getBudgetPeriodStart(now = new Date()): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+}
+
+/**
+ * Spend since a date for a user's account, a workspace, or a sheet across all its members
+ */
+async function sumUsage(since: Date, scope: { userId: string } | { workspaceId: string } | { sheetId: string }) {
+  const [totals] = await db
+    .select({
+      spendUsd: sql<number>`coalesce(sum(${geminiUsageLog.estimatedCost}), 0)`.mapWith(Number),
+      tokens: sql<number>`coalesce(sum(${geminiUsageLog.totalTokens}), 0)`.mapWith(Number),
+    })
+    .from(geminiUsageLog)
+    .where(and(
+      'sheetId' in scope
+        ? eq(geminiUsageLog.sheetId, scope.sheetId)
+        : 'workspaceId' in scope
+          ? eq(geminiUsageLog.workspaceId, scope.workspaceId)
+          : eq(geminiUsageLog.userId, scope.userId),
+      gte(geminiUsageLog.createdAt, since)
+    ));
+
+  return totals ?? { spendUsd: 0, tokens: 0 };
+}
+
+function exceededReason(usage: BudgetUsage, label: string): string | null {
+  if (usage.budgetUsd !== null && usage.spendUsd >= usage.budgetUsd) {
+    return `${label} monthly budget of $${usage.budgetUsd.toFixed(2)} reached ($${usage.spendUsd.toFixed(2)} spent)`;
+  }
+  if (usage.tokenBudget !== null && usage.tokens >= usage.tokenBudget) {
+    return `${label} monthly token budget of ${usage.tokenBudget.toLocaleString()} reached (${usage.tokens.toLocaleString()} used)`;
+  }
+  return null;
+}
+
+function wrapReason(scope: 'user' | 'workspace' | 'sheet', reason: string | null): BudgetStatus['exceeded'] {
+  return reason ? { scope, reason } : null;
+}
+
+/**
+ * Current month's usage vs. limits for a user, and optionally one of their
+ * sheets or workspaces (a sheet's own workspace takes precedence)
+ */
+export async function getBudgetStatus(
+  userId: string,
+  sheetId?: string,
+  workspaceId?: string | null
+): Promise<BudgetStatus> {
+  const periodStart = getBudgetPeriodStart();
+
+  const user = await db.query.users.findFirst({
+    where: eq(users.id, userId),
+    columns: { monthlyBudgetUsd: true, monthlyTokenBudget: true },
+  });
+
+  const sheet = sheetId
+    ? await db.query.sheets.findFirst({
+        where: eq(sheets.id, sheetId),
+        columns: { workspaceId: true, monthlyBudgetUsd: true, monthlyTokenBudget: true },
+      })
+    : undefined;
+
+  const userUsage = await sumUsage(periodStart, { userId });
+  const userBudget: BudgetUsage = {
+    ...userUsage,
+    budgetUsd: user?.monthlyBudgetUsd != null ? Number(user.monthlyBudgetUsd) : null,
+    tokenBudget: user?.monthlyTokenBudget ?? null,
+  };
+
+  const billedWorkspaceId = sheetId ? sheet?.workspaceId : workspaceId;
+  const workspace = billedWorkspaceId
+    ? await db.query.workspaces.findFirst({
+        where: eq(workspaces.id, billedWorkspaceId),
+        columns: { id: true, name: true, monthlyBudgetUsd: true, monthlyTokenBudget: true },
+      })
+    : undefined;
+
+  let workspaceBudget: BudgetStatus['workspace'] = null;
+  if (workspace) {
+    const workspaceUsage = await sumUsage(periodStart, { workspaceId: workspace.id });
+    workspaceBudget = {
+      ...workspaceUsage,
+      id: workspace.id,
+      name: workspace.name,
+      budgetUsd: workspace.monthlyBudgetUsd != null ? Number(workspace.monthlyBudgetUsd) : null,
+      tokenBudget: workspace.monthlyTokenBudget ?? null,
+    };
+  }
+
+  let sheetBudget: BudgetUsage | null = null;
+  if (sheetId) {
+    const sheetUsage = await sumUsage(periodStart, { sheetId });
+    sheetBudget = {
+      ...sheetUsage,
+      budgetUsd: sheet?.monthlyBudgetUsd != null ? Number(sheet.monthlyBudgetUsd) : null,
+      tokenBudget: sheet?.monthlyTokenBudget ?? null,
+    };
+  }
+
+  // Workspace usage is billed to the workspace, not the member's account
+  const accountExceeded: BudgetStatus['exceeded'] = workspaceBudget
+    ? wrapReason('workspace', exceededReason(workspaceBudget, 'Workspace'))
+    : wrapReason('user', exceededReason(userBudget, 'Account'));
+  const sheetReason = sheetBudget ? exceededReason(sheetBudget, 'Sheet') : null;
+
+  return {
+    periodStart,
+    user: userBudget,
+    workspace: workspaceBudget,
+    sheet: sheetBudget,
+    exceeded: accountExceeded ?? wrapReason('sheet', sheetReason),
+  };
+}
+
+/**
+ * Check a sheet's budget before dispatching its events
+ *
+ * @returns true if processing may continue; false if the sheet is over budget
+ *          (its pending events are moved to 'paused_budget')
+ */
+export async function enforceSheetBudget(userId: string, sheetId: string): Promise<boolean> {
+  const status = await getBudgetStatus(userId, sheetId);
+
+  if (!status.exceeded) {
+    return true;
+  }
+
+  const paused = await db
+    .update(eventQueue)
+    .set({
+      status: 'paused_budget',
+      lastError: status.exceeded.reason,
+    })
+    .where(and(
+      eq(eventQueue.sheetId, sheetId),
+      eq(eventQueue.status, 'pending')
+    ))
+    .returning({ id: eventQueue.id });
+
+  if (paused.length > 0) {
+    console.warn(`[BudgetGuard] Paused ${paused.length} events for sheet ${sheetId}: ${status.exceeded.reason}`);
+  }
+
+  return false;
+}
+
+/**
+ * Move a sheet's budget-paused events back to pending
+ *
+ * @returns number of events resumed
+ */
+export async function resumeSheetEvents(sheetId: string): Promise<number> {
+  const resumed = await db
+    .update(eventQueue)
+    .set({
+      status: 'pending',
+      lastError: null,
+    })
+    .where(and(
+      eq(eventQueue.sheetId, sheetId),
+      eq(eventQueue.status, 'paused_budget')
+    ))
+    .returning({ id: eventQueue.id });
+
+  console.log(`[BudgetGuard] Resumed ${resumed.length} events for sheet ${sheetId}`);
+
+  return resumed.length;
+}
+
+/**
+ * Number of a sheet's events currently parked by the budget guard
+ */
+export async function countPausedEvents(sheetId: string): Promise<number> {
+  const [result] = await db
+    .select({ count: sql<number>`count(*)`.mapWith(Number) })
+    .from(eventQueue)
+    .where(and(
+      eq(eventQueue.sheetId, sheetId),
+      eq(eventQueue.status, 'paused_budget')
+    ));
+
+  return result?.count ?? 0;
+}
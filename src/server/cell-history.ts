@@ -0,0 +1,198 @@
+/**
+ * Cell History
+ *
+ * Every write to a cell is also recorded in sheet_updates, with the value it
+ * replaced, what kind of write it was and (for operator results) the operator.
+ * That log is a cell's version history: it answers what a cell held at any
+ * point in time, which is what reverting a cell or row and the "what changed
+ * since" sheet diff are built on. A deleted column's entries are kept but
+ * marked (deletedColumnTitle) and left out of both.
+ */
+
+import { db } from "@/server/db";
+import { sheetUpdates, users } from "@/server/db/schema";
+import { and, asc, desc, eq, gte, isNotNull, isNull } from "drizzle-orm";
+
+type DbExecutor = Pick<typeof db, 'insert'>;
+
+export type CellUpdateType =
+  | 'user_edit'
+  | 'ai_response'
+  | 'auto_copy'
+  | 'clear'
+  | 'reprocess'
+  | 'row_delete'
+  | 'revert';
+
+export interface CellChange {
+  rowIndex: number;
+  colIndex: number;
+  previousContent: string | null;
+  content: string | null;
+}
+
+export interface CellHistoryEntry {
+  id: string;
+  rowIndex: number;
+  colIndex: number;
+  content: string | null;
+  previousContent: string | null;
+  updateType: string;
+  operatorName: string | null;
+  userId: string;
+  userName: string | null;
+  createdAt: Date | null;
+}
+
+export interface SheetCellDiff {
+  rowIndex: number;
+  colIndex: number;
+  before: string | null;
+  after: string | null;
+  changes: number;
+  lastUpdateType: string;
+  lastOperatorName: string | null;
+  lastUserName: string | null;
+  lastChangedAt: Date | null;
+}
+
+function isSame(a: string | null | undefined, b: string | null | undefined): boolean {
+  return (a ?? '') === (b ?? '');
+}
+
+/**
+ * Record applied cell writes, skipping ones that didn't change the value
+ */
+export async function recordCellChanges(
+  executor: DbExecutor,
+  sheetId: string,
+  userId: string,
+  updateType: CellUpdateType,
+  changes: CellChange[],
+  operatorName: string | null = null
+): Promise<void> {
+  const changed = changes.filter(change => !isSame(change.previousContent, change.content));
+  if (changed.length === 0) {
+    return;
+  }
+
+  const appliedAt = new Date();
+  await executor.insert(sheetUpdates).values(changed.map(change => ({
+    sheetId,
+    userId,
+    rowIndex: change.rowIndex,
+    colIndex: change.colIndex,
+    content: change.content,
+    previousContent: change.previousContent,
+    updateType,
+    operatorName,
+    appliedAt,
+  })));
+}
+
+const entryColumns = {
+  id: sheetUpdates.id,
+  rowIndex: sheetUpdates.rowIndex,
+  colIndex: sheetUpdates.colIndex,
+  content: sheetUpdates.content,
+  previousContent: sheetUpdates.previousContent,
+  updateType: sheetUpdates.updateType,
+  operatorName: sheetUpdates.operatorName,
+  userId: sheetUpdates.userId,
+  userName: users.name,
+  createdAt: sheetUpdates.createdAt,
+};
+
+/**
+ * A row's recorded writes, newest first; pass colIndex for a single cell
+ */
+export async function getRowHistory(
+  sheetId: string,
+  rowIndex: number,
+  colIndex?: number
+): Promise<CellHistoryEntry[]> {
+  return db
+    .select(entryColumns)
+    .from(sheetUpdates)
+    .leftJoin(users, eq(users.id, sheetUpdates.userId))
+    .where(and(
+      eq(sheetUpdates.sheetId, sheetId),
+      eq(sheetUpdates.rowIndex, rowIndex),
+      colIndex === undefined ? undefined : eq(sheetUpdates.colIndex, colIndex),
+      isNotNull(sheetUpdates.appliedAt),
+      isNull(sheetUpdates.deletedColumnTitle)
+    ))
+    .orderBy(desc(sheetUpdates.createdAt))
+    .limit(500);
+}
+
+/**
+ * What each of a row's cells held at a point in time, for cells whose history covers it
+ *
+ * A cell's value at `at` is what its last write up to then wrote or, if it
+ * was first written afterwards, what that first write replaced.
+ */
+export function valuesAt(entries: CellHistoryEntry[], at: Date): Map<number, string | null> {
+  const values = new Map<number, string | null>();
+  const oldestFirst = [...entries].sort((a, b) => (a.createdAt?.getTime() ?? 0) - (b.createdAt?.getTime() ?? 0));
+
+  for (const entry of oldestFirst) {
+    const writtenAt = entry.createdAt?.getTime() ?? 0;
+    if (writtenAt <= at.getTime()) {
+      values.set(entry.colIndex, entry.content);
+    } else if (!values.has(entry.colIndex)) {
+      values.set(entry.colIndex, entry.previousContent);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Cells whose value changed since a point in time, with their value then and now
+ *
+ * Cells changed and then changed back are left out.
+ */
+export async function getSheetChangesSince(sheetId: string, since: Date): Promise<SheetCellDiff[]> {
+  const entries = await db
+    .select(entryColumns)
+    .from(sheetUpdates)
+    .leftJoin(users, eq(users.id, sheetUpdates.userId))
+    .where(and(
+      eq(sheetUpdates.sheetId, sheetId),
+      gte(sheetUpdates.createdAt, since),
+      isNotNull(sheetUpdates.appliedAt),
+      isNull(sheetUpdates.deletedColumnTitle)
+    ))
+    .orderBy(asc(sheetUpdates.createdAt))
+    .limit(10000);
+
+  const diffs = new Map<string, SheetCellDiff>();
+  for (const entry of entries) {
+    const key = `${entry.rowIndex}:${entry.colIndex}`;
+    const diff = diffs.get(key);
+    const last = {
+      after: entry.content,
+      lastUpdateType: entry.updateType,
+      lastOperatorName: entry.operatorName,
+      lastUserName: entry.userName,
+      lastChangedAt: entry.createdAt,
+    };
+
+    if (diff) {
+      Object.assign(diff, last, { changes: diff.changes + 1 });
+    } else {
+      diffs.set(key, {
+        rowIndex: entry.rowIndex,
+        colIndex: entry.colIndex,
+        before: entry.previousContent,
+        changes: 1,
+        ...last,
+      });
+    }
+  }
+
+  return [...diffs.values()]
+    .filter(diff => !isSame(diff.before, diff.after))
+    .sort((a, b) => a.rowIndex - b.rowIndex || a.colIndex - b.colIndex);
+}
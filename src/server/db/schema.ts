@@ -1,6 +1,7 @@
 import { relations } from "drizzle-orm";
-import { index, pgTableCreator, primaryKey, unique } from "drizzle-orm/pg-core";
+import { index, pgTableCreator, primaryKey, unique, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { type AdapterAccount } from "next-auth/adapters";
+import type { AgentActionState, CellProvenance, CellValidation, SnapshotCell, SnapshotColumn } from "@/types/spreadsheet";
 
 /**
  * This is an example of how to use the multi-project schema feature of Drizzle ORM. Use the same
@@ -46,8 +47,9 @@ export const users = createTable("user", (d) => ({
     })
     .$defaultFn(() => /* @__PURE__ */ new Date()),
   image: d.varchar({ length: 255 }),
-  apiKey: d.varchar({ length: 64 }).unique(),
-  apiKeyCreatedAt: d.timestamp({ mode: "date", withTimezone: true }),
+  monthlyBudgetUsd: d.numeric({ precision: 10, scale: 2 }), // Gemini spend cap per calendar month (null = unlimited)
+  monthlyTokenBudget: d.integer(), // Gemini token cap per calendar month (null = unlimited)
+  activeWorkspaceId: d.uuid().references((): AnyPgColumn => workspaces.id, { onDelete: 'set null' }), // null = personal
 }));
 
 export const usersRelations = relations(users, ({ many }) => ({
@@ -109,35 +111,216 @@ export const verificationTokens = createTable(
   (t) => [primaryKey({ columns: [t.identifier, t.token] })]
 );
 
+// Team that owns sheets, templates, API keys and a shared budget
+export const workspaces = createTable(
+  "workspace",
+  (d) => ({
+    id: d.uuid().primaryKey().defaultRandom(),
+    name: d.varchar({ length: 255 }).notNull(),
+    createdBy: d.varchar({ length: 255 }).references(() => users.id, { onDelete: 'set null' }),
+    monthlyBudgetUsd: d.numeric({ precision: 10, scale: 2 }), // Gemini spend cap across the workspace's sheets (null = unlimited)
+    monthlyTokenBudget: d.integer(), // Gemini token cap across the workspace's sheets (null = unlimited)
+    createdAt: d.timestamp({ withTimezone: true }).defaultNow(),
+    updatedAt: d.timestamp({ withTimezone: true }).defaultNow().$onUpdate(() => new Date()),
+  })
+);
+
+export const workspaceMembers = createTable(
+  "workspace_member",
+  (d) => ({
+    id: d.uuid().primaryKey().defaultRandom(),
+    workspaceId: d.uuid().notNull().references(() => workspaces.id, { onDelete: 'cascade' }),
+    userId: d.varchar({ length: 255 }).notNull().references(() => users.id, { onDelete: 'cascade' }),
+    role: d.varchar({ length: 20 }).notNull().default('member'), // 'owner', 'member'
+    createdAt: d.timestamp({ withTimezone: true }).defaultNow(),
+  }),
+  (t) => [
+    index("workspace_member_user_idx").on(t.userId),
+    unique("workspace_member_unique").on(t.workspaceId, t.userId),
+  ]
+);
+
+export const workspaceInvites = createTable(
+  "workspace_invite",
+  (d) => ({
+    id: d.uuid().primaryKey().defaultRandom(),
+    workspaceId: d.uuid().notNull().references(() => workspaces.id, { onDelete: 'cascade' }),
+    email: d.varchar({ length: 255 }).notNull(), // Stored lowercase
+    role: d.varchar({ length: 20 }).notNull().default('member'), // 'owner', 'member'
+    invitedBy: d.varchar({ length: 255 }).references(() => users.id, { onDelete: 'set null' }), // null once the inviter's account is deleted
+    createdAt: d.timestamp({ withTimezone: true }).defaultNow(),
+  }),
+  (t) => [
+    index("workspace_invite_email_idx").on(t.email),
+    unique("workspace_invite_unique").on(t.workspaceId, t.email),
+  ]
+);
+
+export const workspacesRelations = relations(workspaces, ({ many }) => ({
+  members: many(workspaceMembers),
+  invites: many(workspaceInvites),
+  sheets: many(sheets),
+  templates: many(templates),
+}));
+
+export const workspaceMembersRelations = relations(workspaceMembers, ({ one }) => ({
+  workspace: one(workspaces, { fields: [workspaceMembers.workspaceId], references: [workspaces.id] }),
+  user: one(users, { fields: [workspaceMembers.userId], references: [users.id] }),
+}));
+
+export const workspaceInvitesRelations = relations(workspaceInvites, ({ one }) => ({
+  workspace: one(workspaces, { fields: [workspaceInvites.workspaceId], references: [workspaces.id] }),
+}));
+
 export const sheets = createTable(
   "sheet",
   (d) => ({
     id: d.uuid().primaryKey().defaultRandom(),
-    userId: d.varchar({ length: 255 }).notNull().references(() => users.id),
+    userId: d.varchar({ length: 255 }).notNull().references(() => users.id), // Billing/processing account (creator, or a workspace owner once the creator leaves)
+    workspaceId: d.uuid().references(() => workspaces.id, { onDelete: 'restrict' }), // null = personal sheet; a workspace is deleted only once its sheets are moved or deleted
     name: d.varchar({ length: 255 }).notNull().default('Untitled Sheet'),
     templateType: d.varchar({ length: 50 }),
     templateId: d.uuid().references(() => templates.id),
     isAutonomous: d.boolean().default(false),
     webhookUrl: d.varchar({ length: 500 }),
     webhookEvents: d.jsonb(), // Array of event types: ['row_complete', 'sheet_complete', 'error']
+    webhookSecret: d.varchar({ length: 64 }), // HMAC secret used to sign webhook payloads
+    monthlyBudgetUsd: d.numeric({ precision: 10, scale: 2 }), // Optional per-sheet spend cap per calendar month
+    monthlyTokenBudget: d.integer(), // Optional per-sheet token cap per calendar month
+    maxConcurrency: d.integer(), // Rows processed in parallel (null = RATE_LIMIT_CONFIG.defaultSheetConcurrency)
     createdAt: d.timestamp({ withTimezone: true }).defaultNow(),
     updatedAt: d.timestamp({ withTimezone: true }).defaultNow().$onUpdate(() => new Date()),
   }),
   (t) => [
     index("sheet_user_idx").on(t.userId),
+    index("sheet_workspace_idx").on(t.workspaceId),
     index("sheet_template_idx").on(t.templateId),
   ]
 );
 
+// Who can open a sheet and what they can do; the creator is added as 'owner'
+export const sheetMembers = createTable(
+  "sheet_member",
+  (d) => ({
+    id: d.uuid().primaryKey().defaultRandom(),
+    sheetId: d.uuid().notNull().references(() => sheets.id, { onDelete: 'cascade' }),
+    userId: d.varchar({ length: 255 }).notNull().references(() => users.id, { onDelete: 'cascade' }),
+    role: d.varchar({ length: 20 }).notNull().default('viewer'), // 'owner', 'editor', 'viewer'
+    invitedBy: d.varchar({ length: 255 }).references(() => users.id, { onDelete: 'set null' }),
+    createdAt: d.timestamp({ withTimezone: true }).defaultNow(),
+    updatedAt: d.timestamp({ withTimezone: true }).defaultNow().$onUpdate(() => new Date()),
+  }),
+  (t) => [
+    index("sheet_member_user_idx").on(t.userId),
+    unique("sheet_member_unique").on(t.sheetId, t.userId),
+  ]
+);
+
+// Pending invitations, matched to an account by email when the invitee signs in
+export const sheetInvites = createTable(
+  "sheet_invite",
+  (d) => ({
+    id: d.uuid().primaryKey().defaultRandom(),
+    sheetId: d.uuid().notNull().references(() => sheets.id, { onDelete: 'cascade' }),
+    email: d.varchar({ length: 255 }).notNull(), // Stored lowercase
+    role: d.varchar({ length: 20 }).notNull().default('viewer'), // 'owner', 'editor', 'viewer'
+    invitedBy: d.varchar({ length: 255 }).references(() => users.id, { onDelete: 'set null' }), // null once the inviter's account is deleted
+    createdAt: d.timestamp({ withTimezone: true }).defaultNow(),
+  }),
+  (t) => [
+    index("sheet_invite_email_idx").on(t.email),
+    unique("sheet_invite_unique").on(t.sheetId, t.email),
+  ]
+);
+
+export const sheetMembersRelations = relations(sheetMembers, ({ one }) => ({
+  sheet: one(sheets, { fields: [sheetMembers.sheetId], references: [sheets.id] }),
+  user: one(users, { fields: [sheetMembers.userId], references: [users.id] }),
+}));
+
+export const sheetInvitesRelations = relations(sheetInvites, ({ one }) => ({
+  sheet: one(sheets, { fields: [sheetInvites.sheetId], references: [sheets.id] }),
+}));
+
+// REST API credentials; only a SHA-256 hash of the secret is stored
+export const apiKeys = createTable(
+  "api_key",
+  (d) => ({
+    id: d.uuid().primaryKey().defaultRandom(),
+    userId: d.varchar({ length: 255 }).references(() => users.id, { onDelete: 'cascade' }), // Personal keys act as this user
+    workspaceId: d.uuid().references(() => workspaces.id, { onDelete: 'cascade' }), // Workspace keys act for the workspace
+    createdBy: d.varchar({ length: 255 }).references(() => users.id, { onDelete: 'set null' }),
+    name: d.varchar({ length: 255 }).notNull(),
+    prefix: d.varchar({ length: 16 }).notNull(), // First characters of the secret, shown to tell keys apart
+    keyHash: d.varchar({ length: 64 }).notNull().unique(), // Hex SHA-256 of the full secret
+    scopes: d.jsonb().$type<string[]>().notNull(), // 'read', 'write_rows', 'manage_sheets'
+    sheetId: d.uuid().references(() => sheets.id, { onDelete: 'cascade' }), // Restrict the key to one sheet
+    rateLimitPerMinute: d.integer(), // Requests per minute (null = default)
+    dailyRowQuota: d.integer(), // Rows added per UTC day (null = default)
+    expiresAt: d.timestamp({ withTimezone: true }),
+    lastUsedAt: d.timestamp({ withTimezone: true }),
+    lastUsedIp: d.varchar({ length: 64 }),
+    revokedAt: d.timestamp({ withTimezone: true }),
+    createdAt: d.timestamp({ withTimezone: true }).defaultNow(),
+  }),
+  (t) => [
+    index("api_key_user_idx").on(t.userId),
+    index("api_key_workspace_idx").on(t.workspaceId),
+  ]
+);
+
+// Fixed-window counters for API key rate limits and quotas
+export const apiKeyUsage = createTable(
+  "api_key_usage",
+  (d) => ({
+    id: d.uuid().primaryKey().defaultRandom(),
+    apiKeyId: d.uuid().notNull().references(() => apiKeys.id, { onDelete: 'cascade' }),
+    bucket: d.varchar({ length: 20 }).notNull(), // 'requests' (per minute), 'rows' (per UTC day)
+    windowStart: d.timestamp({ withTimezone: true }).notNull(),
+    count: d.integer().notNull().default(0),
+  }),
+  (t) => [
+    unique("api_key_usage_window_unique").on(t.apiKeyId, t.bucket, t.windowStart),
+    index("api_key_usage_window_idx").on(t.windowStart),
+  ]
+);
+
+// Responses to API requests sent with an Idempotency-Key header, replayed when the client retries
+export const apiIdempotencyKeys = createTable(
+  "api_idempotency_key",
+  (d) => ({
+    id: d.uuid().primaryKey().defaultRandom(),
+    apiKeyId: d.uuid().notNull().references(() => apiKeys.id, { onDelete: 'cascade' }),
+    key: d.varchar({ length: 255 }).notNull(),
+    requestHash: d.varchar({ length: 64 }).notNull(), // Hex SHA-256 of method, path and body
+    responseStatus: d.integer(), // Null while the first request is still running
+    responseBody: d.jsonb(),
+    createdAt: d.timestamp({ withTimezone: true }).defaultNow(),
+  }),
+  (t) => [
+    unique("api_idempotency_key_unique").on(t.apiKeyId, t.key),
+    index("api_idempotency_key_created_idx").on(t.createdAt),
+  ]
+);
+
+export const apiKeysRelations = relations(apiKeys, ({ one }) => ({
+  user: one(users, { fields: [apiKeys.userId], references: [users.id] }),
+  workspace: one(workspaces, { fields: [apiKeys.workspaceId], references: [workspaces.id] }),
+  sheet: one(sheets, { fields: [apiKeys.sheetId], references: [sheets.id] }),
+}));
+
 export const cells = createTable(
   "cell",
   (d) => ({
     id: d.uuid().primaryKey().defaultRandom(),
     sheetId: d.uuid().notNull().references(() => sheets.id, { onDelete: 'cascade' }),
-    userId: d.varchar({ length: 255 }).notNull().references(() => users.id),
+    userId: d.varchar({ length: 255 }).notNull().references(() => users.id), // Last writer
     rowIndex: d.integer().notNull(),
     colIndex: d.integer().notNull(),
     content: d.text(),
+    provenance: d.jsonb().$type<CellProvenance>(), // Sources of an operator-written value (null once anything else writes it)
+    confidence: d.real(), // 0.0 - 1.0 quality score of an operator-written value, null like provenance
+    validation: d.jsonb().$type<CellValidation>(), // Issues and suggestions behind the confidence
     createdAt: d.timestamp({ withTimezone: true }).defaultNow(),
     updatedAt: d.timestamp({ withTimezone: true }).defaultNow().$onUpdate(() => new Date()),
   }),
@@ -145,7 +328,7 @@ export const cells = createTable(
     index("cell_sheet_idx").on(t.sheetId),
     index("cell_position_idx").on(t.rowIndex, t.colIndex),
     index("cell_user_idx").on(t.userId),
-    unique("cell_unique_position").on(t.sheetId, t.userId, t.rowIndex, t.colIndex),
+    unique("cell_unique_position").on(t.sheetId, t.rowIndex, t.colIndex),
   ]
 );
 
@@ -157,9 +340,14 @@ export const eventQueue = createTable(
     userId: d.varchar({ length: 255 }).notNull().references(() => users.id),
     eventType: d.varchar({ length: 100 }).notNull(),
     payload: d.jsonb().notNull(),
-    status: d.varchar({ length: 20 }).default('pending'), // 'pending', 'processing', 'completed', 'failed', 'awaiting_clarification'
+    status: d.varchar({ length: 30 }).default('pending'), // 'pending', 'processing', 'completed', 'failed', 'discarded', 'awaiting_clarification', 'paused_budget'
     retryCount: d.integer().default(0),
     lastError: d.text(),
+    nextAttemptAt: d.timestamp({ withTimezone: true }), // Retry backoff: not picked up before this time
+    operatorName: d.varchar({ length: 50 }), // Operator used on the last attempt
+    lastPrompt: d.text(), // Prompt sent on the last attempt (shown in the failed-events inspector)
+    lockedBy: d.varchar({ length: 100 }), // Worker holding the processing lease
+    lockedUntil: d.timestamp({ withTimezone: true }), // Lease expiry; renewed by heartbeat, reaped when past
     createdAt: d.timestamp({ withTimezone: true }).defaultNow(),
     processedAt: d.timestamp({ withTimezone: true }),
   }),
@@ -180,7 +368,10 @@ export const sheetUpdates = createTable(
     rowIndex: d.integer().notNull(),
     colIndex: d.integer().notNull(),
     content: d.text(),
-    updateType: d.varchar({ length: 50 }).notNull(), // 'user_edit', 'ai_response', 'auto_copy'
+    previousContent: d.text(), // The cell's value before this change; null if it was empty or unknown
+    updateType: d.varchar({ length: 50 }).notNull(), // 'user_edit', 'ai_response', 'auto_copy', 'clear', 'reprocess', 'row_delete', 'revert'
+    operatorName: d.varchar({ length: 100 }), // Operator behind an 'ai_response'
+    deletedColumnTitle: d.varchar({ length: 255 }), // Set once the cell's column is deleted: kept, but colIndex no longer refers to it
     createdAt: d.timestamp({ withTimezone: true }).defaultNow(),
     appliedAt: d.timestamp({ withTimezone: true }),
   }),
@@ -193,6 +384,46 @@ export const sheetUpdates = createTable(
   ]
 );
 
+// Named copies of a sheet's columns and cells, to diff against, restore or fork into a new sheet
+export const sheetSnapshots = createTable(
+  "sheet_snapshot",
+  (d) => ({
+    id: d.uuid().primaryKey().defaultRandom(),
+    sheetId: d.uuid().notNull().references(() => sheets.id, { onDelete: 'cascade' }),
+    name: d.varchar({ length: 255 }).notNull(),
+    trigger: d.varchar({ length: 50 }).notNull().default('manual'), // 'manual', 'before_reprocess', 'before_restore', 'agent'
+    createdBy: d.varchar({ length: 255 }).references(() => users.id, { onDelete: 'set null' }), // null for agent snapshots
+    columns: d.jsonb().$type<SnapshotColumn[]>().notNull(),
+    cells: d.jsonb().$type<SnapshotCell[]>().notNull(),
+    cellCount: d.integer().notNull(),
+    createdAt: d.timestamp({ withTimezone: true }).defaultNow(),
+  }),
+  (t) => [
+    index("sheet_snapshot_sheet_idx").on(t.sheetId, t.createdAt),
+  ]
+);
+
+// Sheet changes made by the agent's tools, with the state they replaced so they can be undone (and redone)
+export const agentActions = createTable(
+  "agent_action",
+  (d) => ({
+    id: d.uuid().primaryKey().defaultRandom(),
+    sheetId: d.uuid().notNull().references(() => sheets.id, { onDelete: 'cascade' }),
+    turnId: d.varchar({ length: 255 }), // The agent chat turn the action was taken in
+    tool: d.varchar({ length: 100 }).notNull(),
+    description: d.text().notNull(),
+    status: d.varchar({ length: 20 }).notNull().default('applied'), // 'applied', 'undone'
+    undoState: d.jsonb().$type<AgentActionState>().notNull(), // What the action replaced
+    redoState: d.jsonb().$type<AgentActionState>(), // What undoing it replaced, while undone
+    createdAt: d.timestamp({ withTimezone: true }).defaultNow(),
+    undoneAt: d.timestamp({ withTimezone: true }),
+  }),
+  (t) => [
+    index("agent_action_sheet_idx").on(t.sheetId, t.createdAt),
+    index("agent_action_turn_idx").on(t.turnId),
+  ]
+);
+
 export const geminiUsageLog = createTable(
   "gemini_usage_log",
   (d) => ({
@@ -207,9 +438,12 @@ export const geminiUsageLog = createTable(
     totalTokens: d.integer().notNull().default(0),
     estimatedCost: d.numeric({ precision: 10, scale: 6 }).notNull().default("0"), // USD
     eventId: d.uuid(), // Reference to event_queue if applicable
+    sheetId: d.uuid().references(() => sheets.id, { onDelete: 'cascade' }), // Sheet the call was made for (null for templates/agent-only calls)
+    workspaceId: d.uuid().references(() => workspaces.id, { onDelete: 'set null' }), // Workspace billed for the call
+    colIndex: d.integer(), // Column being filled when called from an operator
     requestData: d.jsonb(), // Store request details for debugging
     responseData: d.jsonb(), // Store response metadata
-    status: d.varchar({ length: 20 }).notNull().default('success'), // 'success', 'error'
+    status: d.varchar({ length: 20 }).notNull().default('success'), // 'success', 'error', 'cache_hit' (served from operator_cache, no tokens)
     errorMessage: d.text(),
     durationMs: d.integer(), // Request duration in milliseconds
     createdAt: d.timestamp({ withTimezone: true }).defaultNow(),
@@ -219,6 +453,27 @@ export const geminiUsageLog = createTable(
     index("gemini_usage_operator_idx").on(t.operatorName),
     index("gemini_usage_created_idx").on(t.createdAt),
     index("gemini_usage_event_idx").on(t.eventId),
+    index("gemini_usage_sheet_idx").on(t.sheetId, t.createdAt),
+    index("gemini_usage_workspace_idx").on(t.workspaceId, t.createdAt),
+  ]
+);
+
+// Operator results reused for identical inputs (same operator, model and normalized input) until they expire
+export const operatorCache = createTable(
+  "operator_cache",
+  (d) => ({
+    id: d.uuid().primaryKey().defaultRandom(),
+    operatorName: d.varchar({ length: 100 }).notNull(),
+    model: d.varchar({ length: 100 }).notNull(),
+    inputHash: d.varchar({ length: 64 }).notNull(), // Hex SHA-256 of the normalized operator input
+    output: d.jsonb().notNull(),
+    hitCount: d.integer().notNull().default(0),
+    createdAt: d.timestamp({ withTimezone: true }).defaultNow(),
+    expiresAt: d.timestamp({ withTimezone: true }).notNull(),
+  }),
+  (t) => [
+    unique("operator_cache_key_unique").on(t.operatorName, t.model, t.inputHash),
+    index("operator_cache_expires_idx").on(t.expiresAt),
   ]
 );
 
@@ -230,7 +485,7 @@ export const cellProcessingStatus = createTable(
     userId: d.varchar({ length: 255 }).notNull().references(() => users.id),
     rowIndex: d.integer().notNull(),
     colIndex: d.integer().notNull(),
-    status: d.varchar({ length: 20 }).notNull().default('idle'), // 'idle', 'processing', 'completed', 'error'
+    status: d.varchar({ length: 20 }).notNull().default('idle'), // 'idle', 'processing', 'completed', 'error', 'awaiting_input'
     operatorName: d.varchar({ length: 100 }), // 'google_search', 'url_context', etc.
     statusMessage: d.varchar({ length: 255 }), // "Searching Google...", "Analyzing URL..."
     updatedAt: d.timestamp({ withTimezone: true }).defaultNow().$onUpdate(() => new Date()),
@@ -244,6 +499,7 @@ export const cellProcessingStatus = createTable(
 
 export const geminiUsageLogRelations = relations(geminiUsageLog, ({ one }) => ({
   user: one(users, { fields: [geminiUsageLog.userId], references: [users.id] }),
+  sheet: one(sheets, { fields: [geminiUsageLog.sheetId], references: [sheets.id] }),
 }));
 
 export const columns = createTable(
@@ -263,6 +519,8 @@ export const columns = createTable(
     validationRules: d.jsonb(), // JSON schema for validation
     isRequired: d.boolean().default(false), // Whether column must have value
     defaultValue: d.text(), // Default value if operator returns empty
+    isKey: d.boolean().default(false), // Rows added through the API upsert by this column's value (at most one per sheet)
+    cacheResults: d.boolean().default(true), // Reuse cached operator results for identical inputs
     createdAt: d.timestamp({ withTimezone: true }).defaultNow(),
     updatedAt: d.timestamp({ withTimezone: true }).defaultNow().$onUpdate(() => new Date()),
   }),
@@ -279,6 +537,7 @@ export const templates = createTable(
   (d) => ({
     id: d.uuid().primaryKey().defaultRandom(),
     userId: d.varchar({ length: 255 }).notNull().references(() => users.id),
+    workspaceId: d.uuid().references(() => workspaces.id, { onDelete: 'set null' }), // Shared with this workspace's members
     name: d.varchar({ length: 255 }).notNull(),
     description: d.text(),
     icon: d.varchar({ length: 100 }), // emoji or icon name
@@ -292,6 +551,7 @@ export const templates = createTable(
   }),
   (t) => [
     index("template_user_idx").on(t.userId),
+    index("template_workspace_idx").on(t.workspaceId),
     index("template_public_idx").on(t.isPublic),
     index("template_created_idx").on(t.createdAt),
   ]
@@ -299,6 +559,7 @@ export const templates = createTable(
 
 export const templatesRelations = relations(templates, ({ one, many }) => ({
   user: one(users, { fields: [templates.userId], references: [users.id] }),
+  workspace: one(workspaces, { fields: [templates.workspaceId], references: [workspaces.id] }),
   columns: many(templateColumns),
   sheets: many(sheets),
 }));
@@ -387,11 +648,86 @@ export const clarificationPromptsRelations = relations(clarificationPrompts, ({
   session: one(transformerSessions, { fields: [clarificationPrompts.sessionId], references: [transformerSessions.id] }),
 }));
 
+// Webhook delivery log - one row per outbound POST, retried with backoff until delivered or exhausted
+export const webhookDeliveries = createTable(
+  "webhook_delivery",
+  (d) => ({
+    id: d.uuid().primaryKey().defaultRandom(),
+    sheetId: d.uuid().notNull().references(() => sheets.id, { onDelete: 'cascade' }),
+    eventType: d.varchar({ length: 50 }).notNull(), // 'row_complete', 'sheet_complete', 'error', 'test'
+    url: d.varchar({ length: 500 }).notNull(), // Target URL at the time the delivery was created
+    payload: d.jsonb().notNull(),
+    status: d.varchar({ length: 20 }).notNull().default('pending'), // 'pending', 'delivered', 'failed'
+    attempts: d.integer().notNull().default(0),
+    responseStatus: d.integer(),
+    lastError: d.text(),
+    dedupeKey: d.varchar({ length: 100 }), // Set for completion events, so each completed state is delivered once
+    nextAttemptAt: d.timestamp({ withTimezone: true }).defaultNow(),
+    lastAttemptAt: d.timestamp({ withTimezone: true }),
+    deliveredAt: d.timestamp({ withTimezone: true }),
+    createdAt: d.timestamp({ withTimezone: true }).defaultNow(),
+  }),
+  (t) => [
+    index("webhook_delivery_sheet_idx").on(t.sheetId),
+    index("webhook_delivery_status_idx").on(t.status, t.nextAttemptAt),
+    index("webhook_delivery_created_idx").on(t.createdAt),
+    unique("webhook_delivery_dedupe_unique").on(t.sheetId, t.dedupeKey),
+  ]
+);
+
+export const webhookDeliveriesRelations = relations(webhookDeliveries, ({ one }) => ({
+  sheet: one(sheets, { fields: [webhookDeliveries.sheetId], references: [sheets.id] }),
+}));
+
+// Rows added through POST /api/v1/sheets/{id}/enrich; progress is derived from their cells and events
+export const enrichJobs = createTable(
+  "enrich_job",
+  (d) => ({
+    id: d.uuid().primaryKey().defaultRandom(),
+    sheetId: d.uuid().notNull().references(() => sheets.id, { onDelete: 'cascade' }),
+    apiKeyId: d.uuid().references(() => apiKeys.id, { onDelete: 'set null' }),
+    startRow: d.integer().notNull(), // First row appended
+    rowCount: d.integer().notNull(),
+    rowIndexes: d.jsonb().$type<number[]>(), // The job's rows (null: startRow .. startRow + rowCount - 1)
+    createdAt: d.timestamp({ withTimezone: true }).defaultNow(),
+    completedAt: d.timestamp({ withTimezone: true }), // Set the first time every row is found finished
+  }),
+  (t) => [
+    index("enrich_job_sheet_idx").on(t.sheetId),
+    index("enrich_job_created_idx").on(t.createdAt),
+  ]
+);
+
+export const enrichJobsRelations = relations(enrichJobs, ({ one }) => ({
+  sheet: one(sheets, { fields: [enrichJobs.sheetId], references: [sheets.id] }),
+  apiKey: one(apiKeys, { fields: [enrichJobs.apiKeyId], references: [apiKeys.id] }),
+}));
+
+export const sheetChanges = createTable(
+  "sheet_change",
+  (d) => ({
+    id: d.bigserial({ mode: 'number' }).primaryKey(), // Cursor for SSE Last-Event-ID resume
+    sheetId: d.uuid().notNull().references(() => sheets.id, { onDelete: 'cascade' }),
+    type: d.varchar({ length: 30 }).notNull(), // 'cell_update', 'status_update'
+    data: d.jsonb().notNull(),
+    createdAt: d.timestamp({ withTimezone: true }).defaultNow(),
+  }),
+  (t) => [
+    index("sheet_change_sheet_idx").on(t.sheetId, t.id),
+    index("sheet_change_created_idx").on(t.createdAt),
+  ]
+);
+
 // Add relations to existing sheets table
 export const sheetsRelations = relations(sheets, ({ one, many }) => ({
   user: one(users, { fields: [sheets.userId], references: [users.id] }),
+  workspace: one(workspaces, { fields: [sheets.workspaceId], references: [workspaces.id] }),
   template: one(templates, { fields: [sheets.templateId], references: [templates.id] }),
   cells: many(cells),
   columns: many(columns),
   events: many(eventQueue),
+  webhookDeliveries: many(webhookDeliveries),
+  enrichJobs: many(enrichJobs),
+  members: many(sheetMembers),
+  invites: many(sheetInvites),
 }));
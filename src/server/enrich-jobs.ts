@@ -0,0 +1,242 @@
+/**
+ * Enrich Jobs
+ *
+ * A job is a batch of rows added through POST /api/v1/sheets/{id}/enrich.
+ * Nothing updates the job while it runs: its progress is read back from the
+ * rows' cells, their event_queue entries and cell_processing_status, the same
+ * state the sheet UI shows.
+ */
+
+import { db } from "@/server/db";
+import { cellProcessingStatus, cells, columns, enrichJobs, eventQueue } from "@/server/db/schema";
+import { and, asc, eq, inArray, isNull, notInArray, sql } from "drizzle-orm";
+import { getSheetChangeFeed } from "@/server/realtime/sheet-change-feed";
+import { addRows, type RowValues } from "@/server/sheet-operations";
+
+// Re-check at least this often while waiting, in case a change isn't announced
+const RECHECK_INTERVAL_MS = 5000;
+
+// Let a burst of changes (one operator finishing, the next starting) settle before re-checking
+const CHANGE_SETTLE_MS = 500;
+
+/**
+ * pending/processing rows are still running; the others are finished, though
+ * awaiting_input and paused rows resume once someone answers or raises the budget
+ */
+export type EnrichRowStatus = 'pending' | 'processing' | 'completed' | 'failed' | 'awaiting_input' | 'paused';
+
+/**
+ * completed: every row completed; partial: every row finished, some not completed
+ */
+export type EnrichJobStatus = 'processing' | 'completed' | 'partial';
+
+export interface EnrichJobRow {
+  rowIndex: number;
+  status: EnrichRowStatus;
+  filledColumns: number;
+  values: string[]; // One per column, in column order
+  error: string | null; // Last error of a failed row
+}
+
+export interface EnrichJobProgress {
+  jobId: string;
+  sheetId: string;
+  status: EnrichJobStatus;
+  createdAt: string | null;
+  completedAt: string | null;
+  rowCount: number;
+  rowsFinished: number;
+  rowsCompleted: number;
+  columns: { title: string; position: number }[];
+  rows: EnrichJobRow[];
+}
+
+/**
+ * Add rows to a sheet and record them as a job
+ */
+export async function createEnrichJob(
+  sheetId: string,
+  userId: string,
+  apiKeyId: string | null,
+  rows: RowValues[],
+  options: { skipCompleteRows?: boolean } = {}
+): Promise<typeof enrichJobs.$inferSelect> {
+  const { startingRow, rowIndexes } = await addRows(sheetId, userId, rows, options);
+
+  // Rows sharing a key land in the same row
+  const jobRows = [...new Set(rowIndexes)].sort((a, b) => a - b);
+
+  const [job] = await db
+    .insert(enrichJobs)
+    .values({
+      sheetId,
+      apiKeyId,
+      startRow: startingRow,
+      rowCount: jobRows.length,
+      rowIndexes: jobRows,
+    })
+    .returning();
+
+  console.log(`[EnrichJobs] Job ${job!.id}: ${jobRows.length} rows of sheet ${sheetId}`);
+
+  return job!;
+}
+
+export async function findEnrichJob(jobId: string) {
+  return db.query.enrichJobs.findFirst({
+    where: eq(enrichJobs.id, jobId),
+  });
+}
+
+function rowStatus(
+  eventStatuses: string[],
+  cellStatuses: string[],
+  filledColumns: number,
+  columnCount: number
+): EnrichRowStatus {
+  if (eventStatuses.includes('processing') || cellStatuses.includes('processing')) return 'processing';
+  if (eventStatuses.includes('pending')) return 'pending';
+  if (eventStatuses.includes('awaiting_clarification') || cellStatuses.includes('awaiting_input')) return 'awaiting_input';
+  if (eventStatuses.includes('paused_budget')) return 'paused';
+  if (filledColumns >= columnCount) return 'completed';
+  if (eventStatuses.includes('failed') || cellStatuses.includes('error')) return 'failed';
+  // Nothing left to run; columns the operators left empty stay empty
+  return 'completed';
+}
+
+/**
+ * A job's per-row progress, with the rows' current values
+ */
+export async function getEnrichJobProgress(job: typeof enrichJobs.$inferSelect): Promise<EnrichJobProgress> {
+  // Jobs from before key columns only appended, so their rows are a range
+  const jobRows = job.rowIndexes ?? Array.from({ length: job.rowCount }, (_, i) => job.startRow + i);
+  const eventRowIndex = sql<number>`(${eventQueue.payload}->>'rowIndex')::int`;
+
+  const [sheetColumns, rowCells, rowEvents, rowStatuses] = await Promise.all([
+    db
+      .select({ title: columns.title, position: columns.position })
+      .from(columns)
+      .where(eq(columns.sheetId, job.sheetId))
+      .orderBy(asc(columns.position)),
+    db
+      .select({ rowIndex: cells.rowIndex, colIndex: cells.colIndex, content: cells.content })
+      .from(cells)
+      .where(and(eq(cells.sheetId, job.sheetId), inArray(cells.rowIndex, jobRows))),
+    db
+      .select({
+        rowIndex: eventRowIndex.mapWith(Number),
+        status: eventQueue.status,
+        lastError: eventQueue.lastError,
+        createdAt: eventQueue.createdAt,
+      })
+      .from(eventQueue)
+      .where(and(
+        eq(eventQueue.sheetId, job.sheetId),
+        inArray(eventRowIndex, jobRows),
+        notInArray(eventQueue.status, ['completed', 'discarded'])
+      ))
+      .orderBy(asc(eventQueue.createdAt)),
+    db
+      .select({ rowIndex: cellProcessingStatus.rowIndex, status: cellProcessingStatus.status })
+      .from(cellProcessingStatus)
+      .where(and(
+        eq(cellProcessingStatus.sheetId, job.sheetId),
+        inArray(cellProcessingStatus.rowIndex, jobRows)
+      )),
+  ]);
+
+  const rows: EnrichJobRow[] = [];
+  for (const rowIndex of jobRows) {
+    const values = sheetColumns.map(column =>
+      rowCells.find(cell => cell.rowIndex === rowIndex && cell.colIndex === column.position)?.content ?? ''
+    );
+    const filledColumns = values.filter(value => value.trim()).length;
+    const events = rowEvents.filter(event => event.rowIndex === rowIndex);
+    const status = rowStatus(
+      events.map(event => event.status ?? 'pending'),
+      rowStatuses.filter(cellStatus => cellStatus.rowIndex === rowIndex).map(cellStatus => cellStatus.status),
+      filledColumns,
+      sheetColumns.length
+    );
+
+    rows.push({
+      rowIndex,
+      status,
+      filledColumns,
+      values,
+      error: status === 'failed'
+        ? events.filter(event => event.status === 'failed').at(-1)?.lastError ?? null
+        : null,
+    });
+  }
+
+  const rowsFinished = rows.filter(row => row.status !== 'pending' && row.status !== 'processing').length;
+  const rowsCompleted = rows.filter(row => row.status === 'completed').length;
+  const status: EnrichJobStatus = rowsFinished < rows.length
+    ? 'processing'
+    : rowsCompleted === rows.length ? 'completed' : 'partial';
+
+  let completedAt = job.completedAt;
+  if (status !== 'processing' && !completedAt) {
+    completedAt = new Date();
+    await db
+      .update(enrichJobs)
+      .set({ completedAt })
+      .where(and(eq(enrichJobs.id, job.id), isNull(enrichJobs.completedAt)));
+  }
+
+  return {
+    jobId: job.id,
+    sheetId: job.sheetId,
+    status,
+    createdAt: job.createdAt?.toISOString() ?? null,
+    completedAt: status === 'processing' ? null : completedAt?.toISOString() ?? null,
+    rowCount: job.rowCount,
+    rowsFinished,
+    rowsCompleted,
+    columns: sheetColumns,
+    rows,
+  };
+}
+
+/**
+ * Resolve on the sheet's next change (after it settles), the timeout, or abort
+ */
+function waitForSheetChange(sheetId: string, timeoutMs: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    let settleTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const finish = () => {
+      clearTimeout(timeoutTimer);
+      if (settleTimer) clearTimeout(settleTimer);
+      unsubscribe();
+      signal?.removeEventListener('abort', finish);
+      resolve();
+    };
+
+    const unsubscribe = getSheetChangeFeed().subscribe(sheetId, () => {
+      settleTimer ??= setTimeout(finish, CHANGE_SETTLE_MS);
+    });
+    const timeoutTimer = setTimeout(finish, timeoutMs);
+    signal?.addEventListener('abort', finish);
+  });
+}
+
+/**
+ * A job's progress once every row has finished, or when `waitSeconds` runs out
+ */
+export async function waitForEnrichJob(
+  job: typeof enrichJobs.$inferSelect,
+  waitSeconds: number,
+  signal?: AbortSignal
+): Promise<EnrichJobProgress> {
+  const deadline = Date.now() + waitSeconds * 1000;
+  let progress = await getEnrichJobProgress(job);
+
+  while (progress.status === 'processing' && Date.now() < deadline && !signal?.aborted) {
+    await waitForSheetChange(job.sheetId, Math.min(deadline - Date.now(), RECHECK_INTERVAL_MS), signal);
+    progress = await getEnrichJobProgress(job);
+  }
+
+  return progress;
+}
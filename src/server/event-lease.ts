@@ -0,0 +1,121 @@
+/**
+ * Event Lease
+ *
+ * Visibility-timeout leasing for the event queue, so several app instances can
+ * share it and a crashed worker doesn't leave events stuck in 'processing'.
+ *
+ * - A worker claiming events stamps them with its ID (`lockedBy`) and a
+ *   deadline (`lockedUntil`)
+ * - A heartbeat keeps pushing the deadline out while the batch is running
+ * - The reaper returns events whose lease expired to 'pending'; events that
+ *   keep losing their worker are failed once retries are exhausted
+ * - Events whose operator failed are requeued with nextAttemptAt pushed out
+ *   by retryBackoff()
+ */
+
+import { hostname } from "os";
+import { randomUUID } from "crypto";
+import { db } from "@/server/db";
+import { eventQueue } from "@/server/db/schema";
+import { and, eq, gte, inArray, isNull, lt, or, sql } from "drizzle-orm";
+import { RATE_LIMIT_CONFIG } from "@/server/gemini/config";
+import { publishEventUpdate } from "@/server/realtime/sheet-change-feed";
+
+export const LEASE_DURATION_MS = 2 * 60 * 1000;
+export const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+
+/**
+ * Identifies this process in `lockedBy`
+ */
+export const WORKER_ID = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+
+/**
+ * Deadline for a lease taken or renewed now
+ */
+export function leaseExpiry(now = new Date()): Date {
+  return new Date(now.getTime() + LEASE_DURATION_MS);
+}
+
+/**
+ * Wait before retrying an event that already had `retryCount` retries: retryDelay, doubling each time
+ */
+export function retryBackoff(retryCount: number): number {
+  return RATE_LIMIT_CONFIG.retryDelay * 2 ** retryCount;
+}
+
+/**
+ * Renew this worker's leases on the given events until the returned stop function is called
+ *
+ * Events that already left 'processing' (completed, failed, requeued) are not renewed.
+ */
+export function startLeaseHeartbeat(eventIds: string[]): () => void {
+  if (eventIds.length === 0) {
+    return () => undefined;
+  }
+
+  const timer = setInterval(() => {
+    db.update(eventQueue)
+      .set({ lockedUntil: leaseExpiry() })
+      .where(and(
+        inArray(eventQueue.id, eventIds),
+        eq(eventQueue.lockedBy, WORKER_ID),
+        eq(eventQueue.status, 'processing')
+      ))
+      .then(() => undefined, (error) => {
+        console.error('[EventLease] Failed to renew leases:', error);
+      });
+  }, HEARTBEAT_INTERVAL_MS);
+
+  return () => clearInterval(timer);
+}
+
+/**
+ * Return events with expired leases to 'pending' (or fail them once retries are exhausted)
+ *
+ * Events in 'processing' without a lease predate leasing and are treated as expired.
+ */
+export async function reapExpiredLeases(): Promise<{ requeued: number; failed: number }> {
+  const expired = and(
+    eq(eventQueue.status, 'processing'),
+    or(isNull(eventQueue.lockedUntil), lt(eventQueue.lockedUntil, new Date()))
+  );
+
+  const failed = await db
+    .update(eventQueue)
+    .set({
+      status: 'failed',
+      lastError: `Worker stopped responding ${RATE_LIMIT_CONFIG.maxRetries + 1} times while processing this event`,
+      processedAt: new Date(),
+      lockedBy: null,
+      lockedUntil: null,
+    })
+    .where(and(expired, gte(sql`coalesce(${eventQueue.retryCount}, 0)`, RATE_LIMIT_CONFIG.maxRetries)))
+    .returning({ id: eventQueue.id, sheetId: eventQueue.sheetId });
+
+  const requeued = await db
+    .update(eventQueue)
+    .set({
+      status: 'pending',
+      retryCount: sql`coalesce(${eventQueue.retryCount}, 0) + 1`,
+      lastError: sql`'Lease expired: worker ' || coalesce(${eventQueue.lockedBy}, 'unknown') || ' stopped responding'`,
+      lockedBy: null,
+      lockedUntil: null,
+    })
+    .where(expired)
+    .returning({ id: eventQueue.id, sheetId: eventQueue.sheetId });
+
+  for (const event of failed) {
+    await publishEventUpdate(db, event.sheetId, { eventId: event.id, status: 'failed' });
+  }
+  for (const event of requeued) {
+    await publishEventUpdate(db, event.sheetId, { eventId: event.id, status: 'pending' });
+  }
+
+  if (failed.length > 0 || requeued.length > 0) {
+    console.warn(
+      `[EventLease] Reaped expired leases: ${requeued.length} requeued, ${failed.length} failed`
+    );
+  }
+
+  return { requeued: requeued.length, failed: failed.length };
+}
@@ -0,0 +1,141 @@
+/**
+ * Gemini Concurrency Limiter
+ *
+ * Process-wide cap on in-flight Gemini requests (RATE_LIMIT_CONFIG.maxConcurrentRequests),
+ * shared by every operator, agent and template call via trackGeminiCall().
+ *
+ * Backpressure: a 429 / RESOURCE_EXHAUSTED response pauses new requests for a
+ * cool-down that doubles with each consecutive rate limit (up to
+ * maxRateLimitBackoff) and resets on the next success.
+ */
+
+import { RATE_LIMIT_CONFIG } from "./config";
+
+/**
+ * Counting semaphore; waiters are served in FIFO order
+ */
+export class Semaphore {
+  private active = 0;
+  private waiters: Array<() => void> = [];
+
+  constructor(private readonly limit: number) {}
+
+  async acquire(): Promise<void> {
+    if (this.active < this.limit) {
+      this.active++;
+      return;
+    }
+
+    await new Promise<void>((resolve) => this.waiters.push(resolve));
+  }
+
+  release(): void {
+    const next = this.waiters.shift();
+    if (next) {
+      // Hand the slot straight to the next waiter
+      next();
+    } else {
+      this.active--;
+    }
+  }
+
+  async run<T>(fn: () => Promise<T>): Promise<T> {
+    await this.acquire();
+    try {
+      return await fn();
+    } finally {
+      this.release();
+    }
+  }
+
+  get inFlight(): number {
+    return this.active;
+  }
+
+  get queued(): number {
+    return this.waiters.length;
+  }
+}
+
+/**
+ * Whether an error is Gemini telling us to slow down
+ */
+export function isRateLimitError(error: unknown): boolean {
+  if ((error as { status?: unknown } | null)?.status === 429) {
+    return true;
+  }
+
+  const message = error instanceof Error ? error.message : typeof error === 'string' ? error : '';
+  return /\b429\b|RESOURCE_EXHAUSTED|rate limit|quota exceeded/i.test(message);
+}
+
+export class GeminiConcurrencyLimiter {
+  private semaphore: Semaphore;
+  private pausedUntil = 0;
+  private consecutiveRateLimits = 0;
+
+  constructor(maxConcurrent: number = RATE_LIMIT_CONFIG.maxConcurrentRequests) {
+    this.semaphore = new Semaphore(maxConcurrent);
+  }
+
+  /**
+   * Run a Gemini call once a slot is free and any rate-limit cool-down has passed
+   */
+  async run<T>(call: () => Promise<T>): Promise<T> {
+    return this.semaphore.run(async () => {
+      await this.waitForCooldown();
+
+      try {
+        const result = await call();
+        this.consecutiveRateLimits = 0;
+        return result;
+      } catch (error) {
+        if (isRateLimitError(error)) {
+          this.onRateLimited();
+        }
+        throw error;
+      }
+    });
+  }
+
+  getStats() {
+    return {
+      inFlight: this.semaphore.inFlight,
+      queued: this.semaphore.queued,
+      pausedForMs: Math.max(0, this.pausedUntil - Date.now()),
+    };
+  }
+
+  private async waitForCooldown(): Promise<void> {
+    let remaining = this.pausedUntil - Date.now();
+    while (remaining > 0) {
+      await new Promise((resolve) => setTimeout(resolve, remaining));
+      remaining = this.pausedUntil - Date.now();
+    }
+  }
+
+  private onRateLimited(): void {
+    this.consecutiveRateLimits++;
+    const delay = Math.min(
+      RATE_LIMIT_CONFIG.retryDelay * 2 ** (this.consecutiveRateLimits - 1),
+      RATE_LIMIT_CONFIG.maxRateLimitBackoff
+    );
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + delay);
+
+    console.warn(
+      `[GeminiLimiter] Rate limited by Gemini (${this.consecutiveRateLimits} in a row), pausing new requests for ${delay}ms`
+    );
+  }
+}
+
+/**
+ * Singleton limiter shared by the whole process
+ */
+let limiterInstance: GeminiConcurrencyLimiter | null = null;
+
+export function getGeminiLimiter(): GeminiConcurrencyLimiter {
+  if (!limiterInstance) {
+    limiterInstance = new GeminiConcurrencyLimiter();
+  }
+  return limiterInstance;
+}
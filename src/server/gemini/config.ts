@@ -129,8 +129,11 @@ export const DEFAULT_SAFETY_SETTINGS = [
 export const RATE_LIMIT_CONFIG = {
   maxRetries: 3,
   retryDelay: 1000, // ms
-  maxConcurrentRequests: 10,
+  maxConcurrentRequests: 10, // In-flight Gemini requests per process
   requestTimeout: 60000, // 60 seconds
+  maxRateLimitBackoff: 60000, // Longest pause after repeated 429s
+  defaultSheetConcurrency: 5, // Rows processed in parallel per sheet
+  maxSheetConcurrency: 20,
 } as const;
 
 /**
@@ -187,3 +190,23 @@ export const EMBEDDING_CACHE_TTL = 3600000;
  * Cache TTL for search results (30 minutes)
  */
 export const SEARCH_CACHE_TTL = 1800000;
+
+/**
+ * Cache TTL for URL content extraction (6 hours)
+ */
+export const URL_CONTEXT_CACHE_TTL = 21600000;
+
+/**
+ * Cache TTL for structured output (24 hours); the input already holds the data
+ */
+export const STRUCTURED_OUTPUT_CACHE_TTL = 86400000;
+
+/**
+ * How long each operator's results are reused for an identical input.
+ * function_calling isn't cached: its functions can have side effects.
+ */
+export const OPERATOR_CACHE_TTL: Record<string, number> = {
+  google_search: SEARCH_CACHE_TTL,
+  url_context: URL_CONTEXT_CACHE_TTL,
+  structured_output: STRUCTURED_OUTPUT_CACHE_TTL,
+};
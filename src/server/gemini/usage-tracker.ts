@@ -0,0 +1,190 @@
+/**
+ * Gemini Usage Tracker
+ *
+ * Records every Gemini call (tokens, estimated cost, duration, status) in
+ * gemini_usage_log. Callers wrap the API call with trackGeminiCall(); who the
+ * call is attributed to (user, sheet, column, event) comes from the ambient
+ * usage context set by runWithUsageContext() higher up the stack. Calls for a
+ * sheet are billed to the sheet's workspace, if it has one.
+ *
+ * Calls also go through the process-wide concurrency limiter, so this is the
+ * single choke point for in-flight Gemini requests. Agent turns are tracked
+ * without taking a slot, so the search tools they call can take one.
+ *
+ * Operator results served from the operator cache are logged too, as
+ * 'cache_hit' rows with no tokens, so hit rates show up next to spend.
+ */
+
+import { AsyncLocalStorage } from "async_hooks";
+import { db } from "@/server/db";
+import { geminiUsageLog, sheets } from "@/server/db/schema";
+import { sql } from "drizzle-orm";
+import { calculateCost, type GeminiModel } from "./config";
+import { getGeminiLimiter } from "./concurrency-limiter";
+
+/**
+ * Attribution for usage records made within a unit of work
+ */
+export interface UsageContext {
+  userId?: string;
+  workspaceId?: string; // Defaults to the sheet's workspace
+  sheetId?: string;
+  colIndex?: number;
+  eventId?: string;
+}
+
+/**
+ * Token counts extracted from a Gemini response
+ */
+export interface TokenUsage {
+  promptTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
+interface TrackOptions<T> {
+  operatorName: string;
+  model: string;
+  requestData?: Record<string, unknown>;
+  /** Pull token counts out of the response (defaults to @google/genai usageMetadata) */
+  extractUsage?: (response: T) => TokenUsage;
+  /**
+   * Take a limiter slot for the call (default). Pass false for a call that
+   * makes tracked Gemini calls of its own, such as an agent turn whose tools
+   * search: holding a slot while they wait for theirs can deadlock the limiter.
+   */
+  limited?: boolean;
+}
+
+const usageContextStorage = new AsyncLocalStorage<UsageContext>();
+
+/**
+ * Run `fn` with usage attribution; nested contexts inherit unspecified fields
+ */
+export function runWithUsageContext<T>(context: UsageContext, fn: () => Promise<T>): Promise<T> {
+  const parent = usageContextStorage.getStore() ?? {};
+  return usageContextStorage.run({ ...parent, ...context }, fn);
+}
+
+/**
+ * Current usage attribution (empty outside runWithUsageContext)
+ */
+export function getUsageContext(): UsageContext {
+  return usageContextStorage.getStore() ?? {};
+}
+
+/**
+ * Extract token counts from a @google/genai GenerateContentResponse
+ */
+export function extractGenAIUsage(response: unknown): TokenUsage {
+  const usage = (response as { usageMetadata?: Record<string, number | undefined> } | undefined)?.usageMetadata;
+  const promptTokens = usage?.promptTokenCount ?? 0;
+  const outputTokens = (usage?.candidatesTokenCount ?? 0) + (usage?.thoughtsTokenCount ?? 0);
+
+  return {
+    promptTokens,
+    outputTokens,
+    totalTokens: usage?.totalTokenCount ?? promptTokens + outputTokens,
+  };
+}
+
+/**
+ * Extract token counts from an `ai` SDK result (generateText / agent.generate)
+ */
+export function extractAISDKUsage(result: unknown): TokenUsage {
+  const usage = (result as { usage?: Record<string, number | undefined> } | undefined)?.usage;
+  const promptTokens = usage?.inputTokens ?? usage?.promptTokens ?? 0;
+  const outputTokens = usage?.outputTokens ?? usage?.completionTokens ?? 0;
+
+  return {
+    promptTokens,
+    outputTokens,
+    totalTokens: usage?.totalTokens ?? promptTokens + outputTokens,
+  };
+}
+
+/**
+ * Execute a Gemini call and record its usage
+ *
+ * Waits for a free slot in the Gemini concurrency limiter first (unless
+ * `limited` is false). Errors from
+ * the call are recorded with status 'error' and rethrown.
+ * Failures to write the log are swallowed so tracking never breaks a request.
+ */
+export async function trackGeminiCall<T>(
+  options: TrackOptions<T>,
+  call: () => Promise<T>
+): Promise<T> {
+  // Time from when the limiter lets the call through, not from when it queued
+  let startTime = Date.now();
+
+  try {
+    const response = options.limited === false
+      ? await call()
+      : await getGeminiLimiter().run(() => {
+        startTime = Date.now();
+        return call();
+      });
+    const usage = (options.extractUsage ?? extractGenAIUsage)(response);
+
+    await recordUsage(options, usage, Date.now() - startTime, 'success');
+
+    return response;
+  } catch (error) {
+    await recordUsage(
+      options,
+      { promptTokens: 0, outputTokens: 0, totalTokens: 0 },
+      Date.now() - startTime,
+      'error',
+      error instanceof Error ? error.message : String(error)
+    );
+    throw error;
+  }
+}
+
+/**
+ * Record an operator result served from the cache instead of a Gemini call
+ */
+export async function recordCacheHit(operatorName: string, model: string, durationMs: number): Promise<void> {
+  await recordUsage(
+    { operatorName, model },
+    { promptTokens: 0, outputTokens: 0, totalTokens: 0 },
+    durationMs,
+    'cache_hit'
+  );
+}
+
+async function recordUsage<T>(
+  options: TrackOptions<T>,
+  usage: TokenUsage,
+  durationMs: number,
+  status: 'success' | 'error' | 'cache_hit',
+  errorMessage?: string
+): Promise<void> {
+  const context = getUsageContext();
+  const cost = calculateCost(options.model as GeminiModel, usage.promptTokens, usage.outputTokens);
+
+  try {
+    await db.insert(geminiUsageLog).values({
+      userId: context.userId,
+      workspaceId: context.workspaceId ?? (context.sheetId
+        ? sql`(select ${sheets.workspaceId} from ${sheets} where ${sheets.id} = ${context.sheetId})`
+        : undefined),
+      sheetId: context.sheetId,
+      colIndex: context.colIndex,
+      eventId: context.eventId,
+      operatorName: options.operatorName,
+      model: options.model,
+      promptTokens: usage.promptTokens,
+      outputTokens: usage.outputTokens,
+      totalTokens: usage.totalTokens,
+      estimatedCost: cost.toFixed(6),
+      requestData: options.requestData,
+      status,
+      errorMessage,
+      durationMs,
+    });
+  } catch (error) {
+    console.error('[UsageTracker] Failed to record Gemini usage:', error);
+  }
+}
@@ -0,0 +1,331 @@
+/**
+ * Clarification Manager
+ *
+ * Lets an operator pause a cell and ask the user a question instead of guessing
+ * (e.g. an ambiguous company name that matches several websites).
+ *
+ * Flow:
+ * 1. Contextual prompts tell Gemini how to ask (CLARIFY: ... / OPTIONS: ...)
+ * 2. detect() spots a clarification request in operator output
+ * 3. request() opens a transformer session + clarification prompt and parks the
+ *    event as 'awaiting_clarification' (the controller marks the cell 'awaiting_input')
+ * 4. answer() stores the user's reply on the event payload and requeues it; the
+ *    answer is injected into the prompt on the next run
+ */
+
+import { db } from "@/server/db";
+import {
+  eventQueue,
+  transformerSessions,
+  clarificationPrompts,
+  cellProcessingStatus,
+} from "@/server/db/schema";
+import { eq, and } from "drizzle-orm";
+import type { ClarificationRequest } from "@/types/operators";
+import type { BaseEvent } from "./operator-controller";
+
+const CLARIFY_MARKER = /^\s*CLARIFY:\s*/i;
+const OPTIONS_MARKER = /\n\s*OPTIONS:\s*/i;
+const MAX_OPTIONS = 5;
+
+/**
+ * Answer (or skip) carried on the event payload when it is requeued
+ */
+export interface ClarificationAnswer {
+  question: string;
+  answer: string | null; // null = user skipped, make a best guess
+}
+
+export class ClarificationManager {
+  /**
+   * Prompt lines explaining how to ask for clarification
+   */
+  static getPromptInstructions(): string[] {
+    return [
+      'AMBIGUITY:',
+      '- If the row is ambiguous (e.g. the name matches several different companies or websites), do not guess.',
+      '- Instead reply with exactly two lines:',
+      '  CLARIFY: <one short question for the user>',
+      '  OPTIONS: <candidate 1> || <candidate 2> || <candidate 3>',
+      '- When replying in JSON, return {"needsClarification": {"question": "...", "options": ["...", "..."]}} instead.',
+      '- Only ask when the candidates would give materially different answers.',
+    ];
+  }
+
+  /**
+   * Prompt lines carrying the user's answer to an earlier question
+   */
+  static getAnswerInstructions(clarification: ClarificationAnswer): string[] {
+    if (clarification.answer === null) {
+      return [
+        'USER CLARIFICATION:',
+        `- You asked: ${clarification.question}`,
+        '- The user skipped the question. Make your best guess and do not ask again.',
+      ];
+    }
+
+    return [
+      'USER CLARIFICATION:',
+      `- You asked: ${clarification.question}`,
+      `- The user answered: ${clarification.answer}`,
+      '- Use this answer and do not ask again.',
+    ];
+  }
+
+  /**
+   * Parse a CLARIFY/OPTIONS reply from free text
+   */
+  static parse(text: string | undefined | null): ClarificationRequest | null {
+    if (!text || !CLARIFY_MARKER.test(text)) {
+      return null;
+    }
+
+    const body = text.replace(CLARIFY_MARKER, '');
+    const [questionPart = '', optionsPart] = body.split(OPTIONS_MARKER);
+    const question = questionPart.trim().split('\n')[0]?.trim() ?? '';
+
+    if (!question) {
+      return null;
+    }
+
+    const options = (optionsPart ?? '')
+      .split(/\s*\|\|\s*|\n/)
+      .map(option => option.trim())
+      .filter(Boolean)
+      .slice(0, MAX_OPTIONS);
+
+    return {
+      question,
+      options: options.length > 0 ? options : undefined,
+      responseType: options.length > 0 ? 'choice' : 'text',
+    };
+  }
+
+  /**
+   * Find a clarification request in any operator's output
+   */
+  static detect(output: any): ClarificationRequest | null {
+    if (!output || typeof output !== 'object') {
+      return null;
+    }
+
+    // Operators that detect ambiguity themselves
+    if (output.clarification?.question) {
+      return output.clarification as ClarificationRequest;
+    }
+
+    // structured_output: JSON form
+    const structured = output.structuredData?.needsClarification;
+    if (structured && typeof structured.question === 'string') {
+      const options = Array.isArray(structured.options)
+        ? (structured.options as unknown[]).map(String).slice(0, MAX_OPTIONS)
+        : undefined;
+      return {
+        question: structured.question,
+        options,
+        responseType: options && options.length > 0 ? 'choice' : 'text',
+      };
+    }
+
+    // url_context / function_calling: free-text form
+    return this.parse(output.summary) ?? this.parse(output.response);
+  }
+
+  /**
+   * Park an event until the user answers
+   */
+  static async request(
+    event: BaseEvent,
+    operatorName: string,
+    clarification: ClarificationRequest
+  ): Promise<void> {
+    const ctx = event.sheetContext;
+    if (!ctx) {
+      throw new Error('Clarification requires sheet context');
+    }
+
+    const colIndex = ctx.targetColumnIndex;
+    const column = ctx.columns[colIndex];
+
+    await db.transaction(async (tx) => {
+      const [session] = await tx
+        .insert(transformerSessions)
+        .values({
+          eventId: event.eventId,
+          userId: event.userId,
+          state: {
+            sheetId: ctx.sheetId,
+            rowIndex: ctx.rowIndex,
+            colIndex,
+            operatorName,
+          },
+          status: 'awaiting_input',
+          currentStep: 0,
+          totalSteps: 1,
+        })
+        .returning({ id: transformerSessions.id });
+
+      await tx.insert(clarificationPrompts).values({
+        sessionId: session!.id,
+        question: clarification.question,
+        context: {
+          sheetId: ctx.sheetId,
+          rowIndex: ctx.rowIndex,
+          colIndex,
+          columnTitle: column?.title ?? null,
+          rowData: ctx.rowData,
+          ...clarification.context,
+        },
+        options: clarification.options ?? null,
+        responseType: clarification.responseType ?? (clarification.options?.length ? 'choice' : 'text'),
+        isRequired: true,
+      });
+
+      await tx
+        .update(eventQueue)
+        .set({ status: 'awaiting_clarification' })
+        .where(eq(eventQueue.id, event.eventId));
+    });
+
+    console.log(
+      `[ClarificationManager] Event ${event.eventId} awaiting clarification for cell (${ctx.rowIndex}, ${colIndex}): ${clarification.question}`
+    );
+  }
+
+  /**
+   * Record the user's answer (null to skip) and requeue the event
+   *
+   * Callers check the user's access to the prompt's sheet (getPromptSheetId) first.
+   *
+   * @returns false if the prompt doesn't exist or was already answered
+   */
+  static async answer(promptId: string, answer: string | null): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const [row] = await tx
+        .select({
+          prompt: clarificationPrompts,
+          session: transformerSessions,
+        })
+        .from(clarificationPrompts)
+        .innerJoin(transformerSessions, eq(clarificationPrompts.sessionId, transformerSessions.id))
+        .where(and(
+          eq(clarificationPrompts.id, promptId),
+          eq(transformerSessions.status, 'awaiting_input')
+        ))
+        .limit(1)
+        .for('update');
+
+      if (!row) {
+        return false;
+      }
+
+      const [event] = await tx
+        .select()
+        .from(eventQueue)
+        .where(eq(eventQueue.id, row.session.eventId))
+        .limit(1);
+
+      if (!event) {
+        return false;
+      }
+
+      await tx
+        .update(clarificationPrompts)
+        .set({ userResponse: answer, answeredAt: new Date() })
+        .where(eq(clarificationPrompts.id, promptId));
+
+      await tx
+        .update(transformerSessions)
+        .set({
+          status: answer === null ? 'cancelled' : 'completed',
+          currentStep: 1,
+          completedAt: new Date(),
+        })
+        .where(eq(transformerSessions.id, row.session.id));
+
+      // Pin the event to the column that asked so it doesn't fan out again on resume
+      const state = row.session.state as { sheetId: string; rowIndex: number; colIndex: number };
+      const clarification: ClarificationAnswer = { question: row.prompt.question, answer };
+      await tx
+        .update(eventQueue)
+        .set({
+          status: 'pending',
+          payload: {
+            ...(event.payload as Record<string, unknown>),
+            targetColIndex: state.colIndex,
+            clarification,
+          },
+        })
+        .where(eq(eventQueue.id, event.id));
+
+      await tx
+        .update(cellProcessingStatus)
+        .set({ status: 'idle', statusMessage: null, updatedAt: new Date() })
+        .where(and(
+          eq(cellProcessingStatus.sheetId, state.sheetId),
+          eq(cellProcessingStatus.rowIndex, state.rowIndex),
+          eq(cellProcessingStatus.colIndex, state.colIndex)
+        ));
+
+      console.log(
+        `[ClarificationManager] Prompt ${promptId} ${answer === null ? 'skipped' : 'answered'}, requeued event ${event.id}`
+      );
+
+      return true;
+    });
+  }
+
+  /**
+   * The sheet a question was asked on, or null if it doesn't exist
+   */
+  static async getPromptSheetId(promptId: string): Promise<string | null> {
+    const [row] = await db
+      .select({ sheetId: eventQueue.sheetId })
+      .from(clarificationPrompts)
+      .innerJoin(transformerSessions, eq(clarificationPrompts.sessionId, transformerSessions.id))
+      .innerJoin(eventQueue, eq(transformerSessions.eventId, eventQueue.id))
+      .where(eq(clarificationPrompts.id, promptId))
+      .limit(1);
+
+    return row?.sheetId ?? null;
+  }
+
+  /**
+   * Unanswered questions for a sheet (from any member's events), oldest first
+   */
+  static async listOpen(sheetId: string) {
+    const rows = await db
+      .select({
+        promptId: clarificationPrompts.id,
+        question: clarificationPrompts.question,
+        options: clarificationPrompts.options,
+        responseType: clarificationPrompts.responseType,
+        context: clarificationPrompts.context,
+        createdAt: clarificationPrompts.createdAt,
+        eventId: transformerSessions.eventId,
+      })
+      .from(clarificationPrompts)
+      .innerJoin(transformerSessions, eq(clarificationPrompts.sessionId, transformerSessions.id))
+      .innerJoin(eventQueue, eq(transformerSessions.eventId, eventQueue.id))
+      .where(and(
+        eq(eventQueue.sheetId, sheetId),
+        eq(transformerSessions.status, 'awaiting_input')
+      ))
+      .orderBy(clarificationPrompts.createdAt);
+
+    return rows.map(row => {
+      const context = (row.context ?? {}) as { rowIndex?: number; colIndex?: number; columnTitle?: string | null };
+      return {
+        promptId: row.promptId,
+        eventId: row.eventId,
+        question: row.question,
+        options: (row.options as string[] | null) ?? [],
+        responseType: row.responseType ?? 'text',
+        rowIndex: context.rowIndex ?? 0,
+        colIndex: context.colIndex ?? 0,
+        columnTitle: context.columnTitle ?? null,
+        createdAt: row.createdAt,
+      };
+    });
+  }
+}
@@ -4,13 +4,31 @@
  * Enhances operator results with context and writes to next column progressively
  */
 
+import { createHash } from "crypto";
 import { db } from "@/server/db";
 import { sheetUpdates, eventQueue, cells, cellProcessingStatus } from "@/server/db/schema";
-import { eq, and } from "drizzle-orm";
+import { eq, and, sql } from "drizzle-orm";
 import { resolveRedirectUrl } from "@/server/utils/url-resolver";
 import type { SheetContext } from "./operator-controller";
 import { ResultValidator, ColumnDataType, type ValidatedColumn } from "./result-validator";
 import { FormatConstraints } from "./format-constraints";
+import { ColumnDependencyGraph } from "./column-dependency-graph";
+import { ClarificationManager } from "./clarification-manager";
+import { getWebhookDispatcher } from "@/server/webhooks/webhook-dispatcher";
+import { RATE_LIMIT_CONFIG } from "@/server/gemini/config";
+import { publishCellUpdate, publishEventUpdate } from "@/server/realtime/sheet-change-feed";
+import type { CellProvenance, CellSource, CellValidation } from "@/types/spreadsheet";
+import type { FunctionCallOutput, GoogleSearchOutput, URLContextOutput } from "@/types/operators";
+
+type DbExecutor = Pick<typeof db, 'select' | 'insert' | 'update' | 'execute'>;
+
+/**
+ * What produced an operator result, recorded as the written cell's provenance
+ */
+export interface OperatorRun {
+  model: string | null;
+  prompt: string | null;
+}
 
 export class ColumnAwareWrapper {
   /**
@@ -20,7 +38,7 @@ export class ColumnAwareWrapper {
     ctx: SheetContext,
     userId: string,
     colIndex: number,
-    status: 'idle' | 'processing' | 'completed' | 'error',
+    status: 'idle' | 'processing' | 'completed' | 'error' | 'awaiting_input',
     operatorName?: string,
     message?: string
   ): Promise<void> {
@@ -31,7 +49,6 @@ export class ColumnAwareWrapper {
       .from(cellProcessingStatus)
       .where(and(
         eq(cellProcessingStatus.sheetId, ctx.sheetId),
-        eq(cellProcessingStatus.userId, userId),
         eq(cellProcessingStatus.rowIndex, ctx.rowIndex),
         eq(cellProcessingStatus.colIndex, colIndex)
       ))
@@ -61,6 +78,13 @@ export class ColumnAwareWrapper {
       });
     }
 
+    await publishCellUpdate(db, ctx.sheetId, {
+      rowIndex: ctx.rowIndex,
+      colIndex,
+      status,
+      message: message ?? null,
+    });
+
     console.log(`[updateCellStatus] Set cell (${ctx.rowIndex}, ${colIndex}) status to '${status}' for operator '${operatorName}'`);
   }
   /**
@@ -78,6 +102,11 @@ export class ColumnAwareWrapper {
     targetColumn: string,
     operatorName?: string
   ): string {
+    // Retrying a low-quality result: the improved prompt already wraps the original task
+    if (ctx.retryPrompt) {
+      return ctx.retryPrompt;
+    }
+
     const prompt: string[] = [];
 
     // Add template goal
@@ -101,14 +130,14 @@ export class ColumnAwareWrapper {
     // Add column structure
     prompt.push('COLUMN STRUCTURE:');
     ctx.columns.forEach((col, idx) => {
-      const marker = idx === ctx.currentColumnIndex + 1 ? '→ ' : '  ';
+      const marker = idx === ctx.targetColumnIndex ? '→ ' : '  ';
       const value = ctx.rowData[idx] ? `(current: "${ctx.rowData[idx]}")` : '';
       prompt.push(`${marker}Column ${idx}: ${col.title} ${value}`);
     });
     prompt.push('');
 
     // Find the target column to get its data type and constraints
-    const targetColIndex = ctx.currentColumnIndex + 1;
+    const targetColIndex = ctx.targetColumnIndex;
     const targetColumnInfo = ctx.columns[targetColIndex];
 
     // Add format constraints if we have column information
@@ -142,6 +171,13 @@ export class ColumnAwareWrapper {
       prompt.push('');
     }
 
+    // Either carry the user's answer to an earlier question, or explain how to ask one
+    const clarificationLines = ctx.clarification
+      ? ClarificationManager.getAnswerInstructions(ctx.clarification)
+      : ClarificationManager.getPromptInstructions();
+    clarificationLines.forEach(line => prompt.push(line));
+    prompt.push('');
+
     // Add task with scientific context if applicable
     if (ctx.templateType === 'scientific') {
       prompt.push(`TASK: Fill "${targetColumn}" based on the data in this row.`);
@@ -224,8 +260,10 @@ export class ColumnAwareWrapper {
   }
 
   /**
-   * Write operator result to next column and create event for next-next column
+   * Write operator result to the target column and enqueue events for every
+   * column the dependency graph says is now ready
    *
+   * @param run - Model and prompt behind the result, stored with its sources
    * @returns object containing validation info and retry suggestion
    */
   static async writeToNextColumn(
@@ -233,9 +271,10 @@ export class ColumnAwareWrapper {
     userId: string,
     eventId: string,
     output: any,
-    operatorName: string
+    operatorName: string,
+    run: OperatorRun = { model: null, prompt: null }
   ): Promise<{ success: boolean; needsRetry: boolean; validationIssues?: string[]; retryPrompt?: string }> {
-    const nextColIndex = ctx.currentColumnIndex + 1;
+    const nextColIndex = ctx.targetColumnIndex;
 
     // Don't write past the last column
     if (nextColIndex >= ctx.columns.length) {
@@ -277,7 +316,6 @@ export class ColumnAwareWrapper {
         .from(cells)
         .where(and(
           eq(cells.sheetId, ctx.sheetId),
-          eq(cells.userId, userId),
           eq(cells.rowIndex, ctx.rowIndex),
           eq(cells.colIndex, nextColIndex)
         ))
@@ -287,7 +325,7 @@ export class ColumnAwareWrapper {
       console.log(`[ColumnAwareWrapper] 🔒 Acquired locks for cell (${ctx.rowIndex}, ${nextColIndex})`);
 
       // 3. Proceed with the original write logic inside the transaction
-      return await this.executeWrite(tx, ctx, userId, eventId, output, operatorName, nextColIndex);
+      return await this.executeWrite(tx, ctx, userId, eventId, output, operatorName, nextColIndex, run);
     });
   }
 
@@ -295,13 +333,14 @@ export class ColumnAwareWrapper {
    * Execute the actual write operation within a transaction
    */
   private static async executeWrite(
-    tx: any, // Database transaction
+    tx: DbExecutor,
     ctx: SheetContext,
     userId: string,
     eventId: string,
     output: any,
     operatorName: string,
-    nextColIndex: number
+    nextColIndex: number,
+    run: OperatorRun
   ): Promise<{ success: boolean; needsRetry: boolean; validationIssues?: string[]; retryPrompt?: string }> {
 
     // Extract result content based on operator type
@@ -382,6 +421,10 @@ export class ColumnAwareWrapper {
           content = JSON.stringify(output.structuredData || output, null, 2);
         }
         break;
+      case 'function_calling':
+        // Final answer after any function results were fed back to Gemini
+        content = (output as FunctionCallOutput).response || '';
+        break;
       default:
         content = typeof output === 'string' ? output : JSON.stringify(output);
     }
@@ -493,12 +536,66 @@ export class ColumnAwareWrapper {
       }
     }
 
+    // Low-quality result: hand back an improved prompt instead of writing it,
+    // unless retries are exhausted and the result is at least valid
+    const needsRetry = !validation.valid || validation.confidence < 0.5;
+    const validationIssues = validation.issues.map(issue => issue.message);
+    const isFinalAttempt = ctx.retryCount >= RATE_LIMIT_CONFIG.maxRetries;
+
+    if (needsRetry && !(isFinalAttempt && validation.valid)) {
+      // Build from the original task so prompts don't nest across retries
+      const originalPrompt = this.buildContextualPromptWithFormat(
+        { ...ctx, retryPrompt: undefined },
+        targetColumn.title,
+        operatorName
+      );
+      const retryPrompt = ResultValidator.generateImprovementPrompt(
+        originalPrompt,
+        validatedColumn,
+        validation
+      );
+
+      console.log(
+        `[ColumnAwareWrapper] Result for column ${nextColIndex} needs retry (confidence ${validation.confidence.toFixed(2)}): ${validationIssues.join('; ')}`
+      );
+
+      return {
+        success: false,
+        needsRetry: true,
+        validationIssues: validationIssues.length > 0 ? validationIssues : ['Low confidence result'],
+        retryPrompt
+      };
+    }
+
     // Use sanitized content if available and valid
     let finalContent = content;
     if (validation.valid && validation.sanitized) {
       finalContent = validation.sanitized;
     }
 
+    const provenance = this.buildProvenance(output, operatorName, run);
+
+    // structured_output scores its own answer; a doubtful extraction lowers the cell's score too
+    const operatorConfidence = operatorName === 'structured_output' && typeof output.confidence === 'number'
+      ? output.confidence as number
+      : null;
+    const confidence = validation.confidence * (operatorConfidence ?? 1);
+    const cellValidation: CellValidation = {
+      issues: validation.issues,
+      suggestions: validation.suggestions,
+      operatorConfidence,
+    };
+
+    const [previous] = await tx
+      .select({ content: cells.content })
+      .from(cells)
+      .where(and(
+        eq(cells.sheetId, ctx.sheetId),
+        eq(cells.rowIndex, ctx.rowIndex),
+        eq(cells.colIndex, nextColIndex)
+      ))
+      .limit(1);
+
     // Write DIRECTLY to cells table for immediate visibility (using transaction)
     await tx.insert(cells).values({
       sheetId: ctx.sheetId,
@@ -506,10 +603,17 @@ export class ColumnAwareWrapper {
       rowIndex: ctx.rowIndex,
       colIndex: nextColIndex,
       content: finalContent.slice(0, 5000), // Limit length
+      provenance,
+      confidence,
+      validation: cellValidation,
     }).onConflictDoUpdate({
-      target: [cells.sheetId, cells.userId, cells.rowIndex, cells.colIndex],
+      target: [cells.sheetId, cells.rowIndex, cells.colIndex],
       set: {
+        userId,
         content: finalContent.slice(0, 5000),
+        provenance,
+        confidence,
+        validation: cellValidation,
         updatedAt: new Date(),
       }
     });
@@ -521,20 +625,52 @@ export class ColumnAwareWrapper {
       rowIndex: ctx.rowIndex,
       colIndex: nextColIndex,
       content: finalContent.slice(0, 5000),
+      previousContent: previous?.content ?? null,
       updateType: 'ai_response',
+      operatorName,
       appliedAt: new Date(), // Mark as already applied
     });
 
+    await publishCellUpdate(tx, ctx.sheetId, {
+      rowIndex: ctx.rowIndex,
+      colIndex: nextColIndex,
+      content: finalContent.slice(0, 5000),
+    });
+
     console.log(
       `[ColumnAwareWrapper] Wrote to column ${nextColIndex} (${ctx.columns[nextColIndex]?.title}): ${content.slice(0, 100)}`
     );
 
-    // Create new event to fill the NEXT column (progressive filling)
-    const nextNextColIndex = nextColIndex + 1;
+    // Enqueue every column whose dependencies are now all satisfied, judged on the
+    // row as stored: a parallel write to another column of this row may have
+    // landed since this event read it. The row lock serializes those writes.
+    await tx.execute(sql`select pg_advisory_xact_lock(hashtext(${`${ctx.sheetId}:row:${ctx.rowIndex}`}))`);
+
+    const rowCells = await tx
+      .select({ colIndex: cells.colIndex, content: cells.content })
+      .from(cells)
+      .where(and(eq(cells.sheetId, ctx.sheetId), eq(cells.rowIndex, ctx.rowIndex)));
+    const rowData: Record<number, string> = {};
+    for (const cell of rowCells) {
+      rowData[cell.colIndex] = cell.content ?? '';
+    }
+
+    // A column already waiting in the queue reads the row when it runs, so
+    // queueing it again would only fill it twice
+    const queuedColumns = await tx
+      .select({ targetColIndex: sql<number>`(${eventQueue.payload}->>'targetColIndex')::int` })
+      .from(eventQueue)
+      .where(and(
+        eq(eventQueue.sheetId, ctx.sheetId),
+        eq(eventQueue.status, 'pending'),
+        sql`(${eventQueue.payload}->>'rowIndex')::int = ${ctx.rowIndex}`
+      ));
+    const queued = new Set(queuedColumns.map(event => event.targetColIndex));
+
+    const readyColumns = ColumnDependencyGraph.getReadyColumns(ctx.columns, rowData, nextColIndex)
+      .filter(readyColIndex => !queued.has(readyColIndex));
 
-    // Only create event if there's actually a next column to fill
-    // Don't create event if we just filled the last column
-    if (nextColIndex < ctx.columns.length - 1) {
+    for (const readyColIndex of readyColumns) {
       await tx.insert(eventQueue).values({
         sheetId: ctx.sheetId,
         userId,
@@ -543,6 +679,7 @@ export class ColumnAwareWrapper {
           spreadsheetId: ctx.sheetId,
           rowIndex: ctx.rowIndex,
           colIndex: nextColIndex,
+          targetColIndex: readyColIndex,
           columnId: ctx.columns[nextColIndex]?.id,
           content,
         },
@@ -550,32 +687,61 @@ export class ColumnAwareWrapper {
       });
 
       console.log(
-        `[ColumnAwareWrapper] Created event to fill column ${nextNextColIndex} (${ctx.columns[nextNextColIndex]?.title})`
+        `[ColumnAwareWrapper] Created event to fill column ${readyColIndex} (${ctx.columns[readyColIndex]?.title})`
       );
-    } else {
-      console.log('[ColumnAwareWrapper] Row complete - all columns filled!');
     }
 
-    // Determine if retry is needed based on validation
-    const needsRetry = !validation.valid || validation.confidence < 0.5;
-    const validationIssues = validation.issues.map(issue => issue.message);
-    let retryPrompt: string | undefined;
-
-    if (needsRetry) {
-      // Generate improved prompt for retry
-      const originalPrompt = this.buildContextualPrompt(ctx, targetColumn.title);
-      retryPrompt = ResultValidator.generateImprovementPrompt(
-        originalPrompt,
-        validatedColumn,
-        validation
-      );
+    if (readyColumns.length > 0) {
+      await publishEventUpdate(tx, ctx.sheetId, { status: 'pending', count: readyColumns.length });
     }
 
+    // Queue row_complete / sheet_complete webhooks in the same transaction as the write;
+    // completion is judged on the row as stored, not the snapshot this event started from
+    await getWebhookDispatcher().notifyIfRowComplete(tx, ctx.sheetId, ctx.rowIndex);
+
     return {
-      success: validation.valid,
-      needsRetry,
+      success: true,
+      needsRetry: false,
       validationIssues: validationIssues.length > 0 ? validationIssues : undefined,
-      retryPrompt
+    };
+  }
+
+  /**
+   * Provenance for a cell written from an operator result: the pages a search
+   * grounded its answer in, or the URLs a URL context call retrieved
+   */
+  private static buildProvenance(output: unknown, operatorName: string, run: OperatorRun): CellProvenance {
+    let sources: CellSource[] = [];
+
+    switch (operatorName) {
+      case 'google_search': {
+        const { results = [] } = output as Partial<GoogleSearchOutput>;
+        sources = results
+          .filter((result) => result.url && !result.url.includes('grounding-api-redirect'))
+          .map((result) => ({
+            url: result.url,
+            title: result.title ?? null,
+            snippet: result.snippet || null,
+          }));
+        break;
+      }
+      case 'url_context': {
+        const { enrichedData = [] } = output as Partial<URLContextOutput>;
+        sources = enrichedData.map((page) => ({
+          url: page.url,
+          title: page.metadata?.title ?? null,
+          snippet: null,
+        }));
+        break;
+      }
+    }
+
+    return {
+      operatorName,
+      model: run.model,
+      promptHash: run.prompt ? createHash('sha256').update(run.prompt).digest('hex') : null,
+      sources,
+      recordedAt: new Date().toISOString(),
     };
   }
 
@@ -583,11 +749,11 @@ export class ColumnAwareWrapper {
    * Update cell processing status within an existing transaction
    */
   private static async updateCellStatusInTransaction(
-    tx: any,
+    tx: DbExecutor,
     ctx: SheetContext,
     userId: string,
     colIndex: number,
-    status: 'idle' | 'processing' | 'completed' | 'error',
+    status: 'idle' | 'processing' | 'completed' | 'error' | 'awaiting_input',
     operatorName?: string,
     message?: string
   ): Promise<void> {
@@ -598,7 +764,6 @@ export class ColumnAwareWrapper {
       .from(cellProcessingStatus)
       .where(and(
         eq(cellProcessingStatus.sheetId, ctx.sheetId),
-        eq(cellProcessingStatus.userId, userId),
         eq(cellProcessingStatus.rowIndex, ctx.rowIndex),
         eq(cellProcessingStatus.colIndex, colIndex)
       ))
@@ -628,6 +793,13 @@ export class ColumnAwareWrapper {
       });
     }
 
+    await publishCellUpdate(tx, ctx.sheetId, {
+      rowIndex: ctx.rowIndex,
+      colIndex,
+      status,
+      message: message ?? null,
+    });
+
     console.log(`[updateCellStatusInTransaction] 🔒 Set cell (${ctx.rowIndex}, ${colIndex}) status to '${status}' for operator '${operatorName}' within transaction`);
   }
 }
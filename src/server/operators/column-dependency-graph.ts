@@ -0,0 +1,119 @@
+/**
+ * Column Dependency Graph
+ *
+ * Schedules column filling from each column's declared `dependencies`
+ * (positions of the columns it reads from) instead of strict left-to-right.
+ * When a cell is written, every column whose dependencies are now all filled
+ * becomes ready, so independent columns can run in parallel.
+ *
+ * Columns without explicit dependencies keep the legacy behaviour of depending
+ * on the column immediately to their left. Column 0 is the input column and is
+ * never filled by an operator.
+ */
+
+export interface DependencyColumn {
+  position: number;
+  title?: string;
+  dependencies?: number[] | null;
+}
+
+export class ColumnDependencyGraph {
+  /**
+   * Effective dependencies for a column (explicit list, or the previous column)
+   */
+  static getDependencies(column: DependencyColumn): number[] {
+    if (column.dependencies && column.dependencies.length > 0) {
+      return column.dependencies;
+    }
+    return column.position > 0 ? [column.position - 1] : [];
+  }
+
+  /**
+   * Columns that should be (re)filled after `writtenColIndex` changed in a row
+   *
+   * A column is ready when it depends on the written column and every one of
+   * its dependencies has non-empty content in `rowData`.
+   */
+  static getReadyColumns(
+    columns: DependencyColumn[],
+    rowData: Record<number, string | null | undefined>,
+    writtenColIndex: number
+  ): number[] {
+    const isFilled = (colIndex: number) => !!rowData[colIndex]?.trim();
+
+    return columns
+      .filter(col => col.position > 0 && col.position !== writtenColIndex)
+      .filter(col => {
+        const deps = this.getDependencies(col);
+        return deps.includes(writtenColIndex) && deps.every(isFilled);
+      })
+      .map(col => col.position);
+  }
+
+  /**
+   * Find a dependency cycle, if any
+   *
+   * @returns column positions forming the cycle (first position repeated at the end), or null
+   */
+  static findCycle(columns: DependencyColumn[]): number[] | null {
+    const depsByPosition = new Map(columns.map(col => [col.position, this.getDependencies(col)]));
+    const state = new Map<number, 'visiting' | 'done'>();
+    const stack: number[] = [];
+
+    const visit = (position: number): number[] | null => {
+      if (state.get(position) === 'done') return null;
+      if (state.get(position) === 'visiting') {
+        return [...stack.slice(stack.indexOf(position)), position];
+      }
+
+      state.set(position, 'visiting');
+      stack.push(position);
+
+      for (const dep of depsByPosition.get(position) ?? []) {
+        const cycle = visit(dep);
+        if (cycle) return cycle;
+      }
+
+      stack.pop();
+      state.set(position, 'done');
+      return null;
+    };
+
+    for (const col of columns) {
+      const cycle = visit(col.position);
+      if (cycle) return cycle;
+    }
+
+    return null;
+  }
+
+  /**
+   * Validate a column configuration; throws with a readable message if invalid
+   *
+   * Call this wherever dependencies are configured (sheet/template creation,
+   * column config updates) so bad graphs are rejected before any event runs.
+   */
+  static validate(columns: DependencyColumn[]): void {
+    const positions = new Set(columns.map(col => col.position));
+    const label = (position: number) => {
+      const col = columns.find(c => c.position === position);
+      return col?.title ? `"${col.title}"` : `column ${position}`;
+    };
+
+    for (const col of columns) {
+      for (const dep of col.dependencies ?? []) {
+        if (dep === col.position) {
+          throw new Error(`Column ${label(col.position)} cannot depend on itself`);
+        }
+        if (!positions.has(dep)) {
+          throw new Error(`Column ${label(col.position)} depends on column ${dep}, which does not exist`);
+        }
+      }
+    }
+
+    const cycle = this.findCycle(columns);
+    if (cycle) {
+      throw new Error(`Column dependencies form a cycle: ${cycle.map(label).join(' → ')}`);
+    }
+  }
+}
@@ -7,25 +7,75 @@
  * Reference: .tribe/snippets/GEMINI-FUNCTION_CALLING.md
  */
 
+import {
+  FunctionCallingConfigMode,
+  type Content,
+  type FunctionDeclaration as GeminiFunctionDeclaration,
+  type GenerateContentConfig,
+  type Part,
+  type ToolConfig,
+} from "@google/genai";
 import { getGeminiClient } from "@/server/gemini/client";
-import { DEFAULT_MODEL, FUNCTION_CALLING_MODES } from "@/server/gemini/config";
+import { trackGeminiCall } from "@/server/gemini/usage-tracker";
+import { DEFAULT_MODEL, FUNCTION_CALLING_MODES, type FunctionCallingMode } from "@/server/gemini/config";
+import { FunctionRegistry, getFunctionRegistry } from "./function-registry";
 import type {
   FunctionCallInput,
   FunctionCallOutput,
   FunctionCall,
   FunctionDeclaration,
+  ExecutedFunctionCall,
   BaseOperator,
 } from "@/types/operators";
 
+/**
+ * Maximum Gemini round-trips before giving up on a final answer
+ */
+const MAX_FUNCTION_ROUNDS = 5;
+
+const GEMINI_MODES: Record<FunctionCallingMode, FunctionCallingConfigMode> = {
+  auto: FunctionCallingConfigMode.AUTO,
+  any: FunctionCallingConfigMode.ANY,
+  none: FunctionCallingConfigMode.NONE,
+};
+
+/**
+ * A registry declaration as Gemini takes it (its parameters are JSON Schema)
+ */
+function toGeminiDeclaration(declaration: FunctionDeclaration): GeminiFunctionDeclaration {
+  return {
+    name: declaration.name,
+    description: declaration.description,
+    parametersJsonSchema: declaration.parameters,
+  };
+}
+
+function toGeminiToolConfig(toolConfig: NonNullable<FunctionCallInput["toolConfig"]>): ToolConfig {
+  const { mode, allowedFunctionNames } = toolConfig.functionCallingConfig ?? {};
+  return {
+    functionCallingConfig: {
+      mode: mode ? GEMINI_MODES[mode] : undefined,
+      allowedFunctionNames,
+    },
+  };
+}
+
 export class FunctionCallingOperator
   implements BaseOperator<FunctionCallInput, FunctionCallOutput>
 {
   readonly name = "function_calling";
   readonly inputType = "FunctionCallInput";
   readonly outputType = "FunctionCallOutput";
+  readonly model = DEFAULT_MODEL;
+
+  constructor(private registry: FunctionRegistry = getFunctionRegistry()) {}
 
   /**
    * Execute function calling via Gemini
+   *
+   * Calls to registered functions are executed server-side and their results
+   * sent back to Gemini until it answers in text. If Gemini asks for a function
+   * the registry can't run, the calls are returned with `requiresExecution`.
    */
   async operation(input: FunctionCallInput): Promise<FunctionCallOutput> {
     const client = getGeminiClient();
@@ -36,46 +86,107 @@ export class FunctionCallingOperator
         throw new Error("At least one function declaration must be provided");
       }
 
-      // Configure function calling tool
-      const config = {
-        tools: [
-          {
-            functionDeclarations: input.availableFunctions,
-          },
-        ],
-        toolConfig: input.toolConfig ?? {
-          functionCallingConfig: {
-            mode: FUNCTION_CALLING_MODES.AUTO,
-          },
+      const declaredNames = new Set(input.availableFunctions.map((fn) => fn.name));
+      const functionDeclarations = input.availableFunctions.map(toGeminiDeclaration);
+      const autoToolConfig = toGeminiToolConfig({
+        functionCallingConfig: {
+          mode: FUNCTION_CALLING_MODES.AUTO,
         },
-      };
-
-      // Call Gemini with function declarations
-      const response = await client.models.generateContent({
-        model: DEFAULT_MODEL,
-        contents: input.prompt,
-        config: config as any,
       });
 
-      // Extract function calls from response
-      const functionCalls: FunctionCall[] = [];
+      const contents: Content[] = [{ role: "user", parts: [{ text: input.prompt }] }];
+      const executedCalls: ExecutedFunctionCall[] = [];
+
+      for (let round = 0; round < MAX_FUNCTION_ROUNDS; round++) {
+        // Configure function calling tool (a forced mode only applies to the first turn)
+        const config: GenerateContentConfig = {
+          tools: [
+            {
+              functionDeclarations,
+            },
+          ],
+          toolConfig: round === 0 && input.toolConfig ? toGeminiToolConfig(input.toolConfig) : autoToolConfig,
+        };
+
+        // Call Gemini with function declarations
+        const response = await trackGeminiCall(
+          { operatorName: this.name, model: this.model },
+          () => client.models.generateContent({
+            model: this.model,
+            contents,
+            config,
+          })
+        );
+
+        // Extract function calls from response
+        const functionCalls: FunctionCall[] = [];
+
+        if (response.functionCalls && response.functionCalls.length > 0) {
+          for (const call of response.functionCalls) {
+            if (call.name) {
+              functionCalls.push({
+                id: call.id,
+                name: call.name,
+                args: (call.args ?? {}) as Record<string, unknown>,
+              });
+            }
+          }
+        }
+
+        // Final answer
+        if (functionCalls.length === 0) {
+          return {
+            functionCalls: [],
+            response: response.text ?? undefined,
+            requiresExecution: false,
+            executedCalls,
+          };
+        }
 
-      if (response.functionCalls && response.functionCalls.length > 0) {
-        for (const call of response.functionCalls) {
-          if (call.name && call.args) {
-            functionCalls.push({
-              name: call.name,
-              args: call.args as Record<string, unknown>,
+        // Hand calls we can't run back to the caller
+        const executable = functionCalls.every(
+          (call) => declaredNames.has(call.name) && this.registry.has(call.name)
+        );
+        if (!executable) {
+          return {
+            functionCalls,
+            response: response.text ?? undefined,
+            requiresExecution: true,
+            executedCalls,
+          };
+        }
+
+        contents.push(
+          response.candidates?.[0]?.content ?? {
+            role: "model",
+            parts: functionCalls.map((call) => ({ functionCall: call })),
+          }
+        );
+
+        const responseParts: Part[] = [];
+        for (const call of functionCalls) {
+          console.log(`[FunctionCallingOperator] Executing ${call.name}(${JSON.stringify(call.args)})`);
+
+          try {
+            const result = await this.registry.execute(call.name, call.args, input.executionContext);
+            executedCalls.push({ ...call, result });
+            responseParts.push({
+              functionResponse: { id: call.id, name: call.name, response: { result } },
+            });
+          } catch (error) {
+            // Let Gemini see the failure and decide how to answer
+            const message = error instanceof Error ? error.message : String(error);
+            executedCalls.push({ ...call, error: message });
+            responseParts.push({
+              functionResponse: { id: call.id, name: call.name, response: { error: message } },
             });
           }
         }
+
+        contents.push({ role: "user", parts: responseParts });
       }
 
-      return {
-        functionCalls,
-        response: response.text ?? undefined,
-        requiresExecution: functionCalls.length > 0,
-      };
+      throw new Error(`No final answer after ${MAX_FUNCTION_ROUNDS} function-calling rounds`);
     } catch (error) {
       throw new Error(
         `Function Calling operation failed: ${error instanceof Error ? error.message : String(error)}`
@@ -84,29 +195,20 @@ export class FunctionCallingOperator
   }
 
   /**
-   * Optional: Execute the function calls and generate final response
+   * Log executed calls and any left for the caller
    */
   async next?(output: FunctionCallOutput): Promise<void> {
-    if (!output.requiresExecution) {
-      console.log(`[FunctionCallingOperator] No function calls to execute`);
-      return;
+    for (const call of output.executedCalls ?? []) {
+      console.log(
+        `[FunctionCallingOperator] ${call.name}(${JSON.stringify(call.args)}) ${call.error ? `failed: ${call.error}` : "ok"}`
+      );
     }
 
-    console.log(
-      `[FunctionCallingOperator] Detected ${output.functionCalls.length} function call(s)`
-    );
-
-    for (const call of output.functionCalls) {
-      console.log(`  - ${call.name}(${JSON.stringify(call.args)})`);
+    if (output.requiresExecution) {
+      console.log(
+        `[FunctionCallingOperator] ${output.functionCalls.length} function call(s) need execution by the caller`
+      );
     }
-
-    // TODO: Implement function execution logic
-    // This would:
-    // 1. Match function names to actual implementations
-    // 2. Execute functions with provided arguments
-    // 3. Collect results
-    // 4. Send results back to Gemini for final response
-    // 5. Update spreadsheet with results
   }
 
   /**
@@ -119,91 +221,31 @@ export class FunctionCallingOperator
   }
 }
 
-/**
- * Function executor registry
- * Maps function names to actual implementations
- */
-export class FunctionRegistry {
-  private functions = new Map<
-    string,
-    (args: Record<string, unknown>) => Promise<unknown>
-  >();
-
-  /**
-   * Register a function implementation
-   */
-  register(
-    name: string,
-    implementation: (args: Record<string, unknown>) => Promise<unknown>
-  ): void {
-    this.functions.set(name, implementation);
-  }
-
-  /**
-   * Execute a function by name
-   */
-  async execute(name: string, args: Record<string, unknown>): Promise<unknown> {
-    const fn = this.functions.get(name);
-    if (!fn) {
-      throw new Error(`Function not found: ${name}`);
-    }
-
-    try {
-      return await fn(args);
-    } catch (error) {
-      throw new Error(
-        `Function execution failed for ${name}: ${error instanceof Error ? error.message : String(error)}`
-      );
-    }
-  }
-
-  /**
-   * Check if a function is registered
-   */
-  has(name: string): boolean {
-    return this.functions.has(name);
-  }
-
-  /**
-   * Get all registered function names
-   */
-  getRegisteredFunctions(): string[] {
-    return Array.from(this.functions.keys());
-  }
-}
+export { FunctionRegistry };
 
 /**
  * Helper: Execute function calls and generate final response
+ *
+ * Calls the operator's own registry can't run are executed with `registry`.
  */
 export async function executeFunctionCalls(
   operator: FunctionCallingOperator,
   input: FunctionCallInput,
   registry: FunctionRegistry
 ): Promise<{ results: unknown[]; finalResponse?: string }> {
-  // First, get function calls from Gemini
   const output = await operator.operation(input);
+  const results: unknown[] = (output.executedCalls ?? []).map((call) => call.result ?? { error: call.error });
 
-  if (!output.requiresExecution) {
-    return {
-      results: [],
-      finalResponse: output.response,
-    };
-  }
-
-  // Execute each function call
-  const results: unknown[] = [];
-  for (const call of output.functionCalls) {
+  // Execute each remaining function call
+  for (const call of output.requiresExecution ? output.functionCalls : []) {
     if (registry.has(call.name)) {
-      const result = await registry.execute(call.name, call.args);
+      const result = await registry.execute(call.name, call.args, input.executionContext);
       results.push(result);
     } else {
       console.warn(`Function ${call.name} not found in registry`);
     }
   }
 
-  // TODO: Send results back to Gemini for final user-friendly response
-  // This would involve another generateContent call with function results
-
   return {
     results,
     finalResponse: output.response,
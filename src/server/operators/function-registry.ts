@@ -0,0 +1,358 @@
+/**
+ * Function Registry
+ *
+ * Server-side catalog of functions the function_calling operator may execute.
+ * Each entry pairs a Gemini function declaration with its implementation, so a
+ * column only has to name the functions it allows in `operatorConfig`.
+ *
+ * Built-ins:
+ * - http_get: fetch a URL on an allowlisted host (FUNCTION_HTTP_ALLOWED_HOSTS)
+ * - extract_regex: run a regular expression over text (in a worker thread with a
+ *   time limit, since the pattern comes from the model and may backtrack catastrophically)
+ * - parse_date: normalize a date string to ISO format
+ */
+
+import { Worker } from "worker_threads";
+import { env } from "@/env";
+import type {
+  FunctionDeclaration,
+  FunctionExecutionContext,
+} from "@/types/operators";
+
+export type FunctionImplementation = (
+  args: Record<string, unknown>,
+  context: FunctionExecutionContext
+) => Promise<unknown>;
+
+const HTTP_TIMEOUT_MS = 10000;
+const MAX_HTTP_BODY_LENGTH = 20000;
+const MAX_REGEX_PATTERN_LENGTH = 200;
+const MAX_REGEX_TEXT_LENGTH = 100000;
+const MAX_REGEX_MATCHES = 50;
+const REGEX_TIMEOUT_MS = 1000;
+
+interface RegexMatch {
+  match: string;
+  groups: Array<string | null>;
+  index: number;
+}
+
+// Plain CommonJS, evaluated in the worker
+const REGEX_WORKER_SOURCE = `
+const { parentPort, workerData } = require("worker_threads");
+const { text, pattern, flags, maxMatches } = workerData;
+const matches = [];
+for (const match of text.matchAll(new RegExp(pattern, flags + "g"))) {
+  matches.push({ match: match[0], groups: match.slice(1).map((group) => group ?? null), index: match.index ?? 0 });
+  if (matches.length >= maxMatches) break;
+}
+parentPort.postMessage(matches);
+`;
+
+/**
+ * Function executor registry
+ * Maps function names to actual implementations
+ */
+export class FunctionRegistry {
+  private functions = new Map<string, FunctionImplementation>();
+  private declarations = new Map<string, FunctionDeclaration>();
+
+  /**
+   * Register a function implementation (and its declaration, if Gemini should see it)
+   */
+  register(
+    name: string,
+    implementation: FunctionImplementation,
+    declaration?: FunctionDeclaration
+  ): void {
+    this.functions.set(name, implementation);
+    if (declaration) {
+      this.declarations.set(name, declaration);
+    }
+  }
+
+  /**
+   * Execute a function by name
+   */
+  async execute(
+    name: string,
+    args: Record<string, unknown>,
+    context: FunctionExecutionContext = {}
+  ): Promise<unknown> {
+    const fn = this.functions.get(name);
+    if (!fn) {
+      throw new Error(`Function not found: ${name}`);
+    }
+
+    try {
+      return await fn(args, context);
+    } catch (error) {
+      throw new Error(
+        `Function execution failed for ${name}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  /**
+   * Check if a function is registered
+   */
+  has(name: string): boolean {
+    return this.functions.has(name);
+  }
+
+  /**
+   * Get all registered function names
+   */
+  getRegisteredFunctions(): string[] {
+    return Array.from(this.functions.keys());
+  }
+
+  /**
+   * Declarations for the given function names (all declared functions if omitted)
+   */
+  getDeclarations(names?: string[]): FunctionDeclaration[] {
+    if (!names) {
+      return Array.from(this.declarations.values());
+    }
+
+    return names.flatMap((name) => {
+      const declaration = this.declarations.get(name);
+      if (!declaration) {
+        console.warn(`[FunctionRegistry] No declaration for function: ${name}`);
+        return [];
+      }
+      return [declaration];
+    });
+  }
+}
+
+/**
+ * Hosts http_get may reach: the server allowlist, optionally narrowed by the column
+ */
+export function getAllowedHosts(columnHosts?: string[]): string[] {
+  const serverHosts = (env.FUNCTION_HTTP_ALLOWED_HOSTS ?? "")
+    .split(",")
+    .map((host) => host.trim().toLowerCase())
+    .filter(Boolean);
+
+  if (!columnHosts || columnHosts.length === 0) {
+    return serverHosts;
+  }
+
+  const requested = new Set(columnHosts.map((host) => host.trim().toLowerCase()));
+  return serverHosts.filter((host) => requested.has(host));
+}
+
+/**
+ * Read a string argument (Gemini occasionally sends numbers or objects)
+ */
+function stringArg(args: Record<string, unknown>, key: string): string {
+  const value = args[key];
+  if (value === undefined || value === null) return "";
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+const httpGet: FunctionImplementation = async (args, context) => {
+  const rawUrl = stringArg(args, "url");
+
+  let url: URL;
+  try {
+    url = new URL(rawUrl);
+  } catch {
+    throw new Error(`Invalid URL: ${rawUrl}`);
+  }
+
+  if (url.protocol !== "https:" && url.protocol !== "http:") {
+    throw new Error(`Unsupported protocol: ${url.protocol}`);
+  }
+
+  const allowedHosts = getAllowedHosts(context.allowedHosts);
+  if (!allowedHosts.includes(url.hostname.toLowerCase())) {
+    throw new Error(
+      allowedHosts.length > 0
+        ? `Host ${url.hostname} is not allowed (allowed: ${allowedHosts.join(", ")})`
+        : "No hosts are allowed for http_get on this server"
+    );
+  }
+
+  // Redirects could leave the allowlist, so treat them as errors
+  const response = await fetch(url, {
+    method: "GET",
+    redirect: "error",
+    signal: AbortSignal.timeout(HTTP_TIMEOUT_MS),
+    headers: { Accept: "application/json, text/plain;q=0.9, */*;q=0.5" },
+  });
+
+  const body = await response.text();
+
+  return {
+    status: response.status,
+    contentType: response.headers.get("content-type"),
+    body: body.slice(0, MAX_HTTP_BODY_LENGTH),
+    truncated: body.length > MAX_HTTP_BODY_LENGTH,
+  };
+};
+
+const extractRegex: FunctionImplementation = async (args) => {
+  const text = stringArg(args, "text");
+  const pattern = stringArg(args, "pattern");
+  const flags = stringArg(args, "flags");
+
+  if (!pattern || pattern.length > MAX_REGEX_PATTERN_LENGTH) {
+    throw new Error(`Pattern must be 1-${MAX_REGEX_PATTERN_LENGTH} characters`);
+  }
+  if (!/^[imsu]*$/.test(flags)) {
+    throw new Error(`Unsupported flags: ${flags} (allowed: i, m, s, u)`);
+  }
+
+  // Compiling doesn't backtrack, so syntax errors are reported without a worker
+  new RegExp(pattern, `${flags}g`);
+
+  const matches = await matchInWorker(text.slice(0, MAX_REGEX_TEXT_LENGTH), pattern, flags);
+
+  return { count: matches.length, matches };
+};
+
+/**
+ * Run a regex over text off the event loop, giving up (and killing the worker) after REGEX_TIMEOUT_MS
+ */
+function matchInWorker(text: string, pattern: string, flags: string): Promise<RegexMatch[]> {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(REGEX_WORKER_SOURCE, {
+      eval: true,
+      workerData: { text, pattern, flags, maxMatches: MAX_REGEX_MATCHES },
+      resourceLimits: { maxOldGenerationSizeMb: 64 },
+    });
+
+    const timer = setTimeout(() => {
+      void worker.terminate();
+      reject(new Error(`Pattern took longer than ${REGEX_TIMEOUT_MS}ms to run; use a simpler pattern`));
+    }, REGEX_TIMEOUT_MS);
+
+    worker.once("message", (matches: RegexMatch[]) => {
+      clearTimeout(timer);
+      void worker.terminate();
+      resolve(matches);
+    });
+    worker.once("error", (error) => {
+      clearTimeout(timer);
+      reject(error);
+    });
+  });
+}
+
+const parseDate: FunctionImplementation = async (args) => {
+  const text = stringArg(args, "text").trim();
+  const timezone = stringArg(args, "timezone") || "UTC";
+
+  // "March 5th, 2024" -> "March 5, 2024"
+  const normalized = text.replace(/(\d+)(st|nd|rd|th)\b/gi, "$1");
+  const timestamp = Date.parse(normalized);
+
+  if (Number.isNaN(timestamp)) {
+    return { valid: false, input: text };
+  }
+
+  const date = new Date(timestamp);
+  const localDate = new Intl.DateTimeFormat("en-CA", {
+    timeZone: timezone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(date);
+
+  return {
+    valid: true,
+    input: text,
+    iso: date.toISOString(),
+    date: localDate,
+    timezone,
+    timestamp,
+  };
+};
+
+/**
+ * Declarations for the built-in functions
+ */
+export const BuiltinFunctionDeclarations: Record<string, FunctionDeclaration> = {
+  http_get: {
+    name: "http_get",
+    description:
+      "Fetches a URL with an HTTP GET request and returns the status and response body. Only allowlisted hosts can be reached.",
+    parameters: {
+      type: "object",
+      properties: {
+        url: {
+          type: "string",
+          description: "Absolute http(s) URL to fetch",
+        },
+      },
+      required: ["url"],
+    },
+  },
+
+  extract_regex: {
+    name: "extract_regex",
+    description:
+      "Extracts all matches of a JavaScript regular expression from text, including capture groups",
+    parameters: {
+      type: "object",
+      properties: {
+        text: {
+          type: "string",
+          description: "Text to search",
+        },
+        pattern: {
+          type: "string",
+          description: "Regular expression pattern without slashes (e.g. '\\d{3}-\\d{4}')",
+        },
+        flags: {
+          type: "string",
+          description: "Optional flags: i (ignore case), m (multiline), s (dotall), u (unicode)",
+        },
+      },
+      required: ["text", "pattern"],
+    },
+  },
+
+  parse_date: {
+    name: "parse_date",
+    description:
+      "Parses a human-readable date or timestamp and returns it as ISO 8601 and YYYY-MM-DD",
+    parameters: {
+      type: "object",
+      properties: {
+        text: {
+          type: "string",
+          description: "Date text to parse (e.g. 'March 5th, 2024' or '2024-03-05T10:00:00Z')",
+        },
+        timezone: {
+          type: "string",
+          description: "IANA timezone for the YYYY-MM-DD date (default 'UTC')",
+        },
+      },
+      required: ["text"],
+    },
+  },
+};
+
+const BUILTIN_IMPLEMENTATIONS: Record<string, FunctionImplementation> = {
+  http_get: httpGet,
+  extract_regex: extractRegex,
+  parse_date: parseDate,
+};
+
+/**
+ * Singleton registry with the built-in functions registered
+ */
+let registryInstance: FunctionRegistry | null = null;
+
+export function getFunctionRegistry(): FunctionRegistry {
+  if (!registryInstance) {
+    registryInstance = new FunctionRegistry();
+    for (const [name, implementation] of Object.entries(BUILTIN_IMPLEMENTATIONS)) {
+      registryInstance.register(name, implementation, BuiltinFunctionDeclarations[name]);
+    }
+  }
+  return registryInstance;
+}
@@ -8,8 +8,10 @@
  */
 
 import { getGeminiClient } from "@/server/gemini/client";
+import { trackGeminiCall } from "@/server/gemini/usage-tracker";
 import { DEFAULT_MODEL } from "@/server/gemini/config";
 import { resolveRedirectUrl } from "@/server/utils/url-resolver";
+import { ClarificationManager } from "./clarification-manager";
 import type {
   GoogleSearchInput,
   GoogleSearchOutput,
@@ -23,6 +25,7 @@ export class GoogleSearchGeminiOperator
   readonly name = "google_search_gemini";
   readonly inputType = "GoogleSearchInput";
   readonly outputType = "GoogleSearchOutput";
+  readonly model = DEFAULT_MODEL;
 
   /**
    * Execute Google Search via Gemini
@@ -38,11 +41,14 @@ export class GoogleSearchGeminiOperator
       };
 
       // Call Gemini with search grounding
-      const response = await client.models.generateContent({
-        model: DEFAULT_MODEL,
-        contents: input.query,
-        config,
-      });
+      const response = await trackGeminiCall(
+        { operatorName: this.name, model: this.model, requestData: { query: input.query.slice(0, 500) } },
+        () => client.models.generateContent({
+          model: this.model,
+          contents: input.query,
+          config,
+        })
+      );
 
       // Extract grounding metadata
       const groundingMetadata =
@@ -82,11 +88,22 @@ export class GoogleSearchGeminiOperator
         }
       }
 
+      // Ambiguous query: Gemini asked instead of answering (fall back to the candidate sites)
+      const clarification = ClarificationManager.parse(response.text);
+      if (clarification && !clarification.options) {
+        const candidates = [...new Set(results.map((result) => result.url))].slice(0, 3);
+        if (candidates.length > 0) {
+          clarification.options = candidates;
+          clarification.responseType = "choice";
+        }
+      }
+
       return {
         results,
         webSearchQueries: groundingMetadata?.webSearchQueries || [],
         groundingMetadata,
         timestamp: new Date(),
+        clarification: clarification ?? undefined,
       };
     } catch (error) {
       throw new Error(
@@ -0,0 +1,170 @@
+/**
+ * Operator Result Cache
+ *
+ * The same company searched in three sheets shouldn't cost three Gemini calls.
+ * Operator outputs are stored in operator_cache under the operator, the model
+ * and a hash of the normalized input, and reused until the operator's TTL
+ * (OPERATOR_CACHE_TTL) runs out. Columns can opt out with cacheResults.
+ *
+ * The input passed here is what the result depends on (the query, URLs, source
+ * data and the target column's goal), not the prompt the operator is actually
+ * sent: that embeds sheet-specific context and would never match across sheets
+ * (see cacheKeyInput in operator-controller.ts).
+ *
+ * The cache is an optimization: failing to read or write it only costs the
+ * Gemini call it would have saved, so errors are logged and swallowed.
+ */
+
+import { createHash } from "crypto";
+import { db } from "@/server/db";
+import { operatorCache } from "@/server/db/schema";
+import { and, eq, gt, lt, sql } from "drizzle-orm";
+import { OPERATOR_CACHE_TTL } from "@/server/gemini/config";
+import type { OperatorName } from "@/types/operators";
+
+/**
+ * Whether an operator's results are cached at all
+ */
+export function isCacheable(operatorName: OperatorName): boolean {
+  return (OPERATOR_CACHE_TTL[operatorName] ?? 0) > 0;
+}
+
+/**
+ * Collapse whitespace and sort object keys, so inputs that only differ in
+ * formatting share an entry
+ */
+function normalize(value: unknown): unknown {
+  if (typeof value === 'string') {
+    return value.replace(/\s+/g, ' ').trim();
+  }
+  if (Array.isArray(value)) {
+    return value.map(normalize);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([, entry]) => entry !== undefined)
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([key, entry]) => [key, normalize(entry)])
+    );
+  }
+  return value;
+}
+
+/**
+ * The operator input as it's keyed: searches (query and row values) ignore case, URL lists ignore order and repeats
+ */
+function normalizeInput(operatorName: OperatorName, input: unknown): unknown {
+  const normalized = normalize(input) as Record<string, unknown>;
+
+  if (operatorName === 'google_search' && typeof normalized.query === 'string') {
+    const row = normalized.row as Record<string, string> | undefined;
+    return {
+      ...normalized,
+      query: normalized.query.toLowerCase(),
+      ...(row && {
+        row: Object.fromEntries(Object.entries(row).map(([title, value]) => [title, value.toLowerCase()])),
+      }),
+    };
+  }
+  if (operatorName === 'url_context' && Array.isArray(normalized.urls)) {
+    return { ...normalized, urls: [...new Set(normalized.urls as string[])].sort() };
+  }
+  return normalized;
+}
+
+/**
+ * The key an input is stored under (operator and model aside)
+ */
+export function hashInput(operatorName: OperatorName, input: unknown): string {
+  return createHash('sha256')
+    .update(JSON.stringify(normalizeInput(operatorName, input)))
+    .digest('hex');
+}
+
+/**
+ * A stored output for this input, if one hasn't expired yet
+ */
+export async function getCachedOutput(
+  operatorName: OperatorName,
+  model: string,
+  input: unknown
+): Promise<unknown> {
+  try {
+    const key = and(
+      eq(operatorCache.operatorName, operatorName),
+      eq(operatorCache.model, model),
+      eq(operatorCache.inputHash, hashInput(operatorName, input))
+    );
+
+    const [entry] = await db
+      .select({ id: operatorCache.id, output: operatorCache.output })
+      .from(operatorCache)
+      .where(and(key, gt(operatorCache.expiresAt, new Date())))
+      .limit(1);
+
+    if (!entry) {
+      return undefined;
+    }
+
+    await db
+      .update(operatorCache)
+      .set({ hitCount: sql`${operatorCache.hitCount} + 1` })
+      .where(eq(operatorCache.id, entry.id));
+
+    return entry.output;
+  } catch (error) {
+    console.error('[OperatorCache] Failed to read cache:', error);
+    return undefined;
+  }
+}
+
+/**
+ * Store an output for reuse, replacing an expired entry for the same input
+ */
+export async function cacheOutput(
+  operatorName: OperatorName,
+  model: string,
+  input: unknown,
+  output: unknown
+): Promise<void> {
+  const ttl = OPERATOR_CACHE_TTL[operatorName] ?? 0;
+  if (ttl <= 0) {
+    return;
+  }
+
+  const now = new Date();
+  const expiresAt = new Date(now.getTime() + ttl);
+
+  try {
+    await db
+      .insert(operatorCache)
+      .values({
+        operatorName,
+        model,
+        inputHash: hashInput(operatorName, input),
+        output,
+        expiresAt,
+      })
+      .onConflictDoUpdate({
+        target: [operatorCache.operatorName, operatorCache.model, operatorCache.inputHash],
+        set: { output, hitCount: 0, createdAt: now, expiresAt },
+      });
+  } catch (error) {
+    console.error('[OperatorCache] Failed to write cache:', error);
+  }
+}
+
+/**
+ * Delete expired entries
+ *
+ * @returns number of rows deleted
+ */
+export async function pruneOperatorCache(): Promise<number> {
+  const deleted = await db
+    .delete(operatorCache)
+    .where(lt(operatorCache.expiresAt, new Date()))
+    .returning({ id: operatorCache.id });
+
+  return deleted.length;
+}
@@ -9,11 +9,26 @@ import { GoogleSearchGeminiOperator } from "./google-search-operator";
 import { URLContextEnrichmentOperator } from "./url-context-operator";
 import { StructuredOutputConversionOperator } from "./structured-output-operator";
 import { FunctionCallingOperator } from "./function-calling-operator";
-import type { BaseOperator, OperatorName } from "@/types/operators";
+import { getFunctionRegistry } from "./function-registry";
+import type {
+  BaseOperator,
+  OperatorName,
+  FunctionCallInput,
+  FunctionDeclaration,
+  FunctionCallingColumnConfig,
+} from "@/types/operators";
 import { db } from "@/server/db";
 import { eventQueue } from "@/server/db/schema";
 import { eq } from "drizzle-orm";
 import { ColumnAwareWrapper } from "./column-aware-wrapper";
+import { ColumnDependencyGraph } from "./column-dependency-graph";
+import { ClarificationManager, type ClarificationAnswer } from "./clarification-manager";
+import { getWebhookDispatcher } from "@/server/webhooks/webhook-dispatcher";
+import { recordCacheHit, runWithUsageContext } from "@/server/gemini/usage-tracker";
+import { DEFAULT_MODEL, RATE_LIMIT_CONFIG } from "@/server/gemini/config";
+import { cacheOutput, getCachedOutput, isCacheable } from "./operator-cache";
+import { publishEventUpdate } from "@/server/realtime/sheet-change-feed";
+import { retryBackoff } from "@/server/event-lease";
 
 /**
  * Sheet context for operators
@@ -34,10 +49,15 @@ export interface SheetContext {
     validationRules?: any;
     isRequired?: boolean | null;
     defaultValue?: string | null;
+    cacheResults?: boolean | null;
   }>;
   rowIndex: number;
-  currentColumnIndex: number;
+  currentColumnIndex: number; // Column whose write triggered this event
+  targetColumnIndex: number; // Column the operator fills (chosen by the dependency graph)
   rowData: Record<number, string>;
+  clarification?: ClarificationAnswer; // User's answer when resuming after a clarification
+  retryCount: number; // Attempts already made for this event
+  retryPrompt?: string; // Validator-improved prompt after a low-quality result
 }
 
 /**
@@ -49,6 +69,7 @@ export interface BaseEvent<T = unknown> {
   eventType: EventType;
   timestamp: Date;
   data: T;
+  retryCount?: number;
   sheetContext?: SheetContext;
 }
 
@@ -84,6 +105,70 @@ export interface UpdateCellInput {
   content: string;
 }
 
+/**
+ * What a cached result is keyed on: the operator's own input (query, URLs,
+ * source data, output schema), the target column's goal and the row values
+ * the column reads (its dependencies, by title), without the rest of the
+ * contextual prompt built around them (column structure, system prompt),
+ * which differs between sheets asking the same thing. The row values matter
+ * because the query alone can be the same for different rows, e.g. the
+ * "reprocess_trigger" placeholder queued by a column reprocess.
+ */
+export function cacheKeyInput(event: BaseEvent, operatorName: OperatorName, input: unknown): unknown {
+  const ctx = event.sheetContext;
+  const targetColumn = ctx?.columns[ctx.targetColumnIndex];
+  // Without a target column no contextual prompt was added
+  if (!ctx || !targetColumn) {
+    return input;
+  }
+
+  const cellData = event.data as UpdateCellInput | ManualTriggerData;
+  const parameters = "content" in cellData ? undefined : cellData.parameters;
+  const column = {
+    title: targetColumn.title,
+    dataType: targetColumn.dataType,
+    prompt: targetColumn.prompt || parameters?.prompt || parameters?.extractionPrompt,
+    clarification: ctx.clarification,
+  };
+  const row = Object.fromEntries(
+    ColumnDependencyGraph.getDependencies(targetColumn).map(position => [
+      ctx.columns[position]?.title ?? String(position),
+      ctx.rowData[position] ?? "",
+    ])
+  );
+
+  switch (operatorName) {
+    case "google_search":
+      // The edited cell is both the query and a row value: clean both alike
+      return {
+        query: searchQuery(cellData),
+        row: Object.fromEntries(Object.entries(row).map(([title, value]) => [title, stripQueryPrefix(value)])),
+        column,
+      };
+    case "url_context":
+      return { urls: (input as { urls: string[] }).urls, row, column };
+    case "structured_output": {
+      const { rawData, outputSchema } = input as { rawData: string; outputSchema: unknown };
+      return { rawData, outputSchema, column };
+    }
+    default:
+      return input;
+  }
+}
+
+/**
+ * The search a cell asks for, before any sheet context is added
+ */
+function searchQuery(cellData: UpdateCellInput | ManualTriggerData): string {
+  return "content" in cellData
+    ? stripQueryPrefix(cellData.content)
+    : (cellData.parameters?.query as string) || "";
+}
+
+function stripQueryPrefix(text: string): string {
+  return text.replace(/^(search:|find:|query:)/i, "").trim();
+}
+
 /**
  * Operator Controller
  *
@@ -121,7 +206,7 @@ export class OperatorController {
 
       // Set status to processing for next column
       if (event.sheetContext) {
-        const targetColIndex = event.sheetContext.currentColumnIndex + 1;
+        const targetColIndex = event.sheetContext.targetColumnIndex;
         const statusMessages: Record<string, string> = {
           'google_search': 'Searching Google...',
           'url_context': 'Analyzing URL...',
@@ -142,23 +227,79 @@ export class OperatorController {
       // Prepare input
       const input = this.prepareInput(event, operatorName);
 
-      // Execute operator
-      const output = await operator.operation(input);
+      // Record what this attempt runs so failures can be inspected and grouped
+      await db
+        .update(eventQueue)
+        .set({ operatorName, lastPrompt: this.getPromptText(input) })
+        .where(eq(eventQueue.id, event.eventId));
+
+      // Execute operator (Gemini usage is attributed to this event's sheet/column),
+      // unless an identical input was answered recently
+      const usageContext = {
+        userId: event.userId,
+        eventId: event.eventId,
+        sheetId: event.sheetContext?.sheetId,
+        colIndex: event.sheetContext ? event.sheetContext.targetColumnIndex : undefined,
+      };
+      const model = operator.model ?? DEFAULT_MODEL;
+      const useCache = this.shouldUseCache(operatorName, event.sheetContext);
+      const lookupStart = Date.now();
+      const cacheKey = useCache ? cacheKeyInput(event, operatorName, input) : undefined;
+      const cached = useCache ? await getCachedOutput(operatorName, model, cacheKey) : undefined;
+
+      let output: unknown;
+      if (cached !== undefined) {
+        console.log(`[OperatorController] Cache hit for ${operatorName} on event ${event.eventId}`);
+        output = cached;
+        await runWithUsageContext(usageContext, () => recordCacheHit(operator.name, model, Date.now() - lookupStart));
+      } else {
+        output = await runWithUsageContext(usageContext, () => operator.operation(input));
+      }
 
       console.log(`[OperatorController] Operator returned:`, output);
 
+      // Operator needs the user to disambiguate: park the event instead of guessing
+      const clarification = event.sheetContext ? ClarificationManager.detect(output) : null;
+      if (clarification && event.sheetContext) {
+        if (event.sheetContext.clarification) {
+          throw new Error(`Operator asked for clarification again after an answer: ${clarification.question}`);
+        }
+
+        await ClarificationManager.request(event, operatorName, clarification);
+        await ColumnAwareWrapper.updateCellStatus(
+          event.sheetContext,
+          event.userId,
+          event.sheetContext.targetColumnIndex,
+          'awaiting_input',
+          operatorName,
+          clarification.question.slice(0, 255)
+        );
+        return;
+      }
+
       // Write result to next column in the row
       if (event.sheetContext) {
-        await ColumnAwareWrapper.writeToNextColumn(
+        const writeResult = await ColumnAwareWrapper.writeToNextColumn(
           event.sheetContext,
           event.userId,
           event.eventId,
           output,
-          operatorName
+          operatorName,
+          { model, prompt: this.getPromptText(input) }
         );
 
+        // Low-confidence or invalid result: requeue with the improved prompt
+        if (writeResult.needsRetry) {
+          await this.retryEvent(
+            event,
+            `Low-quality result: ${(writeResult.validationIssues ?? ['unknown issue']).join('; ')}`,
+            writeResult.retryPrompt
+          );
+          return;
+        }
+
         // Mark as completed
-        const targetColIndex = event.sheetContext.currentColumnIndex + 1;
+        const targetColIndex = event.sheetContext.targetColumnIndex;
         await ColumnAwareWrapper.updateCellStatus(
           event.sheetContext,
           event.userId,
@@ -167,6 +308,11 @@ export class OperatorController {
         );
       }
 
+      // Only results that were accepted and written are worth reusing
+      if (useCache && cached === undefined) {
+        await cacheOutput(operatorName, model, cacheKey, output);
+      }
+
       // Call next() hook if defined
       if (operator.next) {
         await operator.next(output);
@@ -193,8 +339,12 @@ export class OperatorController {
         await operator.onError(error as Error, input);
       }
 
-      // Mark event as failed
-      await this.failEvent(event.eventId, error as Error);
+      // Transient Gemini/network failures are retried; anything else fails now
+      if (this.isTransientError(error as Error)) {
+        await this.retryEvent(event, (error as Error).message);
+      } else {
+        await this.failEvent(event, error as Error);
+      }
     }
   }
 
@@ -208,13 +358,12 @@ export class OperatorController {
   private selectOperator(eventType: EventType, data: unknown, sheetContext?: SheetContext): OperatorName {
     // Check if we have sheet context with column config
     if (sheetContext) {
-      const nextColIndex = sheetContext.currentColumnIndex + 1;
-      const nextColumn = sheetContext.columns[nextColIndex];
+      const targetColumn = sheetContext.columns[sheetContext.targetColumnIndex];
 
       // If column has explicit operator type configured, use it!
-      if (nextColumn?.operatorType) {
-        console.log(`[OperatorController] Using configured operator: ${nextColumn.operatorType} for column "${nextColumn.title}"`);
-        return nextColumn.operatorType as OperatorName;
+      if (targetColumn?.operatorType) {
+        console.log(`[OperatorController] Using configured operator: ${targetColumn.operatorType} for column "${targetColumn.title}"`);
+        return targetColumn.operatorType as OperatorName;
       }
     }
 
@@ -270,6 +419,24 @@ export class OperatorController {
     }
   }
 
+  /**
+   * Whether this event may reuse (and store) a cached operator result
+   */
+  private shouldUseCache(operatorName: OperatorName, sheetContext?: SheetContext): boolean {
+    if (!isCacheable(operatorName)) {
+      return false;
+    }
+    if (!sheetContext) {
+      return true;
+    }
+    // A retry asks again because the last answer was rejected
+    if (sheetContext.retryPrompt) {
+      return false;
+    }
+    const targetColumn = sheetContext.columns[sheetContext.targetColumnIndex];
+    return targetColumn?.cacheResults !== false;
+  }
+
   /**
    * Prepare input for specific operator
    */
@@ -278,14 +445,11 @@ export class OperatorController {
       case "google_search": {
         const cellData = event.data as UpdateCellInput | ManualTriggerData;
 
-        let query =
-          "content" in cellData
-            ? cellData.content.replace(/^(search:|find:|query:)/i, "").trim()
-            : (cellData.parameters?.query as string) || "";
+        let query = searchQuery(cellData);
 
         if (event.sheetContext) {
           const ctx = event.sheetContext;
-          const nextCol = ctx.columns[ctx.currentColumnIndex + 1];
+          const nextCol = ctx.columns[ctx.targetColumnIndex];
           if (nextCol) {
             const contextPrompt = ColumnAwareWrapper.buildContextualPrompt(ctx, nextCol.title);
             // Build a focused query that includes the column goal
@@ -313,7 +477,7 @@ export class OperatorController {
         // Build context-aware extraction prompt if sheet context is available
         if (event.sheetContext) {
           const ctx = event.sheetContext;
-          const nextCol = ctx.columns[ctx.currentColumnIndex + 1];
+          const nextCol = ctx.columns[ctx.targetColumnIndex];
           if (nextCol) {
             const contextPrompt = ColumnAwareWrapper.buildContextualPrompt(ctx, nextCol.title);
             extractionPrompt = contextPrompt + (extractionPrompt ? `\n\nAdditional instructions: ${extractionPrompt}` : '');
@@ -355,7 +519,7 @@ export class OperatorController {
         // Build context-aware prompt if sheet context is available
         if (event.sheetContext) {
           const ctx = event.sheetContext;
-          const nextCol = ctx.columns[ctx.currentColumnIndex + 1];
+          const nextCol = ctx.columns[ctx.targetColumnIndex];
           if (nextCol) {
             const contextPrompt = ColumnAwareWrapper.buildContextualPrompt(ctx, nextCol.title);
 
@@ -380,14 +544,41 @@ export class OperatorController {
       }
 
       case "function_calling": {
+        const registry = getFunctionRegistry();
         const trigger = event.data as ManualTriggerData;
+        const ctx = event.sheetContext;
+        const nextCol = ctx?.columns[ctx.targetColumnIndex];
+
+        // Manual triggers may supply their own prompt and declarations
+        if (!ctx || !nextCol || trigger.parameters?.functions) {
+          const input: FunctionCallInput = {
+            prompt: (trigger.parameters?.prompt as string) || "",
+            availableFunctions:
+              (trigger.parameters?.functions as FunctionDeclaration[] | undefined) ?? registry.getDeclarations(),
+            toolConfig: trigger.parameters?.toolConfig as FunctionCallInput["toolConfig"],
+          };
+          return input;
+        }
 
-        return {
-          prompt: (trigger.parameters?.prompt as string) || "",
-          availableFunctions:
-            (trigger.parameters?.functions as unknown[]) || [],
-          toolConfig: trigger.parameters?.toolConfig,
+        // Column-driven: the column's operatorConfig decides which functions are allowed
+        const config = (nextCol.operatorConfig ?? {}) as FunctionCallingColumnConfig;
+        const contextPrompt = ColumnAwareWrapper.buildContextualPrompt(ctx, nextCol.title);
+        const prompt = [
+          contextPrompt,
+          nextCol.prompt ? `Additional instructions: ${nextCol.prompt}` : '',
+          `Use the available functions as needed, then reply with only the final value for "${nextCol.title}".`,
+        ].filter(Boolean).join('\n\n');
+
+        console.log('[OperatorController] Context-aware function calling prompt:\n', prompt);
+
+        const input: FunctionCallInput = {
+          prompt,
+          availableFunctions: registry.getDeclarations(config.allowedFunctions),
+          executionContext: {
+            allowedHosts: config.allowedHosts,
+          },
         };
+        return input;
       }
 
       default:
@@ -430,13 +621,18 @@ export class OperatorController {
    * Mark event as completed in database
    */
   private async completeEvent(eventId: string, _output: unknown): Promise<void> {
-    await db
+    const [completed] = await db
       .update(eventQueue)
       .set({
         status: 'completed',
         processedAt: new Date(),
       })
-      .where(eq(eventQueue.id, eventId));
+      .where(eq(eventQueue.id, eventId))
+      .returning({ sheetId: eventQueue.sheetId });
+
+    if (completed) {
+      await publishEventUpdate(db, completed.sheetId, { eventId, status: 'completed' });
+    }
 
     console.log(`[OperatorController] Event ${eventId} marked as completed`);
   }
@@ -444,15 +640,126 @@ export class OperatorController {
   /**
    * Mark event as failed in database
    */
-  private async failEvent(eventId: string, error: Error): Promise<void> {
-    await db
+  private async failEvent(event: BaseEvent, error: Error): Promise<void> {
+    const [failed] = await db
       .update(eventQueue)
       .set({
         status: 'failed',
+        lastError: error.message,
+        processedAt: new Date(),
       })
-      .where(eq(eventQueue.id, eventId));
+      .where(eq(eventQueue.id, event.eventId))
+      .returning({ sheetId: eventQueue.sheetId });
+
+    console.error(`[OperatorController] Event ${event.eventId} failed:`, error.message);
+
+    if (event.sheetContext) {
+      await ColumnAwareWrapper.updateCellStatus(
+        event.sheetContext,
+        event.userId,
+        event.sheetContext.targetColumnIndex,
+        'error',
+        undefined,
+        error.message.slice(0, 255)
+      );
+    }
+
+    if (failed) {
+      await publishEventUpdate(db, failed.sheetId, {
+        eventId: event.eventId,
+        status: 'failed',
+        lastError: error.message,
+      });
+
+      await getWebhookDispatcher().enqueue(db, failed.sheetId, 'error', {
+        eventId: event.eventId,
+        eventType: event.eventType,
+        rowIndex: event.sheetContext?.rowIndex ?? null,
+        colIndex: event.sheetContext ? event.sheetContext.targetColumnIndex : null,
+        error: error.message,
+      });
+    }
+  }
+
+  /**
+   * Requeue an event with exponential backoff, or fail it once retries are exhausted
+   *
+   * @param retryPrompt - Improved prompt for the next attempt (kept from earlier attempts if omitted)
+   */
+  private async retryEvent(event: BaseEvent, reason: string, retryPrompt?: string): Promise<void> {
+    const retryCount = event.retryCount ?? 0;
 
-    console.error(`[OperatorController] Event ${eventId} failed:`, error.message);
+    if (retryCount >= RATE_LIMIT_CONFIG.maxRetries) {
+      await this.failEvent(event, new Error(`Gave up after ${retryCount + 1} attempts: ${reason}`));
+      return;
+    }
+
+    const delayMs = retryBackoff(retryCount);
+    // Pin the target column so the retry doesn't fan out to other columns again
+    const payload: Record<string, unknown> = { ...(event.data as Record<string, unknown>) };
+    if (event.sheetContext) {
+      payload.targetColIndex = event.sheetContext.targetColumnIndex;
+    }
+    if (retryPrompt) {
+      payload.retryPrompt = retryPrompt;
+    }
+
+    const [requeued] = await db
+      .update(eventQueue)
+      .set({
+        status: 'pending',
+        payload,
+        retryCount: retryCount + 1,
+        lastError: reason,
+        nextAttemptAt: new Date(Date.now() + delayMs),
+      })
+      .where(eq(eventQueue.id, event.eventId))
+      .returning({ sheetId: eventQueue.sheetId });
+
+    if (requeued) {
+      await publishEventUpdate(db, requeued.sheetId, {
+        eventId: event.eventId,
+        status: 'pending',
+        lastError: reason,
+      });
+    }
+
+    console.warn(
+      `[OperatorController] Event ${event.eventId} retry ${retryCount + 1}/${RATE_LIMIT_CONFIG.maxRetries} in ${delayMs}ms: ${reason}`
+    );
+
+    if (event.sheetContext) {
+      await ColumnAwareWrapper.updateCellStatus(
+        event.sheetContext,
+        event.userId,
+        event.sheetContext.targetColumnIndex,
+        'processing',
+        undefined,
+        `Retrying (${retryCount + 1}/${RATE_LIMIT_CONFIG.maxRetries})...`
+      );
+    }
+  }
+
+  /**
+   * The prompt (or query) an operator input sends to Gemini
+   */
+  private getPromptText(input: unknown): string {
+    const fields = (input ?? {}) as { prompt?: unknown; extractionPrompt?: unknown; query?: unknown };
+    for (const value of [fields.prompt, fields.extractionPrompt, fields.query]) {
+      if (typeof value === 'string' && value) {
+        return value;
+      }
+    }
+    return JSON.stringify(input);
+  }
+
+  /**
+   * Rate limits, overloaded/unavailable responses and network errors are worth retrying
+   */
+  private isTransientError(error: Error): boolean {
+    return /\b(429|500|502|503|504)\b|RESOURCE_EXHAUSTED|UNAVAILABLE|INTERNAL|DEADLINE_EXCEEDED|timed? ?out|ECONNRESET|ETIMEDOUT|fetch failed/i.test(
+      error.message
+    );
   }
 
   /**
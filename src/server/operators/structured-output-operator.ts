@@ -8,6 +8,7 @@
  */
 
 import { getGeminiClient } from "@/server/gemini/client";
+import { trackGeminiCall } from "@/server/gemini/usage-tracker";
 import { CONSERVATIVE_GENERATION_CONFIG, DEFAULT_MODEL } from "@/server/gemini/config";
 import type {
   StructuredOutputInput,
@@ -23,6 +24,7 @@ export class StructuredOutputConversionOperator
   readonly name = "structured_output_conversion";
   readonly inputType = "StructuredOutputInput";
   readonly outputType = "StructuredOutputOutput";
+  readonly model = DEFAULT_MODEL;
 
   /**
    * Convert unstructured data to structured JSON
@@ -51,15 +53,18 @@ export class StructuredOutputConversionOperator
       }
 
       // Call Gemini with structured output config
-      const response = await client.models.generateContent({
-        model: DEFAULT_MODEL,
-        contents: prompt,
-        config: {
-          responseMimeType: "application/json",
-          responseJsonSchema: jsonSchema,
-          ...CONSERVATIVE_GENERATION_CONFIG, // Use conservative config for deterministic results
-        },
-      });
+      const response = await trackGeminiCall(
+        { operatorName: this.name, model: this.model },
+        () => client.models.generateContent({
+          model: this.model,
+          contents: prompt,
+          config: {
+            responseMimeType: "application/json",
+            responseJsonSchema: jsonSchema,
+            ...CONSERVATIVE_GENERATION_CONFIG, // Use conservative config for deterministic results
+          },
+        })
+      );
 
       // Parse the response
       const structuredData = JSON.parse(response.text ?? "{}") as Record<string, unknown>;
@@ -8,6 +8,7 @@
  */
 
 import { getGeminiClient } from "@/server/gemini/client";
+import { trackGeminiCall } from "@/server/gemini/usage-tracker";
 import { DEFAULT_MODEL, MAX_URLS_PER_REQUEST } from "@/server/gemini/config";
 import { resolveRedirectUrls } from "@/server/utils/url-resolver";
 import type {
@@ -46,6 +47,7 @@ export class URLContextEnrichmentOperator
   readonly name = "url_context_enrichment";
   readonly inputType = "URLContextInput";
   readonly outputType = "URLContextOutput";
+  readonly model = DEFAULT_MODEL;
 
   /**
    * Execute URL context enrichment via Gemini
@@ -81,11 +83,14 @@ export class URLContextEnrichmentOperator
       };
 
       // Call Gemini with URL context (using resolved URLs)
-      const response = await client.models.generateContent({
-        model: DEFAULT_MODEL,
-        contents: prompt,
-        config,
-      });
+      const response = await trackGeminiCall(
+        { operatorName: this.name, model: this.model, requestData: { urls: resolvedUrls } },
+        () => client.models.generateContent({
+          model: this.model,
+          contents: prompt,
+          config,
+        })
+      );
 
       // Extract URL metadata
       const urlContextMetadata =
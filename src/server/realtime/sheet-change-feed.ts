@@ -0,0 +1,259 @@
+/**
+ * Sheet Change Feed
+ *
+ * Push-based replacement for polling. Writers record each change in the
+ * sheet_change log and NOTIFY the `sheet_changes` channel in the same
+ * statement batch (inside their transaction, so nothing is announced before it
+ * commits). Every app instance LISTENs once and fans changes out to the SSE
+ * clients subscribed to that sheet.
+ *
+ * The log's serial IDs double as SSE event IDs, so a reconnecting client
+ * sends Last-Event-ID and replays what it missed. IDs are handed out at insert
+ * but become visible at commit, so a lower ID can show up after a higher one:
+ * the ID is a resume point, not a "seen everything below" marker. Replay
+ * reaches back over an overlap window and the SSE route drops duplicates by ID.
+ */
+
+import { db } from "@/server/db";
+import { sheetChanges } from "@/server/db/schema";
+import { and, eq, gt, gte, lt, or, asc, sql } from "drizzle-orm";
+
+export const SHEET_CHANGES_CHANNEL = 'sheet_changes';
+
+const MAX_REPLAY = 500;
+// How far before the resume point replay reaches for changes that committed late
+const REPLAY_OVERLAP = '1 minute';
+const CHANGE_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Database handle accepted by publishSheetChange - either `db` or a transaction
+ */
+type DbExecutor = Pick<typeof db, 'insert' | 'execute'>;
+
+/**
+ * A cell's content or processing status changed
+ *
+ * rowIndex/colIndex are null for bulk changes (a cleared column, a deleted row)
+ */
+export interface CellUpdate {
+  rowIndex: number | null;
+  colIndex: number | null;
+  status?: 'idle' | 'processing' | 'completed' | 'error' | 'awaiting_input';
+  content?: string | null;
+  message?: string | null;
+}
+
+/**
+ * Events were queued or an event's status changed
+ */
+export interface EventUpdate {
+  eventId?: string;
+  status: string;
+  count?: number; // For bulk inserts
+  lastError?: string | null;
+}
+
+export type SheetChange =
+  | { type: 'cell_update'; data: { cellUpdate: CellUpdate } }
+  | { type: 'status_update'; data: { eventUpdate: EventUpdate } };
+
+/**
+ * A change as delivered to SSE clients
+ */
+export type SheetChangeMessage = SheetChange & {
+  id: number;
+  timestamp: string;
+};
+
+type SheetChangeHandler = (message: SheetChangeMessage) => void;
+
+/**
+ * Record a change and notify listeners (delivered when the surrounding transaction commits)
+ */
+export async function publishSheetChange(
+  executor: DbExecutor,
+  sheetId: string,
+  change: SheetChange
+): Promise<void> {
+  const [row] = await executor
+    .insert(sheetChanges)
+    .values({ sheetId, type: change.type, data: change.data })
+    .returning({ id: sheetChanges.id });
+
+  // Only the cursor goes over NOTIFY (payloads are capped at 8000 bytes);
+  // listeners load the change itself from the log
+  await executor.execute(
+    sql`select pg_notify(${SHEET_CHANGES_CHANNEL}, ${JSON.stringify({ id: row!.id, sheetId })})`
+  );
+}
+
+/**
+ * Shorthand for a single cell's content/status change
+ */
+export function publishCellUpdate(
+  executor: DbExecutor,
+  sheetId: string,
+  cellUpdate: CellUpdate
+): Promise<void> {
+  return publishSheetChange(executor, sheetId, { type: 'cell_update', data: { cellUpdate } });
+}
+
+/**
+ * Shorthand for an event queue change
+ */
+export function publishEventUpdate(
+  executor: DbExecutor,
+  sheetId: string,
+  eventUpdate: EventUpdate
+): Promise<void> {
+  return publishSheetChange(executor, sheetId, { type: 'status_update', data: { eventUpdate } });
+}
+
+function toMessage(row: typeof sheetChanges.$inferSelect): SheetChangeMessage {
+  return {
+    id: row.id,
+    type: row.type,
+    timestamp: (row.createdAt ?? new Date()).toISOString(),
+    data: row.data,
+  } as SheetChangeMessage;
+}
+
+class SheetChangeFeed {
+  private subscribers = new Map<string, Set<SheetChangeHandler>>();
+  private listening: Promise<unknown> | null = null;
+
+  /**
+   * Receive changes for a sheet as they commit
+   *
+   * @returns unsubscribe function
+   */
+  subscribe(sheetId: string, handler: SheetChangeHandler): () => void {
+    this.ensureListening();
+
+    const handlers = this.subscribers.get(sheetId) ?? new Set<SheetChangeHandler>();
+    handlers.add(handler);
+    this.subscribers.set(sheetId, handlers);
+
+    return () => {
+      handlers.delete(handler);
+      if (handlers.size === 0) {
+        this.subscribers.delete(sheetId);
+      }
+    };
+  }
+
+  /**
+   * Changes after a cursor, oldest first (capped; clients resync beyond that)
+   *
+   * Also returns changes recorded up to REPLAY_OVERLAP before the cursor's own,
+   * since one of those may have committed after the client saw the cursor.
+   * Callers drop the ones they already delivered.
+   */
+  async replay(sheetId: string, afterId: number): Promise<SheetChangeMessage[]> {
+    const cursorCreatedAt = sql`(select ${sheetChanges.createdAt} from ${sheetChanges} where ${sheetChanges.id} = ${afterId})`;
+    const rows = await db
+      .select()
+      .from(sheetChanges)
+      .where(and(
+        eq(sheetChanges.sheetId, sheetId),
+        or(
+          gt(sheetChanges.id, afterId),
+          gte(sheetChanges.createdAt, sql`${cursorCreatedAt} - ${REPLAY_OVERLAP}::interval`)
+        )
+      ))
+      .orderBy(asc(sheetChanges.id))
+      .limit(MAX_REPLAY);
+
+    return rows.map(toMessage);
+  }
+
+  /**
+   * Latest change ID for a sheet (cursor for a fresh connection)
+   */
+  async latestId(sheetId: string): Promise<number> {
+    const [row] = await db
+      .select({ id: sql<number>`coalesce(max(${sheetChanges.id}), 0)`.mapWith(Number) })
+      .from(sheetChanges)
+      .where(eq(sheetChanges.sheetId, sheetId));
+
+    return row?.id ?? 0;
+  }
+
+  /**
+   * Drop changes older than the retention window
+   */
+  async prune(retentionMs = CHANGE_RETENTION_MS): Promise<number> {
+    const deleted = await db
+      .delete(sheetChanges)
+      .where(lt(sheetChanges.createdAt, new Date(Date.now() - retentionMs)))
+      .returning({ id: sheetChanges.id });
+
+    return deleted.length;
+  }
+
+  private ensureListening() {
+    if (this.listening) {
+      return;
+    }
+
+    this.listening = db.$client
+      .listen(SHEET_CHANGES_CHANNEL, (payload) => {
+        void this.onNotify(payload);
+      })
+      .then(
+        () => console.log(`[SheetChangeFeed] Listening on ${SHEET_CHANGES_CHANNEL}`),
+        (error) => {
+          console.error('[SheetChangeFeed] Failed to LISTEN:', error);
+          // Retry on the next subscribe
+          this.listening = null;
+        }
+      );
+  }
+
+  private async onNotify(payload: string) {
+    let notification: { id: number; sheetId: string };
+    try {
+      notification = JSON.parse(payload) as { id: number; sheetId: string };
+    } catch {
+      console.error('[SheetChangeFeed] Ignoring malformed notification:', payload);
+      return;
+    }
+
+    // Only load the change if someone on this instance is watching the sheet
+    const handlers = this.subscribers.get(notification.sheetId);
+    if (!handlers || handlers.size === 0) {
+      return;
+    }
+
+    try {
+      const [row] = await db
+        .select()
+        .from(sheetChanges)
+        .where(eq(sheetChanges.id, notification.id))
+        .limit(1);
+
+      if (!row) {
+        return;
+      }
+
+      const message = toMessage(row);
+      for (const handler of handlers) {
+        handler(message);
+      }
+    } catch (error) {
+      console.error('[SheetChangeFeed] Failed to load change:', error);
+    }
+  }
+}
+
+/**
+ * Singleton feed shared by every SSE connection in this process
+ */
+let feedInstance: SheetChangeFeed | null = null;
+
+export function getSheetChangeFeed(): SheetChangeFeed {
+  if (!feedInstance) {
+    feedInstance = new SheetChangeFeed();
+  }
+  return feedInstance;
+}
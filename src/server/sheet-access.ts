@@ -0,0 +1,117 @@
+/**
+ * Sheet Access
+ *
+ * Membership-based access control for sheets. Every sheet has one or more
+ * members in sheet_member, each with a role:
+ *
+ * - viewer: read cells, columns, events and settings
+ * - editor: everything a viewer can, plus edit cells, columns and run the agent
+ * - owner:  everything an editor can, plus sharing, webhooks, budgets and deletion
+ *
+ * Sheets in a workspace are also open to its members: workspace owners are
+ * sheet owners and other members are editors. The stronger of the two roles wins.
+ */
+
+import { db } from "@/server/db";
+import { sheets, sheetMembers, workspaceMembers } from "@/server/db/schema";
+import { and, eq } from "drizzle-orm";
+
+export const SHEET_ROLES = ['owner', 'editor', 'viewer'] as const;
+export type SheetRole = (typeof SHEET_ROLES)[number];
+
+const ROLE_RANK: Record<SheetRole, number> = {
+  viewer: 1,
+  editor: 2,
+  owner: 3,
+};
+
+/**
+ * Database handle accepted by addSheetOwner - either `db` or a transaction
+ */
+type DbExecutor = Pick<typeof db, 'insert'>;
+
+/**
+ * Whether a role grants at least the given level of access
+ */
+export function hasSheetRole(role: SheetRole | null, minimum: SheetRole): boolean {
+  return role !== null && ROLE_RANK[role] >= ROLE_RANK[minimum];
+}
+
+/**
+ * The sheet role a workspace role grants on the workspace's sheets
+ */
+export function workspaceSheetRole(workspaceRole: string | null): SheetRole | null {
+  if (!workspaceRole) {
+    return null;
+  }
+  return workspaceRole === 'owner' ? 'owner' : 'editor';
+}
+
+/**
+ * The stronger of two roles (null = no access)
+ */
+export function strongerSheetRole(a: SheetRole | null, b: SheetRole | null): SheetRole | null {
+  if (!a) return b;
+  if (!b) return a;
+  return ROLE_RANK[a] >= ROLE_RANK[b] ? a : b;
+}
+
+/**
+ * The user's role on a sheet, or null if they have no access
+ */
+export async function getSheetRole(sheetId: string, userId: string): Promise<SheetRole | null> {
+  const [row] = await db
+    .select({ memberRole: sheetMembers.role, workspaceRole: workspaceMembers.role })
+    .from(sheets)
+    .leftJoin(sheetMembers, and(eq(sheetMembers.sheetId, sheets.id), eq(sheetMembers.userId, userId)))
+    .leftJoin(workspaceMembers, and(
+      eq(workspaceMembers.workspaceId, sheets.workspaceId),
+      eq(workspaceMembers.userId, userId)
+    ))
+    .where(eq(sheets.id, sheetId))
+    .limit(1);
+
+  if (!row) {
+    return null;
+  }
+
+  return strongerSheetRole(row.memberRole as SheetRole | null, workspaceSheetRole(row.workspaceRole));
+}
+
+/**
+ * Throw unless the user has at least `minimum` access to the sheet
+ *
+ * Non-members get the same error as a missing sheet so sheet IDs can't be probed.
+ *
+ * @returns the user's role
+ */
+export async function assertSheetAccess(
+  sheetId: string,
+  userId: string,
+  minimum: SheetRole = 'viewer'
+): Promise<SheetRole> {
+  const role = await getSheetRole(sheetId, userId);
+
+  if (!role) {
+    throw new Error('Sheet not found or access denied');
+  }
+
+  if (!hasSheetRole(role, minimum)) {
+    throw new Error(`This action requires ${minimum} access to the sheet (you are a ${role})`);
+  }
+
+  return role;
+}
+
+/**
+ * Make a user the owner of a sheet they just created
+ */
+export async function addSheetOwner(executor: DbExecutor, sheetId: string, userId: string): Promise<void> {
+  await executor
+    .insert(sheetMembers)
+    .values({ sheetId, userId, role: 'owner' })
+    .onConflictDoUpdate({
+      target: [sheetMembers.sheetId, sheetMembers.userId],
+      set: { role: 'owner' },
+    });
+}
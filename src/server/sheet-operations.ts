@@ -0,0 +1,903 @@
+/**
+ * Sheet Operations
+ *
+ * Sheet, column and cell changes shared by the tRPC routers (browser session)
+ * and the REST API (API keys). Callers check access first; these functions
+ * only validate the change itself and throw SheetOperationError when it's
+ * invalid, with the HTTP status the REST API should answer with.
+ */
+
+import { db } from "@/server/db";
+import { cells, cellProcessingStatus, columns, eventQueue, sheetUpdates, sheets, templates } from "@/server/db/schema";
+import { and, eq, gt, gte, inArray, isNull, lt, ne, or, sql } from "drizzle-orm";
+import { getTemplate, type TemplateType } from "@/server/templates/column-templates";
+import { ColumnDependencyGraph } from "@/server/operators/column-dependency-graph";
+import { getFunctionRegistry } from "@/server/operators/function-registry";
+import { addSheetOwner } from "@/server/sheet-access";
+import { memberWorkspaceIds } from "@/server/workspace-access";
+import { publishCellUpdate, publishEventUpdate } from "@/server/realtime/sheet-change-feed";
+import { getRowHistory, recordCellChanges, valuesAt, type CellUpdateType } from "@/server/cell-history";
+import type { FunctionCallingColumnConfig } from "@/types/operators";
+import type { SheetColumnDataType } from "@/types/spreadsheet";
+
+export class SheetOperationError extends Error {
+  constructor(
+    message: string,
+    public readonly status: 400 | 404 | 409 = 400
+  ) {
+    super(message);
+    this.name = "SheetOperationError";
+  }
+}
+
+export interface ColumnDefinition {
+  title: string;
+  position: number;
+  dataType: SheetColumnDataType;
+  operatorType?: string | null;
+  operatorConfig?: unknown;
+  prompt?: string | null;
+  dependencies?: number[] | null;
+  validationRules?: unknown;
+  isRequired?: boolean | null;
+  defaultValue?: string | null;
+  isKey?: boolean | null;
+  cacheResults?: boolean | null;
+}
+
+/**
+ * Fields of a column that can be changed after it's created (undefined = unchanged)
+ */
+export interface ColumnUpdate {
+  title?: string;
+  operatorType?: string | null;
+  operatorConfig?: Record<string, unknown> | null;
+  prompt?: string | null;
+  dataType?: string | null;
+  dependencies?: number[] | null;
+  isRequired?: boolean | null;
+  defaultValue?: string | null;
+  isKey?: boolean | null;
+  cacheResults?: boolean | null;
+}
+
+/**
+ * Dependency validation errors are the caller's mistake, not a server error
+ */
+function validateDependencies(sheetColumns: Parameters<typeof ColumnDependencyGraph.validate>[0]): void {
+  try {
+    ColumnDependencyGraph.validate(sheetColumns);
+  } catch (error) {
+    throw new SheetOperationError(error instanceof Error ? error.message : String(error));
+  }
+}
+
+/**
+ * Only functions from the server registry can be allowed on a column
+ */
+function validateAllowedFunctions(operatorConfig: unknown): void {
+  const allowedFunctions = (operatorConfig as FunctionCallingColumnConfig | null | undefined)?.allowedFunctions;
+  if (!allowedFunctions) {
+    return;
+  }
+
+  const registry = getFunctionRegistry();
+  const unknown = allowedFunctions.filter(name => !registry.has(name));
+  if (unknown.length > 0) {
+    throw new SheetOperationError(`Unknown function(s): ${unknown.join(', ')}`);
+  }
+}
+
+/**
+ * Whether a cell has real content (empty strings and JSON nulls don't count)
+ */
+function hasContent(content: string | null | undefined): boolean {
+  const trimmed = content?.trim() ?? '';
+  return !!trimmed && trimmed !== 'null' && trimmed !== '{}' && trimmed !== '[]';
+}
+
+/**
+ * Create a sheet owned by `userId`, with columns from a saved template, a
+ * built-in template, or an explicit list
+ *
+ * Saved templates must be public, the user's own, or shared with a workspace
+ * they belong to.
+ */
+export async function createSheet(
+  userId: string,
+  input: {
+    name: string;
+    workspaceId: string | null;
+    templateId?: string;
+    templateType?: TemplateType;
+    columns?: ColumnDefinition[];
+  }
+) {
+  let columnsToCreate = input.columns;
+  let isAutonomous = false;
+
+  // Load columns from database template if templateId is provided
+  if (input.templateId) {
+    const dbTemplate = await db.query.templates.findFirst({
+      where: and(
+        eq(templates.id, input.templateId),
+        or(
+          eq(templates.isPublic, true),
+          eq(templates.userId, userId),
+          inArray(templates.workspaceId, memberWorkspaceIds(userId))
+        )
+      ),
+      with: {
+        columns: {
+          orderBy: (cols, { asc }) => [asc(cols.position)],
+        },
+      },
+    });
+
+    if (!dbTemplate) {
+      throw new SheetOperationError('Template not found', 404);
+    }
+
+    columnsToCreate = dbTemplate.columns.map((col) => ({
+      title: col.title,
+      position: col.position,
+      dataType: col.dataType as SheetColumnDataType,
+      operatorType: col.operatorType,
+      operatorConfig: col.operatorConfig,
+      prompt: col.prompt,
+      dependencies: (col.dependencies as number[] | null) || null,
+      validationRules: col.validationRules,
+      isRequired: col.isRequired,
+      defaultValue: col.defaultValue,
+    }));
+    isAutonomous = dbTemplate.isAutonomous || false;
+  }
+  // Fallback to old hardcoded templates
+  else if (input.templateType && !input.columns) {
+    const template = getTemplate(input.templateType);
+    columnsToCreate = template.columns;
+    isAutonomous = template.isAutonomous;
+  }
+
+  if (columnsToCreate) {
+    validateDependencies(columnsToCreate);
+
+    if (columnsToCreate.filter(col => col.isKey).length > 1) {
+      throw new SheetOperationError('Only one column can be the key column');
+    }
+  }
+
+  const [newSheet] = await db
+    .insert(sheets)
+    .values({
+      userId,
+      workspaceId: input.workspaceId,
+      name: input.name,
+      templateType: input.templateType ?? null,
+      templateId: input.templateId ?? null,
+      isAutonomous,
+    })
+    .returning();
+
+  await addSheetOwner(db, newSheet!.id, userId);
+
+  if (columnsToCreate && columnsToCreate.length > 0) {
+    await db.insert(columns).values(
+      columnsToCreate.map((col) => ({
+        sheetId: newSheet!.id,
+        title: col.title,
+        position: col.position,
+        dataType: col.dataType,
+        operatorType: col.operatorType || null,
+        operatorConfig: col.operatorConfig || null,
+        prompt: col.prompt || null,
+        dependencies: col.dependencies || null,
+        validationRules: col.validationRules || null,
+        isRequired: col.isRequired || false,
+        defaultValue: col.defaultValue || null,
+        isKey: col.isKey || false,
+        cacheResults: col.cacheResults ?? true,
+      }))
+    );
+  }
+
+  return newSheet!;
+}
+
+/**
+ * Append a column after the sheet's last one (or at `position` if that's the next free one)
+ *
+ * Existing rows aren't filled until the column is reprocessed.
+ */
+export async function addColumn(sheetId: string, column: Omit<ColumnDefinition, 'position'> & { position?: number }) {
+  const sheetColumns = await db
+    .select({ position: columns.position, title: columns.title, dependencies: columns.dependencies })
+    .from(columns)
+    .where(eq(columns.sheetId, sheetId));
+
+  const nextPosition = sheetColumns.reduce((max, col) => Math.max(max, col.position + 1), 0);
+  const position = column.position ?? nextPosition;
+
+  if (sheetColumns.some(col => col.position === position)) {
+    throw new SheetOperationError(`Column position ${position} is already taken; new columns go at position ${nextPosition}`, 409);
+  }
+
+  validateAllowedFunctions(column.operatorConfig);
+  validateDependencies([
+    ...sheetColumns.map(col => ({ ...col, dependencies: col.dependencies as number[] | null })),
+    { position, title: column.title, dependencies: column.dependencies },
+  ]);
+
+  // A sheet has at most one key column
+  if (column.isKey) {
+    await db
+      .update(columns)
+      .set({ isKey: false })
+      .where(eq(columns.sheetId, sheetId));
+  }
+
+  const [newColumn] = await db
+    .insert(columns)
+    .values({
+      sheetId,
+      title: column.title,
+      position,
+      dataType: column.dataType,
+      operatorType: column.operatorType ?? null,
+      operatorConfig: column.operatorConfig ?? null,
+      prompt: column.prompt ?? null,
+      dependencies: column.dependencies ?? null,
+      validationRules: column.validationRules ?? null,
+      isRequired: column.isRequired ?? false,
+      defaultValue: column.defaultValue ?? null,
+      isKey: column.isKey ?? false,
+      cacheResults: column.cacheResults ?? true,
+    })
+    .returning();
+
+  await publishCellUpdate(db, sheetId, { rowIndex: null, colIndex: position });
+
+  return newColumn!;
+}
+
+/**
+ * Change a column's title or operator configuration
+ */
+export async function updateColumn(sheetId: string, columnId: string, update: ColumnUpdate) {
+  // Build update object (only include non-undefined fields)
+  const updates: Partial<typeof columns.$inferInsert> = { updatedAt: new Date() };
+  if (update.title !== undefined) updates.title = update.title;
+  if (update.operatorType !== undefined) updates.operatorType = update.operatorType;
+  if (update.operatorConfig !== undefined) updates.operatorConfig = update.operatorConfig;
+  if (update.prompt !== undefined) updates.prompt = update.prompt;
+  if (update.dataType !== undefined && update.dataType !== null) updates.dataType = update.dataType;
+  if (update.dependencies !== undefined) updates.dependencies = update.dependencies;
+  if (update.isRequired !== undefined && update.isRequired !== null) updates.isRequired = update.isRequired;
+  if (update.defaultValue !== undefined) updates.defaultValue = update.defaultValue;
+  if (update.isKey !== undefined && update.isKey !== null) updates.isKey = update.isKey;
+  if (update.cacheResults !== undefined && update.cacheResults !== null) updates.cacheResults = update.cacheResults;
+
+  validateAllowedFunctions(update.operatorConfig);
+
+  // Reject dependency graphs that reference missing columns or form a cycle
+  if (update.dependencies !== undefined) {
+    const sheetColumns = await db
+      .select({ id: columns.id, title: columns.title, position: columns.position, dependencies: columns.dependencies })
+      .from(columns)
+      .where(eq(columns.sheetId, sheetId));
+
+    validateDependencies(sheetColumns.map(col => ({
+      position: col.position,
+      title: col.title,
+      dependencies: col.id === columnId ? update.dependencies : col.dependencies as number[] | null,
+    })));
+  }
+
+  const [updated] = await db
+    .update(columns)
+    .set(updates)
+    .where(and(
+      eq(columns.id, columnId),
+      eq(columns.sheetId, sheetId)
+    ))
+    .returning();
+
+  if (!updated) {
+    throw new SheetOperationError('Column not found', 404);
+  }
+
+  // A sheet has at most one key column
+  if (update.isKey) {
+    await db
+      .update(columns)
+      .set({ isKey: false })
+      .where(and(eq(columns.sheetId, sheetId), ne(columns.id, columnId)));
+  }
+
+  return updated;
+}
+
+/**
+ * Delete a column and its cells, shifting the columns (and cells) to its right one place left
+ *
+ * The column's cell history is kept (see sheet_updates.deletedColumnTitle).
+ * Columns that explicitly depend on it must be reconfigured first.
+ */
+export async function deleteColumn(sheetId: string, columnId: string) {
+  const sheetColumns = await db
+    .select({ id: columns.id, title: columns.title, position: columns.position, dependencies: columns.dependencies })
+    .from(columns)
+    .where(eq(columns.sheetId, sheetId));
+
+  const target = sheetColumns.find(col => col.id === columnId);
+  if (!target) {
+    throw new SheetOperationError('Column not found', 404);
+  }
+
+  const dependents = sheetColumns.filter(col => (col.dependencies as number[] | null)?.includes(target.position));
+  if (dependents.length > 0) {
+    throw new SheetOperationError(
+      `Column "${target.title}" is a dependency of ${dependents.map(col => `"${col.title}"`).join(', ')}; update their dependencies first`,
+      409
+    );
+  }
+
+  const cellsDeleted = await db.transaction(async (tx) => {
+    const deleted = await tx
+      .delete(cells)
+      .where(and(eq(cells.sheetId, sheetId), eq(cells.colIndex, target.position)))
+      .returning({ id: cells.id });
+
+    await tx.delete(columns).where(eq(columns.id, columnId));
+
+    await tx
+      .delete(cellProcessingStatus)
+      .where(and(eq(cellProcessingStatus.sheetId, sheetId), gte(cellProcessingStatus.colIndex, target.position)));
+
+    // Shift in two steps (negate, then move) so the unique position constraints never see a duplicate
+    await tx
+      .update(columns)
+      .set({ position: sql`-${columns.position}` })
+      .where(and(eq(columns.sheetId, sheetId), gt(columns.position, target.position)));
+    await tx
+      .update(columns)
+      .set({ position: sql`-${columns.position} - 1` })
+      .where(and(eq(columns.sheetId, sheetId), lt(columns.position, 0)));
+
+    await tx
+      .update(cells)
+      .set({ colIndex: sql`-${cells.colIndex}` })
+      .where(and(eq(cells.sheetId, sheetId), gt(cells.colIndex, target.position)));
+    await tx
+      .update(cells)
+      .set({ colIndex: sql`-${cells.colIndex} - 1` })
+      .where(and(eq(cells.sheetId, sheetId), lt(cells.colIndex, 0)));
+
+    // The column's history is kept, marked with its title so it stays out of
+    // the history of whatever column takes its position; the rest follows its cells
+    const liveHistory = and(eq(sheetUpdates.sheetId, sheetId), isNull(sheetUpdates.deletedColumnTitle));
+    await tx
+      .delete(sheetUpdates)
+      .where(and(liveHistory, eq(sheetUpdates.colIndex, target.position), isNull(sheetUpdates.appliedAt)));
+    await tx
+      .update(sheetUpdates)
+      .set({ deletedColumnTitle: target.title })
+      .where(and(liveHistory, eq(sheetUpdates.colIndex, target.position)));
+    await tx
+      .update(sheetUpdates)
+      .set({ colIndex: sql`${sheetUpdates.colIndex} - 1` })
+      .where(and(liveHistory, gt(sheetUpdates.colIndex, target.position)));
+
+    // Explicit dependencies refer to positions, which just moved
+    for (const col of sheetColumns) {
+      const dependencies = col.dependencies as number[] | null;
+      if (col.id !== columnId && dependencies?.some(dep => dep > target.position)) {
+        await tx
+          .update(columns)
+          .set({ dependencies: dependencies.map(dep => (dep > target.position ? dep - 1 : dep)) })
+          .where(eq(columns.id, col.id));
+      }
+    }
+
+    return deleted.length;
+  });
+
+  await publishCellUpdate(db, sheetId, { rowIndex: null, colIndex: null });
+
+  console.log(`[Sheet Operations] Deleted column "${target.title}" at position ${target.position} from sheet ${sheetId}`);
+
+  return { title: target.title, position: target.position, cellsDeleted };
+}
+
+/**
+ * Write a cell; with `process`, non-empty content is queued for the sheet's operators
+ *
+ * @returns whether a processing event was queued
+ */
+export async function writeCell(
+  sheetId: string,
+  userId: string,
+  cell: { rowIndex: number; colIndex: number; content: string },
+  options: { process: boolean; updateType?: CellUpdateType }
+): Promise<boolean> {
+  const [previous] = await db
+    .select({ content: cells.content })
+    .from(cells)
+    .where(and(eq(cells.sheetId, sheetId), eq(cells.rowIndex, cell.rowIndex), eq(cells.colIndex, cell.colIndex)))
+    .limit(1);
+
+  await db.insert(cells).values({
+    sheetId,
+    userId,
+    rowIndex: cell.rowIndex,
+    colIndex: cell.colIndex,
+    content: cell.content,
+  }).onConflictDoUpdate({
+    target: [cells.sheetId, cells.rowIndex, cells.colIndex],
+    set: {
+      userId,
+      content: cell.content,
+      provenance: null,
+      confidence: null,
+      validation: null,
+      updatedAt: new Date(),
+    }
+  });
+
+  await recordCellChanges(db, sheetId, userId, options.updateType ?? 'user_edit', [
+    { rowIndex: cell.rowIndex, colIndex: cell.colIndex, previousContent: previous?.content ?? null, content: cell.content },
+  ]);
+
+  const queued = options.process && !!cell.content.trim();
+
+  if (queued) {
+    await db.insert(eventQueue).values({
+      sheetId,
+      userId,
+      eventType: 'user_cell_edit',
+      payload: {
+        spreadsheetId: sheetId,
+        rowIndex: cell.rowIndex,
+        columnId: '',
+        colIndex: cell.colIndex,
+        content: cell.content,
+      },
+      status: 'pending',
+    });
+  }
+
+  await publishCellUpdate(db, sheetId, {
+    rowIndex: cell.rowIndex,
+    colIndex: cell.colIndex,
+    content: cell.content,
+  });
+
+  if (queued) {
+    await publishEventUpdate(db, sheetId, { status: 'pending', count: 1 });
+  }
+
+  return queued;
+}
+
+/**
+ * One row of values, by column position: an array, or an object keyed by position
+ */
+export type RowValues =
+  | (string | number | boolean | null)[]
+  | Record<string, string | number | boolean | null>;
+
+export interface AddRowsResult {
+  startingRow: number; // First appended rowIndex (the next free one if nothing was appended)
+  rowIndexes: number[]; // Where each row went, in request order
+  rowsAdded: number;
+  rowsUpdated: number;
+  rowsSkipped: number;
+  cellsCreated: number;
+}
+
+/**
+ * Key column values match regardless of case and surrounding whitespace
+ */
+function normalizeKey(value: string): string {
+  return value.trim().toLowerCase();
+}
+
+/**
+ * Add rows and queue every non-empty cell for the sheet's operators
+ *
+ * Rows are appended after the sheet's last one, unless the sheet has a key
+ * column: a row whose key matches an existing row (or an earlier row in the
+ * same batch) is written into that row instead. With `skipCompleteRows`,
+ * matches whose every column is already filled are left untouched, so
+ * resending them costs nothing.
+ */
+export async function addRows(
+  sheetId: string,
+  userId: string,
+  rows: RowValues[],
+  options: { skipCompleteRows?: boolean } = {}
+): Promise<AddRowsResult> {
+  // Find the next available row index
+  const maxRowResult = await db
+    .select({ maxRow: sql<number>`COALESCE(MAX(${cells.rowIndex}), -1)` })
+    .from(cells)
+    .where(eq(cells.sheetId, sheetId));
+
+  const startingRow = (maxRowResult[0]?.maxRow ?? -1) + 1;
+
+  const sheetColumns = await db
+    .select({ position: columns.position, isKey: columns.isKey })
+    .from(columns)
+    .where(eq(columns.sheetId, sheetId));
+  const keyColumn = sheetColumns.find(col => col.isKey)?.position;
+
+  // Existing rows by key; the first row wins if the sheet already has duplicates
+  const rowsByKey = new Map<string, number>();
+  if (keyColumn !== undefined) {
+    const keyCells = await db
+      .select({ rowIndex: cells.rowIndex, content: cells.content })
+      .from(cells)
+      .where(and(eq(cells.sheetId, sheetId), eq(cells.colIndex, keyColumn)))
+      .orderBy(cells.rowIndex);
+
+    for (const cell of keyCells) {
+      const key = normalizeKey(cell.content ?? '');
+      if (key && !rowsByKey.has(key)) {
+        rowsByKey.set(key, cell.rowIndex);
+      }
+    }
+  }
+
+  // Work out where each row goes
+  let nextRow = startingRow;
+  const existingRows = new Set<number>();
+  const placedRows = rows.map((row) => {
+    // Arrays are indexed by position already; object keys are column positions
+    const entries = (Array.isArray(row)
+      ? row.map((value, colIndex) => [colIndex, value] as const)
+      : Object.entries(row).map(([key, value]) => [parseInt(key, 10), value] as const)
+    )
+      .map(([colIndex, value]) => ({ colIndex, content: value === null ? '' : String(value).trim() }))
+      .filter(entry => entry.content); // Skip empty cells
+
+    const key = keyColumn === undefined
+      ? ''
+      : normalizeKey(entries.find(entry => entry.colIndex === keyColumn)?.content ?? '');
+
+    let rowIndex = key ? rowsByKey.get(key) : undefined;
+    if (rowIndex === undefined) {
+      rowIndex = nextRow++;
+      if (key) {
+        rowsByKey.set(key, rowIndex);
+      }
+    } else if (rowIndex < startingRow) {
+      existingRows.add(rowIndex);
+    }
+
+    return { rowIndex, entries };
+  });
+
+  // Matched rows that are already completely filled
+  const skippedRows = new Set<number>();
+  if (options.skipCompleteRows && existingRows.size > 0 && sheetColumns.length > 0) {
+    const existingCells = await db
+      .select({ rowIndex: cells.rowIndex, content: cells.content })
+      .from(cells)
+      .where(and(eq(cells.sheetId, sheetId), inArray(cells.rowIndex, [...existingRows])));
+
+    for (const rowIndex of existingRows) {
+      const filled = existingCells.filter(cell => cell.rowIndex === rowIndex && hasContent(cell.content)).length;
+      if (filled >= sheetColumns.length) {
+        skippedRows.add(rowIndex);
+      }
+    }
+  }
+
+  // One write per cell; a later row in the batch overrides an earlier one with the same key
+  const cellWrites = new Map<string, { rowIndex: number; colIndex: number; content: string }>();
+  for (const { rowIndex, entries } of placedRows) {
+    if (skippedRows.has(rowIndex)) {
+      continue;
+    }
+    for (const { colIndex, content } of entries) {
+      cellWrites.set(`${rowIndex}:${colIndex}`, { rowIndex, colIndex, content });
+    }
+  }
+
+  const writes = [...cellWrites.values()];
+  const rowIndexes = placedRows.map(row => row.rowIndex);
+  const result: AddRowsResult = {
+    startingRow,
+    rowIndexes,
+    rowsAdded: nextRow - startingRow,
+    rowsUpdated: existingRows.size - skippedRows.size,
+    rowsSkipped: skippedRows.size,
+    cellsCreated: writes.length,
+  };
+
+  if (writes.length === 0) {
+    if (skippedRows.size > 0) {
+      return result;
+    }
+    throw new SheetOperationError('No valid cells to insert (all cells were empty)');
+  }
+
+  // Values the writes into matched rows replace
+  const updatedRows = [...existingRows].filter(rowIndex => !skippedRows.has(rowIndex));
+  const previousCells = updatedRows.length > 0
+    ? await db
+      .select({ rowIndex: cells.rowIndex, colIndex: cells.colIndex, content: cells.content })
+      .from(cells)
+      .where(and(eq(cells.sheetId, sheetId), inArray(cells.rowIndex, updatedRows)))
+    : [];
+  const previousContent = new Map(previousCells.map(cell => [`${cell.rowIndex}:${cell.colIndex}`, cell.content]));
+
+  await db
+    .insert(cells)
+    .values(writes.map(write => ({ sheetId, userId, ...write })))
+    .onConflictDoUpdate({
+      target: [cells.sheetId, cells.rowIndex, cells.colIndex],
+      set: {
+        userId: sql`excluded.user_id`,
+        content: sql`excluded.content`,
+        provenance: null,
+        confidence: null,
+        validation: null,
+        updatedAt: new Date(),
+      },
+    });
+
+  await recordCellChanges(db, sheetId, userId, 'user_edit', writes.map(write => ({
+    ...write,
+    previousContent: previousContent.get(`${write.rowIndex}:${write.colIndex}`) ?? null,
+  })));
+
+  // Same event an edit in the app queues
+  await db.insert(eventQueue).values(writes.map(write => ({
+    sheetId,
+    userId,
+    eventType: 'user_cell_edit',
+    payload: {
+      spreadsheetId: sheetId,
+      rowIndex: write.rowIndex,
+      columnId: '',
+      colIndex: write.colIndex,
+      content: write.content,
+    },
+    status: 'pending',
+  })));
+  await publishEventUpdate(db, sheetId, { status: 'pending', count: writes.length });
+
+  // Several rows at once - subscribers refresh the whole sheet
+  await publishCellUpdate(db, sheetId, { rowIndex: null, colIndex: null });
+
+  return result;
+}
+
+/**
+ * Delete every cell in a row along with its pending events and processing status
+ *
+ * The deleted values stay in the row's history, so it can be reverted.
+ *
+ * @returns number of cells deleted
+ */
+export async function deleteRow(sheetId: string, userId: string, rowIndex: number): Promise<number> {
+  // Delete all cells in this row
+  const deleted = await db
+    .delete(cells)
+    .where(and(
+      eq(cells.sheetId, sheetId),
+      eq(cells.rowIndex, rowIndex)
+    ))
+    .returning({ colIndex: cells.colIndex, content: cells.content });
+
+  await recordCellChanges(db, sheetId, userId, 'row_delete', deleted.map(cell => ({
+    rowIndex,
+    colIndex: cell.colIndex,
+    previousContent: cell.content,
+    content: null,
+  })));
+
+  // Delete any pending events for this row (the row is only recorded in the payload)
+  await db
+    .delete(eventQueue)
+    .where(and(
+      eq(eventQueue.sheetId, sheetId),
+      eq(eventQueue.status, 'pending'),
+      sql`(${eventQueue.payload}->>'rowIndex')::int = ${rowIndex}`
+    ));
+
+  // Delete any processing status for cells in this row
+  await db
+    .delete(cellProcessingStatus)
+    .where(and(
+      eq(cellProcessingStatus.sheetId, sheetId),
+      eq(cellProcessingStatus.rowIndex, rowIndex)
+    ));
+
+  await publishCellUpdate(db, sheetId, { rowIndex, colIndex: null });
+
+  console.log(`[Sheet Operations] Deleted ${deleted.length} cells from row ${rowIndex} of sheet ${sheetId}`);
+
+  return deleted.length;
+}
+
+/**
+ * Rows with real content in the first column, i.e. the rows reprocessing a column would refill
+ */
+export async function findReprocessableRows(sheetId: string): Promise<number[]> {
+  const firstColumnCells = await db
+    .select({ rowIndex: cells.rowIndex, content: cells.content })
+    .from(cells)
+    .where(and(
+      eq(cells.sheetId, sheetId),
+      eq(cells.colIndex, 0)
+    ))
+    .orderBy(cells.rowIndex);
+
+  return firstColumnCells
+    .filter(cell => {
+      if (!hasContent(cell.content)) {
+        return false;
+      }
+      // Skip if it's a JSON object with null value
+      return !(cell.content!.includes('"null"') || cell.content!.includes(':null'));
+    })
+    .map(cell => cell.rowIndex);
+}
+
+/**
+ * Clear a column and queue every row with data to refill it from the previous column
+ *
+ * The cleared values stay in the cells' history, so a worse refill can be reverted.
+ *
+ * @returns number of rows queued
+ */
+export async function reprocessColumn(sheetId: string, userId: string, colIndex: number): Promise<number> {
+  // Events for the PREVIOUS column trigger filling THIS column
+  const prevColIndex = colIndex - 1;
+  if (prevColIndex < 0) {
+    throw new SheetOperationError('Cannot reprocess first column (no previous column to trigger from)');
+  }
+
+  const rowIndexes = await findReprocessableRows(sheetId);
+
+  console.log(`[Sheet Operations] Reprocessing column ${colIndex} of sheet ${sheetId}: ${rowIndexes.length} rows with data`);
+
+  // Clear existing content in this column
+  const cleared = await db
+    .delete(cells)
+    .where(and(
+      eq(cells.sheetId, sheetId),
+      eq(cells.colIndex, colIndex)
+    ))
+    .returning({ rowIndex: cells.rowIndex, content: cells.content });
+
+  await recordCellChanges(db, sheetId, userId, 'reprocess', cleared.map(cell => ({
+    rowIndex: cell.rowIndex,
+    colIndex,
+    previousContent: cell.content,
+    content: null,
+  })));
+
+  if (rowIndexes.length > 0) {
+    await db.insert(eventQueue).values(rowIndexes.map(rowIndex => ({
+      sheetId,
+      userId,
+      eventType: "robot_cell_update" as const,
+      payload: {
+        spreadsheetId: sheetId,
+        rowIndex,
+        colIndex: prevColIndex,
+        targetColIndex: colIndex,
+        content: "reprocess_trigger",
+      },
+      status: "pending" as const,
+    })));
+  }
+
+  await publishCellUpdate(db, sheetId, { rowIndex: null, colIndex });
+  await publishEventUpdate(db, sheetId, { status: 'pending', count: rowIndexes.length });
+
+  return rowIndexes.length;
+}
+
+/**
+ * Clear a row (except its first column) and queue it to be filled again
+ */
+export async function reprocessRow(sheetId: string, userId: string, rowIndex: number): Promise<void> {
+  const [firstCell] = await db
+    .select({ content: cells.content })
+    .from(cells)
+    .where(and(
+      eq(cells.sheetId, sheetId),
+      eq(cells.rowIndex, rowIndex),
+      eq(cells.colIndex, 0)
+    ))
+    .limit(1);
+
+  if (!firstCell) {
+    throw new SheetOperationError(`No cells found in row ${rowIndex}`, 404);
+  }
+
+  const firstCellContent = firstCell.content?.trim() ?? '';
+  if (!hasContent(firstCellContent)) {
+    throw new SheetOperationError(`Row ${rowIndex} has no content in first column`);
+  }
+
+  // Clear all cells except the first column
+  const cleared = await db
+    .delete(cells)
+    .where(and(
+      eq(cells.sheetId, sheetId),
+      eq(cells.rowIndex, rowIndex),
+      gt(cells.colIndex, 0)
+    ))
+    .returning({ colIndex: cells.colIndex, content: cells.content });
+
+  await recordCellChanges(db, sheetId, userId, 'reprocess', cleared.map(cell => ({
+    rowIndex,
+    colIndex: cell.colIndex,
+    previousContent: cell.content,
+    content: null,
+  })));
+
+  // Create event to reprocess from column 0
+  await db.insert(eventQueue).values({
+    sheetId,
+    userId,
+    eventType: "robot_cell_update" as const,
+    payload: {
+      spreadsheetId: sheetId,
+      rowIndex,
+      colIndex: 0,
+      content: firstCellContent,
+    },
+    status: "pending" as const,
+  });
+
+  await publishCellUpdate(db, sheetId, { rowIndex, colIndex: null });
+  await publishEventUpdate(db, sheetId, { status: 'pending', count: 1 });
+}
+
+/**
+ * Put a row's cells (or one cell) back to what they held at a point in time
+ *
+ * Cells without history from before `at` are left as they are. Restored
+ * values aren't queued for processing, so columns that depend on them keep
+ * their values too.
+ *
+ * @returns number of cells changed
+ */
+export async function revertCells(
+  sheetId: string,
+  userId: string,
+  target: { rowIndex: number; colIndex?: number; at: Date }
+): Promise<number> {
+  const history = await getRowHistory(sheetId, target.rowIndex, target.colIndex);
+  const values = valuesAt(history, target.at);
+
+  const current = await db
+    .select({ colIndex: cells.colIndex, content: cells.content })
+    .from(cells)
+    .where(and(eq(cells.sheetId, sheetId), eq(cells.rowIndex, target.rowIndex)));
+  const currentContent = new Map(current.map(cell => [cell.colIndex, cell.content ?? '']));
+
+  let changed = 0;
+  for (const [colIndex, content] of values) {
+    if ((currentContent.get(colIndex) ?? '') === (content ?? '')) {
+      continue;
+    }
+    await writeCell(
+      sheetId,
+      userId,
+      { rowIndex: target.rowIndex, colIndex, content: content ?? '' },
+      { process: false, updateType: 'revert' }
+    );
+    changed++;
+  }
+
+  console.log(`[Sheet Operations] Reverted ${changed} cells of row ${target.rowIndex} in sheet ${sheetId} to ${target.at.toISOString()}`);
+
+  return changed;
+}
@@ -0,0 +1,387 @@
+/**
+ * Sheet Snapshots
+ *
+ * A snapshot is a named copy of a sheet's columns (with their operator
+ * configuration) and non-empty cells, stored in sheet_snapshot. It can be
+ * compared with the sheet as it is now, restored over it, or forked into a new
+ * sheet. Destructive operations (reprocessing a column, agent writes,
+ * restoring another snapshot) take one automatically first; only the latest
+ * MAX_AUTOMATIC_SNAPSHOTS of those are kept per sheet.
+ */
+
+import { db } from "@/server/db";
+import { cellProcessingStatus, cells, columns, eventQueue, sheetSnapshots, sheetUpdates } from "@/server/db/schema";
+import { and, asc, desc, eq, gt, inArray, isNull, ne, type SQL } from "drizzle-orm";
+import { publishCellUpdate } from "@/server/realtime/sheet-change-feed";
+import { recordCellChanges, type CellChange } from "@/server/cell-history";
+import { createSheet, SheetOperationError } from "@/server/sheet-operations";
+import { getActiveWorkspaceId } from "@/server/workspace-access";
+import type { SheetColumnDataType, SnapshotCell, SnapshotColumn } from "@/types/spreadsheet";
+
+type DbExecutor = Pick<typeof db, 'select'>;
+
+export type SnapshotTrigger = 'manual' | 'before_reprocess' | 'before_restore' | 'agent';
+
+// Automatic snapshots kept per sheet; manual ones are kept until deleted
+const MAX_AUTOMATIC_SNAPSHOTS = 20;
+
+// Cells per insert, well under Postgres' bind parameter limit
+const INSERT_BATCH_SIZE = 1000;
+
+// Changed cells a diff lists (the counts cover all of them)
+const MAX_DIFF_CELLS = 500;
+
+export interface SnapshotSummary {
+  id: string;
+  name: string;
+  trigger: string;
+  createdBy: string | null;
+  cellCount: number;
+  columnCount: number;
+  createdAt: Date | null;
+}
+
+export interface SnapshotDiff {
+  columnsAdded: string[]; // Titles of columns the sheet has now but the snapshot doesn't
+  columnsRemoved: string[];
+  columnsChanged: string[]; // Renamed, moved or reconfigured since the snapshot
+  cellsChanged: number;
+  cells: { rowIndex: number; colIndex: number; snapshot: string | null; current: string | null }[];
+}
+
+const summaryColumns = {
+  id: sheetSnapshots.id,
+  name: sheetSnapshots.name,
+  trigger: sheetSnapshots.trigger,
+  createdBy: sheetSnapshots.createdBy,
+  cellCount: sheetSnapshots.cellCount,
+  columns: sheetSnapshots.columns,
+  createdAt: sheetSnapshots.createdAt,
+};
+
+function toSummary({ columns: snapshotColumns, ...snapshot }: {
+  id: string;
+  name: string;
+  trigger: string;
+  createdBy: string | null;
+  cellCount: number;
+  columns: SnapshotColumn[];
+  createdAt: Date | null;
+}): SnapshotSummary {
+  return { ...snapshot, columnCount: snapshotColumns.length };
+}
+
+/**
+ * The sheet's columns, in order, as a snapshot keeps them
+ */
+export async function readSnapshotColumns(
+  sheetId: string,
+  executor: DbExecutor = db
+): Promise<SnapshotColumn[]> {
+  const sheetColumns = await executor
+    .select()
+    .from(columns)
+    .where(eq(columns.sheetId, sheetId))
+    .orderBy(asc(columns.position));
+
+  return sheetColumns.map(column => ({
+    id: column.id,
+    title: column.title,
+    position: column.position,
+    dataType: column.dataType,
+    operatorType: column.operatorType,
+    operatorConfig: column.operatorConfig,
+    prompt: column.prompt,
+    dependencies: column.dependencies as number[] | null,
+    validationRules: column.validationRules,
+    isRequired: column.isRequired,
+    defaultValue: column.defaultValue,
+    isKey: column.isKey,
+    cacheResults: column.cacheResults,
+  }));
+}
+
+/**
+ * The sheet's non-empty cells (optionally only those matching `where`), in row order
+ */
+export async function readSnapshotCells(
+  sheetId: string,
+  where?: SQL,
+  executor: DbExecutor = db
+): Promise<SnapshotCell[]> {
+  const sheetCells = await executor
+    .select({
+      rowIndex: cells.rowIndex,
+      colIndex: cells.colIndex,
+      content: cells.content,
+      provenance: cells.provenance,
+      confidence: cells.confidence,
+      validation: cells.validation,
+    })
+    .from(cells)
+    .where(and(eq(cells.sheetId, sheetId), where))
+    .orderBy(asc(cells.rowIndex), asc(cells.colIndex));
+
+  return sheetCells
+    .filter(cell => cell.content?.trim())
+    .map(cell => ({ ...cell, content: cell.content! }));
+}
+
+async function readSheet(sheetId: string): Promise<{ columns: SnapshotColumn[]; cells: SnapshotCell[] }> {
+  const [sheetColumns, sheetCells] = await Promise.all([readSnapshotColumns(sheetId), readSnapshotCells(sheetId)]);
+  return { columns: sheetColumns, cells: sheetCells };
+}
+
+/**
+ * Copy the sheet's current columns and cells into a new snapshot
+ */
+export async function createSnapshot(
+  sheetId: string,
+  createdBy: string | null,
+  name: string,
+  trigger: SnapshotTrigger = 'manual'
+): Promise<SnapshotSummary> {
+  const contents = await readSheet(sheetId);
+
+  const [snapshot] = await db
+    .insert(sheetSnapshots)
+    .values({
+      sheetId,
+      name,
+      trigger,
+      createdBy,
+      columns: contents.columns,
+      cells: contents.cells,
+      cellCount: contents.cells.length,
+    })
+    .returning(summaryColumns);
+
+  if (trigger !== 'manual') {
+    const expired = await db
+      .select({ id: sheetSnapshots.id })
+      .from(sheetSnapshots)
+      .where(and(eq(sheetSnapshots.sheetId, sheetId), ne(sheetSnapshots.trigger, 'manual')))
+      .orderBy(desc(sheetSnapshots.createdAt))
+      .offset(MAX_AUTOMATIC_SNAPSHOTS);
+
+    if (expired.length > 0) {
+      await db.delete(sheetSnapshots).where(inArray(sheetSnapshots.id, expired.map(entry => entry.id)));
+    }
+  }
+
+  console.log(`[Snapshots] "${name}" of sheet ${sheetId}: ${contents.columns.length} columns, ${contents.cells.length} cells`);
+
+  return toSummary(snapshot!);
+}
+
+export async function listSnapshots(sheetId: string): Promise<SnapshotSummary[]> {
+  const snapshots = await db
+    .select(summaryColumns)
+    .from(sheetSnapshots)
+    .where(eq(sheetSnapshots.sheetId, sheetId))
+    .orderBy(desc(sheetSnapshots.createdAt));
+
+  return snapshots.map(toSummary);
+}
+
+async function findSnapshot(sheetId: string, snapshotId: string) {
+  const [snapshot] = await db
+    .select()
+    .from(sheetSnapshots)
+    .where(and(eq(sheetSnapshots.id, snapshotId), eq(sheetSnapshots.sheetId, sheetId)))
+    .limit(1);
+
+  if (!snapshot) {
+    throw new SheetOperationError('Snapshot not found', 404);
+  }
+  return snapshot;
+}
+
+export async function deleteSnapshot(sheetId: string, snapshotId: string): Promise<void> {
+  await findSnapshot(sheetId, snapshotId);
+  await db.delete(sheetSnapshots).where(eq(sheetSnapshots.id, snapshotId));
+}
+
+function cellKey(cell: { rowIndex: number; colIndex: number }) {
+  return `${cell.rowIndex}:${cell.colIndex}`;
+}
+
+/**
+ * Cells whose content differs between two cell lists, in row order
+ */
+export function changedCells(from: SnapshotCell[], to: SnapshotCell[]): CellChange[] {
+  const fromContent = new Map(from.map(cell => [cellKey(cell), cell.content]));
+  const toContent = new Map(to.map(cell => [cellKey(cell), cell.content]));
+
+  const changes: CellChange[] = [];
+  for (const key of new Set([...fromContent.keys(), ...toContent.keys()])) {
+    const previousContent = fromContent.get(key) ?? null;
+    const content = toContent.get(key) ?? null;
+    if (previousContent !== content) {
+      const [rowIndex, colIndex] = key.split(':').map(Number) as [number, number];
+      changes.push({ rowIndex, colIndex, previousContent, content });
+    }
+  }
+
+  return changes.sort((a, b) => a.rowIndex - b.rowIndex || a.colIndex - b.colIndex);
+}
+
+/**
+ * What differs between a snapshot and the sheet as it is now
+ */
+export async function diffSnapshot(sheetId: string, snapshotId: string): Promise<SnapshotDiff> {
+  const [snapshot, current] = await Promise.all([findSnapshot(sheetId, snapshotId), readSheet(sheetId)]);
+
+  const snapshotColumns = new Map(snapshot.columns.map(column => [column.id, column]));
+  const currentIds = new Set(current.columns.map(column => column.id));
+  const changes = changedCells(snapshot.cells, current.cells);
+
+  return {
+    columnsAdded: current.columns.filter(column => !snapshotColumns.has(column.id)).map(column => column.title),
+    columnsRemoved: snapshot.columns.filter(column => !currentIds.has(column.id)).map(column => column.title),
+    columnsChanged: current.columns
+      .filter(column => {
+        const before = snapshotColumns.get(column.id);
+        return before && JSON.stringify(before) !== JSON.stringify(column);
+      })
+      .map(column => column.title),
+    cellsChanged: changes.length,
+    cells: changes.slice(0, MAX_DIFF_CELLS).map(change => ({
+      rowIndex: change.rowIndex,
+      colIndex: change.colIndex,
+      snapshot: change.previousContent,
+      current: change.content,
+    })),
+  };
+}
+
+/**
+ * Replace the sheet's columns and cells with a snapshot's
+ *
+ * The current state is snapshotted first, queued processing and unapplied
+ * results are dropped (they belong to the state being replaced) and every
+ * changed cell is recorded in its history as a revert. Refused while an event
+ * is being processed.
+ */
+export async function restoreSnapshot(sheetId: string, userId: string, snapshotId: string): Promise<{ cellsChanged: number }> {
+  const snapshot = await findSnapshot(sheetId, snapshotId);
+  // Checked again under lock below; this just avoids a pointless "before" snapshot
+  await assertNotProcessing(db, sheetId);
+  await createSnapshot(sheetId, userId, `Before restoring "${snapshot.name}"`, 'before_restore');
+
+  const current = await readSheet(sheetId);
+  const changes = changedCells(current.cells, snapshot.cells);
+
+  await db.transaction(async (tx) => {
+    const queued = await lockQueuedEvents(tx, sheetId);
+
+    await tx.delete(cells).where(eq(cells.sheetId, sheetId));
+    await tx.delete(columns).where(eq(columns.sheetId, sheetId));
+    await tx.delete(cellProcessingStatus).where(eq(cellProcessingStatus.sheetId, sheetId));
+    // Processing left behind by a dead worker goes too, or the reaper would requeue it
+    if (queued.length > 0) {
+      await tx.delete(eventQueue).where(inArray(eventQueue.id, queued.map(event => event.id)));
+    }
+    // Results waiting for SheetUpdater to apply were computed from the replaced cells
+    await tx
+      .delete(sheetUpdates)
+      .where(and(eq(sheetUpdates.sheetId, sheetId), isNull(sheetUpdates.appliedAt)));
+
+    if (snapshot.columns.length > 0) {
+      await tx.insert(columns).values(snapshot.columns.map(column => ({ ...column, sheetId })));
+    }
+
+    for (let i = 0; i < snapshot.cells.length; i += INSERT_BATCH_SIZE) {
+      await tx.insert(cells).values(
+        snapshot.cells.slice(i, i + INSERT_BATCH_SIZE).map(cell => ({ ...cell, sheetId, userId }))
+      );
+    }
+
+    for (let i = 0; i < changes.length; i += INSERT_BATCH_SIZE) {
+      await recordCellChanges(tx, sheetId, userId, 'revert', changes.slice(i, i + INSERT_BATCH_SIZE));
+    }
+  });
+
+  await publishCellUpdate(db, sheetId, { rowIndex: null, colIndex: null });
+
+  console.log(`[Snapshots] Restored "${snapshot.name}" over sheet ${sheetId}: ${changes.length} cells changed`);
+
+  return { cellsChanged: changes.length };
+}
+
+/**
+ * Refuse (409) while a worker holds a live lease on one of the sheet's events:
+ * its operator would write its result over whatever replaced the cells
+ */
+async function assertNotProcessing(executor: DbExecutor, sheetId: string): Promise<void> {
+  const [running] = await executor
+    .select({ id: eventQueue.id })
+    .from(eventQueue)
+    .where(and(
+      eq(eventQueue.sheetId, sheetId),
+      eq(eventQueue.status, 'processing'),
+      gt(eventQueue.lockedUntil, new Date())
+    ))
+    .limit(1);
+
+  if (running) {
+    throw new SheetOperationError('The sheet is still processing; wait for it to finish or stop it first', 409);
+  }
+}
+
+/**
+ * Lock the sheet's queued events inside a transaction that replaces its cells,
+ * refusing (409) while one is being processed. Workers can't claim a locked
+ * event until the transaction commits (claims skip locked rows).
+ *
+ * @returns the locked events, including any left processing by a dead worker
+ */
+export async function lockQueuedEvents(
+  tx: DbExecutor,
+  sheetId: string
+): Promise<{ id: string; payload: unknown }[]> {
+  const queued = await tx
+    .select({ id: eventQueue.id, payload: eventQueue.payload })
+    .from(eventQueue)
+    .where(and(eq(eventQueue.sheetId, sheetId), inArray(eventQueue.status, ['pending', 'processing'])))
+    .for('update');
+  await assertNotProcessing(tx, sheetId);
+
+  return queued;
+}
+
+/**
+ * A new sheet for `userId` (in their active workspace) with a snapshot's columns and cells
+ */
+export async function forkSnapshot(sheetId: string, userId: string, snapshotId: string, name: string) {
+  const snapshot = await findSnapshot(sheetId, snapshotId);
+
+  const newSheet = await createSheet(userId, {
+    name,
+    workspaceId: await getActiveWorkspaceId(userId),
+    columns: snapshot.columns.map(column => ({
+      title: column.title,
+      position: column.position,
+      dataType: (column.dataType ?? 'text') as SheetColumnDataType,
+      operatorType: column.operatorType,
+      operatorConfig: column.operatorConfig,
+      prompt: column.prompt,
+      dependencies: column.dependencies,
+      validationRules: column.validationRules,
+      isRequired: column.isRequired ?? false,
+      defaultValue: column.defaultValue,
+      isKey: column.isKey ?? false,
+      cacheResults: column.cacheResults ?? true,
+    })),
+  });
+
+  for (let i = 0; i < snapshot.cells.length; i += INSERT_BATCH_SIZE) {
+    await db.insert(cells).values(
+      snapshot.cells.slice(i, i + INSERT_BATCH_SIZE).map(cell => ({ ...cell, sheetId: newSheet.id, userId }))
+    );
+  }
+
+  console.log(`[Snapshots] Forked "${snapshot.name}" of sheet ${sheetId} into sheet ${newSheet.id}`);
+
+  return newSheet;
+}
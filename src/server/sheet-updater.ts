@@ -1,11 +1,19 @@
 import { db } from "@/server/db";
 import { sheetUpdates, cells, eventQueue, sheets, columns } from "@/server/db/schema";
-import { eq, and, isNull, inArray } from "drizzle-orm";
+import { eq, and, or, isNull, inArray, lte } from "drizzle-orm";
 import { OperatorController } from "@/server/operators/operator-controller";
 import type { BaseEvent, SheetContext } from "@/server/operators/operator-controller";
+import { ColumnDependencyGraph } from "@/server/operators/column-dependency-graph";
+import { WORKER_ID, leaseExpiry, startLeaseHeartbeat } from "@/server/event-lease";
+import { Semaphore } from "@/server/gemini/concurrency-limiter";
+import { RATE_LIMIT_CONFIG } from "@/server/gemini/config";
+import { publishCellUpdate, publishEventUpdate } from "@/server/realtime/sheet-change-feed";
 import { getTemplate } from "@/server/templates/column-templates";
 import { templates } from "@/server/db/schema";
 
+// Events claimed per batch for each row slot, so slots stay busy between ticks
+const EVENTS_PER_SLOT = 4;
+
 export class SheetUpdater {
   private operatorController: OperatorController;
 
@@ -16,29 +24,47 @@ export class SheetUpdater {
     console.log('Updating sheet for user:', userId, 'sheetId:', sheetId);
 
     try {
-      // Get pending events with row locking to prevent double processing
+      // Fetch sheet metadata once for all events
+      const sheet = await db.select().from(sheets).where(eq(sheets.id, sheetId)).limit(1);
+      const sheetData = sheet[0];
+
+      if (!sheetData) {
+        console.error('Sheet not found:', sheetId);
+        return { success: false, error: 'Sheet not found', appliedUpdates: [], totalApplied: 0 };
+      }
+
+      const concurrency = Math.min(
+        sheetData.maxConcurrency ?? RATE_LIMIT_CONFIG.defaultSheetConcurrency,
+        RATE_LIMIT_CONFIG.maxSheetConcurrency
+      );
+
+      // Claim pending events under a lease so other instances skip them and the
+      // reaper can recover them if this process dies mid-dispatch
       const pendingEvents = await db.transaction(async (tx) => {
-        // Select pending events with FOR UPDATE to lock them
-        // Exclude cancelled events
+        // Select pending events with FOR UPDATE SKIP LOCKED so concurrent workers
+        // claim disjoint batches
         const events = await tx
           .select()
           .from(eventQueue)
           .where(and(
             eq(eventQueue.sheetId, sheetId),
-            eq(eventQueue.userId, userId),
-            eq(eventQueue.status, 'pending')
+            eq(eventQueue.status, 'pending'),
+            // Retries wait out their backoff
+            or(isNull(eventQueue.nextAttemptAt), lte(eventQueue.nextAttemptAt, new Date()))
           ))
           .orderBy(eventQueue.createdAt)
-          .limit(10) // Process max 10 events at once
-          .for('update');
+          .limit(concurrency * EVENTS_PER_SLOT)
+          .for('update', { skipLocked: true });
 
         // Mark events as processing to prevent double processing
         if (events.length > 0) {
           const eventIds = events.map(e => e.id);
           await tx
             .update(eventQueue)
-            .set({ status: 'processing' })
+            .set({ status: 'processing', lockedBy: WORKER_ID, lockedUntil: leaseExpiry() })
             .where(inArray(eventQueue.id, eventIds));
+
+          await publishEventUpdate(tx, sheetId, { status: 'processing', count: events.length });
         }
 
         return events;
@@ -48,116 +74,164 @@ export class SheetUpdater {
 
       const appliedUpdates: any[] = [];
 
-      // Fetch sheet metadata once for all events
-      const sheet = await db.select().from(sheets).where(eq(sheets.id, sheetId)).limit(1);
-      const sheetData = sheet[0];
-
-      if (!sheetData) {
-        console.error('Sheet not found:', sheetId);
-        return { success: false, error: 'Sheet not found', appliedUpdates: [], totalApplied: 0 };
-      }
-
       // Fetch columns for this sheet
       const sheetColumns = await db.select().from(columns).where(eq(columns.sheetId, sheetId)).orderBy(columns.position);
+      const dependencyColumns = sheetColumns.map(col => ({
+        position: col.position,
+        dependencies: col.dependencies as number[] | null,
+      }));
+
+      // Keep the batch's leases alive while its events run
+      const stopHeartbeat = startLeaseHeartbeat(pendingEvents.map(e => e.id));
+      try {
+        const processEvent = async (event: (typeof pendingEvents)[number]) => {
+          try {
+            // Extract cell position from event payload
+            const payload = event.payload as any;
+            const rowIndex = payload.rowIndex ?? 0;
+            const colIndex = payload.colIndex ?? 0;
+
+            // Fetch existing row data
+            const rowCells = await db.select().from(cells).where(
+              and(
+                eq(cells.sheetId, sheetId),
+                eq(cells.rowIndex, rowIndex)
+              )
+            );
+
+            const rowData: Record<number, string> = {};
+            rowCells.forEach(cell => {
+              rowData[cell.colIndex] = cell.content ?? '';
+            });
+
+            // Events created by an operator write already name their target column;
+            // anything else (user edits, reprocess triggers) asks the dependency graph
+            const targetColumns: number[] = payload.targetColIndex !== undefined
+              ? [payload.targetColIndex].filter((target: number) => target > 0 && target < sheetColumns.length)
+              : ColumnDependencyGraph.getReadyColumns(dependencyColumns, rowData, colIndex);
+
+            // Nothing left to fill for this row from this change
+            if (targetColumns.length === 0) {
+              console.log(`Row ${rowIndex} has no ready columns after column ${colIndex}, marking event ${event.id} as completed`);
+              try {
+                await db
+                  .update(eventQueue)
+                  .set({
+                    status: 'completed',
+                    processedAt: new Date()
+                  })
+                  .where(eq(eventQueue.id, event.id));
+                console.log(`Successfully marked event ${event.id} as completed`);
+              } catch (updateError) {
+                console.error(`Failed to mark event ${event.id} as completed:`, updateError);
+              }
+              return;
+            }
 
-      for (const event of pendingEvents) {
-        try {
-          // Extract cell position from event payload
-          const payload = event.payload as any;
-          const rowIndex = payload.rowIndex ?? 0;
-          const colIndex = payload.colIndex ?? 0;
-
-          // Check if row is already complete (all columns filled)
-          if (colIndex >= sheetColumns.length - 1) {
-            console.log(`Row ${rowIndex} already complete, marking event ${event.id} as completed`);
+            // This event fills the first ready column; the others get their own events
+            const [targetColumnIndex, ...otherTargets] = targetColumns as [number, ...number[]];
+            if (otherTargets.length > 0) {
+              await db.insert(eventQueue).values(
+                otherTargets.map(target => ({
+                  sheetId,
+                  userId: event.userId,
+                  eventType: event.eventType,
+                  payload: { ...payload, targetColIndex: target },
+                  status: 'pending',
+                }))
+              );
+              await publishEventUpdate(db, sheetId, { status: 'pending', count: otherTargets.length });
+              console.log(`Fanned out event ${event.id} to columns ${otherTargets.join(', ')}`);
+            }
+
+            // Build sheet context
+            let systemPrompt: string | undefined;
             try {
-              await db
-                .update(eventQueue)
-                .set({
-                  status: 'completed',
-                  processedAt: new Date()
-                })
-                .where(eq(eventQueue.id, event.id));
-              console.log(`Successfully marked event ${event.id} as completed`);
-            } catch (updateError) {
-              console.error(`Failed to mark event ${event.id} as completed:`, updateError);
+              systemPrompt = sheetData.templateType ? getTemplate(sheetData.templateType as any).systemPrompt : undefined;
+            } catch (error) {
+              // Template not found in hardcoded templates, try loading from database
+              if (sheetData.templateId) {
+                const [template] = await db.select({ systemPrompt: templates.systemPrompt }).from(templates).where(eq(templates.id, sheetData.templateId)).limit(1);
+                systemPrompt = template?.systemPrompt || undefined;
+              }
             }
-            continue;
-          }
 
-          // Fetch existing row data
-          const rowCells = await db.select().from(cells).where(
-            and(
-              eq(cells.sheetId, sheetId),
-              eq(cells.rowIndex, rowIndex)
-            )
-          );
-
-          const rowData: Record<number, string> = {};
-          rowCells.forEach(cell => {
-            rowData[cell.colIndex] = cell.content ?? '';
-          });
+            const sheetContext: SheetContext = {
+              sheetId,
+              templateType: sheetData.templateType as any,
+              systemPrompt,
+              columns: sheetColumns.map(col => ({
+                id: col.id,
+                title: col.title || '',
+                position: col.position,
+                dataType: col.dataType ?? 'text',
+                operatorType: col.operatorType || null,
+                operatorConfig: col.operatorConfig || null,
+                prompt: col.prompt || null,
+                dependencies: col.dependencies as number[] | null || null,
+                isRequired: col.isRequired ?? null,
+                defaultValue: col.defaultValue || null,
+                cacheResults: col.cacheResults ?? null,
+              })),
+              rowIndex,
+              currentColumnIndex: colIndex,
+              targetColumnIndex,
+              rowData,
+              clarification: payload.clarification,
+              retryCount: event.retryCount ?? 0,
+              retryPrompt: payload.retryPrompt,
+            };
+
+            // Dispatch event to operator controller with context
+            const baseEvent: BaseEvent = {
+              userId: event.userId,
+              eventId: event.id,
+              eventType: event.eventType as any,
+              timestamp: event.createdAt ?? new Date(),
+              data: event.payload,
+              retryCount: event.retryCount ?? 0,
+              sheetContext,
+            };
+
+            // Process the event through the operator controller
+            await this.operatorController.dispatch(baseEvent);
+
+            console.log(`Processed event ${event.id}: ${event.eventType}`);
 
-          // Build sheet context
-          let systemPrompt: string | undefined;
-          try {
-            systemPrompt = sheetData.templateType ? getTemplate(sheetData.templateType as any).systemPrompt : undefined;
           } catch (error) {
-            // Template not found in hardcoded templates, try loading from database
-            if (sheetData.templateId) {
-              const [template] = await db.select({ systemPrompt: templates.systemPrompt }).from(templates).where(eq(templates.id, sheetData.templateId)).limit(1);
-              systemPrompt = template?.systemPrompt || undefined;
-            }
+            console.error(`Failed to process event ${event.id}:`, error);
+
+            // Mark event as failed with error message
+            await db
+              .update(eventQueue)
+              .set({
+                status: 'failed',
+                lastError: error instanceof Error ? error.message : String(error),
+              })
+              .where(eq(eventQueue.id, event.id));
           }
+        };
+
+        // Rows run in parallel up to the sheet's concurrency; events within a row stay
+        // in order so each one sees the previous write (and fan-out isn't raced)
+        const eventsByRow = new Map<number, typeof pendingEvents>();
+        for (const event of pendingEvents) {
+          const rowIndex = (event.payload as { rowIndex?: number }).rowIndex ?? 0;
+          eventsByRow.set(rowIndex, [...(eventsByRow.get(rowIndex) ?? []), event]);
+        }
 
-          const sheetContext: SheetContext = {
-            sheetId,
-            templateType: sheetData.templateType as any,
-            systemPrompt,
-            columns: sheetColumns.map(col => ({
-              id: col.id,
-              title: col.title || '',
-              position: col.position,
-              dataType: col.dataType ?? 'text',
-              operatorType: col.operatorType || null,
-              operatorConfig: col.operatorConfig || null,
-              prompt: col.prompt || null,
-              dependencies: col.dependencies as number[] | null || null,
-              isRequired: col.isRequired ?? null,
-              defaultValue: col.defaultValue || null,
-            })),
-            rowIndex,
-            currentColumnIndex: colIndex,
-            rowData,
-          };
-
-          // Dispatch event to operator controller with context
-          const baseEvent: BaseEvent = {
-            userId: event.userId,
-            eventId: event.id,
-            eventType: event.eventType as any,
-            timestamp: event.createdAt ?? new Date(),
-            data: event.payload,
-            sheetContext,
-          };
-
-          // Process the event through the operator controller
-          await this.operatorController.dispatch(baseEvent);
-
-          console.log(`Processed event ${event.id}: ${event.eventType}`);
-
-        } catch (error) {
-          console.error(`Failed to process event ${event.id}:`, error);
-
-          // Mark event as failed with error message
-          await db
-            .update(eventQueue)
-            .set({
-              status: 'failed',
-              lastError: error instanceof Error ? error.message : String(error),
+        const rowSlots = new Semaphore(concurrency);
+        await Promise.all(
+          Array.from(eventsByRow.values()).map(rowEvents =>
+            rowSlots.run(async () => {
+              for (const event of rowEvents) {
+                await processEvent(event);
+              }
             })
-            .where(eq(eventQueue.id, event.id));
-        }
+          )
+        );
+      } finally {
+        stopHeartbeat();
       }
 
       // Now apply all the pending sheet updates
@@ -166,7 +240,6 @@ export class SheetUpdater {
         .from(sheetUpdates)
         .where(and(
           eq(sheetUpdates.sheetId, sheetId),
-          eq(sheetUpdates.userId, userId),
           isNull(sheetUpdates.appliedAt)
         ))
         .orderBy(sheetUpdates.createdAt);
@@ -175,6 +248,16 @@ export class SheetUpdater {
 
       for (const update of pendingSheetUpdates) {
         try {
+          const [previous] = await db
+            .select({ content: cells.content })
+            .from(cells)
+            .where(and(
+              eq(cells.sheetId, update.sheetId),
+              eq(cells.rowIndex, update.rowIndex),
+              eq(cells.colIndex, update.colIndex)
+            ))
+            .limit(1);
+
           // Apply the update to the cells table
           await db.insert(cells).values({
             sheetId: update.sheetId,
@@ -183,19 +266,29 @@ export class SheetUpdater {
             colIndex: update.colIndex,
             content: update.content,
           }).onConflictDoUpdate({
-            target: [cells.sheetId, cells.userId, cells.rowIndex, cells.colIndex],
+            target: [cells.sheetId, cells.rowIndex, cells.colIndex],
             set: {
+              userId: update.userId,
               content: update.content,
+              provenance: null,
+              confidence: null,
+              validation: null,
               updatedAt: new Date(),
             }
           });
 
-          // Mark the update as applied
+          // Mark the update as applied, keeping the value it replaced for the cell's history
           await db
             .update(sheetUpdates)
-            .set({ appliedAt: new Date() })
+            .set({ appliedAt: new Date(), previousContent: previous?.content ?? null })
             .where(eq(sheetUpdates.id, update.id));
 
+          await publishCellUpdate(db, sheetId, {
+            rowIndex: update.rowIndex,
+            colIndex: update.colIndex,
+            content: update.content,
+          });
+
           console.log(`Applied sheet update ${update.id}: (${update.rowIndex}, ${update.colIndex}) = "${update.content}"`);
 
         } catch (error) {
@@ -0,0 +1,379 @@
+/**
+ * Webhook Dispatcher
+ *
+ * Queues sheet events (row_complete, sheet_complete, error) into the webhook
+ * delivery log and POSTs them as signed JSON to the sheet's webhook URL.
+ * Failed deliveries are retried with exponential backoff by the background processor.
+ *
+ * Only the response status is kept: the URL is user-supplied, so storing (and
+ * showing) what it returns would let an editor read internal endpoints.
+ */
+
+import { createHash, createHmac, randomBytes } from "crypto";
+import { request as httpRequest } from "http";
+import { request as httpsRequest } from "https";
+import { db } from "@/server/db";
+import { sheets, cells, columns, webhookDeliveries } from "@/server/db/schema";
+import { eq, and, lte, asc, countDistinct, inArray, sql } from "drizzle-orm";
+import type { WebhookEventType } from "@/types/spreadsheet";
+import { pinnedLookup, resolvePublicWebhookUrl, type ResolvedWebhookUrl } from "./webhook-url";
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Websurfing-Signature';
+
+const MAX_ATTEMPTS = 5;
+const BASE_RETRY_DELAY_MS = 30_000; // 30s, 1m, 2m, 4m between attempts
+const REQUEST_TIMEOUT_MS = 10_000;
+const DELIVERY_BATCH_SIZE = 20;
+
+/**
+ * Database handle accepted by enqueue helpers - either `db` or a transaction
+ */
+type DbExecutor = Pick<typeof db, 'select' | 'insert' | 'execute'>;
+
+type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+
+/**
+ * Generate a new signing secret for a sheet (64 hex chars)
+ */
+export function generateWebhookSecret(): string {
+  return randomBytes(32).toString('hex');
+}
+
+/**
+ * Sign a payload body: HMAC-SHA256 over `${timestamp}.${body}`
+ *
+ * Receivers verify by recomputing the digest from the `t` and `v1`
+ * parts of the X-Websurfing-Signature header.
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+class WebhookDispatcher {
+  /**
+   * Queue a delivery if the sheet has a webhook URL subscribed to this event
+   *
+   * @returns delivery ID, or null when the sheet isn't subscribed
+   */
+  async enqueue(
+    executor: DbExecutor,
+    sheetId: string,
+    eventType: WebhookEventType,
+    data: Record<string, unknown>,
+    dedupeKey: string | null = null
+  ): Promise<string | null> {
+    const [sheet] = await executor
+      .select({
+        name: sheets.name,
+        webhookUrl: sheets.webhookUrl,
+        webhookEvents: sheets.webhookEvents,
+      })
+      .from(sheets)
+      .where(eq(sheets.id, sheetId))
+      .limit(1);
+
+    if (!sheet?.webhookUrl) {
+      return null;
+    }
+
+    const subscribed = Array.isArray(sheet.webhookEvents)
+      ? (sheet.webhookEvents as string[])
+      : [];
+    if (!subscribed.includes(eventType)) {
+      return null;
+    }
+
+    return this.insertDelivery(executor, sheetId, sheet.name, sheet.webhookUrl, eventType, data, dedupeKey);
+  }
+
+  /**
+   * Queue and immediately attempt a test delivery, regardless of event subscriptions
+   */
+  async sendTest(sheetId: string): Promise<WebhookDelivery> {
+    const sheet = await db.query.sheets.findFirst({
+      where: eq(sheets.id, sheetId),
+    });
+
+    if (!sheet?.webhookUrl) {
+      throw new Error('No webhook URL configured for this sheet');
+    }
+
+    const deliveryId = await this.insertDelivery(db, sheetId, sheet.name, sheet.webhookUrl, 'test', {
+      message: 'This is a test delivery from Websurfing',
+    });
+
+    return this.deliver(deliveryId!); // Test deliveries have no dedupe key, so always insert
+  }
+
+  /**
+   * Notify if a row now has every column filled, then check whether the whole sheet is done
+   *
+   * Called from inside the cell write transaction. Writes to the same row
+   * serialize on an advisory lock and re-read the row, so when its last two
+   * columns are written concurrently the second one to take the lock sees the
+   * first. Each completed row (with its values) is delivered once, however
+   * many writes observe it, and so is the sheet completion each one causes.
+   */
+  async notifyIfRowComplete(executor: DbExecutor, sheetId: string, rowIndex: number): Promise<void> {
+    await executor.execute(sql`select pg_advisory_xact_lock(hashtext(${`${sheetId}:row:${rowIndex}`}))`);
+
+    const sheetColumns = await executor
+      .select({ title: columns.title, position: columns.position })
+      .from(columns)
+      .where(eq(columns.sheetId, sheetId))
+      .orderBy(asc(columns.position));
+
+    const rowCells = await executor
+      .select({ colIndex: cells.colIndex, content: cells.content })
+      .from(cells)
+      .where(and(eq(cells.sheetId, sheetId), eq(cells.rowIndex, rowIndex)));
+
+    const rowValues: Record<string, string | null> = {};
+    for (const column of sheetColumns) {
+      rowValues[column.title] = rowCells.find(c => c.colIndex === column.position)?.content ?? null;
+    }
+
+    const rowComplete = sheetColumns.length > 0 && Object.values(rowValues).every(value => !!value?.trim());
+    if (!rowComplete) {
+      return;
+    }
+
+    await this.enqueue(executor, sheetId, 'row_complete', {
+      rowIndex,
+      values: rowValues,
+    }, `row_complete:${rowIndex}:${digest(rowValues)}`);
+
+    // Sheet-wide check serializes too, so the last row to complete is the one that sees it
+    await executor.execute(sql`select pg_advisory_xact_lock(hashtext(${`${sheetId}:sheet`}))`);
+
+    // Sheet is complete when every row that has data has all columns filled
+    const positions = sheetColumns.map(column => column.position);
+    const filled = and(eq(cells.sheetId, sheetId), sql`trim(${cells.content}) <> ''`);
+    const [incompleteRow] = await executor
+      .select({ rowIndex: cells.rowIndex })
+      .from(cells)
+      .where(filled)
+      .groupBy(cells.rowIndex)
+      .having(sql`count(*) filter (where ${inArray(cells.colIndex, positions)}) < ${positions.length}`)
+      .limit(1);
+
+    if (incompleteRow) {
+      return;
+    }
+
+    const [{ rowCount } = { rowCount: 0 }] = await executor
+      .select({ rowCount: countDistinct(cells.rowIndex) })
+      .from(cells)
+      .where(filled);
+
+    // Keyed on the row write that completed the sheet, so observing it again doesn't resend
+    await this.enqueue(executor, sheetId, 'sheet_complete', {
+      rowCount,
+      columnCount: sheetColumns.length,
+    }, `sheet_complete:${rowCount}:${rowIndex}:${digest(rowValues)}`);
+  }
+
+  /**
+   * Deliver every pending delivery whose next attempt is due
+   */
+  async deliverDue(): Promise<number> {
+    // Claim due deliveries by pushing nextAttemptAt forward, so concurrent
+    // processors don't pick up the same rows while the request is in flight
+    const claimed = await db.transaction(async (tx) => {
+      const due = await tx
+        .select({ id: webhookDeliveries.id })
+        .from(webhookDeliveries)
+        .where(and(
+          eq(webhookDeliveries.status, 'pending'),
+          lte(webhookDeliveries.nextAttemptAt, new Date())
+        ))
+        .orderBy(asc(webhookDeliveries.nextAttemptAt))
+        .limit(DELIVERY_BATCH_SIZE)
+        .for('update', { skipLocked: true });
+
+      for (const { id } of due) {
+        await tx
+          .update(webhookDeliveries)
+          .set({ nextAttemptAt: new Date(Date.now() + REQUEST_TIMEOUT_MS * 2) })
+          .where(eq(webhookDeliveries.id, id));
+      }
+
+      return due;
+    });
+
+    for (const { id } of claimed) {
+      await this.deliver(id);
+    }
+
+    return claimed.length;
+  }
+
+  /**
+   * Attempt a single delivery now and record the outcome
+   */
+  async deliver(deliveryId: string): Promise<WebhookDelivery> {
+    const delivery = await db.query.webhookDeliveries.findFirst({
+      where: eq(webhookDeliveries.id, deliveryId),
+    });
+
+    if (!delivery) {
+      throw new Error(`Webhook delivery ${deliveryId} not found`);
+    }
+
+    const sheet = await db.query.sheets.findFirst({
+      where: eq(sheets.id, delivery.sheetId),
+    });
+
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'User-Agent': 'Websurfing-Webhooks/1.0',
+      'X-Websurfing-Event': delivery.eventType,
+      'X-Websurfing-Delivery': delivery.id,
+    };
+    if (sheet?.webhookSecret) {
+      headers[WEBHOOK_SIGNATURE_HEADER] = `t=${timestamp},v1=${signWebhookPayload(sheet.webhookSecret, timestamp, body)}`;
+    }
+
+    const attempts = delivery.attempts + 1;
+    let responseStatus: number | null = null;
+    let lastError: string | null = null;
+
+    try {
+      // Checked per attempt: the host may have been repointed since the URL was saved
+      const target = await resolvePublicWebhookUrl(delivery.url);
+
+      responseStatus = await post(target, headers, body);
+
+      // Redirects aren't followed (one could lead to an internal address), so they fail too
+      if (responseStatus < 200 || responseStatus >= 300) {
+        lastError = `HTTP ${responseStatus}`;
+      }
+    } catch (error) {
+      lastError = error instanceof Error ? error.message : 'Unknown error';
+    }
+
+    const delivered = lastError === null;
+    const exhausted = !delivered && attempts >= MAX_ATTEMPTS;
+    const now = new Date();
+
+    const [updated] = await db
+      .update(webhookDeliveries)
+      .set({
+        status: delivered ? 'delivered' : exhausted ? 'failed' : 'pending',
+        attempts,
+        responseStatus,
+        lastError,
+        lastAttemptAt: now,
+        deliveredAt: delivered ? now : null,
+        nextAttemptAt: delivered || exhausted
+          ? null
+          : new Date(now.getTime() + BASE_RETRY_DELAY_MS * Math.pow(2, attempts - 1)),
+      })
+      .where(eq(webhookDeliveries.id, delivery.id))
+      .returning();
+
+    if (delivered) {
+      console.log(`[WebhookDispatcher] Delivered ${delivery.eventType} (${delivery.id}) to ${delivery.url}`);
+    } else {
+      console.warn(
+        `[WebhookDispatcher] Delivery ${delivery.id} attempt ${attempts}/${MAX_ATTEMPTS} failed: ${lastError}` +
+        (exhausted ? ' - giving up' : '')
+      );
+    }
+
+    return updated!;
+  }
+
+  /**
+   * Reset a delivery so it is retried on the next processor tick
+   */
+  async redeliver(deliveryId: string): Promise<void> {
+    await db
+      .update(webhookDeliveries)
+      .set({
+        status: 'pending',
+        attempts: 0,
+        nextAttemptAt: new Date(),
+      })
+      .where(eq(webhookDeliveries.id, deliveryId));
+  }
+
+  private async insertDelivery(
+    executor: DbExecutor,
+    sheetId: string,
+    sheetName: string,
+    url: string,
+    eventType: WebhookEventType | 'test',
+    data: Record<string, unknown>,
+    dedupeKey: string | null = null
+  ): Promise<string | null> {
+    const [delivery] = await executor
+      .insert(webhookDeliveries)
+      .values({
+        sheetId,
+        eventType,
+        url,
+        payload: {
+          event: eventType,
+          sheetId,
+          sheetName,
+          timestamp: new Date().toISOString(),
+          data,
+        },
+        status: 'pending',
+        dedupeKey,
+      })
+      .onConflictDoNothing({ target: [webhookDeliveries.sheetId, webhookDeliveries.dedupeKey] })
+      .returning({ id: webhookDeliveries.id });
+
+    if (!delivery) {
+      // Already queued for this exact state
+      return null;
+    }
+
+    console.log(`[WebhookDispatcher] Queued ${eventType} delivery for sheet ${sheetId}`);
+
+    return delivery.id;
+  }
+}
+
+/**
+ * Short stable hash of a completed row or sheet, for its delivery's dedupe key
+ */
+/**
+ * POST `body` to a checked webhook URL, connecting to the address it was checked at
+ *
+ * @returns the response status (the response body is discarded)
+ */
+function post(target: ResolvedWebhookUrl, headers: Record<string, string>, body: string): Promise<number> {
+  const request = target.url.protocol === 'https:' ? httpsRequest : httpRequest;
+
+  return new Promise((resolve, reject) => {
+    const req = request(target.url, {
+      method: 'POST',
+      headers: { ...headers, 'Content-Length': Buffer.byteLength(body).toString() },
+      lookup: pinnedLookup(target),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    }, (response) => {
+      response.resume();
+      resolve(response.statusCode ?? 0);
+    });
+    req.on('error', reject);
+    req.end(body);
+  });
+}
+
+function digest(value: unknown): string {
+  return createHash('sha256').update(JSON.stringify(value)).digest('hex').slice(0, 32);
+}
+
+let dispatcherInstance: WebhookDispatcher | null = null;
+
+export function getWebhookDispatcher(): WebhookDispatcher {
+  if (!dispatcherInstance) {
+    dispatcherInstance = new WebhookDispatcher();
+  }
+  return dispatcherInstance;
+}
@@ -0,0 +1,131 @@
+/**
+ * Webhook URL Checks
+ *
+ * Deliveries are server-side POSTs to a URL a sheet owner supplies, so the
+ * target must be a public host: loopback, private, link-local (which covers
+ * the cloud metadata address 169.254.169.254) and other reserved ranges are
+ * refused. The host is resolved when the URL is saved and again before every
+ * delivery, since what a name points at can change in between. A delivery
+ * connects to the address that was checked (pinnedLookup) rather than
+ * resolving the name a second time, which a DNS rebinding attack could answer
+ * with an internal address.
+ */
+
+import { lookup } from "dns/promises";
+import { BlockList, isIP, type LookupFunction } from "net";
+
+export class WebhookUrlError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "WebhookUrlError";
+  }
+}
+
+const blockedAddresses = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10], // Carrier-grade NAT
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4], // Multicast and reserved, up to 255.255.255.255
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['::ffff:0:0', 96], // IPv4-mapped: could wrap any of the above
+  ['64:ff9b::', 96], // NAT64, likewise
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * Whether an IP address is in a loopback, private, link-local or reserved range
+ */
+export function isNonPublicAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) {
+    return true;
+  }
+  return blockedAddresses.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * A webhook URL with the public address its host was checked at
+ */
+export interface ResolvedWebhookUrl {
+  url: URL;
+  address: string;
+  family: 4 | 6;
+}
+
+/**
+ * Throw a WebhookUrlError unless `rawUrl` is http(s) and every address its host resolves to is public
+ */
+export async function assertPublicWebhookUrl(rawUrl: string): Promise<void> {
+  await resolvePublicWebhookUrl(rawUrl);
+}
+
+/**
+ * Check `rawUrl` like assertPublicWebhookUrl and return the address to connect to
+ */
+export async function resolvePublicWebhookUrl(rawUrl: string): Promise<ResolvedWebhookUrl> {
+  let url: URL;
+  try {
+    url = new URL(rawUrl);
+  } catch {
+    throw new WebhookUrlError(`Invalid webhook URL: ${rawUrl}`);
+  }
+
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    throw new WebhookUrlError('Webhook URL must use http or https');
+  }
+
+  // IPv6 literals keep their brackets in URL.hostname
+  const host = url.hostname.replace(/^\[(.*)\]$/, '$1');
+
+  let addresses: string[];
+  if (isIP(host)) {
+    addresses = [host];
+  } else {
+    try {
+      addresses = (await lookup(host, { all: true })).map(entry => entry.address);
+    } catch {
+      throw new WebhookUrlError(`Webhook host ${host} could not be resolved`);
+    }
+  }
+
+  const blocked = addresses.find(isNonPublicAddress);
+  if (blocked) {
+    throw new WebhookUrlError(`Webhook host ${host} resolves to a non-public address (${blocked})`);
+  }
+
+  const address = addresses[0];
+  if (!address) {
+    throw new WebhookUrlError(`Webhook host ${host} could not be resolved`);
+  }
+
+  return { url, address, family: isIP(address) === 6 ? 6 : 4 };
+}
+
+/**
+ * A socket `lookup` that answers every name with the checked address
+ */
+export function pinnedLookup({ address, family }: ResolvedWebhookUrl): LookupFunction {
+  return (_hostname, options, callback) => {
+    if (options.all) {
+      callback(null, [{ address, family }]);
+    } else {
+      callback(null, address, family);
+    }
+  };
+}
@@ -0,0 +1,98 @@
+/**
+ * Workspace Access
+ *
+ * Workspaces own sheets, templates, API keys and a shared budget, so work
+ * stays with the team when someone leaves. Members have one of two roles:
+ *
+ * - member: editor access to every sheet in the workspace, can use and edit its templates
+ * - owner:  owner access to every sheet, plus members, invitations, budget and API keys
+ *
+ * Each user has an active workspace (null = their personal space) that decides
+ * which sheets and templates they see and where new ones are created.
+ */
+
+import { db } from "@/server/db";
+import { users, workspaceMembers } from "@/server/db/schema";
+import { and, asc, eq } from "drizzle-orm";
+
+export const WORKSPACE_ROLES = ['owner', 'member'] as const;
+export type WorkspaceRole = (typeof WORKSPACE_ROLES)[number];
+
+/**
+ * The user's role in a workspace, or null if they aren't a member
+ */
+export async function getWorkspaceRole(workspaceId: string, userId: string): Promise<WorkspaceRole | null> {
+  const [member] = await db
+    .select({ role: workspaceMembers.role })
+    .from(workspaceMembers)
+    .where(and(eq(workspaceMembers.workspaceId, workspaceId), eq(workspaceMembers.userId, userId)))
+    .limit(1);
+
+  return (member?.role as WorkspaceRole | undefined) ?? null;
+}
+
+/**
+ * Throw unless the user is a member of the workspace (an owner, if `minimum` is 'owner')
+ *
+ * @returns the user's role
+ */
+export async function assertWorkspaceAccess(
+  workspaceId: string,
+  userId: string,
+  minimum: WorkspaceRole = 'member'
+): Promise<WorkspaceRole> {
+  const role = await getWorkspaceRole(workspaceId, userId);
+
+  if (!role) {
+    throw new Error('Workspace not found or access denied');
+  }
+
+  if (minimum === 'owner' && role !== 'owner') {
+    throw new Error('Only workspace owners can do this');
+  }
+
+  return role;
+}
+
+/**
+ * The workspace the user is working in, or null for their personal space
+ *
+ * Falls back to personal if they have since left the workspace.
+ */
+export async function getActiveWorkspaceId(userId: string): Promise<string | null> {
+  const [row] = await db
+    .select({ workspaceId: workspaceMembers.workspaceId })
+    .from(users)
+    .innerJoin(workspaceMembers, and(
+      eq(workspaceMembers.workspaceId, users.activeWorkspaceId),
+      eq(workspaceMembers.userId, users.id)
+    ))
+    .where(eq(users.id, userId))
+    .limit(1);
+
+  return row?.workspaceId ?? null;
+}
+
+/**
+ * Subquery of the workspace IDs a user belongs to, for `inArray(table.workspaceId, ...)`
+ */
+export function memberWorkspaceIds(userId: string) {
+  return db
+    .select({ workspaceId: workspaceMembers.workspaceId })
+    .from(workspaceMembers)
+    .where(eq(workspaceMembers.userId, userId));
+}
+
+/**
+ * The longest-standing owner of a workspace (acts for workspace API keys and
+ * inherits sheets from members who leave)
+ */
+export async function getPrimaryWorkspaceOwner(workspaceId: string, excludeUserId?: string): Promise<string | null> {
+  const owners = await db
+    .select({ userId: workspaceMembers.userId })
+    .from(workspaceMembers)
+    .where(and(eq(workspaceMembers.workspaceId, workspaceId), eq(workspaceMembers.role, 'owner')))
+    .orderBy(asc(workspaceMembers.createdAt));
+
+  return owners.find((owner) => owner.userId !== excludeUserId)?.userId ?? null;
+}
@@ -81,6 +81,18 @@ export interface GoogleSearchOutput {
   webSearchQueries: string[];
   groundingMetadata?: GroundingMetadata;
   timestamp: Date;
+  clarification?: ClarificationRequest;
+}
+
+/**
+ * Returned by an operator (or found in its output) when it can't pick an
+ * answer without asking the user, e.g. several companies match a name
+ */
+export interface ClarificationRequest {
+  question: string;
+  options?: string[];
+  responseType?: "text" | "choice";
+  context?: Record<string, unknown>;
 }
 
 /**
@@ -141,10 +153,26 @@ export interface FunctionDeclaration {
 }
 
 export interface FunctionCall {
+  id?: string;
   name: string;
   args: Record<string, unknown>;
 }
 
+/**
+ * Per-call settings passed to registered function implementations
+ */
+export interface FunctionExecutionContext {
+  allowedHosts?: string[];
+}
+
+/**
+ * `operatorConfig` shape for columns using the function_calling operator
+ */
+export interface FunctionCallingColumnConfig {
+  allowedFunctions?: string[];
+  allowedHosts?: string[];
+}
+
 export interface FunctionCallInput {
   prompt: string;
   availableFunctions: FunctionDeclaration[];
@@ -154,12 +182,19 @@ export interface FunctionCallInput {
       allowedFunctionNames?: string[];
     };
   };
+  executionContext?: FunctionExecutionContext;
+}
+
+export interface ExecutedFunctionCall extends FunctionCall {
+  result?: unknown;
+  error?: string;
 }
 
 export interface FunctionCallOutput {
   functionCalls: FunctionCall[];
   response?: string;
   requiresExecution: boolean;
+  executedCalls?: ExecutedFunctionCall[];
 }
 
 /**
@@ -230,6 +265,7 @@ export interface BaseOperator<TInput, TOutput> {
   readonly name: string;
   readonly inputType: string;
   readonly outputType: string;
+  readonly model?: string; // Gemini model called, part of the operator cache key
 
   /**
    * Main operation logic
@@ -512,3 +512,97 @@ export interface Cell {
    */
   updatedAt: Date;
 }
+
+/**
+ * Data types a sheet column can declare
+ */
+export const COLUMN_DATA_TYPES = ['text', 'array', 'url', 'number'] as const;
+export type SheetColumnDataType = (typeof COLUMN_DATA_TYPES)[number];
+
+/**
+ * Events a sheet's webhook can subscribe to
+ */
+export const WEBHOOK_EVENT_TYPES = ['row_complete', 'sheet_complete', 'error'] as const;
+export type WebhookEventType = (typeof WEBHOOK_EVENT_TYPES)[number];
+
+/**
+ * A page an operator's answer for a cell came from
+ */
+export interface CellSource {
+  url: string;
+  title: string | null;
+  /** The passage of the answer this source supports */
+  snippet: string | null;
+}
+
+/**
+ * Where an operator-written cell value came from; cleared when anything else writes the cell
+ */
+export interface CellProvenance {
+  operatorName: string;
+  model: string | null;
+  /** Hex SHA-256 of the prompt sent, to tell which cells were produced by the same prompt */
+  promptHash: string | null;
+  sources: CellSource[];
+  recordedAt: string; // ISO timestamp of the write
+}
+
+/**
+ * What validating an operator-written value found; cleared with the provenance
+ */
+export interface CellValidation {
+  issues: { message: string; severity: 'error' | 'warning' | 'info' }[];
+  suggestions: string[];
+  /** The operator's own score for its answer, for operators that report one (structured_output) */
+  operatorConfidence: number | null;
+}
+
+/**
+ * A column's configuration as a sheet snapshot keeps it
+ */
+export interface SnapshotColumn {
+  id: string;
+  title: string;
+  position: number;
+  dataType: string | null;
+  operatorType: string | null;
+  operatorConfig: unknown;
+  prompt: string | null;
+  dependencies: number[] | null;
+  validationRules: unknown;
+  isRequired: boolean | null;
+  defaultValue: string | null;
+  isKey: boolean | null;
+  cacheResults: boolean | null;
+}
+
+/**
+ * A non-empty cell as a sheet snapshot keeps it
+ */
+export interface SnapshotCell {
+  rowIndex: number;
+  colIndex: number;
+  content: string;
+  provenance: CellProvenance | null;
+  confidence: number | null;
+  validation: CellValidation | null;
+}
+
+/**
+ * The cells an agent action touched: whole rows, one whole column, or none
+ * (moving a column only changes the column list)
+ */
+export type AgentActionScope =
+  | { kind: 'rows'; rowIndices: number[] }
+  | { kind: 'column'; colIndex: number }
+  | { kind: 'none' };
+
+/**
+ * The part of a sheet an agent action touched, as it was at some point: the
+ * column list (for actions that change the structure) and every cell in scope
+ */
+export interface AgentActionState {
+  columns: SnapshotColumn[] | null;
+  scope: AgentActionScope;
+  cells: SnapshotCell[];
+}
@@ -23,6 +23,7 @@ import {
   FunctionRegistry,
   CommonFunctionDeclarations,
 } from "../../src/server/operators/function-calling-operator";
+import { getFunctionRegistry } from "../../src/server/operators/function-registry";
 
 async function testFunctionCalling() {
   console.log("🔧 Testing Function Calling Operator\n");
@@ -166,6 +167,36 @@ async function testFunctionCalling() {
   } catch (error) {
     console.error("❌ Error:", error);
   }
+
+  // Test 4: Built-in functions executed server-side until a final answer
+  console.log("Test 4: Built-in functions (extract_regex + parse_date)");
+  console.log(
+    'Prompt: "Find the launch date in this text and return it as YYYY-MM-DD: ..."\n'
+  );
+
+  try {
+    const builtins = getFunctionRegistry();
+    const result = await operator.operation({
+      prompt:
+        "Find the launch date in this text and return it as YYYY-MM-DD only: 'Acme Rocket (order #A-1042) launched on March 5th, 2024 from Cape Canaveral.'",
+      availableFunctions: builtins.getDeclarations(["extract_regex", "parse_date"]),
+    });
+
+    console.log("✅ Success!");
+    console.log(`Requires execution: ${result.requiresExecution}`);
+
+    for (const call of result.executedCalls ?? []) {
+      console.log(`- ${call.name}(${JSON.stringify(call.args)})`);
+      console.log(`  → ${JSON.stringify(call.error ?? call.result)}`);
+    }
+
+    console.log("\nFinal Response:");
+    console.log(result.response);
+
+    console.log("\n" + "=".repeat(80) + "\n");
+  } catch (error) {
+    console.error("❌ Error:", error);
+  }
 }
 
 // Run tests
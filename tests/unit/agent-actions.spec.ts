@@ -0,0 +1,197 @@
+import { test, expect } from '@playwright/test';
+import { and, eq } from 'drizzle-orm';
+import { db } from '@/server/db';
+import { columns, eventQueue, sheetSnapshots, sheetUpdates } from '@/server/db/schema';
+import { leaseExpiry } from '@/server/event-lease';
+import {
+  captureActionState,
+  listAgentActions,
+  recordAgentAction,
+  redoAgentAction,
+  revertAgentTurn,
+  runAgentTurn,
+  snapshotBeforeAgentChange,
+  undoLastAgentAction,
+} from '@/server/agent-actions';
+import { SheetOperationError } from '@/server/sheet-operations';
+import { readSnapshotCells } from '@/server/sheet-snapshots';
+import { createTestSheet, deleteTestSheet, putTestCells, requireTestDatabase, type TestSheet } from './test-db';
+
+test.describe('Agent action undo/redo', () => {
+  requireTestDatabase();
+
+  let sheet: TestSheet;
+
+  test.beforeEach(async () => {
+    sheet = await createTestSheet(['Company', 'Website']);
+    await putTestCells(sheet, [{ rowIndex: 0, colIndex: 0, content: 'Acme' }]);
+  });
+
+  test.afterEach(async () => {
+    await deleteTestSheet(sheet);
+  });
+
+  const contents = async () =>
+    (await readSnapshotCells(sheet.sheetId)).map(cell => `${cell.rowIndex}:${cell.colIndex}=${cell.content}`);
+
+  const columnTitles = async () =>
+    (await db.select({ title: columns.title }).from(columns)
+      .where(eq(columns.sheetId, sheet.sheetId)).orderBy(columns.position)).map(column => column.title);
+
+  /**
+   * What the agent's sheet writer does: capture the rows, write them, record the action
+   */
+  const writeRows = async (values: { rowIndex: number; colIndex: number; content: string }[]) => {
+    const rowIndices = [...new Set(values.map(value => value.rowIndex))];
+    const undoState = await captureActionState(sheet.sheetId, { kind: 'rows', rowIndices }, false);
+    await putTestCells(sheet, values);
+    await recordAgentAction(sheet.sheetId, 'sheetWriterTool', `Wrote rows ${rowIndices.join(', ')}`, undoState);
+  };
+
+  test('undo puts the touched rows back and redo reapplies them', async () => {
+    await writeRows([
+      { rowIndex: 0, colIndex: 1, content: 'acme.com' },
+      { rowIndex: 1, colIndex: 0, content: 'Globex' },
+    ]);
+
+    const undone = await undoLastAgentAction(sheet.sheetId, sheet.userId);
+    expect(undone.status).toBe('undone');
+    expect(await contents()).toEqual(['0:0=Acme']);
+
+    const redone = await redoAgentAction(sheet.sheetId, sheet.userId);
+    expect(redone.status).toBe('applied');
+    expect(await contents()).toEqual(['0:0=Acme', '0:1=acme.com', '1:0=Globex']);
+  });
+
+  test('undoes actions newest first', async () => {
+    await writeRows([{ rowIndex: 0, colIndex: 1, content: 'acme.com' }]);
+    await writeRows([{ rowIndex: 0, colIndex: 1, content: 'acme.example' }]);
+
+    await undoLastAgentAction(sheet.sheetId, sheet.userId);
+    expect(await contents()).toEqual(['0:0=Acme', '0:1=acme.com']);
+
+    await undoLastAgentAction(sheet.sheetId, sheet.userId);
+    expect(await contents()).toEqual(['0:0=Acme']);
+  });
+
+  const queueEvent = (values: Partial<typeof eventQueue.$inferInsert>) =>
+    db.insert(eventQueue).values({
+      sheetId: sheet.sheetId,
+      userId: sheet.userId,
+      eventType: 'robot_cell_update',
+      payload: { rowIndex: 0, colIndex: 0, targetColIndex: 1 },
+      ...values,
+    }).returning({ id: eventQueue.id });
+
+  test('drops processing queued and results not yet applied for the touched rows only', async () => {
+    await writeRows([{ rowIndex: 1, colIndex: 0, content: 'Globex' }]);
+    await queueEvent({ payload: { rowIndex: 1, colIndex: 0, targetColIndex: 1 } });
+    const [untouched] = await queueEvent({ payload: { rowIndex: 0, colIndex: 0, targetColIndex: 1 } });
+    await db.insert(sheetUpdates).values([1, 0].map(rowIndex => ({
+      sheetId: sheet.sheetId,
+      userId: sheet.userId,
+      rowIndex,
+      colIndex: 1,
+      content: `result for row ${rowIndex}`,
+      updateType: 'ai_response',
+    })));
+
+    await undoLastAgentAction(sheet.sheetId, sheet.userId);
+
+    const queued = await db.select({ id: eventQueue.id }).from(eventQueue).where(eq(eventQueue.sheetId, sheet.sheetId));
+    expect(queued).toEqual([untouched]);
+    const unapplied = await db.select({ rowIndex: sheetUpdates.rowIndex }).from(sheetUpdates)
+      .where(and(eq(sheetUpdates.sheetId, sheet.sheetId), eq(sheetUpdates.updateType, 'ai_response')));
+    expect(unapplied).toEqual([{ rowIndex: 0 }]);
+  });
+
+  test('drops processing queued for an undone column, not for the others', async () => {
+    const undoState = await captureActionState(sheet.sheetId, { kind: 'column', colIndex: 2 }, true);
+    await db.insert(columns).values({ sheetId: sheet.sheetId, title: 'CEO', position: 2 });
+    await recordAgentAction(sheet.sheetId, 'columnManagerTool', 'Added column "CEO"', undoState);
+    await queueEvent({ payload: { rowIndex: 0, colIndex: 1, targetColIndex: 2 } });
+    const [untouched] = await queueEvent({ payload: { rowIndex: 0, colIndex: 0, targetColIndex: 1 } });
+
+    await undoLastAgentAction(sheet.sheetId, sheet.userId);
+
+    const queued = await db.select({ id: eventQueue.id }).from(eventQueue).where(eq(eventQueue.sheetId, sheet.sheetId));
+    expect(queued).toEqual([untouched]);
+  });
+
+  test('refuses to undo while an event is being processed', async () => {
+    await writeRows([{ rowIndex: 0, colIndex: 1, content: 'acme.com' }]);
+    await queueEvent({ status: 'processing', lockedBy: 'live-worker', lockedUntil: leaseExpiry() });
+
+    const error = await undoLastAgentAction(sheet.sheetId, sheet.userId).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(SheetOperationError);
+    expect((error as SheetOperationError).status).toBe(409);
+    expect(await contents()).toEqual(['0:0=Acme', '0:1=acme.com']);
+  });
+
+  test('undoes a change to the column structure', async () => {
+    const undoState = await captureActionState(sheet.sheetId, { kind: 'column', colIndex: 2 }, true);
+    await db.insert(columns).values({ sheetId: sheet.sheetId, title: 'CEO', position: 2 });
+    await putTestCells(sheet, [{ rowIndex: 0, colIndex: 2, content: 'Wile E. Coyote' }]);
+    await recordAgentAction(sheet.sheetId, 'columnManagerTool', 'Added column "CEO"', undoState);
+
+    await undoLastAgentAction(sheet.sheetId, sheet.userId);
+
+    expect(await columnTitles()).toEqual(['Company', 'Website']);
+    expect(await contents()).toEqual(['0:0=Acme']);
+  });
+
+  test('a new action clears the redo stack', async () => {
+    await writeRows([{ rowIndex: 0, colIndex: 1, content: 'acme.com' }]);
+    await undoLastAgentAction(sheet.sheetId, sheet.userId);
+    await writeRows([{ rowIndex: 1, colIndex: 0, content: 'Globex' }]);
+
+    const error = await redoAgentAction(sheet.sheetId, sheet.userId).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(SheetOperationError);
+    expect((error as SheetOperationError).status).toBe(404);
+  });
+
+  test('reports when there is nothing to undo', async () => {
+    const error = await undoLastAgentAction(sheet.sheetId, sheet.userId).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(SheetOperationError);
+    expect((error as SheetOperationError).status).toBe(404);
+  });
+
+  test('reverting a chat turn undoes every action taken in it', async () => {
+    await writeRows([{ rowIndex: 0, colIndex: 1, content: 'acme.com' }]);
+    await runAgentTurn('turn-1', async () => {
+      await writeRows([{ rowIndex: 1, colIndex: 0, content: 'Globex' }]);
+      await writeRows([{ rowIndex: 1, colIndex: 1, content: 'globex.com' }]);
+    });
+
+    expect(await revertAgentTurn(sheet.sheetId, sheet.userId, 'turn-1')).toEqual({ actionsUndone: 2 });
+
+    // The action from before the turn stays
+    expect(await contents()).toEqual(['0:0=Acme', '0:1=acme.com']);
+    const actions = await listAgentActions(sheet.sheetId);
+    expect(actions.map(action => [action.turnId, action.status])).toEqual([
+      ['turn-1', 'undone'],
+      ['turn-1', 'undone'],
+      [null, 'applied'],
+    ]);
+  });
+
+  test('snapshots the sheet once per chat turn', async () => {
+    const snapshotNames = async () =>
+      (await db.select({ name: sheetSnapshots.name }).from(sheetSnapshots)
+        .where(eq(sheetSnapshots.sheetId, sheet.sheetId)).orderBy(sheetSnapshots.createdAt)).map(snapshot => snapshot.name);
+
+    await runAgentTurn('turn-1', async () => {
+      await Promise.all([
+        snapshotBeforeAgentChange(sheet.sheetId, 'Before agent wrote 1 rows'),
+        snapshotBeforeAgentChange(sheet.sheetId, 'Before agent added column "CEO"'),
+      ]);
+      await snapshotBeforeAgentChange(sheet.sheetId, 'Before agent cleared rows 0 to 0');
+    });
+    await runAgentTurn('turn-2', () => snapshotBeforeAgentChange(sheet.sheetId, 'Before agent deleted 1 rows'));
+
+    expect(await snapshotNames()).toEqual(['Before agent wrote 1 rows', 'Before agent deleted 1 rows']);
+  });
+});
@@ -0,0 +1,109 @@
+import { test, expect } from '@playwright/test';
+import { eq } from 'drizzle-orm';
+import { db } from '@/server/db';
+import { apiIdempotencyKeys } from '@/server/db/schema';
+import {
+  completeIdempotencyKey,
+  hashRequest,
+  releaseIdempotencyKey,
+  reserveIdempotencyKey,
+} from '@/server/api-idempotency';
+import { createTestApiKey, createTestSheet, deleteTestSheet, requireTestDatabase, type TestSheet } from './test-db';
+
+test.describe('hashRequest', () => {
+  test('tells requests apart by method, path and body', () => {
+    const hash = hashRequest('POST', '/api/v1/sheets/1/rows', { rows: [['Acme']] });
+
+    expect(hashRequest('POST', '/api/v1/sheets/1/rows', { rows: [['Acme']] })).toBe(hash);
+    expect(hashRequest('POST', '/api/v1/sheets/1/rows', { rows: [['Globex']] })).not.toBe(hash);
+    expect(hashRequest('POST', '/api/v1/sheets/2/rows', { rows: [['Acme']] })).not.toBe(hash);
+    expect(hashRequest('PUT', '/api/v1/sheets/1/rows', { rows: [['Acme']] })).not.toBe(hash);
+  });
+});
+
+test.describe('Idempotency keys', () => {
+  requireTestDatabase();
+
+  const requestHash = hashRequest('POST', '/api/v1/sheets/1/rows', { rows: [['Acme']] });
+
+  let sheet: TestSheet;
+  let apiKeyId: string;
+
+  test.beforeEach(async () => {
+    sheet = await createTestSheet();
+    apiKeyId = await createTestApiKey(sheet);
+  });
+
+  test.afterEach(async () => {
+    await deleteTestSheet(sheet);
+  });
+
+  test('reserves a new key', async () => {
+    expect(await reserveIdempotencyKey(apiKeyId, 'batch-1', requestHash)).toMatchObject({ state: 'reserved' });
+  });
+
+  test('reports a retry of a request still running as in progress', async () => {
+    await reserveIdempotencyKey(apiKeyId, 'batch-1', requestHash);
+
+    expect(await reserveIdempotencyKey(apiKeyId, 'batch-1', requestHash)).toEqual({ state: 'in_progress' });
+  });
+
+  test('replays the stored response to a retry', async () => {
+    const reservation = await reserveIdempotencyKey(apiKeyId, 'batch-1', requestHash);
+    if (reservation.state !== 'reserved') throw new Error(`Expected a reservation, got ${reservation.state}`);
+    await completeIdempotencyKey(reservation.id, 201, { rowsAdded: 1 });
+
+    expect(await reserveIdempotencyKey(apiKeyId, 'batch-1', requestHash)).toEqual({
+      state: 'replay',
+      status: 201,
+      body: { rowsAdded: 1 },
+    });
+  });
+
+  test('refuses a different request reusing the key', async () => {
+    await reserveIdempotencyKey(apiKeyId, 'batch-1', requestHash);
+    const otherHash = hashRequest('POST', '/api/v1/sheets/1/rows', { rows: [['Globex']] });
+
+    expect(await reserveIdempotencyKey(apiKeyId, 'batch-1', otherHash)).toEqual({ state: 'mismatch' });
+  });
+
+  test('scopes keys to the API key', async () => {
+    const otherKeyId = await createTestApiKey(sheet);
+    await reserveIdempotencyKey(apiKeyId, 'batch-1', requestHash);
+
+    expect(await reserveIdempotencyKey(otherKeyId, 'batch-1', requestHash)).toMatchObject({ state: 'reserved' });
+  });
+
+  test('frees the key for a retry after a failed request', async () => {
+    const reservation = await reserveIdempotencyKey(apiKeyId, 'batch-1', requestHash);
+    if (reservation.state !== 'reserved') throw new Error(`Expected a reservation, got ${reservation.state}`);
+    await releaseIdempotencyKey(reservation.id);
+
+    expect(await reserveIdempotencyKey(apiKeyId, 'batch-1', requestHash)).toMatchObject({ state: 'reserved' });
+  });
+
+  test('takes over a reservation abandoned by a request that died', async () => {
+    const reservation = await reserveIdempotencyKey(apiKeyId, 'batch-1', requestHash);
+    if (reservation.state !== 'reserved') throw new Error(`Expected a reservation, got ${reservation.state}`);
+    await db
+      .update(apiIdempotencyKeys)
+      .set({ createdAt: new Date(Date.now() - 10 * 60 * 1000) })
+      .where(eq(apiIdempotencyKeys.id, reservation.id));
+
+    const retry = await reserveIdempotencyKey(apiKeyId, 'batch-1', requestHash);
+    expect(retry).toMatchObject({ state: 'reserved' });
+    expect(retry).not.toMatchObject({ id: reservation.id });
+  });
+
+  test('stops replaying a response after a day', async () => {
+    const reservation = await reserveIdempotencyKey(apiKeyId, 'batch-1', requestHash);
+    if (reservation.state !== 'reserved') throw new Error(`Expected a reservation, got ${reservation.state}`);
+    await completeIdempotencyKey(reservation.id, 201, { rowsAdded: 1 });
+    await db
+      .update(apiIdempotencyKeys)
+      .set({ createdAt: new Date(Date.now() - 25 * 60 * 60 * 1000) })
+      .where(eq(apiIdempotencyKeys.id, reservation.id));
+
+    expect(await reserveIdempotencyKey(apiKeyId, 'batch-1', requestHash)).toMatchObject({ state: 'reserved' });
+  });
+});
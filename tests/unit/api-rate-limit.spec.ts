@@ -0,0 +1,78 @@
+import { test, expect } from '@playwright/test';
+import { consumeRequest, consumeRows, dayWindowStart, rateLimitHeaders } from '@/server/api-rate-limit';
+import { createTestApiKey, createTestSheet, deleteTestSheet, requireTestDatabase, type TestSheet } from './test-db';
+
+test.describe('dayWindowStart', () => {
+  test('is UTC midnight of the same day', () => {
+    expect(dayWindowStart(Date.parse('2026-03-14T23:59:59Z')).toISOString()).toBe('2026-03-14T00:00:00.000Z');
+    expect(dayWindowStart(Date.parse('2026-03-15T00:00:00Z')).toISOString()).toBe('2026-03-15T00:00:00.000Z');
+  });
+});
+
+test.describe('rateLimitHeaders', () => {
+  test('adds Retry-After only when limited', () => {
+    const allowed = { allowed: true, limit: 60, remaining: 59, resetSeconds: 30 };
+
+    expect(rateLimitHeaders(allowed)).toEqual({
+      'RateLimit-Limit': '60',
+      'RateLimit-Remaining': '59',
+      'RateLimit-Reset': '30',
+    });
+    expect(rateLimitHeaders({ ...allowed, allowed: false, remaining: 0 })['Retry-After']).toBe('30');
+  });
+});
+
+test.describe('API key counters', () => {
+  requireTestDatabase();
+
+  let sheet: TestSheet;
+  let apiKeyId: string;
+
+  test.beforeEach(async () => {
+    sheet = await createTestSheet();
+    apiKeyId = await createTestApiKey(sheet);
+  });
+
+  test.afterEach(async () => {
+    await deleteTestSheet(sheet);
+  });
+
+  test('allows requests up to the per-minute limit', async () => {
+    const results = [];
+    for (let i = 0; i < 4; i++) {
+      results.push(await consumeRequest(apiKeyId, 3));
+    }
+
+    expect(results.map(result => result.allowed)).toEqual([true, true, true, false]);
+    expect(results.map(result => result.remaining)).toEqual([2, 1, 0, 0]);
+    expect(results[3]!.resetSeconds).toBeGreaterThan(0);
+    expect(results[3]!.resetSeconds).toBeLessThanOrEqual(60);
+  });
+
+  test('counts each key separately', async () => {
+    const otherKeyId = await createTestApiKey(sheet);
+    await consumeRequest(apiKeyId, 1);
+
+    expect((await consumeRequest(otherKeyId, 1)).allowed).toBe(true);
+  });
+
+  test('reserves rows from the daily quota', async () => {
+    const first = await consumeRows(apiKeyId, 6, 10);
+    const second = await consumeRows(apiKeyId, 4, 10);
+
+    expect(first).toMatchObject({ allowed: true, limit: 10, remaining: 4 });
+    expect(second).toMatchObject({ allowed: true, remaining: 0 });
+  });
+
+  test('consumes nothing when the rows do not all fit', async () => {
+    await consumeRows(apiKeyId, 6, 10);
+
+    expect(await consumeRows(apiKeyId, 5, 10)).toMatchObject({ allowed: false, remaining: 4 });
+    // The refused batch left the quota untouched
+    expect(await consumeRows(apiKeyId, 4, 10)).toMatchObject({ allowed: true, remaining: 0 });
+  });
+
+  test('refuses a batch larger than the whole quota', async () => {
+    expect(await consumeRows(apiKeyId, 11, 10)).toMatchObject({ allowed: false, remaining: 10 });
+  });
+});
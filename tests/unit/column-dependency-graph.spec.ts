@@ -0,0 +1,95 @@
+import { test, expect } from '@playwright/test';
+import { ColumnDependencyGraph } from '@/server/operators/column-dependency-graph';
+
+test.describe('ColumnDependencyGraph', () => {
+  test.describe('getReadyColumns', () => {
+    test('falls back to the column on the left without explicit dependencies', () => {
+      const columns = [{ position: 0 }, { position: 1 }, { position: 2 }];
+
+      expect(ColumnDependencyGraph.getReadyColumns(columns, { 0: 'Acme' }, 0)).toEqual([1]);
+      expect(ColumnDependencyGraph.getReadyColumns(columns, { 0: 'Acme', 1: 'acme.com' }, 1)).toEqual([2]);
+    });
+
+    test('readies independent columns together', () => {
+      const columns = [
+        { position: 0 },
+        { position: 1, dependencies: [0] },
+        { position: 2, dependencies: [0] },
+        { position: 3, dependencies: [1, 2] },
+      ];
+
+      expect(ColumnDependencyGraph.getReadyColumns(columns, { 0: 'Acme' }, 0)).toEqual([1, 2]);
+    });
+
+    test('waits until every dependency is filled', () => {
+      const columns = [
+        { position: 0 },
+        { position: 1, dependencies: [0] },
+        { position: 2, dependencies: [0] },
+        { position: 3, dependencies: [1, 2] },
+      ];
+
+      expect(ColumnDependencyGraph.getReadyColumns(columns, { 0: 'Acme', 1: 'acme.com' }, 1)).toEqual([]);
+      expect(ColumnDependencyGraph.getReadyColumns(columns, { 0: 'Acme', 1: 'acme.com', 2: '   ' }, 1)).toEqual([]);
+      expect(ColumnDependencyGraph.getReadyColumns(columns, { 0: 'Acme', 1: 'acme.com', 2: 'Jane' }, 2)).toEqual([3]);
+    });
+
+    test('never readies the input column or the column just written', () => {
+      const columns = [
+        { position: 0, dependencies: [1] },
+        { position: 1, dependencies: [0] },
+      ];
+
+      expect(ColumnDependencyGraph.getReadyColumns(columns, { 0: 'Acme', 1: 'acme.com' }, 1)).toEqual([]);
+    });
+  });
+
+  test.describe('findCycle', () => {
+    test('returns null for an acyclic graph', () => {
+      const columns = [
+        { position: 0 },
+        { position: 1, dependencies: [0] },
+        { position: 2, dependencies: [0, 1] },
+      ];
+
+      expect(ColumnDependencyGraph.findCycle(columns)).toBeNull();
+    });
+
+    test('returns the columns forming a cycle', () => {
+      const columns = [
+        { position: 0 },
+        { position: 1, dependencies: [3] },
+        { position: 2, dependencies: [1] },
+        { position: 3, dependencies: [2] },
+      ];
+
+      expect(ColumnDependencyGraph.findCycle(columns)).toEqual([1, 3, 2, 1]);
+    });
+
+    test('finds a cycle through an implicit dependency on the left', () => {
+      const columns = [{ position: 0 }, { position: 1, dependencies: [2] }, { position: 2 }];
+
+      expect(ColumnDependencyGraph.findCycle(columns)).toEqual([1, 2, 1]);
+    });
+  });
+
+  test.describe('validate', () => {
+    test('rejects a column depending on itself', () => {
+      expect(() => ColumnDependencyGraph.validate([{ position: 0 }, { position: 1, title: 'CEO', dependencies: [1] }]))
+        .toThrow('Column "CEO" cannot depend on itself');
+    });
+
+    test('rejects a dependency on a missing column', () => {
+      expect(() => ColumnDependencyGraph.validate([{ position: 0 }, { position: 1, dependencies: [5] }]))
+        .toThrow('depends on column 5, which does not exist');
+    });
+
+    test('rejects a cycle with the column titles', () => {
+      expect(() => ColumnDependencyGraph.validate([
+        { position: 0, title: 'Company' },
+        { position: 1, title: 'Website', dependencies: [2] },
+        { position: 2, title: 'CEO', dependencies: [1] },
+      ])).toThrow('Column dependencies form a cycle: "Website" → "CEO" → "Website"');
+    });
+  });
+});
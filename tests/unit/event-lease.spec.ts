@@ -0,0 +1,115 @@
+import { test, expect } from '@playwright/test';
+import { eq, inArray } from 'drizzle-orm';
+import { db } from '@/server/db';
+import { eventQueue } from '@/server/db/schema';
+import { RATE_LIMIT_CONFIG } from '@/server/gemini/config';
+import { leaseExpiry, LEASE_DURATION_MS, reapExpiredLeases, retryBackoff } from '@/server/event-lease';
+import { createTestSheet, deleteTestSheet, requireTestDatabase, type TestSheet } from './test-db';
+
+test.describe('retryBackoff', () => {
+  test('doubles the retry delay with each earlier retry', () => {
+    const base = RATE_LIMIT_CONFIG.retryDelay;
+
+    expect([0, 1, 2, 3].map(retryBackoff)).toEqual([base, base * 2, base * 4, base * 8]);
+  });
+});
+
+test.describe('leaseExpiry', () => {
+  test('is a lease duration from now', () => {
+    const now = new Date('2026-01-01T00:00:00Z');
+
+    expect(leaseExpiry(now).getTime()).toBe(now.getTime() + LEASE_DURATION_MS);
+  });
+});
+
+test.describe('reapExpiredLeases', () => {
+  requireTestDatabase();
+
+  let sheet: TestSheet;
+
+  test.beforeEach(async () => {
+    sheet = await createTestSheet();
+  });
+
+  test.afterEach(async () => {
+    await deleteTestSheet(sheet);
+  });
+
+  const insertEvent = async (values: Partial<typeof eventQueue.$inferInsert>) => {
+    const [event] = await db
+      .insert(eventQueue)
+      .values({
+        sheetId: sheet.sheetId,
+        userId: sheet.userId,
+        eventType: 'user_cell_edit',
+        payload: { rowIndex: 0, colIndex: 0 },
+        status: 'processing',
+        lockedBy: 'dead-worker',
+        ...values,
+      })
+      .returning({ id: eventQueue.id });
+    return event!.id;
+  };
+
+  const readEvent = async (id: string) => {
+    const [event] = await db.select().from(eventQueue).where(eq(eventQueue.id, id));
+    return event!;
+  };
+
+  test('requeues events whose lease expired', async () => {
+    const id = await insertEvent({ lockedUntil: new Date(Date.now() - 1000), retryCount: 0 });
+
+    await reapExpiredLeases();
+
+    const event = await readEvent(id);
+    expect(event.status).toBe('pending');
+    expect(event.retryCount).toBe(1);
+    expect(event.lockedBy).toBeNull();
+    expect(event.lockedUntil).toBeNull();
+    expect(event.lastError).toContain('dead-worker');
+  });
+
+  test('treats processing events without a lease as expired', async () => {
+    const id = await insertEvent({ lockedBy: null, lockedUntil: null });
+
+    await reapExpiredLeases();
+
+    expect((await readEvent(id)).status).toBe('pending');
+  });
+
+  test('leaves events with a live lease alone', async () => {
+    const id = await insertEvent({ lockedBy: 'live-worker', lockedUntil: leaseExpiry() });
+
+    await reapExpiredLeases();
+
+    const event = await readEvent(id);
+    expect(event.status).toBe('processing');
+    expect(event.lockedBy).toBe('live-worker');
+  });
+
+  test('fails events that ran out of retries', async () => {
+    const id = await insertEvent({
+      lockedUntil: new Date(Date.now() - 1000),
+      retryCount: RATE_LIMIT_CONFIG.maxRetries,
+    });
+
+    await reapExpiredLeases();
+
+    const event = await readEvent(id);
+    expect(event.status).toBe('failed');
+    expect(event.processedAt).not.toBeNull();
+    expect(event.lastError).toContain('stopped responding');
+  });
+
+  test('does not touch events that are not processing', async () => {
+    const ids = await Promise.all([
+      insertEvent({ status: 'pending', lockedBy: null }),
+      insertEvent({ status: 'completed', lockedUntil: new Date(Date.now() - 1000) }),
+    ]);
+
+    await reapExpiredLeases();
+
+    const events = await db.select().from(eventQueue).where(inArray(eventQueue.id, ids));
+    expect(events.map(event => event.status).sort()).toEqual(['completed', 'pending']);
+  });
+});
@@ -0,0 +1,123 @@
+import { test, expect } from '@playwright/test';
+import { hashInput } from '@/server/operators/operator-cache';
+import { cacheKeyInput, type BaseEvent, type SheetContext } from '@/server/operators/operator-controller';
+import type { OperatorName } from '@/types/operators';
+
+type ContextColumn = SheetContext['columns'][number];
+
+const column = (position: number, title: string, extra: Partial<ContextColumn> = {}): ContextColumn => ({
+  id: `col-${position}`,
+  title,
+  position,
+  dataType: 'text',
+  ...extra,
+});
+
+/**
+ * A cell edit of `content` in column 0 that fills `target`, in a sheet built from `sheet`
+ */
+function cellEvent(content: string, target: ContextColumn, sheet: Partial<SheetContext> = {}): BaseEvent {
+  const columns = [column(0, 'Company'), { ...target, position: 1 }, ...(sheet.columns ?? [])];
+  return {
+    userId: 'user-1',
+    eventId: 'event-1',
+    eventType: 'user_cell_edit',
+    timestamp: new Date(),
+    data: { spreadsheetId: 'sheet-1', rowIndex: 0, columnId: 'col-0', content },
+    sheetContext: {
+      sheetId: 'sheet-1',
+      templateType: null,
+      rowIndex: 0,
+      currentColumnIndex: 0,
+      targetColumnIndex: 1,
+      rowData: { 0: content },
+      retryCount: 0,
+      ...sheet,
+      columns,
+    },
+  };
+}
+
+const keyOf = (operatorName: OperatorName, event: BaseEvent, input: unknown = {}) =>
+  hashInput(operatorName, cacheKeyInput(event, operatorName, input));
+
+test.describe('Operator cache keys', () => {
+  const ceo = column(1, 'CEO');
+
+  test('ignore the sheet around the search', () => {
+    const inOneSheet = cellEvent('Acme Corp', ceo);
+    const inAnother = cellEvent('Acme Corp', ceo, {
+      sheetId: 'sheet-2',
+      systemPrompt: 'Research B2B leads',
+      templateType: 'marketing',
+      columns: [column(2, 'Funding'), column(3, 'Headcount')],
+    });
+
+    expect(keyOf('google_search', inAnother)).toBe(keyOf('google_search', inOneSheet));
+  });
+
+  test('depend on the row values the target column reads', () => {
+    const website = column(1, 'Website', { dependencies: [0, 2] });
+    const inRow = (rowData: Record<number, string>) =>
+      keyOf('google_search', cellEvent('Acme', website, { columns: [column(2, 'City')], rowData }));
+
+    expect(inRow({ 0: 'Acme', 2: 'Berlin' })).not.toBe(inRow({ 0: 'Acme', 2: 'Denver' }));
+    // Columns it doesn't read stay out of the key
+    expect(inRow({ 0: 'Acme', 2: 'Berlin', 3: '500' })).toBe(inRow({ 0: 'Acme', 2: 'Berlin' }));
+  });
+
+  test('tell apart the rows of a column reprocess', () => {
+    const reprocess = (company: string) =>
+      keyOf('google_search', cellEvent('reprocess_trigger', ceo, { rowData: { 0: company } }));
+
+    expect(reprocess('Globex')).not.toBe(reprocess('Acme Corp'));
+  });
+
+  test('ignore case, whitespace and query prefixes in searches', () => {
+    expect(keyOf('google_search', cellEvent('search:  ACME   corp ', ceo)))
+      .toBe(keyOf('google_search', cellEvent('Acme Corp', ceo)));
+  });
+
+  test("depend on the target column's goal", () => {
+    const search = keyOf('google_search', cellEvent('Acme Corp', ceo));
+
+    expect(keyOf('google_search', cellEvent('Acme Corp', column(1, 'CFO')))).not.toBe(search);
+    expect(keyOf('google_search', cellEvent('Acme Corp', column(1, 'CEO', { prompt: 'Full name only' })))).not.toBe(search);
+    expect(keyOf('google_search', cellEvent('Acme Corp', column(1, 'CEO', { dataType: 'url' })))).not.toBe(search);
+  });
+
+  test('depend on the answer to a clarification', () => {
+    const answered = cellEvent('Acme', ceo, {
+      clarification: { question: 'Which Acme?', answer: 'Acme Corp, Delaware' },
+    });
+
+    expect(keyOf('google_search', answered)).not.toBe(keyOf('google_search', cellEvent('Acme', ceo)));
+  });
+
+  test('ignore the order and repeats of URLs and the sheet prompt built around them', () => {
+    const summary = column(1, 'Summary');
+    const urls = ['https://b.example.com', 'https://a.example.com', 'https://b.example.com'];
+
+    expect(keyOf('url_context', cellEvent('x', summary), { urls, extractionPrompt: 'COLUMN STRUCTURE: sheet 1' }))
+      .toBe(keyOf('url_context', cellEvent('x', summary, { systemPrompt: 'Other goal' }), {
+        urls: ['https://a.example.com', 'https://b.example.com'],
+        extractionPrompt: 'COLUMN STRUCTURE: sheet 2',
+      }));
+  });
+
+  test('depend on the data and schema of a structured extraction', () => {
+    const event = cellEvent('x', column(1, 'Details'));
+    const key = keyOf('structured_output', event, { rawData: 'Company: Acme', outputSchema: { type: 'object' }, prompt: 'sheet 1' });
+
+    expect(keyOf('structured_output', event, { rawData: 'Company: Acme', outputSchema: { type: 'object' }, prompt: 'sheet 2' })).toBe(key);
+    expect(keyOf('structured_output', event, { rawData: 'Company: Globex', outputSchema: { type: 'object' } })).not.toBe(key);
+    expect(keyOf('structured_output', event, { rawData: 'Company: Acme', outputSchema: { type: 'array' } })).not.toBe(key);
+  });
+
+  test('fall back to the whole input without sheet context', () => {
+    const event = { ...cellEvent('Acme', ceo), sheetContext: undefined };
+
+    expect(keyOf('google_search', event, { query: 'ACME  Corp', maxResults: 10 }))
+      .toBe(hashInput('google_search', { maxResults: 10, query: 'acme corp' }));
+  });
+});
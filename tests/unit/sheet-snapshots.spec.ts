@@ -0,0 +1,107 @@
+import { test, expect } from '@playwright/test';
+import { and, eq } from 'drizzle-orm';
+import { db } from '@/server/db';
+import { columns, eventQueue, sheetSnapshots, sheetUpdates } from '@/server/db/schema';
+import { leaseExpiry } from '@/server/event-lease';
+import { SheetOperationError } from '@/server/sheet-operations';
+import { createSnapshot, readSnapshotCells, restoreSnapshot } from '@/server/sheet-snapshots';
+import { createTestSheet, deleteTestSheet, putTestCells, requireTestDatabase, type TestSheet } from './test-db';
+
+test.describe('restoreSnapshot', () => {
+  requireTestDatabase();
+
+  let sheet: TestSheet;
+
+  test.beforeEach(async () => {
+    sheet = await createTestSheet(['Company', 'Website']);
+    await putTestCells(sheet, [
+      { rowIndex: 0, colIndex: 0, content: 'Acme' },
+      { rowIndex: 0, colIndex: 1, content: 'acme.com' },
+    ]);
+  });
+
+  test.afterEach(async () => {
+    await deleteTestSheet(sheet);
+  });
+
+  const contents = async () =>
+    (await readSnapshotCells(sheet.sheetId)).map(cell => `${cell.rowIndex}:${cell.colIndex}=${cell.content}`);
+
+  const queueEvent = (values: Partial<typeof eventQueue.$inferInsert>) =>
+    db.insert(eventQueue).values({
+      sheetId: sheet.sheetId,
+      userId: sheet.userId,
+      eventType: 'user_cell_edit',
+      payload: { rowIndex: 1, colIndex: 0 },
+      ...values,
+    });
+
+  test('puts back the columns and cells the snapshot kept', async () => {
+    const snapshot = await createSnapshot(sheet.sheetId, sheet.userId, 'Original');
+    await putTestCells(sheet, [
+      { rowIndex: 0, colIndex: 1, content: 'acme.example' },
+      { rowIndex: 1, colIndex: 0, content: 'Globex' },
+    ]);
+    await db.update(columns).set({ title: 'Domain' }).where(and(eq(columns.sheetId, sheet.sheetId), eq(columns.position, 1)));
+
+    const result = await restoreSnapshot(sheet.sheetId, sheet.userId, snapshot.id);
+
+    expect(result.cellsChanged).toBe(2);
+    expect(await contents()).toEqual(['0:0=Acme', '0:1=acme.com']);
+    const restoredColumns = await db.select({ title: columns.title }).from(columns)
+      .where(eq(columns.sheetId, sheet.sheetId)).orderBy(columns.position);
+    expect(restoredColumns.map(column => column.title)).toEqual(['Company', 'Website']);
+  });
+
+  test('snapshots the sheet first and records the changes as reverts', async () => {
+    const snapshot = await createSnapshot(sheet.sheetId, sheet.userId, 'Original');
+    await putTestCells(sheet, [{ rowIndex: 0, colIndex: 1, content: 'acme.example' }]);
+
+    await restoreSnapshot(sheet.sheetId, sheet.userId, snapshot.id);
+
+    const [before] = await db.select().from(sheetSnapshots)
+      .where(and(eq(sheetSnapshots.sheetId, sheet.sheetId), eq(sheetSnapshots.trigger, 'before_restore')));
+    expect(before?.cells.map(cell => cell.content)).toContain('acme.example');
+
+    const reverts = await db.select().from(sheetUpdates)
+      .where(and(eq(sheetUpdates.sheetId, sheet.sheetId), eq(sheetUpdates.updateType, 'revert')));
+    expect(reverts).toMatchObject([{ rowIndex: 0, colIndex: 1, previousContent: 'acme.example', content: 'acme.com' }]);
+  });
+
+  test('drops queued processing and results not yet applied', async () => {
+    const snapshot = await createSnapshot(sheet.sheetId, sheet.userId, 'Original');
+    await queueEvent({ status: 'pending' });
+    // A worker that died mid-event: the reaper would otherwise requeue it
+    await queueEvent({ status: 'processing', lockedBy: 'dead-worker', lockedUntil: new Date(Date.now() - 1000) });
+    await db.insert(sheetUpdates).values({
+      sheetId: sheet.sheetId,
+      userId: sheet.userId,
+      rowIndex: 0,
+      colIndex: 1,
+      content: 'stale result',
+      updateType: 'ai_response',
+    });
+
+    await restoreSnapshot(sheet.sheetId, sheet.userId, snapshot.id);
+
+    expect(await db.select().from(eventQueue).where(eq(eventQueue.sheetId, sheet.sheetId))).toEqual([]);
+    const unapplied = await db.select().from(sheetUpdates)
+      .where(and(eq(sheetUpdates.sheetId, sheet.sheetId), eq(sheetUpdates.content, 'stale result')));
+    expect(unapplied).toEqual([]);
+  });
+
+  test('refuses while an event is being processed', async () => {
+    const snapshot = await createSnapshot(sheet.sheetId, sheet.userId, 'Original');
+    await putTestCells(sheet, [{ rowIndex: 0, colIndex: 1, content: 'acme.example' }]);
+    await queueEvent({ status: 'processing', lockedBy: 'live-worker', lockedUntil: leaseExpiry() });
+
+    const error = await restoreSnapshot(sheet.sheetId, sheet.userId, snapshot.id).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(SheetOperationError);
+    expect((error as SheetOperationError).status).toBe(409);
+    expect(await contents()).toEqual(['0:0=Acme', '0:1=acme.example']);
+    // Nothing was restored, so there's nothing to undo it with
+    const snapshots = await db.select().from(sheetSnapshots).where(eq(sheetSnapshots.sheetId, sheet.sheetId));
+    expect(snapshots).toHaveLength(1);
+  });
+});
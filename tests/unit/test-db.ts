@@ -0,0 +1,95 @@
+/**
+ * Database for the unit specs that need one
+ *
+ * `pnpm test:unit` connects @/server/db to TEST_DATABASE_URL: a disposable
+ * database with the schema pushed (`DATABASE_URL=$TEST_DATABASE_URL pnpm db:push`).
+ * Each spec creates its own user and sheet and deletes them afterwards.
+ * Without TEST_DATABASE_URL (or when run with any other DATABASE_URL) those
+ * specs are skipped.
+ */
+
+import { test } from '@playwright/test';
+import { eq, sql } from 'drizzle-orm';
+import { db } from '@/server/db';
+import { apiKeys, cells, columns, sheets, users } from '@/server/db/schema';
+
+export const hasTestDatabase =
+  !!process.env.TEST_DATABASE_URL && process.env.TEST_DATABASE_URL === process.env.DATABASE_URL;
+
+/**
+ * Skip the enclosing describe block unless the test database is configured
+ */
+export function requireTestDatabase(): void {
+  test.skip(!hasTestDatabase, 'Set TEST_DATABASE_URL to run database specs');
+}
+
+export interface TestSheet {
+  userId: string;
+  sheetId: string;
+}
+
+/**
+ * A user with one sheet, optionally with columns (titled by position)
+ */
+export async function createTestSheet(columnTitles: string[] = []): Promise<TestSheet> {
+  const [user] = await db
+    .insert(users)
+    .values({ email: `test-${crypto.randomUUID()}@example.com`, name: 'Test User' })
+    .returning({ id: users.id });
+  const [sheet] = await db
+    .insert(sheets)
+    .values({ userId: user!.id, name: 'Test sheet' })
+    .returning({ id: sheets.id });
+
+  if (columnTitles.length > 0) {
+    await db.insert(columns).values(columnTitles.map((title, position) => ({
+      sheetId: sheet!.id,
+      title,
+      position,
+    })));
+  }
+
+  return { userId: user!.id, sheetId: sheet!.id };
+}
+
+/**
+ * Write cells as the test sheet's user, replacing what they held
+ */
+export async function putTestCells(
+  { userId, sheetId }: TestSheet,
+  values: { rowIndex: number; colIndex: number; content: string }[]
+): Promise<void> {
+  await db
+    .insert(cells)
+    .values(values.map(value => ({ ...value, sheetId, userId })))
+    .onConflictDoUpdate({
+      target: [cells.sheetId, cells.rowIndex, cells.colIndex],
+      set: { content: sql`excluded.content` },
+    });
+}
+
+/**
+ * Delete a test sheet (its rows in other tables cascade) and its user
+ */
+export async function deleteTestSheet({ userId, sheetId }: TestSheet): Promise<void> {
+  await db.delete(sheets).where(eq(sheets.id, sheetId));
+  await db.delete(users).where(eq(users.id, userId));
+}
+
+/**
+ * An API key for the test sheet's user (deleted with the user)
+ */
+export async function createTestApiKey({ userId }: TestSheet): Promise<string> {
+  const [key] = await db
+    .insert(apiKeys)
+    .values({
+      userId,
+      name: 'Test key',
+      prefix: 'test',
+      keyHash: crypto.randomUUID().replace(/-/g, ''),
+      scopes: ['read', 'write_rows'],
+    })
+    .returning({ id: apiKeys.id });
+
+  return key!.id;
+}